@@ -2,7 +2,8 @@ import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
-import { AuthProvider } from "./hooks/use-auth";
+import { AuthProvider, useAuth } from "./hooks/use-auth";
+import { useLiveUpdates } from "./hooks/use-live-updates";
 import { ProtectedRoute } from "./lib/protected-route";
 import { UserRole } from "./lib/types";
 
@@ -21,11 +22,10 @@ import CricketTossPage from "@/pages/cricket-toss-page";
 import AdminCricketTossPage from "@/pages/admin-cricket-toss-page";
 import MarketListPage from "@/pages/market-list-page";
 import SatamatkaGamePage from "@/pages/satamatka-game-page";
-// Team Match pages removed
+import TeamMatchesPage from "@/pages/team-matches-page";
 // Cricket Toss pages removed
 import AdminMarketManagementPage from "@/pages/admin-market-management-page";
-// Admin Team Match page removed
-// Risk Management and Jantri Management pages removed for simplification
+import AdminTeamMatchesPage from "@/pages/admin-team-matches-page";
 import WalletPage from "@/pages/wallet-page";
 import AdminSettingsPage from "@/pages/admin-settings-page";
 import SubadminSettingsPage from "@/pages/subadmin-settings-page";
@@ -36,6 +36,7 @@ import SettingsRouter from "@/pages/settings-router";
 import UserDetailsPage from "@/pages/user-details-page";
 import ResetZonePage from "@/pages/reset-zone-page";
 import RiskManagementPage from "@/pages/risk-management-page";
+import JantriManagementPage from "@/pages/jantri-management-page";
 import ResultsPage from "@/pages/results-page";
 
 function Router() {
@@ -65,7 +66,6 @@ function Router() {
         component={GameHistoryPage} 
         allowedRoles={[UserRole.PLAYER]}
       />
-      {/* Risk management and jantri management routes removed for simplification */}
       <ProtectedRoute 
         path="/fund-management" 
         component={FundManagementPage}
@@ -101,6 +101,11 @@ function Router() {
         component={AdminMarketManagementPage} 
         allowedRoles={[UserRole.ADMIN]}
       />
+      <ProtectedRoute
+        path="/manage-matches"
+        component={AdminTeamMatchesPage}
+        allowedRoles={[UserRole.ADMIN]}
+      />
       <ProtectedRoute 
         path="/admin-cricket-toss" 
         component={AdminCricketTossPage} 
@@ -120,6 +125,11 @@ function Router() {
         component={RiskManagementPage} 
         allowedRoles={[UserRole.ADMIN, UserRole.SUBADMIN]}
       />
+      <ProtectedRoute 
+        path="/jantri" 
+        component={JantriManagementPage} 
+        allowedRoles={[UserRole.ADMIN, UserRole.SUBADMIN]}
+      />
       
       {/* Settings routes - uses a dedicated router component */}
       <ProtectedRoute 
@@ -144,7 +154,11 @@ function Router() {
         component={SatamatkaGamePage}
         allowedRoles={[UserRole.PLAYER]} 
       />
-      {/* Sports/Team Match route removed */}
+      <ProtectedRoute
+        path="/sports"
+        component={TeamMatchesPage}
+        allowedRoles={[UserRole.PLAYER]}
+      />
       {/* Cricket Toss Player route removed */}
       
       {/* New player pages - games and profile */}
@@ -176,10 +190,18 @@ function Router() {
   );
 }
 
+// Refreshes cached data from the server's live updates while logged in
+function LiveUpdates() {
+  const { user } = useAuth();
+  useLiveUpdates(user?.id ?? null);
+  return null;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
+        <LiveUpdates />
         <Router />
         <Toaster />
       </AuthProvider>
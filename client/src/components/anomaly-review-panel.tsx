@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { AnomalyStatus, AnomalyType } from "@shared/schema";
+import { formatRupees } from "@shared/money";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import {
+  useGetAnomalyFindings,
+  useReviewAnomalyFinding,
+  useRunAnomalyScan,
+} from "@/lib/api.generated";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, ScanSearch } from "lucide-react";
+
+const TYPE_LABELS: Record<AnomalyType, string> = {
+  [AnomalyType.COORDINATED_BETS]: "Coordinated bets",
+  [AnomalyType.SHARED_PAYMENT_DETAILS]: "Shared withdrawal account",
+  [AnomalyType.WIN_RATE_OUTLIER]: "Win rate outlier",
+};
+
+type StatusFilter = AnomalyStatus | "all";
+
+function invalidateAnomalies() {
+  queryClient.invalidateQueries({ queryKey: ["/api/risk/anomalies"] });
+}
+
+/**
+ * Admin review queue of the patterns the anomaly scan found, with the users,
+ * bets and withdrawal requests behind each one
+ */
+export default function AnomalyReviewPanel() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<StatusFilter>(AnomalyStatus.OPEN);
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const { data: findings = [], isLoading } = useGetAnomalyFindings({ query: { status } });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const scan = useRunAnomalyScan({
+    onSuccess: (result) => {
+      invalidateAnomalies();
+      toast({ title: "Scan finished", description: `${result.written} findings written to the queue` });
+    },
+    onError,
+  });
+  const review = useReviewAnomalyFinding({ onSuccess: invalidateAnomalies, onError });
+
+  const handleReview = (id: number, outcome: typeof AnomalyStatus.CONFIRMED | typeof AnomalyStatus.DISMISSED) => {
+    review.mutate({ params: { id }, body: { status: outcome, note: notes[id] || undefined } });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ScanSearch className="h-5 w-5" />
+            Anomaly Review
+          </CardTitle>
+          <CardDescription>
+            Bets and withdrawals are scanned every hour for accounts betting the same jodi within seconds, players
+            under one subadmin withdrawing to the same account, and win rates far above what the odds allow.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3 md:flex-row">
+          <Select value={status} onValueChange={(value) => setStatus(value as StatusFilter)}>
+            <SelectTrigger className="md:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AnomalyStatus.OPEN}>Open</SelectItem>
+              <SelectItem value={AnomalyStatus.CONFIRMED}>Confirmed</SelectItem>
+              <SelectItem value={AnomalyStatus.DISMISSED}>Dismissed</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" disabled={scan.isPending} onClick={() => scan.mutate({})}>
+            {scan.isPending ? "Scanning..." : "Scan now"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : findings.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nothing in the queue.</p>
+      ) : (
+        findings.map(finding => {
+          const usernames = new Map(finding.users.map(user => [user.id, user.username]));
+          return (
+            <Card key={finding.id}>
+              <CardHeader className="pb-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">{TYPE_LABELS[finding.findingType as AnomalyType] ?? finding.findingType}</Badge>
+                  <Badge variant={finding.status === AnomalyStatus.OPEN ? "destructive" : "secondary"}>{finding.status}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    Score {finding.score} · last seen {new Date(finding.lastSeenAt).toLocaleString()}
+                  </span>
+                </div>
+                <CardTitle className="text-base">{finding.summary}</CardTitle>
+                {(finding.subadminName || finding.marketName) && (
+                  <CardDescription>
+                    {[finding.marketName && `Market: ${finding.marketName}`, finding.subadminName && `Subadmin: ${finding.subadminName}`]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </CardDescription>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <span className="text-muted-foreground">Players:</span>
+                  {finding.users.map(user => (
+                    <Link key={user.id} href={`/users/${user.id}`} className="text-primary underline-offset-2 hover:underline">
+                      {user.username}
+                    </Link>
+                  ))}
+                </div>
+
+                {finding.bets.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Bet</TableHead>
+                        <TableHead>Player</TableHead>
+                        <TableHead>Prediction</TableHead>
+                        <TableHead className="text-right">Stake</TableHead>
+                        <TableHead className="text-right">Payout</TableHead>
+                        <TableHead>Placed</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {finding.bets.map(bet => (
+                        <TableRow key={bet.id}>
+                          <TableCell>#{bet.id}</TableCell>
+                          <TableCell>
+                            <Link href={`/users/${bet.userId}`} className="text-primary hover:underline">
+                              {usernames.get(bet.userId) ?? `#${bet.userId}`}
+                            </Link>
+                          </TableCell>
+                          <TableCell>{bet.prediction}</TableCell>
+                          <TableCell className="text-right">{formatRupees(bet.betAmount)}</TableCell>
+                          <TableCell className="text-right">{bet.result ? formatRupees(bet.payout) : "—"}</TableCell>
+                          <TableCell>{bet.createdAt ? new Date(bet.createdAt).toLocaleString() : "—"}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                {finding.walletRequests.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Withdrawal</TableHead>
+                        <TableHead>Player</TableHead>
+                        <TableHead>Mode</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Requested</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {finding.walletRequests.map(request => (
+                        <TableRow key={request.id}>
+                          <TableCell>#{request.id}</TableCell>
+                          <TableCell>
+                            <Link href={`/users/${request.userId}`} className="text-primary hover:underline">
+                              {usernames.get(request.userId) ?? `#${request.userId}`}
+                            </Link>
+                          </TableCell>
+                          <TableCell className="uppercase">{request.paymentMode}</TableCell>
+                          <TableCell className="text-right">{formatRupees(request.amount)}</TableCell>
+                          <TableCell>{request.status}</TableCell>
+                          <TableCell>{request.createdAt ? new Date(request.createdAt).toLocaleString() : "—"}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                {finding.status === AnomalyStatus.OPEN ? (
+                  <div className="flex flex-col gap-2 md:flex-row">
+                    <Input
+                      value={notes[finding.id] ?? ""}
+                      onChange={(e) => setNotes({ ...notes, [finding.id]: e.target.value })}
+                      placeholder="Review note (optional)"
+                      maxLength={500}
+                    />
+                    <Button
+                      variant="destructive"
+                      disabled={review.isPending}
+                      onClick={() => handleReview(finding.id, AnomalyStatus.CONFIRMED)}
+                    >
+                      Confirm
+                    </Button>
+                    <Button
+                      variant="outline"
+                      disabled={review.isPending}
+                      onClick={() => handleReview(finding.id, AnomalyStatus.DISMISSED)}
+                    >
+                      Dismiss
+                    </Button>
+                  </div>
+                ) : (
+                  finding.reviewedAt && (
+                    <p className="text-sm text-muted-foreground">
+                      Reviewed {new Date(finding.reviewedAt).toLocaleString()}
+                      {finding.reviewNote ? `: ${finding.reviewNote}` : ""}
+                    </p>
+                  )
+                )}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { GameType } from "@shared/schema";
+import { paisaToRupees, rupeesToPaisa } from "@shared/money";
+import type { BetLimitScope } from "@shared/api-contracts";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { useGetBetLimits, useSaveBetLimits } from "@/lib/api.generated";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+
+type LimitKey = "minStake" | "maxStake" | "dailyStakeCap" | "maxNumberLiability";
+type LimitGameType = BetLimitScope["limits"][number]["gameType"];
+
+const GAME_LABELS: Record<LimitGameType, string> = {
+  [GameType.SATAMATKA]: "Satamatka",
+  [GameType.CRICKET_TOSS]: "Cricket Toss",
+  [GameType.TEAM_MATCH]: "Team Match",
+  [GameType.MATCH_MARKET]: "Match Market",
+  [GameType.COIN_FLIP]: "Coin Flip",
+};
+
+const LIMIT_COLUMNS: Array<{ key: LimitKey; label: string }> = [
+  { key: "minStake", label: "Min stake" },
+  { key: "maxStake", label: "Max stake" },
+  { key: "dailyStakeCap", label: "Daily cap per player" },
+  { key: "maxNumberLiability", label: "Max payout per number" },
+];
+
+// Form values are rupee strings; an empty field leaves the limit unset
+type LimitDraft = Record<LimitGameType, Record<LimitKey, string>>;
+
+function toField(paisa: number | null): string {
+  return paisa === null ? "" : paisaToRupees(paisa).toString();
+}
+
+function fromField(value: string): number | null {
+  return value.trim() === "" ? null : rupeesToPaisa(Number(value));
+}
+
+function toDraft(scope: BetLimitScope): LimitDraft {
+  const draft = {} as LimitDraft;
+  for (const limit of scope.limits) {
+    draft[limit.gameType] = {
+      minStake: toField(limit.minStake),
+      maxStake: toField(limit.maxStake),
+      dailyStakeCap: toField(limit.dailyStakeCap),
+      maxNumberLiability: toField(limit.maxNumberLiability),
+    };
+  }
+  return draft;
+}
+
+/**
+ * Edit the bet limits at one level: the global limits when `subadminId` is
+ * null, else the limits a subadmin sets for their own players, which can
+ * only be stricter than the global ones.
+ */
+export default function BetLimitsForm({ subadminId }: { subadminId: number | null }) {
+  const { toast } = useToast();
+  const { data, isLoading } = useGetBetLimits({ query: subadminId === null ? {} : { subadminId } });
+  const [draft, setDraft] = useState<LimitDraft | null>(null);
+  const [maxExposure, setMaxExposure] = useState("");
+
+  const scope = subadminId === null ? data?.global : data?.subadmin;
+
+  useEffect(() => {
+    if (scope) {
+      setDraft(toDraft(scope));
+      setMaxExposure(toField(scope.maxExposure));
+    }
+  }, [data]);
+
+  const saveLimits = useSaveBetLimits({
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bet-limits"] });
+      toast({ title: "Bet limits saved", description: "New bets are checked against these limits" });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !scope || !draft) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  // The admin's value a subadmin's limit has to stay within
+  const globalValue = (gameType: LimitGameType, key: LimitKey) => {
+    if (subadminId === null || !data) return null;
+    return data.global.limits.find(limit => limit.gameType === gameType)?.[key] ?? null;
+  };
+
+  const updateField = (gameType: LimitGameType, key: LimitKey, value: string) => {
+    setDraft(current => current && { ...current, [gameType]: { ...current[gameType], [key]: value } });
+  };
+
+  const handleSave = () => {
+    saveLimits.mutate({
+      body: {
+        subadminId,
+        limits: scope.limits.map(({ gameType }) => ({
+          gameType,
+          minStake: fromField(draft[gameType].minStake),
+          maxStake: fromField(draft[gameType].maxStake),
+          dailyStakeCap: fromField(draft[gameType].dailyStakeCap),
+          maxNumberLiability: gameType === GameType.SATAMATKA ? fromField(draft[gameType].maxNumberLiability) : null,
+        })),
+        maxExposure: fromField(maxExposure),
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Amounts in rupees. Leave a field empty for no limit.
+        {subadminId !== null && " These limits apply to your players on top of the platform limits and can only be stricter."}
+      </p>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Game</TableHead>
+            {LIMIT_COLUMNS.map(column => (
+              <TableHead key={column.key}>{column.label}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {scope.limits.map(({ gameType }) => (
+            <TableRow key={gameType}>
+              <TableCell className="font-medium">{GAME_LABELS[gameType]}</TableCell>
+              {LIMIT_COLUMNS.map(column => {
+                const platformValue = globalValue(gameType, column.key);
+                return (
+                  <TableCell key={column.key}>
+                    {column.key === "maxNumberLiability" && gameType !== GameType.SATAMATKA ? (
+                      <span className="text-muted-foreground">—</span>
+                    ) : (
+                      <div className="space-y-1">
+                        <Input
+                          type="number"
+                          min={0}
+                          value={draft[gameType][column.key]}
+                          onChange={(e) => updateField(gameType, column.key, e.target.value)}
+                          className="h-8 w-28"
+                        />
+                        {platformValue !== null && (
+                          <p className="text-xs text-muted-foreground">Platform: ₹{paisaToRupees(platformValue)}</p>
+                        )}
+                      </div>
+                    )}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className="space-y-1 max-w-xs">
+        <Label htmlFor="max-exposure">
+          {subadminId === null ? "Exposure cap per subadmin" : "Exposure cap"}
+        </Label>
+        <Input
+          id="max-exposure"
+          type="number"
+          min={0}
+          value={maxExposure}
+          onChange={(e) => setMaxExposure(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">
+          Most the unsettled bets of a subadmin's players may pay out in total
+          {data?.global.maxExposure != null && subadminId !== null && ` (platform: ₹${paisaToRupees(data.global.maxExposure)})`}
+        </p>
+      </div>
+
+      <Button onClick={handleSave} disabled={saveLimits.isPending}>
+        {saveLimits.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Save Limits
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { GameType } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { useGetCoinFlipSeeds, useGetMyGameHistory, useSetCoinFlipClientSeed } from "@/lib/api.generated";
+import { coinFlipFairnessOf, verifyCoinFlip, type CoinFlipVerification } from "@/lib/provably-fair";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ShieldCheck } from "lucide-react";
+
+// How many past flips the panel lists
+const RECENT_FLIPS = 10;
+
+function shortHash(hash: string) {
+  return `${hash.slice(0, 10)}…`;
+}
+
+/**
+ * Shows the commitment for the player's next coin flip, lets them choose
+ * their client seed, and recomputes past flips in the browser.
+ */
+export default function CoinFlipFairnessPanel() {
+  const { toast } = useToast();
+  const [clientSeed, setClientSeed] = useState("");
+  const [verifications, setVerifications] = useState<Record<number, CoinFlipVerification>>({});
+
+  const { data: seeds } = useGetCoinFlipSeeds();
+  const { data: games = [] } = useGetMyGameHistory();
+
+  useEffect(() => {
+    if (seeds) setClientSeed(seeds.clientSeed);
+  }, [seeds?.clientSeed]);
+
+  const saveClientSeed = useSetCoinFlipClientSeed({
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/games/coin-flip/seeds"] });
+      toast({ title: "Client seed updated", description: "Your next flips use the new seed" });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const flips = games
+    .filter(game => game.gameType === GameType.COIN_FLIP && coinFlipFairnessOf(game.gameData))
+    .slice(0, RECENT_FLIPS);
+
+  const handleVerify = async (gameId: number, gameData: unknown) => {
+    const fairness = coinFlipFairnessOf(gameData);
+    if (!fairness) return;
+    const verification = await verifyCoinFlip(fairness);
+    setVerifications(current => ({ ...current, [gameId]: verification }));
+  };
+
+  return (
+    <Card className="bg-card rounded-xl border border-border mb-8">
+      <CardHeader>
+        <CardTitle className="text-base font-medium flex items-center">
+          <ShieldCheck className="h-4 w-4 mr-2 text-green-500" />
+          Provably Fair
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4 text-sm">
+        <div className="space-y-1">
+          <Label>Next server seed (SHA-256)</Label>
+          <p className="font-mono text-xs break-all text-muted-foreground">{seeds?.serverSeedHash ?? "…"}</p>
+        </div>
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="client-seed">Client seed</Label>
+            <Input
+              id="client-seed"
+              value={clientSeed}
+              onChange={(e) => setClientSeed(e.target.value)}
+              className="font-mono text-xs h-8"
+            />
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!clientSeed || clientSeed === seeds?.clientSeed || saveClientSeed.isPending}
+            onClick={() => saveClientSeed.mutate({ body: { clientSeed } })}
+          >
+            Save
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">Next nonce: {seeds?.nonce ?? "…"}</p>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Nonce</TableHead>
+              <TableHead>Result</TableHead>
+              <TableHead>Server seed hash</TableHead>
+              <TableHead className="text-right">Check</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {flips.map(game => {
+              const fairness = coinFlipFairnessOf(game.gameData)!;
+              const verification = verifications[game.id];
+              const verified = verification && verification.hashMatches && verification.outcome === game.result;
+
+              return (
+                <TableRow key={game.id}>
+                  <TableCell>{fairness.nonce}</TableCell>
+                  <TableCell className="capitalize">{game.result}</TableCell>
+                  <TableCell className="font-mono text-xs" title={`Server seed: ${fairness.serverSeed}\nClient seed: ${fairness.clientSeed}`}>
+                    {shortHash(fairness.serverSeedHash)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {verification ? (
+                      <Badge variant={verified ? "default" : "destructive"}>
+                        {verified ? "Verified" : "Mismatch"}
+                      </Badge>
+                    ) : (
+                      <Button size="sm" variant="ghost" className="h-7" onClick={() => handleVerify(game.id, game.gameData)}>
+                        Verify
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {flips.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">
+                  No provably fair flips yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
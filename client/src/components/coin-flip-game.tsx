@@ -157,6 +157,8 @@ export default function CoinFlipGame() {
         
         // Invalidate game history query to refresh the last results display
         queryClient.invalidateQueries({ queryKey: ["/api/games/my-history"] });
+        // The next flip is committed to a fresh server seed
+        queryClient.invalidateQueries({ queryKey: ["/api/games/coin-flip/seeds"] });
         
         setWalletUpdating(false);
         
@@ -1,10 +1,12 @@
 import { ReactNode } from "react";
 import Sidebar from "@/components/sidebar";
 import MobileNav from "@/components/mobile-nav";
+import RiskAlertsBell from "@/components/risk-alerts-bell";
 import { useAuth } from "@/hooks/use-auth";
 import { Wallet, LogOut, User as UserIcon } from "lucide-react";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useLocation } from "wouter";
+import { UserRole } from "@shared/schema";
 import { 
   DropdownMenu,
   DropdownMenuContent,
@@ -42,6 +44,7 @@ export default function DashboardLayout({ children, title, activeTab }: Dashboar
                 </h1>
                 {user && (
                   <div className="flex items-center gap-3">
+                    {user.role === UserRole.ADMIN && <RiskAlertsBell />}
                     <div className="flex items-center bg-slate-800/60 px-3 py-1.5 rounded-full">
                       <Wallet className="h-4 w-4 mr-2 text-primary" />
                       <span className="font-medium">₹{(user.balance / 100).toFixed(2)}</span>
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download } from "lucide-react";
+
+// Mirrors FixturePreview in server/fixture-import.ts; values are as written in the file
+export interface FixturePreview {
+  rows: Array<{
+    row: number;
+    fixture: Partial<Record<"teamA" | "teamB" | "matchTime" | "oddTeamA" | "oddTeamB", string>>;
+    errors: string[];
+  }>;
+  valid: number;
+  invalid: number;
+}
+
+const EXPORT_URL = "/api/cricket-toss/fixtures/export";
+
+// Posts the fixture list and images zip; the server reads both again on import
+async function postFixtures(url: string, fixtures: File, images: File | null) {
+  const formData = new FormData();
+  formData.append("fixtures", fixtures);
+  if (images) formData.append("images", images);
+
+  const response = await fetch(url, { method: "POST", body: formData, credentials: "include" });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.message || response.statusText);
+  }
+  return body;
+}
+
+/**
+ * Bulk import of cricket toss matches from a CSV or JSON fixture list, with
+ * images from a zip. Every row is checked in a preview first, and the import
+ * creates all the matches or none of them.
+ */
+export default function FixtureImportDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [fixtures, setFixtures] = useState<File | null>(null);
+  const [images, setImages] = useState<File | null>(null);
+  const [preview, setPreview] = useState<FixturePreview | null>(null);
+
+  const reset = () => {
+    setFixtures(null);
+    setImages(null);
+    setPreview(null);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => postFixtures("/api/cricket-toss/fixtures/preview", fixtures!, images) as Promise<FixturePreview>,
+    onSuccess: setPreview,
+    onError: (error: Error) => {
+      setPreview(null);
+      toast({ title: "Fixture list not read", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => postFixtures("/api/cricket-toss/fixtures/import", fixtures!, images) as Promise<{ imported: number }>,
+    onSuccess: ({ imported }) => {
+      toast({ title: "Fixtures imported", description: `${imported} matches created` });
+      queryClient.invalidateQueries({ queryKey: ["/api/cricket-toss/matches"] });
+      reset();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // A new file makes the last preview stale
+  const chooseFixtures = (file: File | null) => {
+    setFixtures(file);
+    setPreview(null);
+  };
+  const chooseImages = (file: File | null) => {
+    setImages(file);
+    setPreview(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) reset(); onOpenChange(next); }}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Fixtures</DialogTitle>
+          <DialogDescription>
+            Columns: teamA, teamB, matchTime (YYYY-MM-DD HH:mm), oddTeamA, oddTeamB, description, coverImage,
+            teamAImage, teamBImage. Odds are decimal and default to 2.00; images are file names from the zip.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href={`${EXPORT_URL}?format=csv`} download>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href={`${EXPORT_URL}?format=json`} download>
+                <Download className="h-4 w-4 mr-2" />
+                Export JSON
+              </a>
+            </Button>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="fixture-file">Fixture list (.csv or .json)</Label>
+              <Input
+                id="fixture-file"
+                type="file"
+                accept=".csv,.json"
+                onChange={(e) => chooseFixtures(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fixture-images">Images (.zip, optional)</Label>
+              <Input
+                id="fixture-images"
+                type="file"
+                accept=".zip"
+                onChange={(e) => chooseImages(e.target.files?.[0] ?? null)}
+              />
+            </div>
+          </div>
+
+          {preview && (
+            <>
+              {preview.invalid > 0 ? (
+                <Alert variant="destructive">
+                  <AlertTitle>{preview.invalid} of {preview.rows.length} fixtures have problems</AlertTitle>
+                  <AlertDescription>Fix the flagged rows and preview the list again. Nothing is imported until every row passes.</AlertDescription>
+                </Alert>
+              ) : (
+                <Alert>
+                  <AlertTitle>{preview.valid} fixtures ready to import</AlertTitle>
+                  <AlertDescription>All of them are created together as open matches.</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="max-h-80 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Match</TableHead>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Odds</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map(({ row, fixture, errors }) => (
+                      <TableRow key={row}>
+                        <TableCell>{row}</TableCell>
+                        <TableCell>{fixture.teamA || "?"} vs {fixture.teamB || "?"}</TableCell>
+                        <TableCell>{fixture.matchTime}</TableCell>
+                        <TableCell>{fixture.oddTeamA || "2.00"} / {fixture.oddTeamB || "2.00"}</TableCell>
+                        <TableCell>
+                          {errors.length === 0 ? (
+                            <Badge className="bg-green-500">OK</Badge>
+                          ) : (
+                            <ul className="text-xs text-red-500 space-y-1">
+                              {errors.map(error => <li key={error}>{error}</li>)}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            disabled={!fixtures || previewMutation.isPending}
+            onClick={() => previewMutation.mutate()}
+          >
+            {previewMutation.isPending ? "Checking..." : "Preview"}
+          </Button>
+          <Button
+            disabled={!preview || preview.invalid > 0 || preview.valid === 0 || importMutation.isPending}
+            onClick={() => importMutation.mutate()}
+          >
+            {importMutation.isPending ? "Importing..." : `Import ${preview?.valid ?? 0} Matches`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
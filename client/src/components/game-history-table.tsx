@@ -222,7 +222,7 @@ export default function GameHistoryTable({ games, showFullHistory = false }: Gam
                         {getMarketOrMatchInfo(game)}
                       </TableCell>
                       <TableCell className="whitespace-nowrap text-sm text-slate-300">
-                        {formatCurrency(game.betAmount, game.gameType)}
+                        {formatCurrency(game.betAmount)}
                       </TableCell>
                       <TableCell className="whitespace-nowrap">
                         <Badge variant="outline" className={getBadgeClass(game.prediction, game.gameType)}>
@@ -252,7 +252,7 @@ export default function GameHistoryTable({ games, showFullHistory = false }: Gam
                         {formatProfitLoss(game.betAmount, game.payout, game.gameType, game.result)}
                       </TableCell>
                       <TableCell className="whitespace-nowrap text-sm text-green-400">
-                        {game.balanceAfter !== undefined && game.balanceAfter !== null ? formatCurrency(game.balanceAfter, game.gameType) : "-"}
+                        {game.balanceAfter !== undefined && game.balanceAfter !== null ? formatCurrency(game.balanceAfter) : "-"}
                       </TableCell>
                     </TableRow>
                   );
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { formatRupees, rupeesToPaisa } from "@shared/money";
+import { VOIDED_BET_RESULT } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import {
+  useGetMyMatchMarketBets,
+  useGetOpenMatchMarkets,
+  usePlaceMatchMarketBet,
+} from "@/lib/api.generated";
+import { formatLine, formatOdds } from "@/lib/team-matches";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+// The selection on the slip and the odds it was quoted at
+type Selection = { id: number; name: string; marketName: string; odds: number };
+
+/**
+ * The other open markets of a match (match winner, over/under...), each
+ * selection backed at its own odds
+ */
+export default function MatchMarketBets({ match }: { match: { id: number; teamA: string; teamB: string } }) {
+  const { toast } = useToast();
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [betAmount, setBetAmount] = useState("100");
+  // New odds the player is asked to accept after a refused bet
+  const [changedOdds, setChangedOdds] = useState<number | null>(null);
+
+  const openMarkets = useGetOpenMatchMarkets({ params: { id: match.id } });
+
+  const placeBet = usePlaceMatchMarketBet({
+    onSuccess: () => {
+      toast({ title: "Bet placed", description: `${selection?.marketName}: ${selection?.name}` });
+      setSelection(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/match-markets/my-bets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+    onError: async (error: Error) => {
+      // A moved price refuses the bet; offer the new one instead of an error
+      if (selection) {
+        const { data: markets } = await openMarkets.refetch();
+        const current = markets
+          ?.flatMap(market => market.selections)
+          .find(option => option.id === selection.id)?.odds;
+        if (current && current !== selection.odds) {
+          setChangedOdds(current);
+          return;
+        }
+      }
+      toast({ title: "Bet not placed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const submit = (odds: number) => {
+    if (!selection) return;
+    const amount = parseFloat(betAmount);
+    if (isNaN(amount) || amount <= 0) {
+      toast({ title: "Invalid amount", description: "Enter a stake above zero", variant: "destructive" });
+      return;
+    }
+    placeBet.mutate({
+      params: { id: selection.id },
+      body: { betAmount: rupeesToPaisa(amount), expectedOdds: odds },
+    });
+  };
+
+  // Take the new price: the slip shows it and the bet is placed again at it
+  const acceptChangedOdds = () => {
+    if (!selection || changedOdds === null) return;
+    setSelection({ ...selection, odds: changedOdds });
+    setChangedOdds(null);
+    submit(changedOdds);
+  };
+
+  const markets = openMarkets.data ?? [];
+  if (markets.length === 0) return null;
+  const stake = parseFloat(betAmount);
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle className="text-lg">More Markets</CardTitle>
+        <CardDescription>{match.teamA} vs {match.teamB}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {markets.map(market => (
+          <div key={market.id} className="space-y-2">
+            <div className="text-sm font-medium">
+              {market.name}
+              {market.line !== null && <span className="text-muted-foreground"> ({formatLine(market.line)} runs)</span>}
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {market.selections.map(option => (
+                <Button
+                  key={option.id}
+                  className="flex-col h-auto py-2"
+                  variant={selection?.id === option.id ? "default" : "outline"}
+                  onClick={() => setSelection({ id: option.id, name: option.name, marketName: market.name, odds: option.odds })}
+                >
+                  <span>{option.name}</span>
+                  <span className="text-xs">{formatOdds(option.odds)}</span>
+                </Button>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {selection && (
+          <div className="space-y-2 border-t pt-4">
+            <Label htmlFor="market-stake">Stake (₹)</Label>
+            <Input
+              id="market-stake"
+              type="number"
+              min="1"
+              value={betAmount}
+              onChange={(e) => setBetAmount(e.target.value)}
+            />
+            <p className="text-sm text-muted-foreground">
+              {selection.marketName}: {selection.name} at odds of {formatOdds(selection.odds)}, locked in when your
+              bet is placed. Pays{" "}
+              {formatRupees(isNaN(stake) ? 0 : Math.floor(rupeesToPaisa(stake) * selection.odds / 100))}.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setSelection(null)}>Cancel</Button>
+              <Button className="flex-1" disabled={placeBet.isPending} onClick={() => submit(selection.odds)}>
+                {placeBet.isPending ? "Placing Bet..." : "Place Bet"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <AlertDialog open={changedOdds !== null} onOpenChange={(open) => !open && setChangedOdds(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Odds changed</AlertDialogTitle>
+              <AlertDialogDescription>
+                The odds on {selection?.name} moved from {formatOdds(selection?.odds ?? 0)} to{" "}
+                {formatOdds(changedOdds ?? 0)} before your bet was placed, so it was not placed. Accept the new price?
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={acceptChangedOdds}>
+                Place bet at {formatOdds(changedOdds ?? 0)}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  );
+}
+
+function betStatus(bet: { result: string | null; prediction: string }) {
+  if (!bet.result) return <Badge variant="outline">Pending</Badge>;
+  if (bet.result === VOIDED_BET_RESULT) return <Badge variant="secondary">Refunded</Badge>;
+  if (bet.result === bet.prediction) return <Badge className="bg-green-500">Won</Badge>;
+  return <Badge variant="destructive">Lost</Badge>;
+}
+
+/**
+ * The player's bets on match markets, newest first
+ */
+export function MatchMarketBetHistory() {
+  const { data: bets = [] } = useGetMyMatchMarketBets();
+  if (bets.length === 0) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="text-lg">Other Market Bets</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Placed</TableHead>
+              <TableHead>Match</TableHead>
+              <TableHead>Market</TableHead>
+              <TableHead>Bet On</TableHead>
+              <TableHead>Stake</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Payout</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {bets.map(bet => (
+              <TableRow key={bet.id}>
+                <TableCell>{bet.createdAt && format(new Date(bet.createdAt), "dd MMM, HH:mm")}</TableCell>
+                <TableCell>{bet.match.teamA} vs {bet.match.teamB}</TableCell>
+                <TableCell>{bet.market.name}</TableCell>
+                <TableCell>
+                  {bet.prediction}
+                  {bet.acceptedOdds !== null && ` @ ${formatOdds(bet.acceptedOdds)}`}
+                </TableCell>
+                <TableCell>{formatRupees(bet.betAmount)}</TableCell>
+                <TableCell>{betStatus(bet)}</TableCell>
+                <TableCell>{bet.result ? formatRupees(bet.payout) : "-"}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,476 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { formatRupees } from "@shared/money";
+import { MatchMarketType } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  useCloseMatchMarket,
+  useCreateMatchMarket,
+  useGetMatchMarkets,
+  useSettleMatchMarket,
+  useUpdateMatchMarketOdds,
+  useVoidMatchMarket,
+} from "@/lib/api.generated";
+import { MARKET_TYPES, MARKET_TYPE_LABELS, formatLine, formatOdds } from "@/lib/team-matches";
+import SettlementPreviewPanel, { type SettlementPreview } from "@/components/settlement-preview-panel";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Plus, Trash2 } from "lucide-react";
+
+type MatchRef = { id: number; teamA: string; teamB: string; category: string };
+
+type MarketRow = NonNullable<ReturnType<typeof useGetMatchMarkets>["data"]>[number];
+
+// Selections as typed: odds are decimal strings like "1.90"
+type SelectionDraft = { name: string; odds: string };
+
+const toOdds = (value: string) => Math.round(parseFloat(value) * 100);
+
+// Starting selections for a new market of each type
+function defaultSelections(marketType: MatchMarketType, match: MatchRef, line: string): SelectionDraft[] {
+  switch (marketType) {
+    case MatchMarketType.OVER_UNDER:
+      return [{ name: `Over ${line}`, odds: "1.90" }, { name: `Under ${line}`, odds: "1.90" }];
+    case MatchMarketType.TOP_BATSMAN:
+      return [{ name: "", odds: "4.00" }, { name: "", odds: "4.00" }, { name: "", odds: "4.00" }];
+    default:
+      return [{ name: match.teamA, odds: "1.90" }, { name: match.teamB, odds: "1.90" }];
+  }
+}
+
+function statusBadge(status: string) {
+  switch (status) {
+    case "open":
+      return <Badge className="bg-green-500">Open</Badge>;
+    case "closed":
+      return <Badge className="bg-yellow-500">Closed</Badge>;
+    case "resulted":
+      return <Badge className="bg-blue-500">Resulted</Badge>;
+    case "cancelled":
+      return <Badge variant="destructive">Cancelled</Badge>;
+    default:
+      return <Badge>{status}</Badge>;
+  }
+}
+
+function invalidateMarkets(matchId: number) {
+  queryClient.invalidateQueries({ queryKey: ["/api/team-matches", matchId] });
+}
+
+/**
+ * One market of the match: its book, repricing while open, and declaring or
+ * voiding its result
+ */
+function MarketCard({ match, market }: { match: MatchRef; market: MarketRow }) {
+  const { toast } = useToast();
+  const [odds, setOdds] = useState<Record<number, string>>(() =>
+    Object.fromEntries(market.selections.map(selection => [selection.id, formatOdds(selection.odds)]))
+  );
+  const [winner, setWinner] = useState("");
+  const [preview, setPreview] = useState<SettlementPreview | null>(null);
+  const [voidReason, setVoidReason] = useState<string | null>(null);
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const updateOdds = useUpdateMatchMarketOdds({
+    onSuccess: () => {
+      invalidateMarkets(match.id);
+      toast({ title: "Odds saved", description: "They apply to bets placed from now on" });
+    },
+    onError,
+  });
+  const closeMarket = useCloseMatchMarket({
+    onSuccess: () => {
+      invalidateMarkets(match.id);
+      toast({ title: "Market closed" });
+    },
+    onError,
+  });
+  const settleMarket = useSettleMatchMarket({
+    onSuccess: (outcome) => {
+      invalidateMarkets(match.id);
+      toast({ title: "Result declared", description: `${outcome.settled} bets settled, ${outcome.winners} winners` });
+    },
+    onError,
+  });
+  const voidMarket = useVoidMatchMarket({
+    onSuccess: (outcome) => {
+      invalidateMarkets(match.id);
+      setVoidReason(null);
+      toast({ title: "Market voided", description: `${outcome.voidedBets} bets refunded` });
+    },
+    onError,
+  });
+
+  // Dry run of the declaration: nothing is saved
+  const previewResult = useMutation({
+    mutationFn: async (selectionId: number) => {
+      const res = await apiRequest("POST", `/api/match-markets/${market.id}/result/preview`, { selectionId });
+      return res.json() as Promise<SettlementPreview>;
+    },
+    onSuccess: setPreview,
+    onError,
+  });
+
+  const isOpen = market.status === "open";
+  const winningName = market.selections.find(selection => selection.id === market.winningSelectionId)?.name;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <div>
+          <CardTitle className="text-base">{market.name}</CardTitle>
+          <p className="text-xs text-muted-foreground">
+            {MARKET_TYPE_LABELS[market.marketType as MatchMarketType] ?? market.marketType}
+            {market.line !== null && ` · line ${formatLine(market.line)}`}
+            {winningName && ` · won by ${winningName}`}
+          </p>
+        </div>
+        {statusBadge(market.status)}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Selection</TableHead>
+              <TableHead>Odds</TableHead>
+              <TableHead>Open bets</TableHead>
+              <TableHead>Stake</TableHead>
+              <TableHead>Pays</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {market.selections.map(selection => (
+              <TableRow key={selection.id}>
+                <TableCell>{selection.name}</TableCell>
+                <TableCell>
+                  {isOpen ? (
+                    <Input
+                      className="w-24"
+                      type="number"
+                      step="0.01"
+                      min="1"
+                      value={odds[selection.id] ?? ""}
+                      onChange={(e) => setOdds({ ...odds, [selection.id]: e.target.value })}
+                    />
+                  ) : formatOdds(selection.odds)}
+                </TableCell>
+                <TableCell>{selection.bets}</TableCell>
+                <TableCell>{formatRupees(selection.stake)}</TableCell>
+                <TableCell>{formatRupees(selection.payout)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {market.status === "closed" && (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Select
+                value={winner}
+                onValueChange={(value) => {
+                  setWinner(value);
+                  setPreview(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select the winning selection" />
+                </SelectTrigger>
+                <SelectContent>
+                  {market.selections.map(selection => (
+                    <SelectItem key={selection.id} value={String(selection.id)}>{selection.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                disabled={!winner || previewResult.isPending}
+                onClick={() => previewResult.mutate(Number(winner))}
+              >
+                Preview
+              </Button>
+              <Button
+                disabled={!winner || settleMarket.isPending}
+                onClick={() => settleMarket.mutate({ params: { id: market.id }, body: { selectionId: Number(winner) } })}
+              >
+                Declare
+              </Button>
+            </div>
+            {preview && <SettlementPreviewPanel preview={preview} />}
+          </div>
+        )}
+
+        {voidReason !== null && (
+          <div className="flex gap-2">
+            <Input
+              placeholder="Why is the market being voided?"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+            />
+            <Button variant="outline" onClick={() => setVoidReason(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              disabled={!voidReason.trim() || voidMarket.isPending}
+              onClick={() => voidMarket.mutate({ params: { id: market.id }, body: { reason: voidReason } })}
+            >
+              Void Market
+            </Button>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {isOpen && (
+            <>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={updateOdds.isPending}
+                onClick={() => updateOdds.mutate({
+                  params: { id: market.id },
+                  body: {
+                    selections: market.selections.map(selection => ({
+                      id: selection.id,
+                      odds: toOdds(odds[selection.id] ?? ""),
+                    })),
+                  },
+                })}
+              >
+                Save Odds
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={closeMarket.isPending}
+                onClick={() => closeMarket.mutate({ params: { id: market.id } })}
+              >
+                Close Betting
+              </Button>
+            </>
+          )}
+          {market.status !== "cancelled" && voidReason === null && (
+            <Button size="sm" variant="destructive" onClick={() => setVoidReason("")}>Void</Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Form for adding a market, with selections pre-filled for its type
+ */
+function NewMarketForm({ match, onCreated }: { match: MatchRef; onCreated: () => void }) {
+  const { toast } = useToast();
+  const [marketType, setMarketType] = useState<MatchMarketType>(MatchMarketType.MATCH_WINNER);
+  const [name, setName] = useState(MARKET_TYPE_LABELS[MatchMarketType.MATCH_WINNER]);
+  const [line, setLine] = useState("160.5");
+  const [selections, setSelections] = useState<SelectionDraft[]>(() =>
+    defaultSelections(MatchMarketType.MATCH_WINNER, match, "160.5")
+  );
+
+  const createMarket = useCreateMatchMarket({
+    onSuccess: () => {
+      invalidateMarkets(match.id);
+      toast({ title: "Market added", description: "It is open for betting" });
+      onCreated();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const changeType = (value: MatchMarketType) => {
+    setMarketType(value);
+    setName(MARKET_TYPE_LABELS[value]);
+    setSelections(defaultSelections(value, match, line));
+  };
+
+  const changeSelection = (index: number, changes: Partial<SelectionDraft>) => {
+    setSelections(selections.map((selection, i) => i === index ? { ...selection, ...changes } : selection));
+  };
+
+  const submit = () => {
+    const isOverUnder = marketType === MatchMarketType.OVER_UNDER;
+    createMarket.mutate({
+      params: { id: match.id },
+      body: {
+        marketType,
+        name,
+        line: isOverUnder ? Math.round(parseFloat(line) * 10) : null,
+        selections: selections.map(selection => ({ name: selection.name, odds: toOdds(selection.odds) })),
+      },
+    });
+  };
+
+  // Cricket toss matches take their toss bets on the match itself
+  const types = MARKET_TYPES.filter(type => match.category !== "cricket_toss" || type !== MatchMarketType.TOSS);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">New Market</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Type</Label>
+            <Select value={marketType} onValueChange={(value) => changeType(value as MatchMarketType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {types.map(type => (
+                  <SelectItem key={type} value={type}>{MARKET_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="market-name">Name</Label>
+            <Input id="market-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+        </div>
+
+        {marketType === MatchMarketType.OVER_UNDER && (
+          <div className="space-y-1">
+            <Label htmlFor="market-line">Line (runs)</Label>
+            <Input
+              id="market-line"
+              type="number"
+              step="0.5"
+              min="0.5"
+              value={line}
+              onChange={(e) => {
+                setLine(e.target.value);
+                setSelections(defaultSelections(marketType, match, e.target.value).map((selection, index) => ({
+                  ...selection,
+                  odds: selections[index]?.odds ?? selection.odds,
+                })));
+              }}
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Selections</Label>
+          {selections.map((selection, index) => (
+            <div key={index} className="flex gap-2">
+              <Input
+                placeholder="Selection name"
+                value={selection.name}
+                onChange={(e) => changeSelection(index, { name: e.target.value })}
+              />
+              <Input
+                className="w-28"
+                type="number"
+                step="0.01"
+                min="1"
+                value={selection.odds}
+                onChange={(e) => changeSelection(index, { odds: e.target.value })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={selections.length <= 2}
+                onClick={() => setSelections(selections.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Remove selection</span>
+              </Button>
+            </div>
+          ))}
+          {marketType === MatchMarketType.TOP_BATSMAN && (
+            <Button variant="outline" size="sm" onClick={() => setSelections([...selections, { name: "", odds: "4.00" }])}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Selection
+            </Button>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button disabled={createMarket.isPending} onClick={submit}>Add Market</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Admin dialog for the markets a match carries besides its own result
+ */
+export default function MatchMarketsDialog({
+  match,
+  onOpenChange,
+}: {
+  match: MatchRef | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [adding, setAdding] = useState(false);
+  const { data: markets = [], isLoading } = useGetMatchMarkets(
+    { params: { id: match?.id ?? 0 } },
+    { enabled: match !== null }
+  );
+
+  return (
+    <Dialog open={match !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Markets{match && `: ${match.teamA} vs ${match.teamB}`}</DialogTitle>
+          <DialogDescription>
+            Each market has its own odds and result, and is closed, declared or voided on its own.
+          </DialogDescription>
+        </DialogHeader>
+
+        {match && (
+          <div className="space-y-4">
+            {isLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : markets.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No markets on this match yet</p>
+            ) : (
+              markets.map(market => <MarketCard key={market.id} match={match} market={market} />)
+            )}
+
+            {adding ? (
+              <NewMarketForm match={match} onCreated={() => setAdding(false)} />
+            ) : (
+              <Button variant="outline" onClick={() => setAdding(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Market
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,72 @@
+import { useLocation } from "wouter";
+import { queryClient } from "@/lib/queryClient";
+import { useAcknowledgeRiskAlert, useGetRiskAlerts } from "@/lib/api.generated";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Bell } from "lucide-react";
+
+// How often admins are checked for new alerts
+const ALERT_POLL_MS = 30_000;
+
+/**
+ * Header bell for admins with the risk alerts no admin has acknowledged yet
+ */
+export default function RiskAlertsBell() {
+  const [_, setLocation] = useLocation();
+  const { data: alerts = [] } = useGetRiskAlerts({ query: { status: "open" } }, { refetchInterval: ALERT_POLL_MS });
+
+  const acknowledge = useAcknowledgeRiskAlert({
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/risk/alerts"] }),
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className="relative focus:outline-none" aria-label="Risk alerts">
+        <Bell className="h-5 w-5 text-slate-300" />
+        {alerts.length > 0 && (
+          <span className="absolute -top-1.5 -right-1.5 min-w-[1.1rem] rounded-full bg-red-500 px-1 text-center text-[10px] font-bold text-white">
+            {alerts.length > 99 ? "99+" : alerts.length}
+          </span>
+        )}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel>Risk alerts</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {alerts.length === 0 ? (
+          <p className="px-2 py-3 text-sm text-muted-foreground">No open alerts</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            {alerts.slice(0, 10).map(alert => (
+              <div key={alert.id} className="flex items-start gap-2 px-2 py-2 text-sm">
+                <div className="flex-1">
+                  <p>{alert.message}</p>
+                  <p className="text-xs text-muted-foreground">{new Date(alert.createdAt).toLocaleString()}</p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 px-2 text-xs"
+                  disabled={acknowledge.isPending}
+                  onClick={() => acknowledge.mutate({ params: { id: alert.id } })}
+                >
+                  Dismiss
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => setLocation("/risk-management")}>
+          Manage alert rules and suspensions
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,354 @@
+import { useState } from "react";
+import { RiskAlertRuleType, RiskSuspendScope } from "@shared/schema";
+import { formatRupees, rupeesToPaisa } from "@shared/money";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import {
+  useAcknowledgeRiskAlert,
+  useCreateRiskAlertRule,
+  useDeleteRiskAlertRule,
+  useGetBettingSuspensions,
+  useGetRiskAlertRules,
+  useGetRiskAlerts,
+  useLiftBettingSuspension,
+  useUpdateRiskAlertRule,
+} from "@/lib/api.generated";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { BellRing, Loader2, Trash2 } from "lucide-react";
+
+const RULE_LABELS: Record<RiskAlertRuleType, string> = {
+  [RiskAlertRuleType.JODI_LIABILITY]: "Loss on a single jodi above",
+  [RiskAlertRuleType.PLAYER_EXPOSURE_SHARE]: "One player's share of a book above",
+  [RiskAlertRuleType.TOSS_IMBALANCE]: "Cricket toss side imbalance above",
+};
+
+const SCOPE_LABELS: Record<RiskSuspendScope, string> = {
+  [RiskSuspendScope.NONE]: "Alert only",
+  [RiskSuspendScope.NUMBER]: "Suspend the number / side",
+  [RiskSuspendScope.MARKET]: "Suspend the market / match",
+};
+
+// The player share rule takes a percentage, the others a rupee amount
+const isPercentRule = (ruleType: string) => ruleType === RiskAlertRuleType.PLAYER_EXPOSURE_SHARE;
+
+function formatThreshold(ruleType: string, threshold: number) {
+  return isPercentRule(ruleType) ? `${threshold}%` : formatRupees(threshold);
+}
+
+function invalidateRisk() {
+  queryClient.invalidateQueries({ queryKey: ["/api/risk/alert-rules"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/risk/alerts"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/risk/suspensions"] });
+}
+
+/**
+ * Admin view of the risk alert rules, the betting they have suspended and
+ * the alerts they raised
+ */
+export default function RiskAlertsPanel() {
+  const { toast } = useToast();
+  const { data: rules = [], isLoading: rulesLoading } = useGetRiskAlertRules();
+  const { data: suspensions = [] } = useGetBettingSuspensions();
+  const { data: alerts = [] } = useGetRiskAlerts({ query: { status: "all" } });
+
+  const [name, setName] = useState("");
+  const [ruleType, setRuleType] = useState<RiskAlertRuleType>(RiskAlertRuleType.JODI_LIABILITY);
+  const [threshold, setThreshold] = useState("");
+  const [suspendScope, setSuspendScope] = useState<RiskSuspendScope>(RiskSuspendScope.NONE);
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createRule = useCreateRiskAlertRule({
+    onSuccess: () => {
+      invalidateRisk();
+      setName("");
+      setThreshold("");
+      toast({ title: "Alert rule added", description: "It is checked on every new bet" });
+    },
+    onError,
+  });
+  const updateRule = useUpdateRiskAlertRule({ onSuccess: invalidateRisk, onError });
+  const deleteRule = useDeleteRiskAlertRule({ onSuccess: invalidateRisk, onError });
+  const liftSuspension = useLiftBettingSuspension({
+    onSuccess: () => {
+      invalidateRisk();
+      toast({ title: "Betting re-enabled" });
+    },
+    onError,
+  });
+  const acknowledge = useAcknowledgeRiskAlert({ onSuccess: invalidateRisk, onError });
+
+  const handleAddRule = () => {
+    const value = Number(threshold);
+    createRule.mutate({
+      body: {
+        name,
+        ruleType,
+        threshold: isPercentRule(ruleType) ? Math.round(value) : rupeesToPaisa(value),
+        suspendScope,
+        isActive: true,
+      },
+    });
+  };
+
+  const toggleRule = (rule: typeof rules[number], isActive: boolean) => {
+    updateRule.mutate({
+      params: { id: rule.id },
+      body: {
+        name: rule.name,
+        ruleType: rule.ruleType as RiskAlertRuleType,
+        threshold: rule.threshold,
+        suspendScope: rule.suspendScope as RiskSuspendScope,
+        isActive,
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BellRing className="h-5 w-5" />
+            Alert Rules
+          </CardTitle>
+          <CardDescription>
+            Checked every time a bet is placed. A rule that fires raises an alert and can suspend betting until you re-enable it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {rulesLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No alert rules yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Condition</TableHead>
+                  <TableHead>On firing</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell>
+                      {RULE_LABELS[rule.ruleType as RiskAlertRuleType] ?? rule.ruleType} {formatThreshold(rule.ruleType, rule.threshold)}
+                    </TableCell>
+                    <TableCell>{SCOPE_LABELS[rule.suspendScope as RiskSuspendScope] ?? rule.suspendScope}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.isActive}
+                        disabled={updateRule.isPending}
+                        onCheckedChange={(checked) => toggleRule(rule, checked)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        disabled={deleteRule.isPending}
+                        onClick={() => deleteRule.mutate({ params: { id: rule.id } })}
+                        aria-label={`Delete ${rule.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="grid gap-3 md:grid-cols-5 md:items-end">
+            <div className="space-y-1">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input id="rule-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Heavy jodi" />
+            </div>
+            <div className="space-y-1 md:col-span-2">
+              <Label>Condition</Label>
+              <Select
+                value={ruleType}
+                onValueChange={(value) => {
+                  setRuleType(value as RiskAlertRuleType);
+                  if (isPercentRule(value) && suspendScope === RiskSuspendScope.NUMBER) {
+                    setSuspendScope(RiskSuspendScope.NONE);
+                  }
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(RULE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rule-threshold">{isPercentRule(ruleType) ? "Share (%)" : "Amount (₹)"}</Label>
+              <Input
+                id="rule-threshold"
+                type="number"
+                min={0}
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>On firing</Label>
+              <Select value={suspendScope} onValueChange={(value) => setSuspendScope(value as RiskSuspendScope)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SCOPE_LABELS)
+                    .filter(([value]) => !(isPercentRule(ruleType) && value === RiskSuspendScope.NUMBER))
+                    .map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button onClick={handleAddRule} disabled={createRule.isPending || !name.trim() || !threshold}>
+            {createRule.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Add Rule
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Suspended Betting</CardTitle>
+          <CardDescription>Betting held by fired rules. Re-enable it once the book is back in shape.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {suspensions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing is suspended.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Market / match</TableHead>
+                  <TableHead>Suspended</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Since</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {suspensions.map(suspension => (
+                  <TableRow key={suspension.id}>
+                    <TableCell className="font-medium">{suspension.marketName ?? suspension.matchName}</TableCell>
+                    <TableCell>
+                      {suspension.selection === null ? (
+                        <Badge variant="destructive">All betting</Badge>
+                      ) : (
+                        <Badge variant="outline">{suspension.selection}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{suspension.reason}</TableCell>
+                    <TableCell className="text-sm">{new Date(suspension.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={liftSuspension.isPending}
+                        onClick={() => liftSuspension.mutate({ params: { id: suspension.id } })}
+                      >
+                        Re-enable
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Alerts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {alerts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No alerts have fired.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Alert</TableHead>
+                  <TableHead>Value</TableHead>
+                  <TableHead>Threshold</TableHead>
+                  <TableHead>Fired</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {alerts.map(alert => (
+                  <TableRow key={alert.id}>
+                    <TableCell>{alert.message}</TableCell>
+                    <TableCell>{formatThreshold(alert.ruleType, alert.value)}</TableCell>
+                    <TableCell>{formatThreshold(alert.ruleType, alert.threshold)}</TableCell>
+                    <TableCell className="text-sm">{new Date(alert.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">
+                      {alert.acknowledgedAt ? (
+                        <Badge variant="secondary">Acknowledged</Badge>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={acknowledge.isPending}
+                          onClick={() => acknowledge.mutate({ params: { id: alert.id } })}
+                        >
+                          Acknowledge
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
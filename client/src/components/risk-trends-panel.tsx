@@ -0,0 +1,297 @@
+import { useMemo, useState } from "react";
+import { format, subDays } from "date-fns";
+import { DateRange } from "react-day-picker";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { RiskSnapshotScope } from "@shared/schema";
+import { formatRupees, paisaToRupees } from "@shared/money";
+import { useGetRiskSnapshots } from "@/lib/api.generated";
+import { DateRangePicker } from "@/components/date-range-picker";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { LineChart as LineChartIcon } from "lucide-react";
+
+const SCOPE_LABELS: Record<RiskSnapshotScope, string> = {
+  [RiskSnapshotScope.TOTAL]: "Whole platform",
+  [RiskSnapshotScope.GAME]: "Per game",
+  [RiskSnapshotScope.MARKET]: "Per market / match",
+  [RiskSnapshotScope.SUBADMIN]: "Per subadmin",
+  [RiskSnapshotScope.PLAYER]: "Per player",
+};
+
+// How many days the view opens on
+const DEFAULT_RANGE_DAYS = 14;
+
+const pnlChartConfig = {
+  handle: { label: "Handle", color: "hsl(217, 91%, 60%)" },
+  payouts: { label: "Payouts", color: "hsl(0, 84%, 60%)" },
+  ggr: { label: "GGR", color: "hsl(142, 71%, 45%)" },
+} satisfies ChartConfig;
+
+const exposureChartConfig = {
+  peakExposure: { label: "Peak exposure", color: "hsl(38, 92%, 50%)" },
+} satisfies ChartConfig;
+
+type Totals = { label: string; handle: number; payouts: number; ggr: number; peakExposure: number };
+
+function margin(totals: { handle: number; ggr: number }) {
+  return totals.handle > 0 ? `${(totals.ggr * 100 / totals.handle).toFixed(1)}%` : "—";
+}
+
+/**
+ * Daily handle, payouts, GGR and peak exposure from the nightly risk
+ * snapshots, to compare days and spot drift
+ */
+export default function RiskTrendsPanel() {
+  const [range, setRange] = useState<DateRange>({
+    from: subDays(new Date(), DEFAULT_RANGE_DAYS - 1),
+    to: new Date(),
+  });
+  const [scope, setScope] = useState<RiskSnapshotScope>(RiskSnapshotScope.TOTAL);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const from = format(range.from ?? new Date(), "yyyy-MM-dd");
+  const to = format(range.to ?? range.from ?? new Date(), "yyyy-MM-dd");
+  const { data: snapshots = [], isLoading, error } = useGetRiskSnapshots({ query: { from, to, scope } });
+
+  // Everything in the scope over the whole range, biggest handle first
+  const entities = useMemo(() => {
+    const byKey = new Map<string, Totals>();
+    for (const row of snapshots) {
+      const totals = byKey.get(row.scopeKey) ?? { label: row.label, handle: 0, payouts: 0, ggr: 0, peakExposure: 0 };
+      totals.handle += row.handle;
+      totals.payouts += row.payouts;
+      totals.ggr += row.ggr;
+      totals.peakExposure = Math.max(totals.peakExposure, row.peakExposure);
+      byKey.set(row.scopeKey, totals);
+    }
+    return Array.from(byKey.entries())
+      .map(([key, totals]) => ({ key, ...totals }))
+      .sort((a, b) => b.handle - a.handle);
+  }, [snapshots]);
+
+  const activeKey = entities.some(entity => entity.key === selectedKey) ? selectedKey : entities[0]?.key ?? null;
+
+  const days = useMemo(() => snapshots
+    .filter(row => row.scopeKey === activeKey)
+    .map(row => ({
+      date: row.snapshotDate,
+      handle: row.handle,
+      payouts: row.payouts,
+      ggr: row.ggr,
+      peakExposure: row.peakExposure,
+    })), [snapshots, activeKey]);
+
+  const chartData = days.map(day => ({
+    date: format(new Date(`${day.date}T00:00:00`), "dd MMM"),
+    handle: paisaToRupees(day.handle),
+    payouts: paisaToRupees(day.payouts),
+    ggr: paisaToRupees(day.ggr),
+    peakExposure: paisaToRupees(day.peakExposure),
+  }));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LineChartIcon className="h-5 w-5" />
+            Risk and P&L trends
+          </CardTitle>
+          <CardDescription>
+            Daily figures over the bets placed each day. GGR only counts settled bets; peak exposure is the
+            largest potential payout of open bets seen during the day.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3 md:flex-row">
+          <DateRangePicker
+            date={range}
+            onDateChange={(next) => next?.from && setRange(next)}
+            className="md:w-72"
+          />
+          <Select
+            value={scope}
+            onValueChange={(value) => {
+              setScope(value as RiskSnapshotScope);
+              setSelectedKey(null);
+            }}
+          >
+            <SelectTrigger className="md:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(RiskSnapshotScope).map(value => (
+                <SelectItem key={value} value={value}>{SCOPE_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {scope !== RiskSnapshotScope.TOTAL && entities.length > 0 && (
+            <Select value={activeKey ?? undefined} onValueChange={setSelectedKey}>
+              <SelectTrigger className="md:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {entities.map(entity => (
+                  <SelectItem key={entity.key} value={entity.key}>{entity.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : error ? (
+        <p className="text-sm text-red-500">{error.message}</p>
+      ) : days.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No snapshots in this range</p>
+      ) : (
+        <>
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Handle, payouts and GGR (₹)</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={pnlChartConfig} className="h-64 w-full">
+                  <LineChart data={chartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={70} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="handle" stroke="var(--color-handle)" dot={false} />
+                    <Line dataKey="payouts" stroke="var(--color-payouts)" dot={false} />
+                    <Line dataKey="ggr" stroke="var(--color-ggr)" dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Peak exposure (₹)</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={exposureChartConfig} className="h-64 w-full">
+                  <LineChart data={chartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={70} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line dataKey="peakExposure" stroke="var(--color-peakExposure)" dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Day by day</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Handle</TableHead>
+                    <TableHead className="text-right">Payouts</TableHead>
+                    <TableHead className="text-right">GGR</TableHead>
+                    <TableHead className="text-right">Change in GGR</TableHead>
+                    <TableHead className="text-right">Margin</TableHead>
+                    <TableHead className="text-right">Peak exposure</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {days.map((day, index) => {
+                    const change = index > 0 ? day.ggr - days[index - 1].ggr : null;
+                    return (
+                      <TableRow key={day.date}>
+                        <TableCell>{day.date}</TableCell>
+                        <TableCell className="text-right">{formatRupees(day.handle)}</TableCell>
+                        <TableCell className="text-right">{formatRupees(day.payouts)}</TableCell>
+                        <TableCell className="text-right">{formatRupees(day.ggr)}</TableCell>
+                        <TableCell className={`text-right ${change !== null && change < 0 ? "text-red-500" : "text-green-500"}`}>
+                          {change === null ? "—" : `${change < 0 ? "-" : "+"}${formatRupees(Math.abs(change))}`}
+                        </TableCell>
+                        <TableCell className="text-right">{margin(day)}</TableCell>
+                        <TableCell className="text-right">{formatRupees(day.peakExposure)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {scope !== RiskSnapshotScope.TOTAL && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Over the range</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{SCOPE_LABELS[scope].replace("Per ", "")}</TableHead>
+                      <TableHead className="text-right">Handle</TableHead>
+                      <TableHead className="text-right">Payouts</TableHead>
+                      <TableHead className="text-right">GGR</TableHead>
+                      <TableHead className="text-right">Margin</TableHead>
+                      <TableHead className="text-right">Highest peak</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entities.map(entity => (
+                      <TableRow
+                        key={entity.key}
+                        className={`cursor-pointer ${entity.key === activeKey ? "bg-muted" : ""}`}
+                        onClick={() => setSelectedKey(entity.key)}
+                      >
+                        <TableCell>{entity.label}</TableCell>
+                        <TableCell className="text-right">{formatRupees(entity.handle)}</TableCell>
+                        <TableCell className="text-right">{formatRupees(entity.payouts)}</TableCell>
+                        <TableCell className="text-right">{formatRupees(entity.ggr)}</TableCell>
+                        <TableCell className="text-right">{margin(entity)}</TableCell>
+                        <TableCell className="text-right">{formatRupees(entity.peakExposure)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -5,24 +5,15 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { formatCurrency } from "@/lib/format-utils";
+import { rupeesToPaisa } from "@shared/money";
 import { ChevronRight, ChevronLeft, RefreshCw, AlertCircle, Hash, Type, ArrowLeftRight, Divide, Clock, CheckCircle, AlignHorizontalJustifyStart, Grid2X2 } from "lucide-react";
-import { queryClient, apiRequest, getQueryFn } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { callApi } from "@/lib/api-client";
+import { useGetMyGameHistory, useGetSatamatkaMarket } from "@/lib/api.generated";
+import { apiContracts } from "@shared/api-contracts";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 
-// Define SatamatkaMarket interface
-interface SatamatkaMarket {
-  id: number;
-  name: string;
-  type: string;
-  openTime: string;
-  closeTime: string;
-  openResult?: string;
-  closeResult?: string;
-  status: string;
-  createdAt: string;
-}
-
 import {
   Card,
   CardContent,
@@ -91,28 +82,7 @@ const formSchema = z.object({
     .max(10000, "Maximum bet amount is 10,000"),
 });
 
-// Game data interface for Satamatka game
-interface SatamatkaGameData {
-  gameMode: string;
-  marketId: number;
-  marketName?: string;
-}
-
-// Game interface for recent bets
-interface Game {
-  id: number;
-  userId: number;
-  gameType: string;
-  prediction: string;
-  betAmount: number;
-  result: string | null;
-  status: string;
-  payout: number | null;
-  marketId?: number;
-  marketName?: string;
-  createdAt: string;
-  gameData?: SatamatkaGameData | any; // Using any as fallback since different game types have different data structures
-}
+type GameMode = z.infer<typeof formSchema>["gameMode"];
 
 export default function SatamatkaGame() {
   const { id } = useParams<{ id: string }>();
@@ -121,7 +91,7 @@ export default function SatamatkaGame() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [selectedNumber, setSelectedNumber] = useState<string>("");
-  const [selectedGameMode, setSelectedGameMode] = useState<string>("jodi");
+  const [selectedGameMode, setSelectedGameMode] = useState<GameMode>("jodi");
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false);
   const [betDetails, setBetDetails] = useState<{prediction: string; betAmount: number} | null>(null);
   const [gameOdds, setGameOdds] = useState<Record<string, number>>({});
@@ -130,6 +100,8 @@ export default function SatamatkaGame() {
   const [quickBetAmount, setQuickBetAmount] = useState<number>(10);
   const [selectedNumbers, setSelectedNumbers] = useState<Map<string, number>>(new Map());
   const [showBetSlip, setShowBetSlip] = useState<boolean>(false);
+  // Why the server turned down the bets in the slip, e.g. a stake limit
+  const [betRejection, setBetRejection] = useState<string | null>(null);
 
   // Form setup
   const form = useForm<z.infer<typeof formSchema>>({
@@ -149,70 +121,37 @@ export default function SatamatkaGame() {
   }, [selectedNumber, form]);
 
   // Query the market details
-  const { data: market, isLoading, error: marketError } = useQuery({
-    queryKey: ["/api/satamatka/markets", marketId],
-    queryFn: async ({ queryKey }) => {
-      try {
-        const res = await fetch(`${queryKey[0]}/${queryKey[1]}`, {
-          credentials: "include",
-        });
-        
-        if (res.status === 401) {
-          toast({
-            variant: "destructive",
-            title: "Authentication required",
-            description: "Please log in to view market details.",
-          });
-          setLocation("/auth");
-          return null;
-        }
-        
-        if (!res.ok) {
-          const text = await res.text();
-          throw new Error(`${res.status}: ${text || res.statusText}`);
-        }
-        
-        return await res.json();
-      } catch (error) {
-        console.error("Market fetch error:", error);
-        throw error;
-      }
-    },
-    enabled: !!user && !isNaN(marketId)
-  });
+  const { data: market, isLoading, error: marketError } = useGetSatamatkaMarket(
+    { params: { id: marketId } },
+    { enabled: !!user && !isNaN(marketId) }
+  );
 
   // Fetch the game odds for Satamatka - get player-specific odds based on their assigned subadmin
-  const { data: satamatkaOddsData } = useQuery<any>({
+  const { data: satamatkaOddsData } = useQuery({
     queryKey: ['/api/game-odds', 'satamatka', user?.id],
     queryFn: async () => {
-      if (!user) return null;
-      
-      const modes = ['jodi', 'harf', 'crossing', 'odd_even'];
+      const modes = ['jodi', 'harf', 'crossing', 'odd_even'] as const;
       
       // This will get the odds that apply to this specific player
       // which should include any subadmin overrides if applicable
       const results = await Promise.all(
         modes.map(mode => 
-          apiRequest("GET", `/api/game-odds/player?gameType=satamatka_${mode}`)
-            .then(res => res.json())
+          callApi(apiContracts.getPlayerGameOdds, { query: { gameType: `satamatka_${mode}` } })
             .catch(err => {
               console.error(`Error fetching odds for ${mode}:`, err);
-              return null;
+              return [];
             })
         )
       );
       
-      console.log("Raw game odds data from API:", results);
-      
-      // Parse the odds data from the database
-      // Database stores values like this: 60x is stored as 6000, 7x is stored as 700
-      return { 
-        // Use first item from each result, which should now correctly return subadmin override if available
-        jodi: results[0]?.[0]?.oddValue || 6000, 
-        harf: results[1]?.[0]?.oddValue || 600, 
-        crossing: results[2]?.[0]?.oddValue || 6600,
-        odd_even: results[3]?.[0]?.oddValue || 600 
-      };
+      // Odds are stored x10000; modes without configured odds fall back in calculatePotentialWin
+      const odds: Record<string, number> = {};
+      modes.forEach((mode, index) => {
+        if (results[index][0]) {
+          odds[mode] = results[index][0].oddValue;
+        }
+      });
+      return odds;
     },
     enabled: !!user
   });
@@ -242,30 +181,28 @@ export default function SatamatkaGame() {
   }, [market, marketError, toast]);
 
   // Query for user's recent bets
-  const { data: recentBets = [] as Game[], refetch: refetchRecentBets } = useQuery<Game[]>({
-    queryKey: ["/api/games/my-history"],
-    queryFn: getQueryFn({ on401: "throw" }),
+  const { data: recentBets = [], refetch: refetchRecentBets } = useGetMyGameHistory({
     enabled: !!user
   });
   
   // Log bet history when received
   useEffect(() => {
-    if (recentBets && Array.isArray(recentBets) && recentBets.length > 0) {
+    if (recentBets.length > 0) {
       console.log("Received bet history:", recentBets);
     }
   }, [recentBets]);
 
   // Mutation for placing a single bet
   const placeBetMutation = useMutation({
-    mutationFn: async (data: z.infer<typeof formSchema>) => {
-      // Fix: Use correct method parameter ordering in apiRequest
-      return apiRequest("POST", "/api/satamatka/play", {
-        marketId: marketId,
-        gameMode: data.gameMode,
-        prediction: data.prediction,
-        betAmount: data.betAmount,
-      });
-    },
+    mutationFn: (data: z.infer<typeof formSchema>) =>
+      callApi(apiContracts.playSatamatka, {
+        body: {
+          marketId: marketId,
+          gameMode: data.gameMode,
+          prediction: data.prediction,
+          betAmount: rupeesToPaisa(data.betAmount),
+        },
+      }),
     onSuccess: () => {
       // Show success toast
       toast({
@@ -280,7 +217,7 @@ export default function SatamatkaGame() {
       
       // Reset form
       form.reset({
-        gameMode: selectedGameMode as any,
+        gameMode: selectedGameMode,
         prediction: "",
         betAmount: 100,
       });
@@ -335,20 +272,19 @@ export default function SatamatkaGame() {
       }
       
       // Use the new bulk betting endpoint
-      const response = await apiRequest("POST", "/api/satamatka/play-multiple", {
-        marketId: marketId,
-        gameMode: selectedGameMode,
-        bets: serverBets
+      return callApi(apiContracts.playSatamatkaMultiple, {
+        body: {
+          marketId: marketId,
+          gameMode: selectedGameMode,
+          bets: serverBets
+        },
       });
-      
-      // Parse the response JSON
-      return await response.json();
     },
     onSuccess: (result) => {
       // Get the number of successful bets from the response
       console.log("Multiple bets response:", result);
-      const successCount = result?.games?.length || 0;
-      const totalAmount = result?.totalBetAmount || 0;
+      const successCount = result.games.length;
+      const totalAmount = result.totalBetAmount;
       
       toast({
         variant: "success",
@@ -368,6 +304,9 @@ export default function SatamatkaGame() {
       refetchRecentBets();
     },
     onError: (error: Error) => {
+      // Reopen the slip with the selections kept, so the player can adjust them
+      setBetRejection(error.message || "Some bets could not be placed. Please try again.");
+      setShowBetSlip(true);
       toast({
         variant: "destructive",
         title: "Failed to place bets",
@@ -414,13 +353,17 @@ export default function SatamatkaGame() {
         placeBetMutation.mutate(formData as any);
       }
       
-      // Close dialog and reset UI
+      // Close dialogs; the selections are cleared once the bets are placed
       setConfirmDialogOpen(false);
-      setSelectedNumbers(new Map());
       setShowBetSlip(false);
     }
   };
   
+  // A rejection only applies to the selections it was given for
+  useEffect(() => {
+    setBetRejection(null);
+  }, [selectedNumbers, selectedGameMode]);
+
   // Handle multi-selection of numbers with incremental bet amounts
   const handleNumberSelection = (num: string) => {
     const newSelections = new Map(selectedNumbers);
@@ -1028,7 +971,7 @@ export default function SatamatkaGame() {
               >
                 Place Bets on {totalCombinations} Combinations ({selectedGameMode === "crossing" 
                   ? `₹${(totalCombinations * quickBetAmount * 100 / 100).toFixed(2)}` 
-                  : formatCurrency(totalCombinations * quickBetAmount, 'satamatka')})
+                  : formatCurrency(rupeesToPaisa(totalCombinations * quickBetAmount))})
               </Button>
             </div>
           )}
@@ -1213,7 +1156,7 @@ export default function SatamatkaGame() {
                     <span className="font-medium ml-2">
                       {selectedGameMode === "odd_even" 
                         ? `₹${calculateTotalBetAmount(true)}` 
-                        : formatCurrency(Number(calculateTotalBetAmount()), 'satamatka')}
+                        : formatCurrency(rupeesToPaisa(Number(calculateTotalBetAmount())))}
                     </span>
                   </div>
                 </div>
@@ -1221,15 +1164,7 @@ export default function SatamatkaGame() {
                   <div className="text-sm">
                     <span className="text-muted-foreground">Payout Ratio:</span>
                     <span className="font-medium ml-2">
-                      {selectedGameMode === "jodi" 
-                        ? `${(gameOdds.jodi ? (gameOdds.jodi / 10000) : 60)}x` 
-                        : selectedGameMode === "harf" 
-                        ? `${(gameOdds.harf ? (gameOdds.harf / 10000) : 6)}x` 
-                        : selectedGameMode === "crossing" 
-                        ? `${(gameOdds.crossing ? (gameOdds.crossing / 10000) : 66)}x` 
-                        : selectedGameMode === "odd_even" 
-                        ? `${(gameOdds.odd_even ? (gameOdds.odd_even / 10000) : 6)}x` 
-                        : "1x"}
+                      {`${(gameOdds.odd_even ? (gameOdds.odd_even / 10000) : 1.9)}x`}
                     </span>
                   </div>
                   <div className="text-sm">
@@ -1283,8 +1218,8 @@ export default function SatamatkaGame() {
 
   // Handle game mode change
   const handleGameModeChange = (value: string) => {
-    setSelectedGameMode(value);
-    form.setValue("gameMode", value as any);
+    setSelectedGameMode(value as GameMode);
+    form.setValue("gameMode", value as GameMode);
     // Reset prediction when game mode changes
     setSelectedNumber("");
     form.setValue("prediction", "");
@@ -1331,10 +1266,7 @@ export default function SatamatkaGame() {
     );
   }
 
-  // TypeScript check to ensure market has the expected properties
-  const typedMarket = market as unknown as SatamatkaMarket;
-  
-  if (typedMarket.status !== "open") {
+  if (market.status !== "open") {
     return (
       <div className="container mx-auto py-6">
         <Alert>
@@ -1431,6 +1363,14 @@ export default function SatamatkaGame() {
             </div>
           </div>
           
+          {betRejection && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Bet not placed</AlertTitle>
+              <AlertDescription>{betRejection}</AlertDescription>
+            </Alert>
+          )}
+          
           <DialogFooter>
             <Button 
               type="button" 
@@ -1471,7 +1411,7 @@ export default function SatamatkaGame() {
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-1">
                 <p className="text-sm font-medium text-muted-foreground">Market</p>
-                <p className="font-medium">{typedMarket.name}</p>
+                <p className="font-medium">{market.name}</p>
               </div>
               <div className="space-y-1">
                 <p className="text-sm font-medium text-muted-foreground">Game Mode</p>
@@ -1540,8 +1480,8 @@ export default function SatamatkaGame() {
         <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2">
           <p className="text-sm text-muted-foreground bg-slate-800/30 px-3 py-1 rounded-full">
             <Clock className="h-4 w-4 inline mr-1" />
-            Open: {format(new Date(typedMarket.openTime), "h:mm a")} | Close:{" "}
-            {format(new Date(typedMarket.closeTime), "h:mm a")}
+            Open: {format(new Date(market.openTime), "h:mm a")} | Close:{" "}
+            {format(new Date(market.closeTime), "h:mm a")}
           </p>
           <Badge className="bg-green-500 hover:bg-green-600 text-white">
             Open for Betting
@@ -1641,17 +1581,17 @@ export default function SatamatkaGame() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {(recentBets as Game[]).slice(0, 10).map((bet) => {
+                  {recentBets.slice(0, 10).map((bet) => {
                     // Calculate potential win amount based on game mode
-                    const gameMode = bet.gameMode || (bet.gameData?.gameMode as string);
+                    const gameMode = bet.gameMode;
                     const potentialWin = gameMode 
                       ? (calculatePotentialWin(gameMode, bet.betAmount / 100, gameOdds)).toFixed(2)
                       : (bet.betAmount * 1.9 / 10000).toFixed(2); // Default multiplier if gameMode not available
                     
                     // Determine visual styling based on status
-                    const isWin = bet.result === "win" || bet.status === "win";
-                    const isLoss = bet.result === "loss" || bet.status === "loss";
-                    const isPending = bet.result === "pending" || bet.status === "pending" || !bet.result;
+                    const isWin = bet.result === "win";
+                    const isLoss = bet.result === "loss";
+                    const isPending = bet.result === "pending" || !bet.result;
                     
                     // Format payout amount
                     const payout = bet.payout ? (bet.payout / 100).toFixed(2) : "0.00";
@@ -1662,7 +1602,7 @@ export default function SatamatkaGame() {
                         <TableCell>
                           {bet.market?.name || 
                           (bet.gameType === 'satamatka' && bet.marketId ? 
-                          (bet.marketId === marketId ? typedMarket.name : `Market #${bet.marketId}`) : 
+                          (bet.marketId === marketId ? market.name : `Market #${bet.marketId}`) : 
                           'Unknown')}
                         </TableCell>
                         <TableCell>
@@ -1709,12 +1649,12 @@ export default function SatamatkaGame() {
                           ₹{bet.balanceAfter ? (bet.balanceAfter / 100).toFixed(2) : "N/A"}
                         </TableCell>
                         <TableCell className="whitespace-nowrap">
-                          {format(new Date(bet.createdAt), "MMM d, h:mm a")}
+                          {bet.createdAt ? format(new Date(bet.createdAt), "MMM d, h:mm a") : ""}
                         </TableCell>
                       </TableRow>
                     );
                   })}
-                  {(recentBets as Game[]).length === 0 && (
+                  {recentBets.length === 0 && (
                     <TableRow>
                       <TableCell colSpan={10} className="text-center py-8 text-muted-foreground">
                         No recent bets found. Place your first bet!
@@ -1741,7 +1681,7 @@ export default function SatamatkaGame() {
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-1">
                 <h4 className="text-sm font-medium">Market</h4>
-                <p className="text-sm text-muted-foreground">{typedMarket.name}</p>
+                <p className="text-sm text-muted-foreground">{market.name}</p>
               </div>
               <div className="space-y-1">
                 <h4 className="text-sm font-medium">Game Mode</h4>
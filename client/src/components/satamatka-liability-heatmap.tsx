@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/format-utils";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Grid3x3 } from "lucide-react";
+
+// Mirrors MarketLiability in server/liability-matrix.ts; amounts are in paisa
+interface MarketLiability {
+  marketId: number;
+  marketName: string;
+  marketType: string;
+  status: string;
+  betCount: number;
+  totalStake: number;
+  outcomes: number[];
+  harf: {
+    totalStake: number;
+    left: number[];
+    right: number[];
+  };
+  worstOutcome: { result: string; net: number };
+  bestOutcome: { result: string; net: number };
+}
+
+const DIGITS = Array.from({ length: 10 }, (_, digit) => digit);
+
+// House net with its sign ahead of the currency symbol, e.g. "-₹12.50"
+function formatNet(paisa: number) {
+  return `${paisa < 0 ? "-" : ""}${formatCurrency(Math.abs(paisa))}`;
+}
+
+/**
+ * Red for a house loss, green for a house profit, stronger the closer the
+ * value is to the market's largest swing
+ */
+function cellColor(net: number, scale: number) {
+  if (net === 0 || scale === 0) return undefined;
+  const alpha = 0.1 + 0.7 * Math.min(Math.abs(net) / scale, 1);
+  return net < 0 ? `rgba(239, 68, 68, ${alpha})` : `rgba(34, 197, 94, ${alpha})`;
+}
+
+function HarfRow({ label, values, scale }: { label: string; values: number[]; scale: number }) {
+  return (
+    <tr>
+      <th className="px-2 py-1 text-left text-xs font-medium text-muted-foreground">{label}</th>
+      {values.map((net, digit) => (
+        <td
+          key={digit}
+          className="border border-border px-1 py-1 text-center text-[10px]"
+          style={{ backgroundColor: cellColor(net, scale) }}
+          title={`${label} ${digit}: ${formatNet(net)}`}
+        >
+          {formatCurrency(net, false)}
+        </td>
+      ))}
+    </tr>
+  );
+}
+
+/**
+ * Heatmap of the house P&L for every possible result of each Satamatka
+ * market with unsettled bets
+ */
+export default function SatamatkaLiabilityHeatmap({ subadminId }: { subadminId?: number | null }) {
+  const [selectedMarketId, setSelectedMarketId] = useState<number | null>(null);
+
+  const { data, isLoading } = useQuery<{ markets: MarketLiability[] }>({
+    queryKey: ["/api/risk/satamatka-liability", subadminId],
+    queryFn: async () => {
+      const url = subadminId
+        ? `/api/risk/satamatka-liability?subadminId=${subadminId}`
+        : "/api/risk/satamatka-liability";
+      const response = await apiRequest("GET", url);
+      return response.json();
+    },
+  });
+
+  const markets = data?.markets ?? [];
+  const market = markets.find(m => m.marketId === selectedMarketId) ?? markets[0];
+
+  if (isLoading) {
+    return <Skeleton className="h-64 w-full mb-6" />;
+  }
+
+  const scale = market ? Math.max(...market.outcomes.map(Math.abs)) : 0;
+  const harfScale = market ? Math.max(...market.harf.left.map(Math.abs), ...market.harf.right.map(Math.abs)) : 0;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center">
+            <Grid3x3 className="h-4 w-4 mr-2" />
+            Liability by Result
+          </CardTitle>
+          <CardDescription>
+            House profit (green) or loss (red) in rupees if each jodi is declared
+          </CardDescription>
+        </div>
+        {markets.length > 0 && (
+          <Select
+            value={market?.marketId.toString()}
+            onValueChange={(value) => setSelectedMarketId(parseInt(value))}
+          >
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder="Select market" />
+            </SelectTrigger>
+            <SelectContent>
+              {markets.map(m => (
+                <SelectItem key={m.marketId} value={m.marketId.toString()}>
+                  {m.marketName} ({m.status})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </CardHeader>
+
+      <CardContent>
+        {!market ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No open or closed markets awaiting a result
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-xs">
+              <Badge variant="outline">{market.betCount} pending bets</Badge>
+              <Badge variant="outline">Stakes {formatCurrency(market.totalStake)}</Badge>
+              <Badge variant="destructive">
+                Worst {market.worstOutcome.result}: {formatNet(market.worstOutcome.net)}
+              </Badge>
+              <Badge className="bg-green-600 text-white">
+                Best {market.bestOutcome.result}: {formatNet(market.bestOutcome.net)}
+              </Badge>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="border-collapse w-full">
+                <thead>
+                  <tr>
+                    <th className="px-2 py-1 text-xs text-muted-foreground">Left \ Right</th>
+                    {DIGITS.map(digit => (
+                      <th key={digit} className="px-1 py-1 text-xs text-muted-foreground">{digit}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {DIGITS.map(left => (
+                    <tr key={left}>
+                      <th className="px-2 py-1 text-xs text-muted-foreground">{left}</th>
+                      {DIGITS.map(right => {
+                        const result = `${left}${right}`;
+                        const net = market.outcomes[left * 10 + right];
+                        return (
+                          <td
+                            key={right}
+                            className="border border-border px-1 py-1 text-center text-[10px]"
+                            style={{ backgroundColor: cellColor(net, scale) }}
+                            title={`${result}: ${formatNet(net)}`}
+                          >
+                            <div className="font-medium">{result}</div>
+                            <div>{formatCurrency(net, false)}</div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {market.harf.totalStake > 0 && (
+              <div className="overflow-x-auto">
+                <p className="text-sm font-medium mb-1">
+                  Harf by digit (stakes {formatCurrency(market.harf.totalStake)})
+                </p>
+                <table className="border-collapse w-full">
+                  <thead>
+                    <tr>
+                      <th className="px-2 py-1 text-xs text-muted-foreground">Position</th>
+                      {DIGITS.map(digit => (
+                        <th key={digit} className="px-1 py-1 text-xs text-muted-foreground">{digit}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <HarfRow label="Left" values={market.harf.left} scale={harfScale} />
+                    <HarfRow label="Right" values={market.harf.right} scale={harfScale} />
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
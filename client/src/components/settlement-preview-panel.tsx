@@ -0,0 +1,122 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatRupees } from "@shared/money";
+
+// Mirrors SettlementPreview in server/settlement-preview.ts; amounts are in paisa
+export interface SettlementPreview {
+  betsSettled: number;
+  winners: number;
+  totalStake: number;
+  totalPayout: number;
+  housePnl: number;
+  players: Array<{ userId: number; username: string; subadminId: number | null; stake: number; payout: number }>;
+  subadmins: Array<{ subadminId: number | null; username: string | null; playerCount: number; stake: number; payout: number }>;
+  commissionAccounts: Array<{ accountId: number; name: string; accountType: string; amount: number }>;
+}
+
+function Summary({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="rounded-md border p-2">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className={`font-semibold ${className ?? ""}`}>{value}</p>
+    </div>
+  );
+}
+
+/**
+ * What declaring a result would pay, from a dry run of the settlement
+ */
+export default function SettlementPreviewPanel({ preview }: { preview: SettlementPreview }) {
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        <Summary label="Bets settled" value={`${preview.betsSettled} (${preview.winners} winning)`} />
+        <Summary label="Total stake" value={formatRupees(preview.totalStake)} />
+        <Summary label="Total payout" value={formatRupees(preview.totalPayout)} />
+        <Summary
+          label="House P&L"
+          value={formatRupees(preview.housePnl)}
+          className={preview.housePnl < 0 ? "text-red-500" : "text-green-500"}
+        />
+      </div>
+
+      <div>
+        <h4 className="mb-1 font-medium">Players</h4>
+        {preview.players.length === 0 ? (
+          <p className="text-muted-foreground">No unsettled bets</p>
+        ) : (
+          <div className="max-h-48 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Player</TableHead>
+                  <TableHead className="text-right">Stake</TableHead>
+                  <TableHead className="text-right">Payout</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.players.map(player => (
+                  <TableRow key={player.userId}>
+                    <TableCell>{player.username}</TableCell>
+                    <TableCell className="text-right">{formatRupees(player.stake)}</TableCell>
+                    <TableCell className="text-right">{formatRupees(player.payout)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      {preview.subadmins.length > 0 && (
+        <div>
+          <h4 className="mb-1 font-medium">Subadmins</h4>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Subadmin</TableHead>
+                <TableHead className="text-right">Players</TableHead>
+                <TableHead className="text-right">Stake</TableHead>
+                <TableHead className="text-right">Payout</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.subadmins.map(subadmin => (
+                <TableRow key={subadmin.subadminId ?? "direct"}>
+                  <TableCell>{subadmin.username ?? "Direct players"}</TableCell>
+                  <TableCell className="text-right">{subadmin.playerCount}</TableCell>
+                  <TableCell className="text-right">{formatRupees(subadmin.stake)}</TableCell>
+                  <TableCell className="text-right">{formatRupees(subadmin.payout)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <div>
+        <h4 className="mb-1 font-medium">Commission accounts</h4>
+        {preview.commissionAccounts.length === 0 ? (
+          <p className="text-muted-foreground">No commission is posted on this settlement</p>
+        ) : (
+          <Table>
+            <TableBody>
+              {preview.commissionAccounts.map(account => (
+                <TableRow key={account.accountId}>
+                  <TableCell>{account.name}</TableCell>
+                  <TableCell className="text-right">{formatRupees(account.amount)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
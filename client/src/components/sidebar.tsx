@@ -25,7 +25,8 @@ import {
   User,
   Calendar,
   RefreshCw,
-  AlertTriangle
+  AlertTriangle,
+  Volleyball
 } from "lucide-react";
 import { GiCricketBat } from "react-icons/gi";
 import { Button } from "@/components/ui/button";
@@ -67,13 +68,20 @@ export default function Sidebar({ activeTab }: SidebarProps = {}) {
       icon: <ShieldCheck className="w-5 h-5 mr-3" />,
       visible: isAdmin,
     },
-    // Jantri Management - Admin and Subadmin
+    // Risk Management - Admin and Subadmin
     {
-      name: "Jantri Management",
+      name: "Risk Management",
       path: "/risk-management",
       icon: <AlertTriangle className="w-5 h-5 mr-3" />,
       visible: canManageUsers,
     },
+    // Jantri - Admin and Subadmin
+    {
+      name: "Jantri",
+      path: "/jantri",
+      icon: <Calculator className="w-5 h-5 mr-3" />,
+      visible: canManageUsers,
+    },
     // Market Game Management - Admin Only
     {
       name: "Manage Markets",
@@ -81,7 +89,12 @@ export default function Sidebar({ activeTab }: SidebarProps = {}) {
       icon: <Target className="w-5 h-5 mr-3" />,
       visible: isAdmin,
     },
-    // Team Match Management removed - functionality no longer used
+    {
+      name: "Manage Matches",
+      path: "/manage-matches",
+      icon: <Volleyball className="w-5 h-5 mr-3" />,
+      visible: isAdmin,
+    },
     // Cricket Toss Management - Admin Only
     {
       name: "Manage Cricket Toss",
@@ -115,7 +128,12 @@ export default function Sidebar({ activeTab }: SidebarProps = {}) {
       icon: <Calendar className="w-5 h-5 mr-3" />,
       visible: isRegularUser,
     },
-    // Sports Betting removed - team match functionality no longer used
+    {
+      name: "Sports",
+      path: "/sports",
+      icon: <Volleyball className="w-5 h-5 mr-3" />,
+      visible: isRegularUser,
+    },
     {
       name: "Cricket Toss",
       path: "/cricket-toss",
@@ -141,7 +159,7 @@ export default function Sidebar({ activeTab }: SidebarProps = {}) {
       icon: <Wallet className="w-5 h-5 mr-3" />,
       visible: true,
     },
-    // Admin Management (Jantri and Risk Management removed)
+    // Admin Management
     {
       name: "Fund Management",
       path: "/fund-management",
@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { formatRupees, paisaToRupees, rupeesToPaisa } from "@shared/money";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import {
+  useGetSubadminCredit,
+  useSetSubadminCreditLimit,
+  useSetSubadminFloatFrozen,
+  useSettleSubadminFloat,
+  useTopUpSubadminFloat,
+} from "@/lib/api.generated";
+import { FloatMovementsTable, creditUsage } from "@/components/subadmin-float-card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Loader2 } from "lucide-react";
+
+function invalidateCredit() {
+  queryClient.invalidateQueries({ queryKey: ["/api/subadmin-credit"] });
+}
+
+/**
+ * Admin controls for a subadmin's float: the credit limit their approved
+ * deposits can draw on, top-ups, settling up and freezing
+ */
+export default function SubadminCreditForm({ subadminId }: { subadminId: number }) {
+  const { toast } = useToast();
+  const { data, isLoading } = useGetSubadminCredit({ params: { id: subadminId } });
+  const [creditLimit, setCreditLimit] = useState("");
+  const [topUp, setTopUp] = useState("");
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    if (data) {
+      setCreditLimit(paisaToRupees(data.credit.creditLimit).toString());
+    }
+  }, [data]);
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+  const done = (title: string) => () => {
+    invalidateCredit();
+    setNote("");
+    toast({ title });
+  };
+
+  const saveLimit = useSetSubadminCreditLimit({ onSuccess: done("Credit limit saved"), onError });
+  const topUpFloat = useTopUpSubadminFloat({
+    onSuccess: () => {
+      setTopUp("");
+      done("Float topped up")();
+    },
+    onError,
+  });
+  const settle = useSettleSubadminFloat({ onSuccess: done("Float settled"), onError });
+  const freeze = useSetSubadminFloatFrozen({ onSuccess: invalidateCredit, onError });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const { credit, movements } = data;
+  const usage = creditUsage(credit);
+  const params = { id: subadminId };
+  const busy = saveLimit.isPending || topUpFloat.isPending || settle.isPending;
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Deposits this subadmin approves for their players draw down the float, and withdrawals they approve pay it
+        back. The float can go below zero down to the credit limit; past that, or while the float is frozen, their
+        deposit approvals are refused. Amounts in rupees.
+      </p>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div>
+          <p className="text-xs text-muted-foreground">Float</p>
+          <p className={`text-lg font-semibold ${credit.floatBalance < 0 ? "text-red-500" : "text-green-500"}`}>
+            {formatRupees(credit.floatBalance)}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Left to approve</p>
+          <p className="text-lg font-semibold">{formatRupees(credit.available)}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="float-frozen"
+            checked={credit.isFrozen}
+            disabled={freeze.isPending}
+            onCheckedChange={(frozen) => freeze.mutate({ params, body: { frozen } })}
+          />
+          <Label htmlFor="float-frozen">Frozen</Label>
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Progress value={usage} />
+        <p className="text-xs text-muted-foreground">{usage}% of the credit limit used</p>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="credit-limit">Credit limit</Label>
+          <div className="flex gap-2">
+            <Input
+              id="credit-limit"
+              type="number"
+              min="0"
+              value={creditLimit}
+              onChange={(e) => setCreditLimit(e.target.value)}
+            />
+            <Button
+              disabled={busy || creditLimit.trim() === ""}
+              onClick={() => saveLimit.mutate({ params, body: { creditLimit: rupeesToPaisa(Number(creditLimit)) } })}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="float-top-up">Top up</Label>
+          <div className="flex gap-2">
+            <Input
+              id="float-top-up"
+              type="number"
+              min="0"
+              value={topUp}
+              onChange={(e) => setTopUp(e.target.value)}
+            />
+            <Button
+              variant="outline"
+              disabled={busy || !(Number(topUp) > 0)}
+              onClick={() => topUpFloat.mutate({ params, body: { amount: rupeesToPaisa(Number(topUp)), note: note || undefined } })}
+            >
+              Top up
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2 md:flex-row">
+        <Input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Note for the top-up or settlement (optional)"
+          maxLength={500}
+        />
+        <Button
+          variant="outline"
+          disabled={busy || credit.floatBalance === 0}
+          onClick={() => settle.mutate({ params, body: { note: note || undefined } })}
+        >
+          Settle to zero
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Recent float movements</h3>
+        <FloatMovementsTable movements={movements} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { SubadminFloatMovementType } from "@shared/schema";
+import { formatRupees } from "@shared/money";
+import { useGetSubadminCredit } from "@/lib/api.generated";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Landmark } from "lucide-react";
+
+// How many movements the dashboard card lists
+const DASHBOARD_MOVEMENTS = 5;
+
+export const MOVEMENT_LABELS: Record<SubadminFloatMovementType, string> = {
+  [SubadminFloatMovementType.DEPOSIT_APPROVED]: "Deposit approved",
+  [SubadminFloatMovementType.WITHDRAWAL_APPROVED]: "Withdrawal approved",
+  [SubadminFloatMovementType.TOP_UP]: "Top-up",
+  [SubadminFloatMovementType.SETTLEMENT]: "Settlement",
+};
+
+type FloatMovement = {
+  id: number;
+  movementType: string;
+  amount: number;
+  floatAfter: number;
+  walletRequestId: number | null;
+  performedByName: string | null;
+  note: string | null;
+  createdAt: string;
+};
+
+function signed(paisa: number) {
+  return `${paisa < 0 ? "-" : "+"}${formatRupees(Math.abs(paisa))}`;
+}
+
+/**
+ * How much of a credit limit the float has drawn, as a percentage
+ */
+export function creditUsage(credit: { creditLimit: number; floatBalance: number }) {
+  if (credit.floatBalance >= 0) return 0;
+  if (credit.creditLimit === 0) return 100;
+  return Math.min(100, Math.round(-credit.floatBalance * 100 / credit.creditLimit));
+}
+
+export function FloatMovementsTable({ movements }: { movements: FloatMovement[] }) {
+  if (movements.length === 0) {
+    return <p className="text-sm text-muted-foreground">No float movements yet</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>When</TableHead>
+          <TableHead>Movement</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+          <TableHead className="text-right">Float after</TableHead>
+          <TableHead>By</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {movements.map(movement => (
+          <TableRow key={movement.id}>
+            <TableCell>{new Date(movement.createdAt).toLocaleString()}</TableCell>
+            <TableCell>
+              {MOVEMENT_LABELS[movement.movementType as SubadminFloatMovementType] ?? movement.movementType}
+              {movement.walletRequestId && <span className="text-muted-foreground"> · request #{movement.walletRequestId}</span>}
+              {movement.note && <div className="text-xs text-muted-foreground">{movement.note}</div>}
+            </TableCell>
+            <TableCell className={`text-right ${movement.amount < 0 ? "text-red-500" : "text-green-500"}`}>
+              {signed(movement.amount)}
+            </TableCell>
+            <TableCell className="text-right">{formatRupees(movement.floatAfter)}</TableCell>
+            <TableCell>{movement.performedByName ?? "—"}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+/**
+ * A subadmin's float on their dashboard: how much of the credit limit their
+ * approved deposits have drawn and how much is left to approve
+ */
+export default function SubadminFloatCard({ subadminId }: { subadminId: number }) {
+  const { data, isLoading, error } = useGetSubadminCredit({ params: { id: subadminId } });
+
+  if (isLoading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+  if (error || !data) {
+    return <p className="text-sm text-red-500">{error?.message ?? "Could not load your float"}</p>;
+  }
+
+  const { credit, movements } = data;
+  const usage = creditUsage(credit);
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-slate-200">
+          <Landmark className="h-5 w-5 text-teal-400" />
+          Float and Credit
+          {credit.isFrozen && <Badge variant="destructive">Frozen</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Approving a player's deposit draws down your float; approving a withdrawal pays it back. Deposits are
+          refused once the float would go below your credit limit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+          <div>
+            <p className="text-xs text-slate-400">Float</p>
+            <p className={`text-lg font-semibold ${credit.floatBalance < 0 ? "text-red-400" : "text-emerald-400"}`}>
+              {formatRupees(credit.floatBalance)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400">Credit limit</p>
+            <p className="text-lg font-semibold text-slate-200">{formatRupees(credit.creditLimit)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400">Left to approve</p>
+            <p className="text-lg font-semibold text-slate-200">{credit.isFrozen ? formatRupees(0) : formatRupees(credit.available)}</p>
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Progress value={usage} />
+          <p className="text-xs text-slate-400">{usage}% of your credit limit used</p>
+        </div>
+        <FloatMovementsTable movements={movements.slice(0, DASHBOARD_MOVEMENTS)} />
+      </CardContent>
+    </Card>
+  );
+}
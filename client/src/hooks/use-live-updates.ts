@@ -0,0 +1,115 @@
+import { useEffect } from "react";
+import { LIVE_UPDATES_PATH, LiveEventType, type DeliveredLiveEvent } from "@shared/live-events";
+import { queryClient } from "@/lib/queryClient";
+
+// Queries to refetch for each event, by the start of their URL
+const STALE_QUERIES: Record<LiveEventType, string[]> = {
+  [LiveEventType.BALANCE_CHANGED]: [
+    "/api/user",
+    "/api/transactions",
+    "/api/subadmin/stats",
+    "/api/admin/stats",
+  ],
+  [LiveEventType.BET_SETTLED]: [
+    "/api/games",
+    "/api/cricket-toss/my-bets",
+    "/api/team-matches/my-bets",
+    "/api/match-markets/my-bets",
+    "/api/satamatka/markets",
+    "/api/leaderboard",
+    "/api/subadmin/stats",
+    "/api/admin/stats",
+  ],
+  [LiveEventType.WALLET_REQUEST_UPDATED]: [
+    "/api/wallet/my-requests",
+    "/api/wallet/requests",
+    "/api/subadmin-credit",
+    "/api/subadmin/stats",
+    "/api/admin/stats",
+  ],
+  [LiveEventType.EXPOSURE_CHANGED]: [
+    "/api/risk/admin",
+    "/api/risk/subadmin",
+    "/api/risk/satamatka-liability",
+    "/api/games/recent",
+    "/api/subadmin/stats",
+    "/api/admin/stats",
+  ],
+};
+
+const ALL_STALE_QUERIES = Array.from(new Set(Object.values(STALE_QUERIES).flat()));
+
+// Events often come in bursts, e.g. every bet of a settled market, so
+// refetches wait this long to cover the whole burst
+const INVALIDATE_DELAY_MS = 300;
+
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30 * 1000;
+
+function invalidate(prefixes: Iterable<string>) {
+  const list = Array.from(prefixes);
+  queryClient.invalidateQueries({
+    predicate: (query) => {
+      const [url] = query.queryKey;
+      return typeof url === "string" && list.some(prefix => url.startsWith(prefix));
+    },
+  });
+}
+
+/**
+ * Keep the query cache fresh from the server's live updates while a user is
+ * logged in. Reconnects with backoff and refetches everything it may have
+ * missed after a reconnect.
+ */
+export function useLiveUpdates(userId: number | null) {
+  useEffect(() => {
+    if (userId === null) return;
+
+    let socket: WebSocket | null = null;
+    let closed = false;
+    let connectedBefore = false;
+    let retryDelay = RECONNECT_MIN_MS;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let flushTimer: ReturnType<typeof setTimeout> | undefined;
+    const pending = new Set<string>();
+
+    const schedule = (prefixes: string[]) => {
+      prefixes.forEach(prefix => pending.add(prefix));
+      if (flushTimer) return;
+      flushTimer = setTimeout(() => {
+        flushTimer = undefined;
+        invalidate(pending);
+        pending.clear();
+      }, INVALIDATE_DELAY_MS);
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${LIVE_UPDATES_PATH}`);
+
+      socket.onopen = () => {
+        retryDelay = RECONNECT_MIN_MS;
+        if (connectedBefore) schedule(ALL_STALE_QUERIES);
+        connectedBefore = true;
+      };
+      socket.onmessage = (message) => {
+        const event = JSON.parse(message.data) as DeliveredLiveEvent;
+        schedule(STALE_QUERIES[event.type] ?? []);
+      };
+      socket.onclose = () => {
+        if (closed) return;
+        retryTimer = setTimeout(connect, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, RECONNECT_MAX_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      clearTimeout(flushTimer);
+      socket?.close();
+    };
+  }, [userId]);
+}
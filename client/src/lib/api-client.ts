@@ -0,0 +1,81 @@
+import {
+  useMutation,
+  useQuery,
+  type QueryKey,
+  type UseMutationOptions,
+  type UseQueryOptions,
+} from "@tanstack/react-query";
+import {
+  API_PREFIX,
+  contractUrl,
+  type ApiContract,
+  type ContractInput,
+  type ContractResponse,
+} from "@shared/api-contracts";
+import { apiRequest } from "./queryClient";
+
+type InputParts = { params?: Record<string, unknown>; query?: Record<string, unknown>; body?: unknown };
+
+/**
+ * Call a contract route and return its typed JSON response
+ */
+export async function callApi<C extends ApiContract>(
+  contract: C,
+  input: ContractInput<C>,
+): Promise<ContractResponse<C>> {
+  const { params, query, body } = input as InputParts;
+  const res = await apiRequest(contract.method, contractUrl(contract, params, query), body);
+  return res.json();
+}
+
+/**
+ * Query key for a contract GET, in the same shape the pages already use:
+ * the path up to each param, the param values, then the query object.
+ * /satamatka/markets/:id with id 5 becomes ["/api/satamatka/markets", 5],
+ * so invalidating ["/api/satamatka/markets"] still reaches it.
+ */
+export function contractQueryKey<C extends ApiContract>(contract: C, input: ContractInput<C>): QueryKey {
+  const { params = {}, query } = input as InputParts;
+  const key: unknown[] = [];
+
+  contract.path.split(/\/:(\w+)/).forEach((part, index) => {
+    if (index % 2 === 1) {
+      key.push(params[part]);
+    } else if (part) {
+      key.push(key.length === 0 ? `${API_PREFIX}${part}` : part.replace(/^\//, ""));
+    }
+  });
+
+  if (query) {
+    key.push(query);
+  }
+  return key;
+}
+
+export type ContractQueryOptions<C extends ApiContract> =
+  Omit<UseQueryOptions<ContractResponse<C>, Error>, "queryKey" | "queryFn">;
+
+export function useContractQuery<C extends ApiContract>(
+  contract: C,
+  input: ContractInput<C>,
+  options?: ContractQueryOptions<C>,
+) {
+  return useQuery<ContractResponse<C>, Error>({
+    queryKey: contractQueryKey(contract, input),
+    queryFn: () => callApi(contract, input),
+    ...options,
+  });
+}
+
+export type ContractMutationOptions<C extends ApiContract> =
+  Omit<UseMutationOptions<ContractResponse<C>, Error, ContractInput<C>>, "mutationFn">;
+
+export function useContractMutation<C extends ApiContract>(
+  contract: C,
+  options?: ContractMutationOptions<C>,
+) {
+  return useMutation<ContractResponse<C>, Error, ContractInput<C>>({
+    mutationFn: (input) => callApi(contract, input),
+    ...options,
+  });
+}
@@ -0,0 +1,348 @@
+// Generated by generate-api-client.ts from shared/api-contracts.ts. Do not edit.
+import { apiContracts, type ContractInput } from "@shared/api-contracts";
+import {
+  useContractMutation,
+  useContractQuery,
+  type ContractMutationOptions,
+  type ContractQueryOptions,
+} from "./api-client";
+
+// GET /api/game-odds
+export function useGetGameOdds(input: ContractInput<typeof apiContracts.getGameOdds>, options?: ContractQueryOptions<typeof apiContracts.getGameOdds>) {
+  return useContractQuery(apiContracts.getGameOdds, input, options);
+}
+
+// POST /api/game-odds
+export function useSaveGameOdd(options?: ContractMutationOptions<typeof apiContracts.saveGameOdd>) {
+  return useContractMutation(apiContracts.saveGameOdd, options);
+}
+
+// GET /api/game-odds/player
+export function useGetPlayerGameOdds(input: ContractInput<typeof apiContracts.getPlayerGameOdds>, options?: ContractQueryOptions<typeof apiContracts.getPlayerGameOdds>) {
+  return useContractQuery(apiContracts.getPlayerGameOdds, input, options);
+}
+
+// GET /api/game-odds/subadmin/:id
+export function useGetSubadminGameOdds(input: ContractInput<typeof apiContracts.getSubadminGameOdds>, options?: ContractQueryOptions<typeof apiContracts.getSubadminGameOdds>) {
+  return useContractQuery(apiContracts.getSubadminGameOdds, input, options);
+}
+
+// POST /api/game-odds/subadmin/:id
+export function useSaveSubadminGameOdds(options?: ContractMutationOptions<typeof apiContracts.saveSubadminGameOdds>) {
+  return useContractMutation(apiContracts.saveSubadminGameOdds, options);
+}
+
+// GET /api/odds/admin
+export function useGetAdminOdds(options?: ContractQueryOptions<typeof apiContracts.getAdminOdds>) {
+  return useContractQuery(apiContracts.getAdminOdds, {}, options);
+}
+
+// GET /api/bet-limits
+export function useGetBetLimits(input: ContractInput<typeof apiContracts.getBetLimits>, options?: ContractQueryOptions<typeof apiContracts.getBetLimits>) {
+  return useContractQuery(apiContracts.getBetLimits, input, options);
+}
+
+// PUT /api/bet-limits
+export function useSaveBetLimits(options?: ContractMutationOptions<typeof apiContracts.saveBetLimits>) {
+  return useContractMutation(apiContracts.saveBetLimits, options);
+}
+
+// GET /api/subadmin-credit/:id
+export function useGetSubadminCredit(input: ContractInput<typeof apiContracts.getSubadminCredit>, options?: ContractQueryOptions<typeof apiContracts.getSubadminCredit>) {
+  return useContractQuery(apiContracts.getSubadminCredit, input, options);
+}
+
+// PUT /api/subadmin-credit/:id/limit
+export function useSetSubadminCreditLimit(options?: ContractMutationOptions<typeof apiContracts.setSubadminCreditLimit>) {
+  return useContractMutation(apiContracts.setSubadminCreditLimit, options);
+}
+
+// POST /api/subadmin-credit/:id/top-up
+export function useTopUpSubadminFloat(options?: ContractMutationOptions<typeof apiContracts.topUpSubadminFloat>) {
+  return useContractMutation(apiContracts.topUpSubadminFloat, options);
+}
+
+// POST /api/subadmin-credit/:id/settle
+export function useSettleSubadminFloat(options?: ContractMutationOptions<typeof apiContracts.settleSubadminFloat>) {
+  return useContractMutation(apiContracts.settleSubadminFloat, options);
+}
+
+// PUT /api/subadmin-credit/:id/frozen
+export function useSetSubadminFloatFrozen(options?: ContractMutationOptions<typeof apiContracts.setSubadminFloatFrozen>) {
+  return useContractMutation(apiContracts.setSubadminFloatFrozen, options);
+}
+
+// GET /api/risk/alert-rules
+export function useGetRiskAlertRules(options?: ContractQueryOptions<typeof apiContracts.getRiskAlertRules>) {
+  return useContractQuery(apiContracts.getRiskAlertRules, {}, options);
+}
+
+// POST /api/risk/alert-rules
+export function useCreateRiskAlertRule(options?: ContractMutationOptions<typeof apiContracts.createRiskAlertRule>) {
+  return useContractMutation(apiContracts.createRiskAlertRule, options);
+}
+
+// PUT /api/risk/alert-rules/:id
+export function useUpdateRiskAlertRule(options?: ContractMutationOptions<typeof apiContracts.updateRiskAlertRule>) {
+  return useContractMutation(apiContracts.updateRiskAlertRule, options);
+}
+
+// DELETE /api/risk/alert-rules/:id
+export function useDeleteRiskAlertRule(options?: ContractMutationOptions<typeof apiContracts.deleteRiskAlertRule>) {
+  return useContractMutation(apiContracts.deleteRiskAlertRule, options);
+}
+
+// GET /api/risk/alerts
+export function useGetRiskAlerts(input: ContractInput<typeof apiContracts.getRiskAlerts>, options?: ContractQueryOptions<typeof apiContracts.getRiskAlerts>) {
+  return useContractQuery(apiContracts.getRiskAlerts, input, options);
+}
+
+// POST /api/risk/alerts/:id/acknowledge
+export function useAcknowledgeRiskAlert(options?: ContractMutationOptions<typeof apiContracts.acknowledgeRiskAlert>) {
+  return useContractMutation(apiContracts.acknowledgeRiskAlert, options);
+}
+
+// GET /api/risk/suspensions
+export function useGetBettingSuspensions(options?: ContractQueryOptions<typeof apiContracts.getBettingSuspensions>) {
+  return useContractQuery(apiContracts.getBettingSuspensions, {}, options);
+}
+
+// POST /api/risk/suspensions/:id/lift
+export function useLiftBettingSuspension(options?: ContractMutationOptions<typeof apiContracts.liftBettingSuspension>) {
+  return useContractMutation(apiContracts.liftBettingSuspension, options);
+}
+
+// GET /api/risk/snapshots
+export function useGetRiskSnapshots(input: ContractInput<typeof apiContracts.getRiskSnapshots>, options?: ContractQueryOptions<typeof apiContracts.getRiskSnapshots>) {
+  return useContractQuery(apiContracts.getRiskSnapshots, input, options);
+}
+
+// GET /api/risk/anomalies
+export function useGetAnomalyFindings(input: ContractInput<typeof apiContracts.getAnomalyFindings>, options?: ContractQueryOptions<typeof apiContracts.getAnomalyFindings>) {
+  return useContractQuery(apiContracts.getAnomalyFindings, input, options);
+}
+
+// POST /api/risk/anomalies/scan
+export function useRunAnomalyScan(options?: ContractMutationOptions<typeof apiContracts.runAnomalyScan>) {
+  return useContractMutation(apiContracts.runAnomalyScan, options);
+}
+
+// POST /api/risk/anomalies/:id/review
+export function useReviewAnomalyFinding(options?: ContractMutationOptions<typeof apiContracts.reviewAnomalyFinding>) {
+  return useContractMutation(apiContracts.reviewAnomalyFinding, options);
+}
+
+// GET /api/settings
+export function useGetSettings(input: ContractInput<typeof apiContracts.getSettings>, options?: ContractQueryOptions<typeof apiContracts.getSettings>) {
+  return useContractQuery(apiContracts.getSettings, input, options);
+}
+
+// POST /api/settings
+export function useSaveSetting(options?: ContractMutationOptions<typeof apiContracts.saveSetting>) {
+  return useContractMutation(apiContracts.saveSetting, options);
+}
+
+// GET /api/commissions
+export function useGetCommissions(options?: ContractQueryOptions<typeof apiContracts.getCommissions>) {
+  return useContractQuery(apiContracts.getCommissions, {}, options);
+}
+
+// GET /api/commissions/default
+export function useGetDefaultCommissions(options?: ContractQueryOptions<typeof apiContracts.getDefaultCommissions>) {
+  return useContractQuery(apiContracts.getDefaultCommissions, {}, options);
+}
+
+// POST /api/commissions/default
+export function useSaveDefaultCommissions(options?: ContractMutationOptions<typeof apiContracts.saveDefaultCommissions>) {
+  return useContractMutation(apiContracts.saveDefaultCommissions, options);
+}
+
+// GET /api/commissions/subadmin/:id
+export function useGetSubadminCommissions(input: ContractInput<typeof apiContracts.getSubadminCommissions>, options?: ContractQueryOptions<typeof apiContracts.getSubadminCommissions>) {
+  return useContractQuery(apiContracts.getSubadminCommissions, input, options);
+}
+
+// POST /api/commissions/subadmin
+export function useSaveSubadminCommission(options?: ContractMutationOptions<typeof apiContracts.saveSubadminCommission>) {
+  return useContractMutation(apiContracts.saveSubadminCommission, options);
+}
+
+// POST /api/commissions/subadmin/:id
+export function useSaveSubadminCommissions(options?: ContractMutationOptions<typeof apiContracts.saveSubadminCommissions>) {
+  return useContractMutation(apiContracts.saveSubadminCommissions, options);
+}
+
+// GET /api/discounts/user/:id
+export function useGetUserDiscounts(input: ContractInput<typeof apiContracts.getUserDiscounts>, options?: ContractQueryOptions<typeof apiContracts.getUserDiscounts>) {
+  return useContractQuery(apiContracts.getUserDiscounts, input, options);
+}
+
+// POST /api/discounts/user
+export function useSaveUserDiscount(options?: ContractMutationOptions<typeof apiContracts.saveUserDiscount>) {
+  return useContractMutation(apiContracts.saveUserDiscount, options);
+}
+
+// POST /api/discounts/user/:id
+export function useSaveUserDiscounts(options?: ContractMutationOptions<typeof apiContracts.saveUserDiscounts>) {
+  return useContractMutation(apiContracts.saveUserDiscounts, options);
+}
+
+// GET /api/satamatka/markets
+export function useGetSatamatkaMarkets(options?: ContractQueryOptions<typeof apiContracts.getSatamatkaMarkets>) {
+  return useContractQuery(apiContracts.getSatamatkaMarkets, {}, options);
+}
+
+// GET /api/satamatka/markets/active
+export function useGetActiveSatamatkaMarkets(options?: ContractQueryOptions<typeof apiContracts.getActiveSatamatkaMarkets>) {
+  return useContractQuery(apiContracts.getActiveSatamatkaMarkets, {}, options);
+}
+
+// GET /api/satamatka/markets/:id
+export function useGetSatamatkaMarket(input: ContractInput<typeof apiContracts.getSatamatkaMarket>, options?: ContractQueryOptions<typeof apiContracts.getSatamatkaMarket>) {
+  return useContractQuery(apiContracts.getSatamatkaMarket, input, options);
+}
+
+// POST /api/satamatka/play
+export function usePlaySatamatka(options?: ContractMutationOptions<typeof apiContracts.playSatamatka>) {
+  return useContractMutation(apiContracts.playSatamatka, options);
+}
+
+// POST /api/satamatka/play-multiple
+export function usePlaySatamatkaMultiple(options?: ContractMutationOptions<typeof apiContracts.playSatamatkaMultiple>) {
+  return useContractMutation(apiContracts.playSatamatkaMultiple, options);
+}
+
+// GET /api/team-matches
+export function useGetTeamMatches(input: ContractInput<typeof apiContracts.getTeamMatches>, options?: ContractQueryOptions<typeof apiContracts.getTeamMatches>) {
+  return useContractQuery(apiContracts.getTeamMatches, input, options);
+}
+
+// GET /api/team-matches/open
+export function useGetOpenTeamMatches(input: ContractInput<typeof apiContracts.getOpenTeamMatches>, options?: ContractQueryOptions<typeof apiContracts.getOpenTeamMatches>) {
+  return useContractQuery(apiContracts.getOpenTeamMatches, input, options);
+}
+
+// POST /api/team-matches
+export function useCreateTeamMatch(options?: ContractMutationOptions<typeof apiContracts.createTeamMatch>) {
+  return useContractMutation(apiContracts.createTeamMatch, options);
+}
+
+// PUT /api/team-matches/:id
+export function useUpdateTeamMatch(options?: ContractMutationOptions<typeof apiContracts.updateTeamMatch>) {
+  return useContractMutation(apiContracts.updateTeamMatch, options);
+}
+
+// POST /api/team-matches/:id/close
+export function useCloseTeamMatch(options?: ContractMutationOptions<typeof apiContracts.closeTeamMatch>) {
+  return useContractMutation(apiContracts.closeTeamMatch, options);
+}
+
+// POST /api/team-matches/:id/result
+export function useSettleTeamMatch(options?: ContractMutationOptions<typeof apiContracts.settleTeamMatch>) {
+  return useContractMutation(apiContracts.settleTeamMatch, options);
+}
+
+// POST /api/team-matches/:id/void
+export function useVoidTeamMatch(options?: ContractMutationOptions<typeof apiContracts.voidTeamMatch>) {
+  return useContractMutation(apiContracts.voidTeamMatch, options);
+}
+
+// POST /api/team-matches/:id/bet
+export function usePlaceTeamMatchBet(options?: ContractMutationOptions<typeof apiContracts.placeTeamMatchBet>) {
+  return useContractMutation(apiContracts.placeTeamMatchBet, options);
+}
+
+// GET /api/team-matches/my-bets
+export function useGetMyTeamMatchBets(options?: ContractQueryOptions<typeof apiContracts.getMyTeamMatchBets>) {
+  return useContractQuery(apiContracts.getMyTeamMatchBets, {}, options);
+}
+
+// GET /api/team-matches/:id/markets
+export function useGetMatchMarkets(input: ContractInput<typeof apiContracts.getMatchMarkets>, options?: ContractQueryOptions<typeof apiContracts.getMatchMarkets>) {
+  return useContractQuery(apiContracts.getMatchMarkets, input, options);
+}
+
+// GET /api/team-matches/:id/markets/open
+export function useGetOpenMatchMarkets(input: ContractInput<typeof apiContracts.getOpenMatchMarkets>, options?: ContractQueryOptions<typeof apiContracts.getOpenMatchMarkets>) {
+  return useContractQuery(apiContracts.getOpenMatchMarkets, input, options);
+}
+
+// POST /api/team-matches/:id/markets
+export function useCreateMatchMarket(options?: ContractMutationOptions<typeof apiContracts.createMatchMarket>) {
+  return useContractMutation(apiContracts.createMatchMarket, options);
+}
+
+// PUT /api/match-markets/:id/odds
+export function useUpdateMatchMarketOdds(options?: ContractMutationOptions<typeof apiContracts.updateMatchMarketOdds>) {
+  return useContractMutation(apiContracts.updateMatchMarketOdds, options);
+}
+
+// POST /api/match-markets/:id/close
+export function useCloseMatchMarket(options?: ContractMutationOptions<typeof apiContracts.closeMatchMarket>) {
+  return useContractMutation(apiContracts.closeMatchMarket, options);
+}
+
+// POST /api/match-markets/:id/result
+export function useSettleMatchMarket(options?: ContractMutationOptions<typeof apiContracts.settleMatchMarket>) {
+  return useContractMutation(apiContracts.settleMatchMarket, options);
+}
+
+// POST /api/match-markets/:id/void
+export function useVoidMatchMarket(options?: ContractMutationOptions<typeof apiContracts.voidMatchMarket>) {
+  return useContractMutation(apiContracts.voidMatchMarket, options);
+}
+
+// POST /api/market-selections/:id/bet
+export function usePlaceMatchMarketBet(options?: ContractMutationOptions<typeof apiContracts.placeMatchMarketBet>) {
+  return useContractMutation(apiContracts.placeMatchMarketBet, options);
+}
+
+// GET /api/match-markets/my-bets
+export function useGetMyMatchMarketBets(options?: ContractQueryOptions<typeof apiContracts.getMyMatchMarketBets>) {
+  return useContractQuery(apiContracts.getMyMatchMarketBets, {}, options);
+}
+
+// GET /api/games/my-history
+export function useGetMyGameHistory(options?: ContractQueryOptions<typeof apiContracts.getMyGameHistory>) {
+  return useContractQuery(apiContracts.getMyGameHistory, {}, options);
+}
+
+// POST /api/games/play
+export function usePlayCoinFlip(options?: ContractMutationOptions<typeof apiContracts.playCoinFlip>) {
+  return useContractMutation(apiContracts.playCoinFlip, options);
+}
+
+// GET /api/games/coin-flip/seeds
+export function useGetCoinFlipSeeds(options?: ContractQueryOptions<typeof apiContracts.getCoinFlipSeeds>) {
+  return useContractQuery(apiContracts.getCoinFlipSeeds, {}, options);
+}
+
+// PUT /api/games/coin-flip/seeds
+export function useSetCoinFlipClientSeed(options?: ContractMutationOptions<typeof apiContracts.setCoinFlipClientSeed>) {
+  return useContractMutation(apiContracts.setCoinFlipClientSeed, options);
+}
+
+// GET /api/wallet/payment-details
+export function useGetPaymentDetails(options?: ContractQueryOptions<typeof apiContracts.getPaymentDetails>) {
+  return useContractQuery(apiContracts.getPaymentDetails, {}, options);
+}
+
+// PUT /api/wallet/payment-details
+export function useSavePaymentDetails(options?: ContractMutationOptions<typeof apiContracts.savePaymentDetails>) {
+  return useContractMutation(apiContracts.savePaymentDetails, options);
+}
+
+// GET /api/wallet/my-requests
+export function useGetMyWalletRequests(options?: ContractQueryOptions<typeof apiContracts.getMyWalletRequests>) {
+  return useContractQuery(apiContracts.getMyWalletRequests, {}, options);
+}
+
+// POST /api/wallet/requests
+export function useCreateWalletRequest(options?: ContractMutationOptions<typeof apiContracts.createWalletRequest>) {
+  return useContractMutation(apiContracts.createWalletRequest, options);
+}
+
+// GET /api/transactions
+export function useGetTransactions(options?: ContractQueryOptions<typeof apiContracts.getTransactions>) {
+  return useContractQuery(apiContracts.getTransactions, {}, options);
+}
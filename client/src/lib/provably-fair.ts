@@ -0,0 +1,46 @@
+import { coinFlipMessage, coinFlipOutcomeFromHmac, type CoinFlipFairness } from "@shared/provably-fair";
+import type { GameOutcome } from "@shared/schema";
+
+export type CoinFlipVerification = {
+  // The revealed server seed hashes to the commitment shown before the flip
+  hashMatches: boolean;
+  // The outcome recomputed from the revealed seeds
+  outcome: GameOutcome;
+};
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Recompute a past flip in the browser, independently of the server
+ */
+export async function verifyCoinFlip(fairness: CoinFlipFairness): Promise<CoinFlipVerification> {
+  const seedHash = toHex(await crypto.subtle.digest("SHA-256", encoder.encode(fairness.serverSeed)));
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(fairness.serverSeed),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const hmac = toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(coinFlipMessage(fairness.clientSeed, fairness.nonce))));
+
+  return {
+    hashMatches: seedHash === fairness.serverSeedHash,
+    outcome: coinFlipOutcomeFromHmac(hmac),
+  };
+}
+
+/**
+ * The fairness record of a coin flip game, if it was played provably fair
+ */
+export function coinFlipFairnessOf(gameData: unknown): CoinFlipFairness | null {
+  const fairness = (gameData as { fairness?: CoinFlipFairness } | null)?.fairness;
+  return fairness?.serverSeed ? fairness : null;
+}
@@ -0,0 +1,73 @@
+import { MatchMarketType, MatchSport, SPORT_OUTCOMES, TeamMatchResult, type TeamMatch } from "@shared/schema";
+
+export const SPORT_LABELS: Record<MatchSport, string> = {
+  [MatchSport.CRICKET]: "Cricket",
+  [MatchSport.FOOTBALL]: "Football",
+  [MatchSport.BASKETBALL]: "Basketball",
+  [MatchSport.TENNIS]: "Tennis",
+  [MatchSport.OTHER]: "Other",
+};
+
+export const SPORTS = Object.values(MatchSport);
+
+type MatchOdds = Pick<TeamMatch, "category" | "teamA" | "teamB" | "oddTeamA" | "oddTeamB" | "oddDraw">;
+
+export function sportLabel(category: string): string {
+  return SPORT_LABELS[category as MatchSport] ?? category;
+}
+
+/**
+ * The results a match can be bet on, from its sport
+ */
+export function matchOutcomes(match: Pick<TeamMatch, "category">): TeamMatchResult[] {
+  return SPORT_OUTCOMES[match.category as MatchSport] ?? [];
+}
+
+export function outcomeLabel(match: Pick<TeamMatch, "teamA" | "teamB">, outcome: string): string {
+  switch (outcome) {
+    case TeamMatchResult.TEAM_A:
+      return match.teamA;
+    case TeamMatchResult.TEAM_B:
+      return match.teamB;
+    case TeamMatchResult.DRAW:
+      return "Draw";
+    case TeamMatchResult.CANCELLED:
+      return "Cancelled";
+    default:
+      return outcome;
+  }
+}
+
+// Odds are stored x100 (200 = 2.00x)
+export function outcomeOdds(match: MatchOdds, outcome: string): number {
+  if (outcome === TeamMatchResult.TEAM_A) return match.oddTeamA;
+  if (outcome === TeamMatchResult.TEAM_B) return match.oddTeamB;
+  return match.oddDraw ?? 0;
+}
+
+export function formatOdds(odds: number): string {
+  return (odds / 100).toFixed(2);
+}
+
+export const MARKET_TYPE_LABELS: Record<MatchMarketType, string> = {
+  [MatchMarketType.TOSS]: "Toss",
+  [MatchMarketType.MATCH_WINNER]: "Match Winner",
+  [MatchMarketType.OVER_UNDER]: "First Innings Over/Under",
+  [MatchMarketType.TOP_BATSMAN]: "Top Batsman",
+};
+
+export const MARKET_TYPES = Object.values(MatchMarketType);
+
+// Over/under lines are stored in tenths of a run (1655 = 165.5)
+export function formatLine(line: number): string {
+  return (line / 10).toFixed(1);
+}
+
+// Time left before betting closes, as h:mm:ss
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+}
@@ -127,7 +127,7 @@ export enum RequestType {
 export interface WalletRequest {
   id: number;
   userId: number;
-  amount: number;
+  amount: number; // paisa
   requestType: RequestType;
   paymentMode: PaymentMode;
   paymentDetails: {
@@ -149,7 +149,7 @@ export interface WalletRequest {
 export interface Transaction {
   id: number;
   userId: number;
-  amount: number;
+  amount: number; // paisa
   type: string;
   description: string;
   relatedId?: number;
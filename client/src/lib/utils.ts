@@ -25,23 +25,3 @@ export function formatDate(dateString: string | Date, formatStr: string = "MMM d
     return typeof dateString === 'string' ? dateString : dateString.toString();
   }
 }
-
-/**
- * Format a number as currency
- * @param amount Amount to format
- * @param currency Currency code (defaults to INR)
- * @returns Formatted currency string
- */
-export function formatCurrency(amount: number, currency: string = "INR") {
-  try {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency,
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount);
-  } catch (error) {
-    console.error("Error formatting currency:", error);
-    return amount.toString();
-  }
-}
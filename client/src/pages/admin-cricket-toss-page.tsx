@@ -66,6 +66,9 @@ import { formatDate } from "@/lib/utils";
 import { apiRequest } from "@/lib/queryClient";
 import { Badge } from "@/components/ui/badge";
 import DashboardLayout from "@/components/dashboard-layout";
+import SettlementPreviewPanel, { type SettlementPreview } from "@/components/settlement-preview-panel";
+import MatchMarketsDialog from "@/components/match-markets-dialog";
+import FixtureImportDialog from "@/components/fixture-import-dialog";
 import {
   Check,
   X,
@@ -77,6 +80,8 @@ import {
   AlertCircle,
   Plus,
   Filter,
+  ListChecks,
+  Upload,
 } from "lucide-react";
 import { format } from "date-fns";
 
@@ -135,7 +140,9 @@ export default function AdminCricketTossPage() {
     null,
   );
   const [open, setOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   const [declareOpen, setDeclareOpen] = useState(false);
+  const [resultPreview, setResultPreview] = useState<{ result: string; preview: SettlementPreview } | null>(null);
   const [confirmCloseOpen, setConfirmCloseOpen] = useState(false);
   const [matchToClose, setMatchToClose] = useState<number | null>(null);
   const [coverImagePreview, setCoverImagePreview] = useState<string | null>(
@@ -147,6 +154,8 @@ export default function AdminCricketTossPage() {
     null,
   );
   const [editOpen, setEditOpen] = useState(false);
+  // Match whose other markets (match winner, over/under...) are being managed
+  const [marketsMatch, setMarketsMatch] = useState<CricketTossMatch | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -466,6 +475,22 @@ export default function AdminCricketTossPage() {
     },
   });
 
+  // Dry run of declaring a result: nothing is saved
+  const previewResultMutation = useMutation({
+    mutationFn: async ({ matchId, result }: { matchId: number; result: string }) => {
+      const res = await apiRequest("POST", `/api/cricket-toss/matches/${matchId}/result/preview`, { result });
+      return { result, preview: (await res.json()) as SettlementPreview };
+    },
+    onSuccess: (data) => setResultPreview(data),
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to preview result",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Handle form submission for creating a new cricket toss match
   const onSubmit = (values: z.infer<typeof createCricketTossSchema>) => {
     createCricketTossMutation.mutate(values);
@@ -558,13 +583,19 @@ export default function AdminCricketTossPage() {
             <span>{dateString}</span>
           </div>
 
-          <Button
-            onClick={() => setOpen(true)}
-            className="bg-gradient-to-r from-blue-600 to-indigo-600"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Add Match
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setImportOpen(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import Fixtures
+            </Button>
+            <Button
+              onClick={() => setOpen(true)}
+              className="bg-gradient-to-r from-blue-600 to-indigo-600"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Match
+            </Button>
+          </div>
         </div>
         <p className="text-muted-foreground">
           Manage cricket toss matches, declare results, and create new matches
@@ -754,10 +785,18 @@ export default function AdminCricketTossPage() {
                               </DropdownMenuItem>
                             )}
 
+                            {match.status !== "cancelled" && (
+                              <DropdownMenuItem onClick={() => setMarketsMatch(match)}>
+                                <ListChecks className="mr-2 h-4 w-4" />
+                                Manage Markets
+                              </DropdownMenuItem>
+                            )}
+
                             {match.status === "closed" && (
                               <DropdownMenuItem
                                 onClick={() => {
                                   setSelectedMatch(match);
+                                  setResultPreview(null);
                                   setDeclareOpen(true);
                                 }}
                               >
@@ -1170,7 +1209,7 @@ export default function AdminCricketTossPage() {
         open={declareOpen && !!selectedMatch}
         onOpenChange={setDeclareOpen}
       >
-        <DialogContent>
+        <DialogContent className={resultPreview ? "max-w-2xl max-h-[90vh] overflow-y-auto" : undefined}>
           <DialogHeader>
             <DialogTitle>Declare Cricket Toss Result</DialogTitle>
           </DialogHeader>
@@ -1201,7 +1240,29 @@ export default function AdminCricketTossPage() {
               >
                 <span>{selectedMatch?.teamB} Wins</span>
               </Button>
+              {(["team_a", "team_b"] as const).map((result) => (
+                <Button
+                  key={result}
+                  variant="outline"
+                  size="sm"
+                  disabled={previewResultMutation.isPending}
+                  onClick={() =>
+                    selectedMatch &&
+                    previewResultMutation.mutate({ matchId: selectedMatch.id, result })
+                  }
+                >
+                  Preview {result === "team_a" ? selectedMatch?.teamA : selectedMatch?.teamB} win
+                </Button>
+              ))}
             </div>
+            {resultPreview && (
+              <div className="mt-4">
+                <p className="mb-2 font-medium">
+                  If {resultPreview.result === "team_a" ? selectedMatch?.teamA : selectedMatch?.teamB} wins:
+                </p>
+                <SettlementPreviewPanel preview={resultPreview.preview} />
+              </div>
+            )}
           </div>
         </DialogContent>
       </Dialog>
@@ -1238,6 +1299,13 @@ export default function AdminCricketTossPage() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <MatchMarketsDialog
+        match={marketsMatch && { ...marketsMatch, category: "cricket_toss" }}
+        onOpenChange={(open) => !open && setMarketsMatch(null)}
+      />
+
+      <FixtureImportDialog open={importOpen} onOpenChange={setImportOpen} />
     </DashboardLayout>
   );
 }
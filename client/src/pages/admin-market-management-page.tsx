@@ -4,6 +4,7 @@ import { getQueryFn, apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import { format, parseISO } from "date-fns";
 import DashboardLayout from "@/components/dashboard-layout";
+import SettlementPreviewPanel, { type SettlementPreview } from "@/components/settlement-preview-panel";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -176,6 +177,7 @@ export default function AdminMarketManagementPage() {
   const [isAddMarketOpen, setIsAddMarketOpen] = useState(false);
   const [editingMarket, setEditingMarket] = useState<SatamatkaMarket | null>(null);
   const [declareResultMarket, setDeclareResultMarket] = useState<SatamatkaMarket | null>(null);
+  const [settlementPreview, setSettlementPreview] = useState<SettlementPreview | null>(null);
   const [isTemplateSelectOpen, setIsTemplateSelectOpen] = useState(false);
   const [selectedTemplate, setSelectedTemplate] = useState<SatamatkaMarket | null>(null);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
@@ -280,6 +282,23 @@ export default function AdminMarketManagementPage() {
     },
   });
 
+  // Dry run of the declaration: nothing is saved
+  const previewMarketResult = useMutation({
+    mutationFn: async ({ market, result }: { market: SatamatkaMarket; result: string }) => {
+      const body = market.status === "open" ? { openResult: result } : { closeResult: result };
+      const res = await apiRequest("POST", `/api/satamatka/markets/${market.id}/results/preview`, body);
+      return res.json() as Promise<SettlementPreview>;
+    },
+    onSuccess: (preview) => setSettlementPreview(preview),
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to preview result",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const createMarket = useMutation({
     mutationFn: async (data: z.infer<typeof marketFormSchema>) => {
       // Combine date and time fields into ISO strings
@@ -432,9 +451,17 @@ export default function AdminMarketManagementPage() {
   // Handle opening declare result dialog
   const handleDeclareResult = (market: SatamatkaMarket) => {
     setDeclareResultMarket(market);
+    setSettlementPreview(null);
     resultForm.reset({ result: "" });
   };
 
+  // Handle previewing what the entered result would pay
+  const handlePreviewResult = resultForm.handleSubmit((data) => {
+    if (declareResultMarket) {
+      previewMarketResult.mutate({ market: declareResultMarket, result: data.result });
+    }
+  });
+
   // Handle submit for declaring result
   const onSubmitResult = (data: z.infer<typeof resultFormSchema>) => {
     if (declareResultMarket) {
@@ -677,7 +704,7 @@ export default function AdminMarketManagementPage() {
 
       {/* Declare Result Dialog */}
       <Dialog open={!!declareResultMarket} onOpenChange={(open) => !open && setDeclareResultMarket(null)}>
-        <DialogContent>
+        <DialogContent className={settlementPreview ? "max-w-2xl max-h-[90vh] overflow-y-auto" : undefined}>
           <DialogHeader>
             <DialogTitle>Declare Final Result</DialogTitle>
             <DialogDescription>
@@ -695,7 +722,15 @@ export default function AdminMarketManagementPage() {
                   <FormItem>
                     <FormLabel>Final Result</FormLabel>
                     <FormControl>
-                      <Input {...field} placeholder="e.g. 42" maxLength={2} />
+                      <Input
+                        {...field}
+                        placeholder="e.g. 42"
+                        maxLength={2}
+                        onChange={(e) => {
+                          field.onChange(e);
+                          setSettlementPreview(null);
+                        }}
+                      />
                     </FormControl>
                     <FormDescription>
                       Enter a two-digit number (00-99).
@@ -708,6 +743,8 @@ export default function AdminMarketManagementPage() {
                 )}
               />
               
+              {settlementPreview && <SettlementPreviewPanel preview={settlementPreview} />}
+              
               <DialogFooter>
                 <Button 
                   type="button" 
@@ -716,6 +753,14 @@ export default function AdminMarketManagementPage() {
                 >
                   Cancel
                 </Button>
+                <Button 
+                  type="button" 
+                  variant="secondary"
+                  disabled={previewMarketResult.isPending}
+                  onClick={handlePreviewResult}
+                >
+                  {previewMarketResult.isPending ? "Previewing..." : "Preview"}
+                </Button>
                 <Button 
                   type="submit" 
                   disabled={updateMarketResult.isPending}
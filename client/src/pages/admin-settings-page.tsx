@@ -1,5 +1,6 @@
 import { useState, useEffect, useRef } from "react";
 import DashboardLayout from "@/components/dashboard-layout";
+import BetLimitsForm from "@/components/bet-limits-form";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -9,6 +10,17 @@ import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { callApi } from "@/lib/api-client";
+import {
+  useGetDefaultCommissions,
+  useGetGameOdds,
+  useGetSettings,
+  useSaveDefaultCommissions,
+  useSaveGameOdd,
+  useSavePaymentDetails,
+  useSaveSetting,
+} from "@/lib/api.generated";
+import { apiContracts } from "@shared/api-contracts";
 import { Loader2, Upload, X, Info, Trash2, RefreshCw } from "lucide-react";
 
 export default function AdminSettingsPage() {
@@ -25,6 +37,9 @@ export default function AdminSettingsPage() {
   const [accountNumber, setAccountNumber] = useState("");
   const [accountName, setAccountName] = useState("");
   const [ifscCode, setIfscCode] = useState("");
+
+  // Minutes before the match time that cricket toss betting closes
+  const [tossCloseMinutes, setTossCloseMinutes] = useState("30");
   
   // Slider Images State
   const [sliderImages, setSliderImages] = useState<{filename: string, url: string}[]>([]);
@@ -71,38 +86,35 @@ export default function AdminSettingsPage() {
   const [defaultCommissionRate, setDefaultCommissionRate] = useState("10.0");
   
   // Query to fetch default commission rates
-  const { isLoading: isLoadingDefaultCommissions, data: defaultCommissionData } = useQuery({
-    queryKey: ['/api/commissions/default'],
-    queryFn: () => fetch('/api/commissions/default', {
-      credentials: 'include'
-    }).then(res => res.json())
-  });
+  const { isLoading: isLoadingDefaultCommissions, data: defaultCommissionData } = useGetDefaultCommissions();
   
-  // Update commission rate when default data is loaded
+  // Update commission rate when default data is loaded (stored as basis points)
   useEffect(() => {
     if (defaultCommissionData && defaultCommissionData.deposit) {
-      setDefaultCommissionRate(defaultCommissionData.deposit.toString());
+      setDefaultCommissionRate((defaultCommissionData.deposit / 100).toString());
     }
   }, [defaultCommissionData]);
 
   // Load payment settings
-  const { data: paymentSettings, isLoading: isLoadingPayment } = useQuery<any[]>({
-    queryKey: ['/api/settings', 'payment'],
-    queryFn: () => apiRequest("GET", '/api/settings?type=payment')
-      .then(res => res.json()),
-  });
+  const { data: paymentSettings, isLoading: isLoadingPayment } = useGetSettings({ query: { type: "payment" } });
   
+  // Load the cricket toss betting cut-off
+  const { data: cricketTossSettings } = useGetSettings({ query: { type: "cricket_toss" } });
+
+  useEffect(() => {
+    const setting = cricketTossSettings?.find(s => s.settingKey === "close_minutes_before_start");
+    if (setting) {
+      setTossCloseMinutes(setting.settingValue);
+    }
+  }, [cricketTossSettings]);
+
   // Load game image settings
-  const { data: gameImageSettings } = useQuery<any[]>({
-    queryKey: ['/api/settings', 'game_images'],
-    queryFn: () => apiRequest("GET", '/api/settings?type=game_images')
-      .then(res => res.json()),
-  });
+  const { data: gameImageSettings } = useGetSettings({ query: { type: "game_images" } });
 
   // Process payment settings when they load
   useEffect(() => {
     if (paymentSettings) {
-      paymentSettings.forEach((setting: any) => {
+      paymentSettings.forEach((setting) => {
         switch (setting.settingKey) {
           case 'upi_id':
             setUpiId(setting.settingValue);
@@ -125,18 +137,10 @@ export default function AdminSettingsPage() {
   }, [paymentSettings]);
 
   // Load game odds
-  const { data: coinFlipOddsData, isLoading: isLoadingOdds } = useQuery<any[]>({
-    queryKey: ['/api/game-odds', 'coin_flip'],
-    queryFn: () => apiRequest("GET", '/api/game-odds?gameType=coin_flip')
-      .then(res => res.json()),
-  });
+  const { data: coinFlipOddsData, isLoading: isLoadingOdds } = useGetGameOdds({ query: { gameType: "coin_flip" } });
 
   // Load cricket toss odds
-  const { data: cricketTossOddsData } = useQuery<any[]>({
-    queryKey: ['/api/game-odds', 'cricket_toss'],
-    queryFn: () => apiRequest("GET", '/api/game-odds?gameType=cricket_toss')
-      .then(res => res.json()),
-  });
+  const { data: cricketTossOddsData } = useGetGameOdds({ query: { gameType: "cricket_toss" } });
 
   // Team match odds queries removed
 
@@ -161,14 +165,13 @@ export default function AdminSettingsPage() {
   // Team match odds processing removed
 
   // Load satamatka odds
-  const { data: satamatkaOddsData } = useQuery<any>({
+  const { data: satamatkaOddsData } = useQuery({
     queryKey: ['/api/game-odds', 'satamatka'],
     queryFn: async () => {
       const modes = ['jodi', 'harf', 'crossing', 'odd_even'];
       const results = await Promise.all(
         modes.map(mode => 
-          apiRequest("GET", `/api/game-odds?gameType=satamatka_${mode}`)
-            .then(res => res.json())
+          callApi(apiContracts.getGameOdds, { query: { gameType: `satamatka_${mode}` } })
         )
       );
       
@@ -473,9 +476,7 @@ export default function AdminSettingsPage() {
   });
 
   // Save settings mutation
-  const saveMutation = useMutation({
-    mutationFn: (settings: any) => apiRequest("POST", '/api/settings', settings)
-      .then(res => res.json()),
+  const saveMutation = useSaveSetting({
     onSuccess: () => {
       toast({
         title: "Settings Saved",
@@ -493,9 +494,7 @@ export default function AdminSettingsPage() {
   });
 
   // Save game odds mutation
-  const saveOddsMutation = useMutation({
-    mutationFn: (odds: any) => apiRequest("POST", '/api/game-odds', odds)
-      .then(res => res.json()),
+  const saveOddsMutation = useSaveGameOdd({
     onSuccess: () => {
       toast({
         title: "Game Odds Saved",
@@ -513,9 +512,7 @@ export default function AdminSettingsPage() {
   });
 
   // Save commission mutation
-  const saveCommissionMutation = useMutation({
-    mutationFn: (commission: any) => apiRequest("POST", '/api/commissions/default', commission)
-      .then(res => res.json()),
+  const saveCommissionMutation = useSaveDefaultCommissions({
     onSuccess: () => {
       toast({
         title: "Commission Rates Saved",
@@ -534,9 +531,7 @@ export default function AdminSettingsPage() {
   });
 
   // Additional mutation to update wallet payment details
-  const saveWalletPaymentDetailsMutation = useMutation({
-    mutationFn: (details: any) => apiRequest("PUT", '/api/wallet/payment-details', details)
-      .then(res => res.json()),
+  const saveWalletPaymentDetailsMutation = useSavePaymentDetails({
     onSuccess: () => {
       toast({
         title: "Payment Details Saved",
@@ -554,98 +549,80 @@ export default function AdminSettingsPage() {
   });
 
   // Handle payment settings save
+  const handleSaveTossCloseMinutes = () => {
+    const minutes = Number(tossCloseMinutes);
+    if (!Number.isInteger(minutes) || minutes < 0) {
+      toast({
+        title: "Invalid Cut-off",
+        description: "Enter a whole number of minutes, 0 or more.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveMutation.mutate({
+      body: { settingType: "cricket_toss", settingKey: "close_minutes_before_start", settingValue: String(minutes) },
+    });
+  };
+
   const handleSavePayment = () => {
     // Save individual settings
     // Save UPI ID
-    saveMutation.mutate({ 
-      settingType: "payment", 
-      settingKey: "upi_id", 
-      settingValue: upiId 
+    saveMutation.mutate({
+      body: { settingType: "payment", settingKey: "upi_id", settingValue: upiId },
     });
     
     // Save Bank Details
-    saveMutation.mutate({ 
-      settingType: "payment", 
-      settingKey: "bank_name", 
-      settingValue: bankName 
+    saveMutation.mutate({
+      body: { settingType: "payment", settingKey: "bank_name", settingValue: bankName },
     });
     
-    saveMutation.mutate({ 
-      settingType: "payment", 
-      settingKey: "account_number", 
-      settingValue: accountNumber 
+    saveMutation.mutate({
+      body: { settingType: "payment", settingKey: "account_number", settingValue: accountNumber },
     });
     
-    saveMutation.mutate({ 
-      settingType: "payment", 
-      settingKey: "account_name", 
-      settingValue: accountName 
+    saveMutation.mutate({
+      body: { settingType: "payment", settingKey: "account_name", settingValue: accountName },
     });
     
-    saveMutation.mutate({ 
-      settingType: "payment", 
-      settingKey: "ifsc_code", 
-      settingValue: ifscCode 
+    saveMutation.mutate({
+      body: { settingType: "payment", settingKey: "ifsc_code", settingValue: ifscCode },
     });
     
     // IMPORTANT: Also update the wallet payment details for the client interface
     saveWalletPaymentDetailsMutation.mutate({
-      upi: {
-        id: upiId,
-        qrCode: qrCodeUrl || null
-      },
-      bank: {
-        name: bankName,
-        accountNumber: accountNumber,
-        ifscCode: ifscCode,
-        accountHolder: accountName
+      body: {
+        upi: {
+          id: upiId,
+          qrCode: qrCodeUrl || null
+        },
+        bank: {
+          name: bankName,
+          accountNumber: accountNumber,
+          ifscCode: ifscCode,
+          accountHolder: accountName
+        }
       }
     });
   };
 
   // Handle game odds save
   const handleSaveGameOdds = () => {
-    // Save Coin Flip odds
-    // Don't multiply by 10000 again since we already did it in the input onChange handler
-    saveOddsMutation.mutate({
-      gameType: "coin_flip",
-      oddValue: Number(coinFlipOdds),
-      setByAdmin: true
-    });
-    
-    // Save Cricket Toss odds
-    saveOddsMutation.mutate({
-      gameType: "cricket_toss",
-      oddValue: Number(cricketTossOdds),
-      setByAdmin: true
-    });
-    
-    // Team match odds saving removed
-    
-    // Save Satamatka odds
-    saveOddsMutation.mutate({
-      gameType: "satamatka_jodi",
-      oddValue: Number(satamatkaOdds.jodi),
-      setByAdmin: true
-    });
-    
-    saveOddsMutation.mutate({
-      gameType: "satamatka_harf",
-      oddValue: Number(satamatkaOdds.harf),
-      setByAdmin: true
-    });
-    
-    saveOddsMutation.mutate({
-      gameType: "satamatka_crossing",
-      oddValue: Number(satamatkaOdds.crossing),
-      setByAdmin: true
-    });
-    
-    saveOddsMutation.mutate({
-      gameType: "satamatka_odd_even",
-      oddValue: Number(satamatkaOdds.odd_even),
-      setByAdmin: true
-    });
+    // The inputs hold decimal multipliers; odds are stored x10000
+    const odds: Record<string, string> = {
+      coin_flip: coinFlipOdds,
+      cricket_toss: cricketTossOdds,
+      satamatka_jodi: satamatkaOdds.jodi,
+      satamatka_harf: satamatkaOdds.harf,
+      satamatka_crossing: satamatkaOdds.crossing,
+      satamatka_odd_even: satamatkaOdds.odd_even,
+    };
+
+    for (const [gameType, multiplier] of Object.entries(odds)) {
+      saveOddsMutation.mutate({
+        body: { gameType, oddValue: Math.round(Number(multiplier) * 10000) },
+      });
+    }
   };
   
   // Handle slider image upload
@@ -814,9 +791,11 @@ export default function AdminSettingsPage() {
     
     // Save this selection to the database
     saveMutation.mutate({
-      settingType: "game_images",
-      settingKey: `primary_${gameType}`,
-      settingValue: filename
+      body: {
+        settingType: "game_images",
+        settingKey: `primary_${gameType}`,
+        settingValue: filename
+      }
     });
     
     toast({
@@ -898,6 +877,9 @@ export default function AdminSettingsPage() {
               <TabsTrigger value="commission" className="flex-shrink-0 whitespace-nowrap px-3 py-2 text-sm">
                 Commission
               </TabsTrigger>
+              <TabsTrigger value="limits" className="flex-shrink-0 whitespace-nowrap px-3 py-2 text-sm">
+                Bet Limits
+              </TabsTrigger>
               <TabsTrigger value="slider" className="flex-shrink-0 whitespace-nowrap px-3 py-2 text-sm">
                 Sliders
               </TabsTrigger>
@@ -913,10 +895,11 @@ export default function AdminSettingsPage() {
 
         {/* Desktop view: grid tabs */}
         <div className="hidden md:block">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="payment">Payment Settings</TabsTrigger>
             <TabsTrigger value="odds">Platform Game Odds</TabsTrigger>
             <TabsTrigger value="commission">Subadmin Commission</TabsTrigger>
+            <TabsTrigger value="limits">Bet Limits</TabsTrigger>
             <TabsTrigger value="slider">Sliders</TabsTrigger>
             <TabsTrigger value="gamecards">Game Cards</TabsTrigger>
           </TabsList>
@@ -1219,6 +1202,48 @@ export default function AdminSettingsPage() {
           </Card>
         </TabsContent>
         
+        {/* Bet Limits Tab */}
+        <TabsContent value="limits">
+          <Card>
+            <CardHeader>
+              <CardTitle>Platform Bet Limits</CardTitle>
+              <CardDescription>
+                Stake limits checked whenever a bet is placed. Subadmins can tighten them for their own players.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <BetLimitsForm subadminId={null} />
+            </CardContent>
+          </Card>
+
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Cricket Toss Betting Cut-off</CardTitle>
+              <CardDescription>
+                Toss matches stop taking bets this many minutes before their match time. Other matches close at the match time.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2 max-w-xs">
+                <Label htmlFor="toss-close-minutes">Minutes before match time</Label>
+                <Input
+                  id="toss-close-minutes"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={tossCloseMinutes}
+                  onChange={(e) => setTossCloseMinutes(e.target.value)}
+                />
+              </div>
+            </CardContent>
+            <CardFooter>
+              <Button onClick={handleSaveTossCloseMinutes} disabled={saveMutation.isPending}>
+                Save Cut-off
+              </Button>
+            </CardFooter>
+          </Card>
+        </TabsContent>
+
         {/* Commission Tab */}
         <TabsContent value="commission">
           <Card>
@@ -1345,8 +1370,10 @@ export default function AdminSettingsPage() {
                 onClick={() => {
                   // Save platform-wide default commission rate for fund transfers
                   saveCommissionMutation.mutate({
-                    defaultRates: {
-                      deposit: Math.round(parseFloat(defaultCommissionRate) * 100)
+                    body: {
+                      defaultRates: {
+                        deposit: Math.round(parseFloat(defaultCommissionRate) * 100)
+                      }
                     }
                   });
                 }}
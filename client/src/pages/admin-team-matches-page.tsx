@@ -0,0 +1,518 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { formatRupees } from "@shared/money";
+import { MatchSport, SPORT_OUTCOMES, TeamMatchResult } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  useCloseTeamMatch,
+  useCreateTeamMatch,
+  useGetTeamMatches,
+  useSettleTeamMatch,
+  useUpdateTeamMatch,
+  useVoidTeamMatch,
+} from "@/lib/api.generated";
+import {
+  SPORTS,
+  SPORT_LABELS,
+  formatOdds,
+  matchOutcomes,
+  outcomeLabel,
+  outcomeOdds,
+  sportLabel,
+} from "@/lib/team-matches";
+import DashboardLayout from "@/components/dashboard-layout";
+import SettlementPreviewPanel, { type SettlementPreview } from "@/components/settlement-preview-panel";
+import MatchMarketsDialog from "@/components/match-markets-dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Plus } from "lucide-react";
+
+// Select value for every sport
+const ALL_SPORTS = "all";
+
+type MatchRow = NonNullable<ReturnType<typeof useGetTeamMatches>["data"]>[number];
+
+// Form values as typed: odds are decimal strings like "1.90"
+type MatchDraft = {
+  sport: MatchSport;
+  teamA: string;
+  teamB: string;
+  description: string;
+  matchTime: string;
+  oddTeamA: string;
+  oddTeamB: string;
+  oddDraw: string;
+};
+
+const EMPTY_DRAFT: MatchDraft = {
+  sport: MatchSport.FOOTBALL,
+  teamA: "",
+  teamB: "",
+  description: "",
+  matchTime: "",
+  oddTeamA: "1.90",
+  oddTeamB: "1.90",
+  oddDraw: "3.00",
+};
+
+function toDraft(match: MatchRow): MatchDraft {
+  return {
+    sport: match.category as MatchSport,
+    teamA: match.teamA,
+    teamB: match.teamB,
+    description: match.description ?? "",
+    matchTime: format(new Date(match.matchTime), "yyyy-MM-dd'T'HH:mm"),
+    oddTeamA: formatOdds(match.oddTeamA),
+    oddTeamB: formatOdds(match.oddTeamB),
+    oddDraw: formatOdds(match.oddDraw ?? 300),
+  };
+}
+
+function offersDraw(sport: MatchSport): boolean {
+  return SPORT_OUTCOMES[sport].includes(TeamMatchResult.DRAW);
+}
+
+function toBody(draft: MatchDraft) {
+  const odds = (value: string) => Math.round(parseFloat(value) * 100);
+  return {
+    sport: draft.sport,
+    teamA: draft.teamA,
+    teamB: draft.teamB,
+    description: draft.description || undefined,
+    matchTime: new Date(draft.matchTime).toISOString(),
+    oddTeamA: odds(draft.oddTeamA),
+    oddTeamB: odds(draft.oddTeamB),
+    oddDraw: offersDraw(draft.sport) ? odds(draft.oddDraw) : null,
+  };
+}
+
+function statusBadge(status: string) {
+  switch (status) {
+    case "open":
+      return <Badge className="bg-green-500">Open</Badge>;
+    case "closed":
+      return <Badge className="bg-yellow-500">Closed</Badge>;
+    case "resulted":
+      return <Badge className="bg-blue-500">Resulted</Badge>;
+    case "cancelled":
+      return <Badge variant="destructive">Cancelled</Badge>;
+    default:
+      return <Badge>{status}</Badge>;
+  }
+}
+
+function invalidateMatches() {
+  queryClient.invalidateQueries({ queryKey: ["/api/team-matches"] });
+}
+
+/**
+ * Admin screen for team matches on any sport: create and edit them, close
+ * betting, and declare or void their results
+ */
+export default function AdminTeamMatchesPage() {
+  const { toast } = useToast();
+  const [sport, setSport] = useState<string>(ALL_SPORTS);
+
+  // The match being created (null id) or edited
+  const [editing, setEditing] = useState<{ id: number | null; draft: MatchDraft } | null>(null);
+  const [settling, setSettling] = useState<MatchRow | null>(null);
+  const [result, setResult] = useState<string>("");
+  const [preview, setPreview] = useState<SettlementPreview | null>(null);
+  const [voiding, setVoiding] = useState<MatchRow | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+  // Match whose other markets (toss, over/under...) are being managed
+  const [marketsMatch, setMarketsMatch] = useState<MatchRow | null>(null);
+
+  const { data: matches = [], isLoading } = useGetTeamMatches({
+    query: { sport: sport === ALL_SPORTS ? undefined : sport as MatchSport },
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createMatch = useCreateTeamMatch({
+    onSuccess: () => {
+      invalidateMatches();
+      setEditing(null);
+      toast({ title: "Match created", description: "It is open for betting" });
+    },
+    onError,
+  });
+  const updateMatch = useUpdateTeamMatch({
+    onSuccess: () => {
+      invalidateMatches();
+      setEditing(null);
+      toast({ title: "Match saved", description: "New odds apply to bets placed from now on" });
+    },
+    onError,
+  });
+  const closeMatch = useCloseTeamMatch({
+    onSuccess: () => {
+      invalidateMatches();
+      toast({ title: "Betting closed" });
+    },
+    onError,
+  });
+  const settleMatch = useSettleTeamMatch({
+    onSuccess: (outcome) => {
+      invalidateMatches();
+      setSettling(null);
+      toast({ title: "Result declared", description: `${outcome.settled} bets settled, ${outcome.winners} winners` });
+    },
+    onError,
+  });
+  const voidMatch = useVoidTeamMatch({
+    onSuccess: (outcome) => {
+      invalidateMatches();
+      setVoiding(null);
+      toast({ title: "Match voided", description: `${outcome.voidedBets} bets refunded` });
+    },
+    onError,
+  });
+
+  // Dry run of the declaration: nothing is saved
+  const previewResult = useMutation({
+    mutationFn: async ({ matchId, result }: { matchId: number; result: string }) => {
+      const res = await apiRequest("POST", `/api/team-matches/${matchId}/result/preview`, { result });
+      return res.json() as Promise<SettlementPreview>;
+    },
+    onSuccess: setPreview,
+    onError,
+  });
+
+  const openSettle = (match: MatchRow) => {
+    setSettling(match);
+    setResult("");
+    setPreview(null);
+  };
+
+  const saveDraft = () => {
+    if (!editing) return;
+    const body = toBody(editing.draft);
+    if (editing.id === null) {
+      createMatch.mutate({ body });
+    } else {
+      updateMatch.mutate({ params: { id: editing.id }, body });
+    }
+  };
+
+  const setDraft = (changes: Partial<MatchDraft>) => {
+    setEditing(current => current && { ...current, draft: { ...current.draft, ...changes } });
+  };
+
+  return (
+    <DashboardLayout title="Manage Team Matches">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Team Matches</CardTitle>
+            <CardDescription>
+              Win/lose markets, or win/draw/lose for sports that can end level. Odds changes only apply to new bets.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={sport} onValueChange={setSport}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_SPORTS}>All sports</SelectItem>
+                {SPORTS.map(value => (
+                  <SelectItem key={value} value={value}>{SPORT_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => setEditing({ id: null, draft: EMPTY_DRAFT })}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Match
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-48 w-full" />
+          ) : matches.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No matches yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Match</TableHead>
+                  <TableHead>Starts</TableHead>
+                  <TableHead>Open bets (stake / pays)</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matches.map(match => (
+                  <TableRow key={match.id}>
+                    <TableCell>
+                      <div className="font-medium">{match.teamA} vs {match.teamB}</div>
+                      <div className="text-xs text-muted-foreground">{sportLabel(match.category)}</div>
+                    </TableCell>
+                    <TableCell>{format(new Date(match.matchTime), "dd MMM yyyy, HH:mm")}</TableCell>
+                    <TableCell>
+                      {match.book.map(entry => (
+                        <div key={entry.outcome} className="text-xs">
+                          {outcomeLabel(match, entry.outcome)} @ {formatOdds(outcomeOdds(match, entry.outcome))}: {entry.bets} bets, {formatRupees(entry.stake)} / {formatRupees(entry.payout)}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      {statusBadge(match.status)}
+                      {match.status === "resulted" && (
+                        <div className="text-xs mt-1">{outcomeLabel(match, match.result)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      {match.status === "open" && (
+                        <>
+                          <Button size="sm" variant="outline" onClick={() => setEditing({ id: match.id, draft: toDraft(match) })}>
+                            Edit
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={closeMatch.isPending}
+                            onClick={() => closeMatch.mutate({ params: { id: match.id } })}
+                          >
+                            Close
+                          </Button>
+                        </>
+                      )}
+                      {match.status === "closed" && (
+                        <Button size="sm" onClick={() => openSettle(match)}>Declare Result</Button>
+                      )}
+                      {match.category === MatchSport.CRICKET && match.status !== "cancelled" && (
+                        <Button size="sm" variant="outline" onClick={() => setMarketsMatch(match)}>Markets</Button>
+                      )}
+                      {match.status !== "cancelled" && (
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => {
+                            setVoiding(match);
+                            setVoidReason("");
+                          }}
+                        >
+                          Void
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing?.id === null ? "New Match" : "Edit Match"}</DialogTitle>
+            <DialogDescription>Odds are decimal, e.g. 1.90 pays ₹190 on a ₹100 stake</DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label>Sport</Label>
+                <Select value={editing.draft.sport} onValueChange={(value) => setDraft({ sport: value as MatchSport })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SPORTS.map(value => (
+                      <SelectItem key={value} value={value}>{SPORT_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="team-a">Team A</Label>
+                  <Input id="team-a" value={editing.draft.teamA} onChange={(e) => setDraft({ teamA: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="team-b">Team B</Label>
+                  <Input id="team-b" value={editing.draft.teamB} onChange={(e) => setDraft({ teamB: e.target.value })} />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="match-time">Match time</Label>
+                <Input
+                  id="match-time"
+                  type="datetime-local"
+                  value={editing.draft.matchTime}
+                  onChange={(e) => setDraft({ matchTime: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="odd-team-a">Team A odds</Label>
+                  <Input
+                    id="odd-team-a"
+                    type="number"
+                    step="0.01"
+                    min="1"
+                    value={editing.draft.oddTeamA}
+                    onChange={(e) => setDraft({ oddTeamA: e.target.value })}
+                  />
+                </div>
+                {offersDraw(editing.draft.sport) && (
+                  <div className="space-y-1">
+                    <Label htmlFor="odd-draw">Draw odds</Label>
+                    <Input
+                      id="odd-draw"
+                      type="number"
+                      step="0.01"
+                      min="1"
+                      value={editing.draft.oddDraw}
+                      onChange={(e) => setDraft({ oddDraw: e.target.value })}
+                    />
+                  </div>
+                )}
+                <div className="space-y-1">
+                  <Label htmlFor="odd-team-b">Team B odds</Label>
+                  <Input
+                    id="odd-team-b"
+                    type="number"
+                    step="0.01"
+                    min="1"
+                    value={editing.draft.oddTeamB}
+                    onChange={(e) => setDraft({ oddTeamB: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="match-description">Description</Label>
+                <Textarea
+                  id="match-description"
+                  value={editing.draft.description}
+                  onChange={(e) => setDraft({ description: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              disabled={createMatch.isPending || updateMatch.isPending || !editing?.draft.matchTime}
+              onClick={saveDraft}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={settling !== null} onOpenChange={(open) => !open && setSettling(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Declare Result</DialogTitle>
+            <DialogDescription>
+              {settling && `${settling.teamA} vs ${settling.teamB}. `}
+              Winning bets are paid at the odds they were placed at.
+            </DialogDescription>
+          </DialogHeader>
+          {settling && (
+            <div className="space-y-4">
+              <Select
+                value={result}
+                onValueChange={(value) => {
+                  setResult(value);
+                  setPreview(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select the result" />
+                </SelectTrigger>
+                <SelectContent>
+                  {matchOutcomes(settling).map(outcome => (
+                    <SelectItem key={outcome} value={outcome}>{outcomeLabel(settling, outcome)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {preview && <SettlementPreviewPanel preview={preview} />}
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              disabled={!result || previewResult.isPending}
+              onClick={() => settling && previewResult.mutate({ matchId: settling.id, result })}
+            >
+              Preview
+            </Button>
+            <Button
+              disabled={!result || settleMatch.isPending}
+              onClick={() => settling && settleMatch.mutate({ params: { id: settling.id }, body: { result } })}
+            >
+              Declare
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={voiding !== null} onOpenChange={(open) => !open && setVoiding(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Void Match</DialogTitle>
+            <DialogDescription>
+              Every stake on {voiding ? `${voiding.teamA} vs ${voiding.teamB}` : "the match"} is refunded and any
+              payouts are reversed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="void-reason">Reason</Label>
+            <Input id="void-reason" value={voidReason} onChange={(e) => setVoidReason(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setVoiding(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              disabled={!voidReason.trim() || voidMatch.isPending}
+              onClick={() => voiding && voidMatch.mutate({ params: { id: voiding.id }, body: { reason: voidReason } })}
+            >
+              Void Match
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <MatchMarketsDialog match={marketsMatch} onOpenChange={(open) => !open && setMarketsMatch(null)} />
+    </DashboardLayout>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -19,14 +19,27 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
 import { ExclamationTriangleIcon } from "@radix-ui/react-icons";
 import { useToast } from "@/hooks/use-toast";
-import { formatDate, formatCurrency } from "@/lib/utils";
+import { formatDate } from "@/lib/utils";
+import { rupeesToPaisa } from "@shared/money";
 import { apiRequest } from "@/lib/queryClient";
+import { formatCountdown } from "@/lib/team-matches";
 import DashboardLayout from "@/components/dashboard-layout";
+import MatchMarketBets, { MatchMarketBetHistory } from "@/components/match-market-bets";
 
 // Interface for a cricket toss match
 interface CricketTossMatch {
@@ -43,6 +56,9 @@ interface CricketTossMatch {
   status: string;
   result?: string;
   createdAt: string;
+  // When toss betting closes, and how long until then on the server's clock
+  bettingClosesAt: string;
+  msUntilClose: number;
 }
 
 // Interface for bet history
@@ -67,19 +83,51 @@ interface BetHistory {
   };
 }
 
+// The odds moved between the quote and placing the bet; nothing was placed
+class OddsChangedError extends Error {
+  constructor(message: string, public currentOdds: number) {
+    super(message);
+  }
+}
+
+// Odds are stored x100 (200 = 2.00x)
+const formatOdds = (odds: number) => (odds / 100).toFixed(2);
+
 export default function CricketTossPage() {
   const [selectedMatch, setSelectedMatch] = useState<CricketTossMatch | null>(null);
   const [betAmount, setBetAmount] = useState<string>("100");
   const [selectedTeam, setSelectedTeam] = useState<string | null>(null);
+  // New odds the player is asked to accept after a refused bet
+  const [changedOdds, setChangedOdds] = useState<number | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   // Query to fetch open cricket toss matches
-  const { data: openMatches = [], isLoading: loadingMatches } = useQuery({
+  const { data: openMatches = [], isLoading: loadingMatches, dataUpdatedAt } = useQuery<CricketTossMatch[]>({
     queryKey: ["/api/cricket-toss/open-matches"],
     staleTime: 30000, // 30 seconds
   });
 
+  // One clock for every card, so all countdowns tick together
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Time left is counted from when the list was fetched, so a wrong clock on
+  // the player's device does not move the cut-off
+  const msUntilClose = (match: CricketTossMatch) => dataUpdatedAt + match.msUntilClose - now;
+  const bettingClosed = (match: CricketTossMatch) => msUntilClose(match) <= 0;
+  const anyMatchClosed = openMatches.some(bettingClosed);
+
+  // Drop matches from the list once their betting closes
+  useEffect(() => {
+    if (anyMatchClosed) {
+      queryClient.invalidateQueries({ queryKey: ["/api/cricket-toss/open-matches"] });
+    }
+  }, [anyMatchClosed, queryClient]);
+
   // Query to fetch user's betting history
   const { data: betHistory = [], isLoading: loadingHistory } = useQuery({
     queryKey: ["/api/cricket-toss/my-bets"],
@@ -92,10 +140,12 @@ export default function CricketTossPage() {
       matchId,
       betAmount,
       prediction,
+      expectedOdds,
     }: {
       matchId: number;
       betAmount: number;
       prediction: string;
+      expectedOdds: number;
     }) => {
       return await fetch(`/api/cricket-toss/${matchId}/play`, {
         method: "POST",
@@ -104,13 +154,17 @@ export default function CricketTossPage() {
         },
         body: JSON.stringify({
           prediction,
-          betAmount
+          betAmount,
+          expectedOdds
         }),
         credentials: "include"
       }).then(async (res) => {
         if (!res.ok) {
-          const text = await res.text();
-          throw new Error(text || res.statusText);
+          const body = await res.json().catch(() => null);
+          if (res.status === 409 && typeof body?.currentOdds === "number") {
+            throw new OddsChangedError(body.message, body.currentOdds);
+          }
+          throw new Error(body?.message || res.statusText);
         }
         return res.json();
       });
@@ -127,6 +181,11 @@ export default function CricketTossPage() {
       queryClient.invalidateQueries({ queryKey: ["/api/user"] }); // Refresh user balance
     },
     onError: (error: Error) => {
+      if (error instanceof OddsChangedError) {
+        setChangedOdds(error.currentOdds);
+        queryClient.invalidateQueries({ queryKey: ["/api/cricket-toss/open-matches"] });
+        return;
+      }
       toast({
         title: "Error Placing Bet",
         description: error.message || "Failed to place your bet. Please try again.",
@@ -135,6 +194,28 @@ export default function CricketTossPage() {
     },
   });
 
+  // Odds quoted on the bet slip for the selected team
+  const quotedOdds = (team: string | null) => {
+    if (!selectedMatch || !team) return 0;
+    return team === "team_a" ? selectedMatch.oddTeamA : selectedMatch.oddTeamB;
+  };
+
+  // Take the new price: the slip shows it and the bet is placed again at it
+  const acceptChangedOdds = () => {
+    if (!selectedMatch || !selectedTeam || changedOdds === null) return;
+    const match = selectedTeam === "team_a"
+      ? { ...selectedMatch, oddTeamA: changedOdds }
+      : { ...selectedMatch, oddTeamB: changedOdds };
+    setSelectedMatch(match);
+    setChangedOdds(null);
+    placeBetMutation.mutate({
+      matchId: match.id,
+      betAmount: rupeesToPaisa(parseInt(betAmount)),
+      prediction: selectedTeam,
+      expectedOdds: changedOdds,
+    });
+  };
+
   // Function to handle placing a bet
   const handlePlaceBet = () => {
     if (!selectedMatch || !selectedTeam || !betAmount) {
@@ -158,8 +239,9 @@ export default function CricketTossPage() {
 
     placeBetMutation.mutate({
       matchId: selectedMatch.id,
-      betAmount: amount,
+      betAmount: rupeesToPaisa(amount),
       prediction: selectedTeam,
+      expectedOdds: quotedOdds(selectedTeam),
     });
   };
 
@@ -175,8 +257,7 @@ export default function CricketTossPage() {
     const betAmountNum = parseInt(amount);
     if (isNaN(betAmountNum)) return 0;
     
-    const odds = team === "team_a" ? selectedMatch.oddTeamA : selectedMatch.oddTeamB;
-    return betAmountNum * (odds / 100);
+    return betAmountNum * (quotedOdds(team) / 100);
   };
 
   // Format the team name based on the prediction value
@@ -259,6 +340,14 @@ export default function CricketTossPage() {
                             });
                           })()}</span>
                         </div>
+                        <div className="flex justify-between">
+                          <span>Betting Closes In:</span>
+                          {bettingClosed(match) ? (
+                            <span className="font-medium text-destructive">Betting closed</span>
+                          ) : (
+                            <span className="font-mono font-medium">{formatCountdown(msUntilClose(match))}</span>
+                          )}
+                        </div>
                         <Separator />
                         {match.coverImage && (
                           <div className="mb-4">
@@ -281,6 +370,7 @@ export default function CricketTossPage() {
                     </CardContent>
                     <CardFooter className="flex justify-end">
                       <Button
+                        disabled={bettingClosed(match)}
                         onClick={() => {
                           setSelectedMatch(match);
                           setSelectedTeam(null);
@@ -382,6 +472,14 @@ export default function CricketTossPage() {
                       </div>
                     </div>
 
+                    {/* Why the last bet was turned down, e.g. a stake limit */}
+                    {placeBetMutation.isError && !(placeBetMutation.error instanceof OddsChangedError) && (
+                      <Alert variant="destructive">
+                        <AlertTitle>Bet not placed</AlertTitle>
+                        <AlertDescription>{placeBetMutation.error.message}</AlertDescription>
+                      </Alert>
+                    )}
+
                     {/* Potential Win - Mobile Optimized */}
                     <div className="bg-muted/50 p-4 rounded-lg">
                       <label className="text-sm font-medium block mb-2">
@@ -391,7 +489,9 @@ export default function CricketTossPage() {
                         ₹{calculatePotentialWin(betAmount, selectedTeam).toFixed(2)}
                       </div>
                       <div className="text-xs text-muted-foreground mt-2">
-                        Select a team and enter your bet amount to calculate potential winnings.
+                        {selectedTeam
+                          ? `At odds of ${formatOdds(quotedOdds(selectedTeam))}, locked in when your bet is placed.`
+                          : "Select a team and enter your bet amount to calculate potential winnings."}
                       </div>
                     </div>
                   </CardContent>
@@ -405,13 +505,34 @@ export default function CricketTossPage() {
                     </Button>
                     <Button 
                       onClick={handlePlaceBet} 
-                      disabled={!selectedTeam || placeBetMutation.isPending}
+                      disabled={!selectedTeam || placeBetMutation.isPending || bettingClosed(selectedMatch)}
                       className="h-12 w-full sm:w-auto bg-primary hover:bg-primary/90"
                     >
                       {placeBetMutation.isPending ? "Placing Bet..." : "Place Bet"}
                     </Button>
                   </CardFooter>
                 </Card>
+
+                <MatchMarketBets match={selectedMatch} />
+
+                <AlertDialog open={changedOdds !== null} onOpenChange={(open) => !open && setChangedOdds(null)}>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Odds changed</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The odds on {selectedTeam === "team_a" ? selectedMatch.teamA : selectedMatch.teamB} moved
+                        from {formatOdds(quotedOdds(selectedTeam))} to {formatOdds(changedOdds ?? 0)} before your
+                        bet was placed, so it was not placed. Accept the new price?
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={acceptChangedOdds}>
+                        Place bet at {formatOdds(changedOdds ?? 0)}
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
               </div>
             )}
           </TabsContent>
@@ -476,6 +597,7 @@ export default function CricketTossPage() {
                 </AlertDescription>
               </Alert>
             )}
+            <MatchMarketBetHistory />
           </TabsContent>
         </Tabs>
       </div>
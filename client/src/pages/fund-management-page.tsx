@@ -5,6 +5,8 @@ import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { UserRole, RequestStatus, RequestType, PaymentMode } from "@shared/schema";
 import DashboardLayout from "@/components/dashboard-layout";
+import { formatCurrency } from "@/lib/format-utils";
+import { rupeesToPaisa } from "@shared/money";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -191,7 +193,11 @@ export default function FundManagementPage() {
   // Mutation for admin transaction
   const adminTransactionMutation = useMutation({
     mutationFn: (data: z.infer<typeof adminTransactionSchema>) => {
-      return apiRequest("POST", "/api/admin/transactions", data);
+      // The form takes rupees, the API takes paisa
+      return apiRequest("POST", "/api/admin/transactions", {
+        ...data,
+        amount: rupeesToPaisa(data.amount),
+      });
     },
     onSuccess: () => {
       toast({
@@ -304,12 +310,6 @@ export default function FundManagementPage() {
     return `${formatDistance(date, new Date(), { addSuffix: true })} (${date.toLocaleDateString()})`;
   };
 
-  // Format amount
-  const formatAmount = (amount: number) => {
-    // No need to divide by 100 as amounts are stored as actual rupees
-    return amount.toFixed(2);
-  };
-
   // Get status badge variant
   const getStatusBadge = (status: string) => {
     switch (status) {
@@ -411,7 +411,7 @@ export default function FundManagementPage() {
                 </TableCell>
                 <TableCell>{getRequestTypeBadge(request.requestType)}</TableCell>
                 <TableCell className="font-semibold">
-                  ₹{formatAmount(request.amount)}
+                  {formatCurrency(request.amount)}
                 </TableCell>
                 <TableCell>
                   {getPaymentModeDisplay(request.paymentMode)}
@@ -570,7 +570,7 @@ export default function FundManagementPage() {
               
               <div className="flex items-center justify-between">
                 <span className="font-medium">Amount:</span>
-                <span className="font-semibold">₹{formatAmount(selectedRequest.amount)}</span>
+                <span className="font-semibold">{formatCurrency(selectedRequest.amount)}</span>
               </div>
               
               <div className="flex items-center justify-between">
@@ -827,7 +827,7 @@ export default function FundManagementPage() {
                 
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Amount:</span>
-                  <span className="font-semibold">₹{formatAmount(selectedRequest.amount)}</span>
+                  <span className="font-semibold">{formatCurrency(selectedRequest.amount)}</span>
                 </div>
                 
                 <div className="flex items-center justify-between">
@@ -2,6 +2,7 @@ import { useAuth } from "@/hooks/use-auth";
 import { useQuery } from "@tanstack/react-query";
 import DashboardLayout from "@/components/dashboard-layout";
 import CoinFlipGame from "@/components/coin-flip-game";
+import CoinFlipFairnessPanel from "@/components/coin-flip-fairness-panel";
 import GameHistoryTable from "@/components/game-history-table";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -27,6 +28,9 @@ export default function GamePage() {
     <DashboardLayout title="Royal Coin Toss">
       {/* Coin Toss Game */}
       <CoinFlipGame />
+
+      {/* Seed commitment and verification of past flips */}
+      <CoinFlipFairnessPanel />
       
       {/* Recent Bets History */}
       <div className="mt-8">
@@ -10,6 +10,7 @@ import RecentResults from "@/components/recent-results";
 import BalanceCard from "@/components/balance-card";
 import StatsCard from "@/components/stats-card";
 import DashboardStatsCard from "@/components/dashboard-stats-card";
+import SubadminFloatCard from "@/components/subadmin-float-card";
 import PromoSlider from "@/components/promo-slider";
 import GameHistoryTable from "@/components/game-history-table";
 import { Button } from "@/components/ui/button";
@@ -198,7 +199,6 @@ export default function HomePage() {
   const adminStatsQuery = useQuery<AdminStats>({
     queryKey: ["/api/admin/stats"],
     enabled: !!user && user.role === UserRole.ADMIN,
-    refetchInterval: 30000, // Refresh every 30 seconds
   });
   
   const subadminStats: SubadminStats = subadminStatsQuery.data || { 
@@ -307,6 +307,13 @@ export default function HomePage() {
             />
           </div>
           
+          {/* Float drawn by approved deposits against the credit limit */}
+          {user && (
+            <div className="mt-6">
+              <SubadminFloatCard subadminId={user.id} />
+            </div>
+          )}
+          
           {/* Recent Games Section */}
           {subadminStats.recentGames && subadminStats.recentGames.length > 0 && (
             <div className="mt-6">
@@ -1,19 +1,278 @@
-import React from "react";
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { formatRupees } from "@shared/money";
+import { UserRole } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { useGetSatamatkaMarkets } from "@/lib/api.generated";
 import DashboardLayout from "@/components/dashboard-layout";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Download } from "lucide-react";
 
-// This is a placeholder component as jantri management has been removed
+// Mirrors JantriCell and Jantri in server/jantri.ts; amounts are in paisa
+interface JantriCell {
+  stake: number;
+  payout: number;
+  bets: number;
+}
+
+interface Jantri {
+  marketId: number;
+  marketName: string;
+  date: string;
+  subadminId: number | null;
+  subadminName: string | null;
+  betCount: number;
+  totalStake: number;
+  jodi: JantriCell[];
+  andar: JantriCell[];
+  bahar: JantriCell[];
+  odd: JantriCell;
+  even: JantriCell;
+  net: number[];
+}
+
+// Select value for the whole book
+const ALL_SUBADMINS = "all";
+
+const DIGITS = Array.from({ length: 10 }, (_, digit) => digit);
+
+function Cell({ label, cell, net }: { label: string; cell: JantriCell; net?: number }) {
+  return (
+    <td
+      className={`border border-border px-1 py-1 text-center align-top ${cell.bets ? "" : "text-muted-foreground"}`}
+      title={`${label}: ${cell.bets} bets, stake ${formatRupees(cell.stake)}, pays ${formatRupees(cell.payout)}`}
+    >
+      <div className="text-xs font-semibold">{label}</div>
+      <div className="text-[10px]">{formatRupees(cell.stake)}</div>
+      <div className="text-[10px] text-muted-foreground">{formatRupees(cell.payout)}</div>
+      {net !== undefined && (
+        <div className={`text-[10px] ${net < 0 ? "text-red-500" : "text-green-600"}`}>
+          {formatRupees(net)}
+        </div>
+      )}
+    </td>
+  );
+}
+
+function HarfRow({ label, cells }: { label: string; cells: JantriCell[] }) {
+  return (
+    <tr>
+      <th className="px-2 py-1 text-left text-xs font-medium text-muted-foreground">{label}</th>
+      {cells.map((cell, digit) => (
+        <Cell key={digit} label={digit.toString()} cell={cell} />
+      ))}
+    </tr>
+  );
+}
+
+/**
+ * The jantri of a Satamatka market for a day: stake and potential payout on
+ * every jodi, harf digit and odd/even, with CSV and PDF downloads
+ */
 export default function JantriManagementPage() {
+  const { user } = useAuth();
+  const isAdmin = user?.role === UserRole.ADMIN;
+
+  const [marketId, setMarketId] = useState<number | null>(null);
+  const [date, setDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [subadminId, setSubadminId] = useState<string>(ALL_SUBADMINS);
+
+  const { data: markets = [] } = useGetSatamatkaMarkets();
+  const selectedMarketId = marketId ?? markets[0]?.id ?? null;
+
+  const { data: subadmins = [] } = useQuery({
+    queryKey: ["/api/users"],
+    select: (data: any) => data.filter((u: any) => u.role === UserRole.SUBADMIN) as Array<{ id: number; username: string }>,
+    enabled: isAdmin,
+  });
+
+  const params = new URLSearchParams({ date });
+  if (isAdmin && subadminId !== ALL_SUBADMINS) params.set("subadminId", subadminId);
+  const jantriUrl = `/api/satamatka/markets/${selectedMarketId}/jantri`;
+
+  const { data: jantri, isLoading, error } = useQuery<Jantri>({
+    queryKey: [jantriUrl, date, subadminId],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `${jantriUrl}?${params}`);
+      return response.json();
+    },
+    enabled: selectedMarketId !== null && date !== "",
+  });
+
+  const exportUrl = (fileFormat: "csv" | "pdf") => `${jantriUrl}/export?${params}&format=${fileFormat}`;
+
   return (
-    <DashboardLayout title="Feature Removed">
-      <Card>
+    <DashboardLayout title="Jantri">
+      <Card className="mb-6">
         <CardHeader>
-          <CardTitle>Jantri Management Feature Removed</CardTitle>
+          <CardTitle>Jantri</CardTitle>
+          <CardDescription>
+            Stake and potential payout on every number of a market for the bets placed on a day.
+            Crossings are spread over the jodis they cover, and payouts are at each player's odds.
+          </CardDescription>
         </CardHeader>
-        <CardContent>
-          <p>This feature has been removed to simplify the platform.</p>
+        <CardContent className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label>Market</Label>
+            <Select
+              value={selectedMarketId?.toString()}
+              onValueChange={(value) => setMarketId(parseInt(value))}
+            >
+              <SelectTrigger className="w-[220px]">
+                <SelectValue placeholder="Select market" />
+              </SelectTrigger>
+              <SelectContent>
+                {markets.map(market => (
+                  <SelectItem key={market.id} value={market.id.toString()}>
+                    {market.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="jantri-date">Date</Label>
+            <Input
+              id="jantri-date"
+              type="date"
+              className="w-[180px]"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+            />
+          </div>
+          {isAdmin && (
+            <div className="space-y-1">
+              <Label>Players</Label>
+              <Select value={subadminId} onValueChange={setSubadminId}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_SUBADMINS}>All players</SelectItem>
+                  {subadmins.map(subadmin => (
+                    <SelectItem key={subadmin.id} value={subadmin.id.toString()}>
+                      {subadmin.username}'s players
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {jantri && (
+            <div className="flex gap-2">
+              <Button variant="outline" asChild>
+                <a href={exportUrl("csv")} download>
+                  <Download className="h-4 w-4 mr-2" />
+                  CSV
+                </a>
+              </Button>
+              <Button variant="outline" asChild>
+                <a href={exportUrl("pdf")} download>
+                  <Download className="h-4 w-4 mr-2" />
+                  PDF
+                </a>
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
+
+      {isLoading ? (
+        <Skeleton className="h-96 w-full" />
+      ) : error ? (
+        <p className="text-sm text-red-500 text-center py-6">{(error as Error).message}</p>
+      ) : !jantri ? (
+        <p className="text-sm text-muted-foreground text-center py-6">Select a market to see its jantri</p>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-sm text-muted-foreground">Bets</div>
+                <div className="text-2xl font-bold">{jantri.betCount}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-sm text-muted-foreground">Total stake</div>
+                <div className="text-2xl font-bold">{formatRupees(jantri.totalStake)}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-sm text-muted-foreground">Worst jodi for the house</div>
+                <div className="text-2xl font-bold">{formatRupees(Math.min(...jantri.net))}</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Jodi</CardTitle>
+              <CardDescription>
+                Each number shows its stake, its potential payout and the house net if it is declared
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="border-collapse w-full">
+                <tbody>
+                  {DIGITS.map(tens => (
+                    <tr key={tens}>
+                      {DIGITS.map(units => {
+                        const index = tens * 10 + units;
+                        return (
+                          <Cell
+                            key={units}
+                            label={`${tens}${units}`}
+                            cell={jantri.jodi[index]}
+                            net={jantri.net[index]}
+                          />
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Harf and Odd/Even</CardTitle>
+              <CardDescription>Stake and potential payout on each andar (left) and bahar (right) digit</CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto space-y-4">
+              <table className="border-collapse w-full">
+                <tbody>
+                  <HarfRow label="Andar" cells={jantri.andar} />
+                  <HarfRow label="Bahar" cells={jantri.bahar} />
+                </tbody>
+              </table>
+              <table className="border-collapse">
+                <tbody>
+                  <tr>
+                    <Cell label="Odd" cell={jantri.odd} />
+                    <Cell label="Even" cell={jantri.even} />
+                  </tr>
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </div>
+      )}
     </DashboardLayout>
   );
-}
\ No newline at end of file
+}
@@ -4,6 +4,10 @@ import { UserRole } from "@shared/schema";
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import DashboardLayout from "@/components/dashboard-layout";
+import SatamatkaLiabilityHeatmap from "@/components/satamatka-liability-heatmap";
+import RiskAlertsPanel from "@/components/risk-alerts-panel";
+import RiskTrendsPanel from "@/components/risk-trends-panel";
+import AnomalyReviewPanel from "@/components/anomaly-review-panel";
 import { 
   Card,
   CardContent, 
@@ -91,6 +95,32 @@ interface DetailedRiskData {
   gameData: any[];
 }
 
+// Mirrors MarketSelectionAnalysis and MatchMarketAnalysis in server/risk-management.ts; amounts are in paisa
+interface MarketSelectionAnalysis {
+  selectionId: number | null;
+  name: string;
+  odds: number;
+  totalBets: number;
+  totalAmount: number;
+  potentialPayout: number;
+  users: number[];
+}
+
+interface MatchMarketAnalysis {
+  matchId: number;
+  marketId: number | null;
+  marketType: string;
+  name: string;
+  status: string;
+  selections: MarketSelectionAnalysis[];
+  summary: {
+    totalBets: number;
+    totalAmount: number;
+    potentialLoss: number;
+    riskLevel: "high" | "medium" | "low";
+  };
+}
+
 interface RiskManagementData {
   summaries: RiskSummary[];
   detailedData: DetailedRiskData;
@@ -177,7 +207,6 @@ export default function SimplifiedRiskPage() {
       const data = await response.json();
       return data as RiskManagementData;
     },
-    refetchInterval: 60000 // Refetch every minute to keep data fresh
   });
 
   // Fetch subadmins list for admin users
@@ -699,13 +728,17 @@ export default function SimplifiedRiskPage() {
 
         {/* Detailed Analysis Tabs */}
         <Tabs defaultValue="market-game" className="w-full mt-6" onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-2 mb-4">
+          <TabsList className={`grid w-full ${isAdmin ? "grid-cols-5" : "grid-cols-2"} mb-4`}>
             <TabsTrigger value="market-game">Satamatka Analysis</TabsTrigger>
             <TabsTrigger value="cricket-toss">Cricket Toss Risk</TabsTrigger>
+            {isAdmin && <TabsTrigger value="trends">Trends</TabsTrigger>}
+            {isAdmin && <TabsTrigger value="alerts">Alerts</TabsTrigger>}
+            {isAdmin && <TabsTrigger value="anomalies">Anomalies</TabsTrigger>}
           </TabsList>
           
           <TabsContent value="market-game" className="mt-0">
-            
+            <SatamatkaLiabilityHeatmap subadminId={isAdmin ? selectedSubadminId : null} />
+
             {marketGameData && (
               <>
                 {/* Satamatka Overview Statistics Cards */}
@@ -1627,6 +1660,11 @@ export default function SimplifiedRiskPage() {
                               if (match.teamBStats?.users) {
                                 match.teamBStats.users.forEach((userId: number) => allUsers.add(userId));
                               }
+                              match.markets?.forEach((market: MatchMarketAnalysis) => {
+                                market.selections.forEach((selection) => {
+                                  selection.users.forEach((userId: number) => allUsers.add(userId));
+                                });
+                              });
                             });
                             activeUsers = allUsers.size;
                           }
@@ -1670,7 +1708,7 @@ export default function SimplifiedRiskPage() {
                 <Card>
                   <CardHeader>
                     <CardTitle>Cricket Toss Match Analysis</CardTitle>
-                    <CardDescription>Detailed risk assessment for each cricket match with team-wise betting data</CardDescription>
+                    <CardDescription>Detailed risk assessment for each cricket match, market by market</CardDescription>
                   </CardHeader>
                   <CardContent>
                     {data.detailedData?.cricketMatchAnalysis && data.detailedData.cricketMatchAnalysis.length > 0 ? (
@@ -1812,6 +1850,48 @@ export default function SimplifiedRiskPage() {
                                   </CardContent>
                                 </Card>
                               </div>
+
+                              {/* The match's other markets, selection by selection */}
+                              {match.markets?.filter((market: MatchMarketAnalysis) => market.marketId !== null).map((market: MatchMarketAnalysis) => (
+                                <div key={market.marketId} className="mt-6">
+                                  <div className="flex items-center justify-between mb-2">
+                                    <h4 className="font-medium">{market.name}</h4>
+                                    <div className="flex items-center gap-2">
+                                      <Badge variant="outline">{market.status}</Badge>
+                                      <Badge className={
+                                        market.summary.riskLevel === 'high' ? 'bg-red-500' :
+                                        market.summary.riskLevel === 'medium' ? 'bg-orange-500' : 'bg-green-500'
+                                      }>
+                                        {market.summary.riskLevel.toUpperCase()} RISK
+                                      </Badge>
+                                    </div>
+                                  </div>
+                                  <Table>
+                                    <TableHeader>
+                                      <TableRow>
+                                        <TableHead>Selection</TableHead>
+                                        <TableHead>Odds</TableHead>
+                                        <TableHead>Active Bets</TableHead>
+                                        <TableHead>Total Amount</TableHead>
+                                        <TableHead>Potential Payout</TableHead>
+                                        <TableHead>Players</TableHead>
+                                      </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                      {market.selections.map((selection) => (
+                                        <TableRow key={selection.selectionId}>
+                                          <TableCell>{selection.name}</TableCell>
+                                          <TableCell>{(selection.odds / 100).toFixed(2)}x</TableCell>
+                                          <TableCell>{selection.totalBets}</TableCell>
+                                          <TableCell>₹{(selection.totalAmount / 100).toFixed(0)}</TableCell>
+                                          <TableCell className="font-bold text-red-600">₹{(selection.potentialPayout / 100).toFixed(0)}</TableCell>
+                                          <TableCell>{selection.users.length}</TableCell>
+                                        </TableRow>
+                                      ))}
+                                    </TableBody>
+                                  </Table>
+                                </div>
+                              ))}
                             </CardContent>
                           </Card>
                         ))}
@@ -1840,6 +1920,24 @@ export default function SimplifiedRiskPage() {
               </Card>
             )}
           </TabsContent>
+
+          {isAdmin && (
+            <TabsContent value="trends" className="mt-0">
+              <RiskTrendsPanel />
+            </TabsContent>
+          )}
+
+          {isAdmin && (
+            <TabsContent value="alerts" className="mt-0">
+              <RiskAlertsPanel />
+            </TabsContent>
+          )}
+
+          {isAdmin && (
+            <TabsContent value="anomalies" className="mt-0">
+              <AnomalyReviewPanel />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </DashboardLayout>
@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import DashboardLayout from "@/components/dashboard-layout";
+import { formatCurrency } from "@/lib/format-utils";
 import { 
   Users, 
   Wallet, 
@@ -58,26 +59,13 @@ export default function SubadminDashboardPage() {
   // Get subadmin stats
   const { data: stats, isLoading: isLoadingStats } = useQuery<SubadminStats>({
     queryKey: ['/api/subadmin/stats'],
-    refetchInterval: 30000, // Refresh every 30 seconds
   });
   
   // Get recent games
   const { data: recentGames, isLoading: isLoadingRecentGames } = useQuery<GameRecord[]>({
     queryKey: ['/api/games/recent'],
-    refetchInterval: 30000, // Refresh every 30 seconds
   });
   
-  const formatCurrency = (amount: number) => {
-    // Convert paise to rupees by dividing by 100
-    const amountInRupees = (amount || 0) / 100;
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(amountInRupees);
-  };
-  
   // Function to determine trend indicator and color
   const renderTrend = (isPositive: boolean) => {
     return isPositive ? (
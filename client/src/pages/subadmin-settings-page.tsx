@@ -10,6 +10,8 @@ import * as z from "zod";
 import { UserRole } from "@shared/schema";
 
 import DashboardLayout from "@/components/dashboard-layout";
+import BetLimitsForm from "@/components/bet-limits-form";
+import SubadminCreditForm from "@/components/subadmin-credit-form";
 import { 
   Card, 
   CardContent, 
@@ -549,6 +551,14 @@ export default function SubadminSettingsPage() {
                 <TabsTrigger value="odds">
                   My Game Odds
                 </TabsTrigger>
+                <TabsTrigger value="limits">
+                  Bet Limits
+                </TabsTrigger>
+                {user?.role === UserRole.ADMIN && (
+                  <TabsTrigger value="credit">
+                    Credit & Float
+                  </TabsTrigger>
+                )}
               </TabsList>
               
               <TabsContent value="commission">
@@ -974,6 +984,16 @@ export default function SubadminSettingsPage() {
                 )}
               </TabsContent>
               
+              <TabsContent value="limits">
+                <BetLimitsForm subadminId={subadmin.id} />
+              </TabsContent>
+
+              {user?.role === UserRole.ADMIN && (
+                <TabsContent value="credit">
+                  <SubadminCreditForm subadminId={subadmin.id} />
+                </TabsContent>
+              )}
+
               {/* Removed Player Discounts & Odds tab - this functionality exists in user management player list */}
             </Tabs>
           </CardContent>
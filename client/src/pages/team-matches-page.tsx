@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { formatRupees, rupeesToPaisa } from "@shared/money";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import {
+  useGetMyTeamMatchBets,
+  useGetOpenTeamMatches,
+  usePlaceTeamMatchBet,
+} from "@/lib/api.generated";
+import {
+  SPORTS,
+  SPORT_LABELS,
+  formatOdds,
+  matchOutcomes,
+  outcomeLabel,
+  outcomeOdds,
+  sportLabel,
+} from "@/lib/team-matches";
+import { MatchSport, VOIDED_BET_RESULT } from "@shared/schema";
+import DashboardLayout from "@/components/dashboard-layout";
+import MatchMarketBets, { MatchMarketBetHistory } from "@/components/match-market-bets";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+
+// Tab value for every sport
+const ALL_SPORTS = "all";
+
+type OpenMatch = NonNullable<ReturnType<typeof useGetOpenTeamMatches>["data"]>[number];
+
+// The outcome on the slip and the odds it was quoted at
+type Selection = { match: OpenMatch; outcome: string; odds: number };
+
+function betStatus(bet: { result: string | null; prediction: string }) {
+  if (!bet.result) return <Badge variant="outline">Pending</Badge>;
+  if (bet.result === VOIDED_BET_RESULT) return <Badge variant="secondary">Refunded</Badge>;
+  if (bet.result === bet.prediction) return <Badge className="bg-green-500">Won</Badge>;
+  return <Badge variant="destructive">Lost</Badge>;
+}
+
+/**
+ * Player lobby for team matches: pick a sport, back an outcome at its
+ * current odds, and follow your bets
+ */
+export default function TeamMatchesPage() {
+  const { toast } = useToast();
+  const [sport, setSport] = useState<string>(ALL_SPORTS);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [betAmount, setBetAmount] = useState("100");
+  // New odds the player is asked to accept after a refused bet
+  const [changedOdds, setChangedOdds] = useState<number | null>(null);
+
+  const openMatches = useGetOpenTeamMatches({
+    query: { sport: sport === ALL_SPORTS ? undefined : sport as MatchSport },
+  });
+  const { data: myBets = [], isLoading: loadingBets } = useGetMyTeamMatchBets();
+
+  const placeBet = usePlaceTeamMatchBet({
+    onSuccess: () => {
+      toast({ title: "Bet placed", description: "Good luck!" });
+      setSelection(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/team-matches/my-bets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+    onError: async (error: Error) => {
+      // A moved price refuses the bet; offer the new one instead of an error
+      if (selection) {
+        const { data: matches } = await openMatches.refetch();
+        const match = matches?.find(m => m.id === selection.match.id);
+        const current = match ? outcomeOdds(match, selection.outcome) : null;
+        if (current && current !== selection.odds) {
+          setChangedOdds(current);
+          return;
+        }
+      }
+      toast({ title: "Bet not placed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const submit = (odds: number) => {
+    if (!selection) return;
+    const amount = parseFloat(betAmount);
+    if (isNaN(amount) || amount <= 0) {
+      toast({ title: "Invalid amount", description: "Enter a stake above zero", variant: "destructive" });
+      return;
+    }
+    placeBet.mutate({
+      params: { id: selection.match.id },
+      body: { prediction: selection.outcome, betAmount: rupeesToPaisa(amount), expectedOdds: odds },
+    });
+  };
+
+  // Take the new price: the slip shows it and the bet is placed again at it
+  const acceptChangedOdds = () => {
+    if (!selection || changedOdds === null) return;
+    setSelection({ ...selection, odds: changedOdds });
+    setChangedOdds(null);
+    submit(changedOdds);
+  };
+
+  const matches = openMatches.data ?? [];
+  const stake = parseFloat(betAmount);
+
+  return (
+    <DashboardLayout title="Sports">
+      <Tabs defaultValue="matches">
+        <TabsList className="mb-4">
+          <TabsTrigger value="matches">Matches</TabsTrigger>
+          <TabsTrigger value="my-bets">My Bets</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="matches" className="space-y-4">
+          <Tabs value={sport} onValueChange={setSport}>
+            <TabsList>
+              <TabsTrigger value={ALL_SPORTS}>All</TabsTrigger>
+              {SPORTS.map(value => (
+                <TabsTrigger key={value} value={value}>{SPORT_LABELS[value]}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          {openMatches.isLoading ? (
+            <Skeleton className="h-40 w-full" />
+          ) : matches.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No matches open for betting</p>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2">
+              {matches.map(match => (
+                <Card key={match.id}>
+                  <CardHeader>
+                    <CardTitle className="text-lg">{match.teamA} vs {match.teamB}</CardTitle>
+                    <CardDescription>
+                      {sportLabel(match.category)} · {format(new Date(match.matchTime), "dd MMM, HH:mm")}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {match.description && <p className="text-sm">{match.description}</p>}
+                    <div className="flex gap-2">
+                      {matchOutcomes(match).map(outcome => (
+                        <Button
+                          key={outcome}
+                          className="flex-1 flex-col h-auto py-2"
+                          variant={selection?.match.id === match.id && selection.outcome === outcome ? "default" : "outline"}
+                          onClick={() => setSelection({ match, outcome, odds: outcomeOdds(match, outcome) })}
+                        >
+                          <span>{outcomeLabel(match, outcome)}</span>
+                          <span className="text-xs">{formatOdds(outcomeOdds(match, outcome))}</span>
+                        </Button>
+                      ))}
+                    </div>
+
+                    {selection?.match.id === match.id && (
+                      <div className="space-y-2 border-t pt-4">
+                        <Label htmlFor={`stake-${match.id}`}>Stake (₹)</Label>
+                        <Input
+                          id={`stake-${match.id}`}
+                          type="number"
+                          min="1"
+                          value={betAmount}
+                          onChange={(e) => setBetAmount(e.target.value)}
+                        />
+                        <p className="text-sm text-muted-foreground">
+                          {outcomeLabel(match, selection.outcome)} at odds of {formatOdds(selection.odds)}, locked in
+                          when your bet is placed. Pays{" "}
+                          {formatRupees(isNaN(stake) ? 0 : Math.floor(rupeesToPaisa(stake) * selection.odds / 100))}.
+                        </p>
+                        <div className="flex gap-2">
+                          <Button variant="outline" onClick={() => setSelection(null)}>Cancel</Button>
+                          <Button className="flex-1" disabled={placeBet.isPending} onClick={() => submit(selection.odds)}>
+                            Place Bet
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    {match.category === MatchSport.CRICKET && <MatchMarketBets match={match} />}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          <AlertDialog open={changedOdds !== null} onOpenChange={(open) => !open && setChangedOdds(null)}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Odds changed</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The odds on {selection && outcomeLabel(selection.match, selection.outcome)} moved
+                  from {formatOdds(selection?.odds ?? 0)} to {formatOdds(changedOdds ?? 0)} before your bet was
+                  placed, so it was not placed. Accept the new price?
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={acceptChangedOdds}>
+                  Place bet at {formatOdds(changedOdds ?? 0)}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </TabsContent>
+
+        <TabsContent value="my-bets">
+          <Card>
+            <CardContent className="pt-6">
+              {loadingBets ? (
+                <Skeleton className="h-40 w-full" />
+              ) : myBets.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">You have no sports bets yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Placed</TableHead>
+                      <TableHead>Match</TableHead>
+                      <TableHead>Bet On</TableHead>
+                      <TableHead>Stake</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Payout</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {myBets.map(bet => (
+                      <TableRow key={bet.id}>
+                        <TableCell>{bet.createdAt && format(new Date(bet.createdAt), "dd MMM, HH:mm")}</TableCell>
+                        <TableCell>
+                          {bet.match.teamA} vs {bet.match.teamB}
+                          <div className="text-xs text-muted-foreground">{sportLabel(bet.match.category)}</div>
+                        </TableCell>
+                        <TableCell>
+                          {outcomeLabel(bet.match, bet.prediction)}
+                          {bet.acceptedOdds !== null && ` @ ${formatOdds(bet.acceptedOdds)}`}
+                        </TableCell>
+                        <TableCell>{formatRupees(bet.betAmount)}</TableCell>
+                        <TableCell>{betStatus(bet)}</TableCell>
+                        <TableCell>{bet.result ? formatRupees(bet.payout) : "-"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+          <MatchMarketBetHistory />
+        </TabsContent>
+      </Tabs>
+    </DashboardLayout>
+  );
+}
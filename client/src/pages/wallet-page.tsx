@@ -2,8 +2,11 @@ import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useMutation, useQuery } from "@tanstack/react-query";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { callApi } from "@/lib/api-client";
+import { useGetMyWalletRequests, useGetPaymentDetails, useGetTransactions } from "@/lib/api.generated";
+import { apiContracts } from "@shared/api-contracts";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -31,21 +34,9 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
 import DashboardLayout from "@/components/dashboard-layout";
-import { PaymentMode, RequestType, RequestStatus, WalletRequest, PaymentDetails } from "@/lib/types";
-
-// API response type for payment details
-interface SystemPaymentDetails {
-  upi?: {
-    id: string;
-    qrCode: string | null;
-  };
-  bank?: {
-    name: string;
-    accountNumber: string;
-    ifscCode: string;
-    accountHolder: string;
-  };
-}
+import { formatCurrency } from "@/lib/format-utils";
+import { rupeesToPaisa } from "@shared/money";
+import { RequestType, RequestStatus, PaymentDetails } from "@/lib/types";
 
 // Form schemas
 const depositFormSchema = z.object({
@@ -139,19 +130,7 @@ export default function WalletPage() {
   };
 
   // Fetch payment details from the system
-  const { data: systemPaymentDetails, isLoading: loadingPaymentDetails } = useQuery<SystemPaymentDetails>({
-    queryKey: ["/api/wallet/payment-details"],
-    queryFn: async ({ queryKey }) => {
-      const res = await fetch(queryKey[0] as string, {
-        credentials: "include",
-      });
-      if (!res.ok) {
-        throw new Error("Failed to fetch payment details");
-      }
-      const data = await res.json();
-      return data;
-    }
-  });
+  const { data: systemPaymentDetails, isLoading: loadingPaymentDetails } = useGetPaymentDetails();
   
   // Set payment details when they are fetched
   useEffect(() => {
@@ -180,8 +159,7 @@ export default function WalletPage() {
     data: walletRequests = [], 
     isLoading: loadingRequests,
     refetch: refetchRequests
-  } = useQuery<WalletRequest[]>({
-    queryKey: ["/api/wallet/my-requests"],
+  } = useGetMyWalletRequests({
     enabled: activeTab === "history" || activeTab === "balance",
   });
   
@@ -190,8 +168,7 @@ export default function WalletPage() {
     data: transactions = [],
     isLoading: loadingTransactions,
     refetch: refetchTransactions
-  } = useQuery<any[]>({
-    queryKey: ["/api/transactions"],
+  } = useGetTransactions({
     enabled: activeTab === "history" || activeTab === "balance"
   });
 
@@ -204,25 +181,14 @@ export default function WalletPage() {
         proofImageUrl = await uploadProofImage(proofImage);
       }
 
-      const response = await fetch("/api/wallet/requests", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        credentials: "include",
-        body: JSON.stringify({
+      return callApi(apiContracts.createWalletRequest, {
+        body: {
           ...values,
+          amount: rupeesToPaisa(values.amount),
           requestType: "deposit",
           proofImageUrl,
-        }),
+        },
       });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || "Failed to submit deposit request");
-      }
-      
-      return response.json();
     },
     onSuccess: () => {
       toast({
@@ -246,24 +212,13 @@ export default function WalletPage() {
   // Withdrawal mutation
   const withdrawalMutation = useMutation({
     mutationFn: async (values: WithdrawalFormValues) => {
-      const response = await fetch("/api/wallet/requests", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        credentials: "include",
-        body: JSON.stringify({
+      return callApi(apiContracts.createWalletRequest, {
+        body: {
           ...values,
+          amount: rupeesToPaisa(values.amount),
           requestType: "withdrawal",
-        }),
+        },
       });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || "Failed to submit withdrawal request");
-      }
-      
-      return response.json();
     },
     onSuccess: () => {
       toast({
@@ -333,7 +288,8 @@ export default function WalletPage() {
   };
 
   // Format date for display
-  const formatDate = (dateString: string) => {
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return "";
     const date = new Date(dateString);
     return date.toLocaleDateString('en-IN', {
       day: '2-digit',
@@ -345,7 +301,7 @@ export default function WalletPage() {
   };
 
   // Get title and icon for request type
-  const getRequestTypeInfo = (type: RequestType) => {
+  const getRequestTypeInfo = (type: string) => {
     switch (type) {
       case RequestType.DEPOSIT:
         return { 
@@ -410,7 +366,7 @@ export default function WalletPage() {
               </CardHeader>
               <CardContent>
                 <div className="text-3xl font-bold text-primary">
-                  ₹{user ? (user.balance / 100).toFixed(2) : '0.00'}
+                  {formatCurrency(user?.balance)}
                 </div>
               </CardContent>
               <CardFooter>
@@ -750,7 +706,7 @@ IFSC Code: ${paymentModeDetails.bankDetails!.ifscCode}`;
                     <div className="p-2 rounded-full bg-primary">
                       <IndianRupee className="h-4 w-4 text-primary-foreground" />
                     </div>
-                    <h3 className="text-lg font-semibold">Your balance: ₹{user?.balance ? (user.balance / 100).toFixed(2) : '0.00'}</h3>
+                    <h3 className="text-lg font-semibold">Your balance: {formatCurrency(user?.balance)}</h3>
                   </div>
                   <p className="text-sm text-muted-foreground">
                     Minimum withdrawal amount is ₹500. Maximum is ₹50,000.
@@ -926,17 +882,17 @@ IFSC Code: ${paymentModeDetails.bankDetails!.ifscCode}`;
                         const allTransactions = [
                           ...walletRequests.map(request => ({
                             id: `req-${request.id}`,
-                            type: 'request',
+                            type: 'request' as const,
                             createdAt: request.createdAt,
                             data: request
                           })),
                           ...transactions.map(transaction => ({
                             id: `txn-${transaction.id}`,
-                            type: 'transaction',
+                            type: 'transaction' as const,
                             createdAt: transaction.createdAt,
                             data: transaction
                           }))
-                        ].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                        ].sort((a, b) => new Date(b.createdAt ?? 0).getTime() - new Date(a.createdAt ?? 0).getTime());
 
                         return allTransactions.map((item) => (
                           <div key={item.id} className="p-4 border rounded-lg">
@@ -951,14 +907,14 @@ IFSC Code: ${paymentModeDetails.bankDetails!.ifscCode}`;
                                     </h4>
                                     <p className="text-sm text-muted-foreground">
                                       {formatDate(item.data.createdAt)}
-                                      {item.data.status === RequestStatus.APPROVED && item.data.approvedBy && (
+                                      {item.data.status === RequestStatus.APPROVED && item.data.reviewedBy && (
                                         <span className="ml-2 text-green-600">
-                                          • Approved by {item.data.approver?.username || `Admin #${item.data.approvedBy}`}
+                                          • Approved by #{item.data.reviewedBy}
                                         </span>
                                       )}
-                                      {item.data.status === RequestStatus.REJECTED && item.data.rejectedBy && (
+                                      {item.data.status === RequestStatus.REJECTED && item.data.reviewedBy && (
                                         <span className="ml-2 text-red-600">
-                                          • Rejected by {item.data.rejector?.username || `Admin #${item.data.rejectedBy}`}
+                                          • Rejected by #{item.data.reviewedBy}
                                         </span>
                                       )}
                                     </p>
@@ -971,7 +927,7 @@ IFSC Code: ${paymentModeDetails.bankDetails!.ifscCode}`;
                                 </div>
                                 <div className="text-right">
                                   <div className="font-medium">
-                                    ₹{item.data.amount.toFixed(2)}
+                                    {formatCurrency(item.data.amount)}
                                   </div>
                                   <Badge variant={
                                     item.data.status === RequestStatus.APPROVED ? "default" :
@@ -1001,9 +957,9 @@ IFSC Code: ${paymentModeDetails.bankDetails!.ifscCode}`;
                                     </h4>
                                     <p className="text-sm text-muted-foreground">
                                       {formatDate(item.data.createdAt)}
-                                      {item.data.performer && (
+                                      {item.data.performedBy && item.data.performedBy !== item.data.userId && (
                                         <span className="ml-2 text-blue-600">
-                                          • By {item.data.performer.username}
+                                          • By #{item.data.performedBy}
                                         </span>
                                       )}
                                     </p>
@@ -1016,10 +972,10 @@ IFSC Code: ${paymentModeDetails.bankDetails!.ifscCode}`;
                                 </div>
                                 <div className="text-right">
                                   <div className={`font-medium ${item.data.amount > 0 ? "text-green-600" : "text-red-600"}`}>
-                                    {item.data.amount > 0 ? "+" : ""}₹{(Math.abs(item.data.amount) / 100).toFixed(2)}
+                                    {item.data.amount > 0 ? "+" : ""}{formatCurrency(Math.abs(item.data.amount))}
                                   </div>
                                   <div className="text-xs text-muted-foreground">
-                                    Balance: ₹{(item.data.balanceAfter / 100).toFixed(2)}
+                                    Balance: {formatCurrency(item.data.balanceAfter)}
                                   </div>
                                 </div>
                               </div>
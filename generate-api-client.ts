@@ -0,0 +1,64 @@
+/**
+ * Generate the typed React Query hooks for every shared API contract.
+ *
+ * Run with `npm run generate:api` after adding or changing a contract in
+ * shared/api-contracts.ts, and commit the regenerated file.
+ */
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { apiContracts, API_PREFIX, type ApiContract } from './shared/api-contracts';
+
+const OUTPUT_FILE = path.join(process.cwd(), 'client/src/lib/api.generated.ts');
+
+function hookName(name: string) {
+  return `use${name[0].toUpperCase()}${name.slice(1)}`;
+}
+
+function renderHook(name: string, contract: ApiContract) {
+  const contractRef = `apiContracts.${name}`;
+  const type = `typeof ${contractRef}`;
+  const doc = `// ${contract.method} ${API_PREFIX}${contract.path}`;
+
+  if (contract.method !== 'GET') {
+    return [
+      doc,
+      `export function ${hookName(name)}(options?: ContractMutationOptions<${type}>) {`,
+      `  return useContractMutation(${contractRef}, options);`,
+      `}`,
+    ].join('\n');
+  }
+
+  // Queries without params or a query string take no input
+  const needsInput = Boolean(contract.params || contract.query);
+  return [
+    doc,
+    needsInput
+      ? `export function ${hookName(name)}(input: ContractInput<${type}>, options?: ContractQueryOptions<${type}>) {`
+      : `export function ${hookName(name)}(options?: ContractQueryOptions<${type}>) {`,
+    `  return useContractQuery(${contractRef}, ${needsInput ? 'input' : '{}'}, options);`,
+    `}`,
+  ].join('\n');
+}
+
+function generate() {
+  const hooks = Object.entries(apiContracts).map(([name, contract]) => renderHook(name, contract));
+
+  const source = [
+    '// Generated by generate-api-client.ts from shared/api-contracts.ts. Do not edit.',
+    'import { apiContracts, type ContractInput } from "@shared/api-contracts";',
+    'import {',
+    '  useContractMutation,',
+    '  useContractQuery,',
+    '  type ContractMutationOptions,',
+    '  type ContractQueryOptions,',
+    '} from "./api-client";',
+    '',
+    hooks.join('\n\n'),
+    '',
+  ].join('\n');
+
+  writeFileSync(OUTPUT_FILE, source);
+  console.log(`Wrote ${hooks.length} hooks to ${path.relative(process.cwd(), OUTPUT_FILE)}`);
+}
+
+generate();
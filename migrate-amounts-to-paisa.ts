@@ -0,0 +1,151 @@
+/**
+ * ONE-TIME DATA MIGRATION SCRIPT
+ * Normalizes stored amounts to integer paisa so the API never has to guess units:
+ *
+ * - wallet_requests.amount was stored in rupees until the release that
+ *   switched the API to paisa; requests created before it are multiplied by 100.
+ * - games.bet_amount (and the payout derived from it) was stored in rupees by
+ *   the bet endpoints that came before the current ones; bets placed before
+ *   those were replaced are multiplied by 100.
+ *
+ * Both cut-overs are deployment times and must be given: the amounts alone
+ * cannot tell a ₹500 bet from a 500 paisa one. A row the cut-overs cannot
+ * place, because it has no creation time or would no longer fit once
+ * converted, stops the run with nothing changed.
+ *
+ * The run and its cut-overs are recorded in the data_migrations table so it
+ * cannot be applied twice.
+ *
+ * Usage: npx tsx migrate-amounts-to-paisa.ts \
+ *   --wallet-requests-paisa-since=<ISO time> --games-paisa-since=<ISO time> [--dry-run]
+ */
+import 'dotenv/config';
+import pkg from 'pg';
+import { PAISA_PER_RUPEE, rupeesToPaisa } from './shared/money';
+const { Pool } = pkg;
+
+const MIGRATION_NAME = 'amounts_to_paisa';
+// Amounts are int4 columns; a rupee amount above this overflows once converted
+const MAX_RUPEE_AMOUNT = Math.floor(2147483647 / rupeesToPaisa(1));
+const dryRun = process.argv.includes('--dry-run');
+
+// The time given as --<name>=<ISO time>, or exit if it is missing or invalid
+function cutOverArg(name: string): Date {
+  const arg = process.argv.find(value => value.startsWith(`--${name}=`));
+  const time = arg ? new Date(arg.slice(name.length + 3)) : null;
+  if (!time || Number.isNaN(time.getTime())) {
+    console.error(`❌ --${name}=<ISO time> is required: when the release that stores these amounts in paisa went live`);
+    process.exit(1);
+  }
+  return time;
+}
+
+if (!process.env.DATABASE_URL) {
+  console.error('❌ DATABASE_URL not set');
+  process.exit(1);
+}
+
+const walletRequestsPaisaSince = cutOverArg('wallet-requests-paisa-since');
+const gamesPaisaSince = cutOverArg('games-paisa-since');
+
+class AmbiguousRowsError extends Error {}
+
+// Refuse to convert a table that has rows the cut-over cannot place
+async function checkUnambiguous(
+  client: pkg.PoolClient,
+  table: 'wallet_requests' | 'games',
+  amountColumns: string[],
+  paisaSince: Date
+) {
+  const tooLarge = amountColumns.map(column => `${column} > $2`).join(' OR ');
+  const ambiguous = await client.query(
+    `SELECT id FROM ${table}
+     WHERE created_at IS NULL OR (created_at < $1 AND (${tooLarge}))
+     ORDER BY id
+     LIMIT 20`,
+    [paisaSince, MAX_RUPEE_AMOUNT]
+  );
+  if (ambiguous.rowCount) {
+    throw new AmbiguousRowsError(
+      `${table} rows ${ambiguous.rows.map(row => row.id).join(', ')} have no creation time or ` +
+      `an amount too large to be rupees; fix them by hand before migrating`
+    );
+  }
+}
+
+async function migrateAmounts() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS data_migrations (
+        name TEXT PRIMARY KEY,
+        applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    // Lock the marker table so two concurrent runs cannot both apply the migration
+    await client.query('LOCK TABLE data_migrations IN EXCLUSIVE MODE');
+    const applied = await client.query('SELECT applied_at FROM data_migrations WHERE name = $1', [MIGRATION_NAME]);
+    if (applied.rowCount) {
+      console.log(`✅ Amounts already migrated on ${applied.rows[0].applied_at}. Skipping...`);
+      await client.query('ROLLBACK');
+      return;
+    }
+
+    await client.query(`
+      ALTER TABLE data_migrations ADD COLUMN IF NOT EXISTS details JSONB
+    `);
+
+    await checkUnambiguous(client, 'wallet_requests', ['amount'], walletRequestsPaisaSince);
+    await checkUnambiguous(client, 'games', ['bet_amount', 'payout'], gamesPaisaSince);
+
+    const walletRequests = await client.query(
+      'UPDATE wallet_requests SET amount = amount * $1 WHERE created_at < $2 RETURNING id',
+      [PAISA_PER_RUPEE, walletRequestsPaisaSince]
+    );
+    console.log(`💰 wallet_requests: ${walletRequests.rowCount} amounts converted to paisa`);
+
+    const games = await client.query(
+      `UPDATE games
+       SET bet_amount = bet_amount * $1,
+           payout = COALESCE(payout, 0) * $1
+       WHERE created_at < $2
+       RETURNING id`,
+      [PAISA_PER_RUPEE, gamesPaisaSince]
+    );
+    console.log(`🎲 games: ${games.rowCount} rupee bet amounts converted to paisa`);
+
+    if (dryRun) {
+      await client.query('ROLLBACK');
+      console.log('\n🔍 Dry run - no changes were saved');
+      return;
+    }
+
+    await client.query('INSERT INTO data_migrations (name, details) VALUES ($1, $2)', [
+      MIGRATION_NAME,
+      JSON.stringify({
+        walletRequestsPaisaSince: walletRequestsPaisaSince.toISOString(),
+        gamesPaisaSince: gamesPaisaSince.toISOString(),
+      }),
+    ]);
+    await client.query('COMMIT');
+    console.log('\n✅ All amounts are now stored in paisa');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof AmbiguousRowsError) {
+      console.error(`❌ ${error.message}. Nothing was changed.`);
+    } else {
+      console.error('❌ Amount migration failed, nothing was changed:', error);
+    }
+    process.exitCode = 1;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+migrateAmounts();
@@ -0,0 +1,95 @@
+/**
+ * ONE-TIME DATA MIGRATION SCRIPT
+ * Gives every existing subadmin a starting credit limit before subadmin
+ * credit is enforced.
+ *
+ * Deposits a subadmin approves are funded from their float, and a subadmin
+ * without a subadmin_credit row has a zero limit and float, so without this
+ * every deposit approval by an existing subadmin is refused. Run it before
+ * the release that enforces credit takes traffic. Subadmins who already have
+ * a credit row keep it; subadmins created later get their limit from the admin.
+ *
+ * The run and its starting limit are recorded in the data_migrations table so
+ * it cannot be applied twice.
+ *
+ * Usage: npx tsx migrate-subadmin-credit.ts --starting-limit=<rupees> [--dry-run]
+ */
+import 'dotenv/config';
+import pkg from 'pg';
+import { rupeesToPaisa } from './shared/money';
+const { Pool } = pkg;
+
+const MIGRATION_NAME = 'subadmin_starting_credit';
+const dryRun = process.argv.includes('--dry-run');
+
+if (!process.env.DATABASE_URL) {
+  console.error('❌ DATABASE_URL not set');
+  process.exit(1);
+}
+
+const limitArg = process.argv.find(value => value.startsWith('--starting-limit='));
+const startingLimitRupees = limitArg ? Number(limitArg.slice('--starting-limit='.length)) : NaN;
+if (!Number.isFinite(startingLimitRupees) || startingLimitRupees < 0) {
+  console.error('❌ --starting-limit=<rupees> is required: the credit limit every existing subadmin starts with');
+  process.exit(1);
+}
+const startingLimit = rupeesToPaisa(startingLimitRupees);
+
+async function migrateSubadminCredit() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS data_migrations (
+        name TEXT PRIMARY KEY,
+        applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    await client.query(`
+      ALTER TABLE data_migrations ADD COLUMN IF NOT EXISTS details JSONB
+    `);
+
+    // Lock the marker table so two concurrent runs cannot both apply the migration
+    await client.query('LOCK TABLE data_migrations IN EXCLUSIVE MODE');
+    const applied = await client.query('SELECT applied_at FROM data_migrations WHERE name = $1', [MIGRATION_NAME]);
+    if (applied.rowCount) {
+      console.log(`✅ Subadmin credit already seeded on ${applied.rows[0].applied_at}. Skipping...`);
+      await client.query('ROLLBACK');
+      return;
+    }
+
+    const seeded = await client.query(
+      `INSERT INTO subadmin_credit (subadmin_id, credit_limit)
+       SELECT id, $1 FROM users WHERE role = 'subadmin'
+       ON CONFLICT (subadmin_id) DO NOTHING
+       RETURNING subadmin_id`,
+      [startingLimit]
+    );
+    console.log(`🏦 subadmin_credit: ${seeded.rowCount} subadmins given a ₹${startingLimitRupees} credit limit`);
+
+    if (dryRun) {
+      await client.query('ROLLBACK');
+      console.log('\n🔍 Dry run - no changes were saved');
+      return;
+    }
+
+    await client.query('INSERT INTO data_migrations (name, details) VALUES ($1, $2)', [
+      MIGRATION_NAME,
+      JSON.stringify({ startingLimit }),
+    ]);
+    await client.query('COMMIT');
+    console.log('\n✅ Every existing subadmin has a credit limit');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Subadmin credit migration failed, nothing was changed:', error);
+    process.exitCode = 1;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+migrateSubadminCredit();
@@ -0,0 +1,508 @@
+import { and, desc, eq, gte, inArray, isNotNull, sql } from "drizzle-orm";
+import { db } from "./db";
+import { type Clock } from "./market-scheduler";
+import { JODI_OUTCOMES } from "./liability-matrix";
+import { evaluatePrediction } from "./satamatka-settlement";
+import {
+  AnomalyStatus,
+  AnomalyType,
+  GameType,
+  RequestType,
+  SatamatkaGameMode,
+  UserRole,
+  VOIDED_BET_RESULT,
+  anomalyFindings,
+  games,
+  satamatkaMarkets,
+  users,
+  walletRequests,
+  type AnomalyEvidence,
+  type AnomalyFinding,
+  type WalletPaymentDetails,
+} from "@shared/schema";
+import { formatRupees, rupeesToPaisa } from "@shared/money";
+
+export class AnomalyError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// How often the scan runs in the background
+const ANOMALY_SCAN_INTERVAL_MS = 60 * 60 * 1000;
+
+// Jodi bets of at least this much, from this many accounts within this many
+// seconds of each other, make a coordinated cluster
+export const COORDINATED_MIN_STAKE = rupeesToPaisa(500);
+export const COORDINATED_MIN_ACCOUNTS = 3;
+export const COORDINATED_WINDOW_SECONDS = 60;
+// Bets this close to the market's close time are called out in the finding
+const LATE_BET_MINUTES = 15;
+// How far back the bet scan looks
+const COORDINATED_LOOKBACK_DAYS = 7;
+
+// A player needs this many settled bets and wins of one game, and a win count
+// this many standard deviations above the expected, to be flagged
+export const WIN_RATE_MIN_BETS = 20;
+export const WIN_RATE_MIN_WINS = 5;
+export const WIN_RATE_MIN_Z = 4;
+const WIN_RATE_LOOKBACK_DAYS = 30;
+
+const systemClock: Clock = () => new Date();
+
+export type ClusterBet = {
+  id: number;
+  userId: number;
+  marketId: number;
+  prediction: string;
+  betAmount: number;
+  createdAt: Date;
+};
+
+export type BetCluster = {
+  marketId: number;
+  prediction: string;
+  bets: ClusterBet[];
+  userIds: number[];
+  totalStake: number;
+  spanSeconds: number;
+};
+
+/**
+ * Groups of bets on the same number of the same market placed by at least
+ * `minAccounts` accounts within `windowSeconds`. Clusters do not overlap; a
+ * burst that keeps going is one cluster as long as each bet is within the
+ * window of the first.
+ */
+export function findBetClusters(
+  bets: ClusterBet[],
+  windowSeconds = COORDINATED_WINDOW_SECONDS,
+  minAccounts = COORDINATED_MIN_ACCOUNTS
+): BetCluster[] {
+  const byNumber = new Map<string, ClusterBet[]>();
+  for (const bet of bets) {
+    const key = `${bet.marketId}:${bet.prediction}`;
+    byNumber.set(key, [...(byNumber.get(key) ?? []), bet]);
+  }
+
+  const clusters: BetCluster[] = [];
+  for (const group of Array.from(byNumber.values())) {
+    group.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+
+    let start = 0;
+    while (start < group.length) {
+      let end = start;
+      const limit = group[start].createdAt.getTime() + windowSeconds * 1000;
+      while (end + 1 < group.length && group[end + 1].createdAt.getTime() <= limit) {
+        end++;
+      }
+
+      const window = group.slice(start, end + 1);
+      const userIds = Array.from(new Set(window.map(bet => bet.userId)));
+      if (userIds.length >= minAccounts) {
+        clusters.push({
+          marketId: window[0].marketId,
+          prediction: window[0].prediction,
+          bets: window,
+          userIds,
+          totalStake: window.reduce((sum, bet) => sum + bet.betAmount, 0),
+          spanSeconds: Math.round((window[window.length - 1].createdAt.getTime() - window[0].createdAt.getTime()) / 1000),
+        });
+        start = end + 1;
+      } else {
+        start++;
+      }
+    }
+  }
+  return clusters;
+}
+
+/**
+ * The accounts money can be withdrawn to, normalised so the same UPI id or
+ * bank account typed differently still matches
+ */
+export function paymentIdentifiers(details: WalletPaymentDetails): string[] {
+  const identifiers: string[] = [];
+  const upiId = details.upiId?.trim().toLowerCase();
+  if (upiId) {
+    identifiers.push(`upi:${upiId}`);
+  }
+  const accountNumber = details.accountNumber?.replace(/\D/g, "");
+  if (accountNumber) {
+    identifiers.push(`bank:${details.ifscCode?.trim().toUpperCase() ?? ""}:${accountNumber}`);
+  }
+  return identifiers;
+}
+
+export type PaymentRequest = {
+  id: number;
+  userId: number;
+  subadminId: number | null;
+  paymentDetails: WalletPaymentDetails;
+};
+
+export type SharedPaymentGroup = {
+  subadminId: number | null;
+  identifier: string;
+  userIds: number[];
+  requestIds: number[];
+};
+
+/**
+ * Withdrawal accounts used by more than one player under the same subadmin
+ */
+export function findSharedPaymentDetails(requests: PaymentRequest[]): SharedPaymentGroup[] {
+  const groups = new Map<string, SharedPaymentGroup>();
+  for (const request of requests) {
+    for (const identifier of paymentIdentifiers(request.paymentDetails)) {
+      const key = `${request.subadminId ?? "direct"}:${identifier}`;
+      const group = groups.get(key) ?? { subadminId: request.subadminId, identifier, userIds: [], requestIds: [] };
+      if (!group.userIds.includes(request.userId)) group.userIds.push(request.userId);
+      group.requestIds.push(request.id);
+      groups.set(key, group);
+    }
+  }
+  return Array.from(groups.values()).filter(group => group.userIds.length > 1);
+}
+
+/**
+ * The chance a single bet wins. Satamatka bets are judged against every
+ * jodi with the settlement rules; the other games are even chances.
+ */
+export function winProbability(gameType: string, gameMode: string | null, prediction: string): number | null {
+  switch (gameType) {
+    case GameType.SATAMATKA: {
+      const winning = JODI_OUTCOMES.filter(result => evaluatePrediction(gameMode, prediction, result).won).length;
+      return winning / JODI_OUTCOMES.length;
+    }
+    case GameType.CRICKET_TOSS:
+    case GameType.COIN_FLIP:
+      return 0.5;
+    default:
+      return null;
+  }
+}
+
+/**
+ * How many standard deviations a win count is above what bets with these
+ * chances of winning are expected to win
+ */
+export function winRateZScore(wins: number, chances: number[]): number {
+  const expected = chances.reduce((sum, p) => sum + p, 0);
+  const variance = chances.reduce((sum, p) => sum + p * (1 - p), 0);
+  if (variance === 0) return 0;
+  return (wins - expected) / Math.sqrt(variance);
+}
+
+type Finding = {
+  findingType: AnomalyType;
+  fingerprint: string;
+  summary: string;
+  score: number;
+  subadminId: number | null;
+  marketId: number | null;
+  evidence: AnomalyEvidence;
+};
+
+async function coordinatedBetFindings(now: Date): Promise<Finding[]> {
+  const since = new Date(now.getTime() - COORDINATED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const rows = await db.select({
+    id: games.id,
+    userId: games.userId,
+    marketId: games.marketId,
+    prediction: games.prediction,
+    betAmount: games.betAmount,
+    createdAt: games.createdAt,
+  })
+    .from(games)
+    .where(and(
+      eq(games.gameType, GameType.SATAMATKA),
+      eq(games.gameMode, SatamatkaGameMode.JODI),
+      isNotNull(games.marketId),
+      gte(games.betAmount, COORDINATED_MIN_STAKE),
+      gte(games.createdAt, since),
+    ));
+
+  const clusters = findBetClusters(rows.map(row => ({
+    ...row,
+    marketId: row.marketId!,
+    createdAt: row.createdAt ?? now,
+  })));
+  if (!clusters.length) return [];
+
+  const markets = await db.select({ id: satamatkaMarkets.id, name: satamatkaMarkets.name, closeTime: satamatkaMarkets.closeTime })
+    .from(satamatkaMarkets)
+    .where(inArray(satamatkaMarkets.id, Array.from(new Set(clusters.map(cluster => cluster.marketId)))));
+  const marketsById = new Map(markets.map(market => [market.id, market]));
+
+  return clusters.map(cluster => {
+    const market = marketsById.get(cluster.marketId);
+    const last = cluster.bets[cluster.bets.length - 1].createdAt;
+    const minutesToClose = market ? (market.closeTime.getTime() - last.getTime()) / 60000 : null;
+    const late = minutesToClose !== null && minutesToClose >= 0 && minutesToClose <= LATE_BET_MINUTES
+      ? `, ${Math.ceil(minutesToClose)} min before close`
+      : "";
+
+    return {
+      findingType: AnomalyType.COORDINATED_BETS,
+      fingerprint: `${AnomalyType.COORDINATED_BETS}:${cluster.marketId}:${cluster.prediction}:${cluster.bets[0].id}`,
+      summary: `${cluster.userIds.length} accounts bet ${formatRupees(cluster.totalStake)} on jodi ${cluster.prediction} `
+        + `in ${market?.name ?? `market #${cluster.marketId}`} within ${cluster.spanSeconds}s${late}`,
+      // Bigger, tighter groups rank first
+      score: cluster.userIds.length * 100 + (late ? 50 : 0) + Math.floor(cluster.totalStake / COORDINATED_MIN_STAKE),
+      subadminId: null,
+      marketId: cluster.marketId,
+      evidence: { userIds: cluster.userIds, gameIds: cluster.bets.map(bet => bet.id), walletRequestIds: [] },
+    };
+  });
+}
+
+async function sharedPaymentFindings(): Promise<Finding[]> {
+  const rows = await db.select({
+    id: walletRequests.id,
+    userId: walletRequests.userId,
+    subadminId: users.assignedTo,
+    paymentDetails: walletRequests.paymentDetails,
+  })
+    .from(walletRequests)
+    .innerJoin(users, eq(walletRequests.userId, users.id))
+    .where(and(
+      eq(walletRequests.requestType, RequestType.WITHDRAWAL),
+      eq(users.role, UserRole.PLAYER),
+    ));
+
+  return findSharedPaymentDetails(rows).map(group => {
+    const [kind] = group.identifier.split(":");
+    return {
+      findingType: AnomalyType.SHARED_PAYMENT_DETAILS,
+      fingerprint: `${AnomalyType.SHARED_PAYMENT_DETAILS}:${group.subadminId ?? "direct"}:${group.identifier}`,
+      summary: `${group.userIds.length} players withdraw to the same ${kind === "upi" ? "UPI id" : "bank account"}`,
+      score: group.userIds.length * 100 + group.requestIds.length,
+      subadminId: group.subadminId,
+      marketId: null,
+      evidence: { userIds: group.userIds, gameIds: [], walletRequestIds: group.requestIds },
+    };
+  });
+}
+
+async function winRateFindings(now: Date): Promise<Finding[]> {
+  const since = new Date(now.getTime() - WIN_RATE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  // Bets with the same prediction have the same chance, so they are counted together
+  const rows = await db.select({
+    userId: games.userId,
+    subadminId: users.assignedTo,
+    gameType: games.gameType,
+    gameMode: games.gameMode,
+    prediction: games.prediction,
+    bets: sql<number>`count(*)::int`,
+    wins: sql<number>`(count(*) filter (where ${games.payout} > 0))::int`,
+  })
+    .from(games)
+    .innerJoin(users, eq(games.userId, users.id))
+    .where(and(
+      gte(games.createdAt, since),
+      sql`coalesce(${games.result}, 'pending') not in ('pending', ${VOIDED_BET_RESULT})`,
+    ))
+    .groupBy(games.userId, users.assignedTo, games.gameType, games.gameMode, games.prediction);
+
+  const perPlayerGame = new Map<string, { userId: number; subadminId: number | null; gameType: string; wins: number; chances: number[] }>();
+  for (const row of rows) {
+    const chance = winProbability(row.gameType, row.gameMode, row.prediction);
+    if (chance === null) continue;
+    const key = `${row.userId}:${row.gameType}`;
+    const entry = perPlayerGame.get(key)
+      ?? { userId: row.userId, subadminId: row.subadminId, gameType: row.gameType, wins: 0, chances: [] };
+    entry.wins += row.wins;
+    for (let i = 0; i < row.bets; i++) entry.chances.push(chance);
+    perPlayerGame.set(key, entry);
+  }
+
+  const flagged = Array.from(perPlayerGame.values())
+    .map(entry => ({ ...entry, z: winRateZScore(entry.wins, entry.chances) }))
+    .filter(entry => entry.chances.length >= WIN_RATE_MIN_BETS && entry.wins >= WIN_RATE_MIN_WINS && entry.z >= WIN_RATE_MIN_Z);
+
+  const findings: Finding[] = [];
+  for (const entry of flagged) {
+    // The player's winning bets of the game are the evidence
+    const winningBets = await db.select({ id: games.id })
+      .from(games)
+      .where(and(
+        eq(games.userId, entry.userId),
+        eq(games.gameType, entry.gameType),
+        gte(games.createdAt, since),
+        sql`${games.payout} > 0`,
+        sql`coalesce(${games.result}, 'pending') not in ('pending', ${VOIDED_BET_RESULT})`,
+      ))
+      .orderBy(desc(games.createdAt))
+      .limit(50);
+
+    const expected = entry.chances.reduce((sum, p) => sum + p, 0);
+    findings.push({
+      findingType: AnomalyType.WIN_RATE_OUTLIER,
+      fingerprint: `${AnomalyType.WIN_RATE_OUTLIER}:${entry.userId}:${entry.gameType}`,
+      summary: `Won ${entry.wins} of ${entry.chances.length} ${entry.gameType.replace("_", " ")} bets where `
+        + `${expected.toFixed(1)} wins were expected (${entry.z.toFixed(1)} standard deviations)`,
+      score: Math.round(entry.z * 10),
+      subadminId: entry.subadminId,
+      marketId: null,
+      evidence: { userIds: [entry.userId], gameIds: winningBets.map(bet => bet.id), walletRequestIds: [] },
+    });
+  }
+  return findings;
+}
+
+/**
+ * Look for every kind of anomaly and put what is found in the review queue.
+ * A pattern already in the queue is refreshed while it is open; one an admin
+ * has reviewed is left alone. Returns the number of findings written.
+ */
+export async function runAnomalyScan(now: Date = new Date()): Promise<number> {
+  const findings = [
+    ...await coordinatedBetFindings(now),
+    ...await sharedPaymentFindings(),
+    ...await winRateFindings(now),
+  ];
+  if (!findings.length) return 0;
+
+  const written = await db.insert(anomalyFindings)
+    .values(findings.map(finding => ({ ...finding, lastSeenAt: now })))
+    .onConflictDoUpdate({
+      target: anomalyFindings.fingerprint,
+      set: {
+        summary: sql`excluded.summary`,
+        score: sql`excluded.score`,
+        evidence: sql`excluded.evidence`,
+        lastSeenAt: now,
+      },
+      setWhere: eq(anomalyFindings.status, AnomalyStatus.OPEN),
+    })
+    .returning({ id: anomalyFindings.id });
+  return written.length;
+}
+
+export type AnomalyFindingView = AnomalyFinding & {
+  subadminName: string | null;
+  marketName: string | null;
+  users: Array<{ id: number; username: string; subadminId: number | null }>;
+  bets: Array<{
+    id: number;
+    userId: number;
+    gameType: string;
+    prediction: string;
+    betAmount: number;
+    payout: number;
+    result: string | null;
+    createdAt: Date | null;
+  }>;
+  walletRequests: Array<{ id: number; userId: number; amount: number; paymentMode: string; status: string; createdAt: Date | null }>;
+};
+
+/**
+ * The review queue, highest score first, with the users, bets and withdrawal
+ * requests each finding points at
+ */
+export async function listAnomalyFindings(status: AnomalyStatus | "all", limit = 100): Promise<AnomalyFindingView[]> {
+  const findings = await db.select()
+    .from(anomalyFindings)
+    .where(status === "all" ? undefined : eq(anomalyFindings.status, status))
+    .orderBy(desc(anomalyFindings.score), desc(anomalyFindings.lastSeenAt))
+    .limit(limit);
+  if (!findings.length) return [];
+
+  const userIds = Array.from(new Set(findings.flatMap(finding => [
+    ...finding.evidence.userIds,
+    ...(finding.subadminId ? [finding.subadminId] : []),
+  ])));
+  const gameIds = Array.from(new Set(findings.flatMap(finding => finding.evidence.gameIds)));
+  const requestIds = Array.from(new Set(findings.flatMap(finding => finding.evidence.walletRequestIds)));
+  const marketIds = Array.from(new Set(findings.flatMap(finding => finding.marketId ? [finding.marketId] : [])));
+
+  const [people, bets, requests, markets] = await Promise.all([
+    userIds.length
+      ? db.select({ id: users.id, username: users.username, subadminId: users.assignedTo }).from(users).where(inArray(users.id, userIds))
+      : [],
+    gameIds.length
+      ? db.select({
+        id: games.id,
+        userId: games.userId,
+        gameType: games.gameType,
+        prediction: games.prediction,
+        betAmount: games.betAmount,
+        payout: games.payout,
+        result: games.result,
+        createdAt: games.createdAt,
+      }).from(games).where(inArray(games.id, gameIds))
+      : [],
+    requestIds.length
+      ? db.select({
+        id: walletRequests.id,
+        userId: walletRequests.userId,
+        amount: walletRequests.amount,
+        paymentMode: walletRequests.paymentMode,
+        status: walletRequests.status,
+        createdAt: walletRequests.createdAt,
+      }).from(walletRequests).where(inArray(walletRequests.id, requestIds))
+      : [],
+    marketIds.length
+      ? db.select({ id: satamatkaMarkets.id, name: satamatkaMarkets.name }).from(satamatkaMarkets).where(inArray(satamatkaMarkets.id, marketIds))
+      : [],
+  ]);
+
+  const peopleById = new Map(people.map(person => [person.id, person]));
+  const betsById = new Map(bets.map(bet => [bet.id, bet]));
+  const requestsById = new Map(requests.map(request => [request.id, request]));
+  const marketNames = new Map(markets.map(market => [market.id, market.name]));
+  const pick = <T>(ids: number[], byId: Map<number, T>) => ids.flatMap(id => byId.has(id) ? [byId.get(id)!] : []);
+
+  return findings.map(finding => ({
+    ...finding,
+    subadminName: finding.subadminId ? peopleById.get(finding.subadminId)?.username ?? null : null,
+    marketName: finding.marketId ? marketNames.get(finding.marketId) ?? null : null,
+    users: pick(finding.evidence.userIds, peopleById),
+    bets: pick(finding.evidence.gameIds, betsById),
+    walletRequests: pick(finding.evidence.walletRequestIds, requestsById),
+  }));
+}
+
+/**
+ * Close an open finding as confirmed or dismissed
+ */
+export async function reviewAnomalyFinding(
+  id: number,
+  review: { status: typeof AnomalyStatus.CONFIRMED | typeof AnomalyStatus.DISMISSED; note?: string },
+  adminId: number
+): Promise<AnomalyFinding> {
+  const [finding] = await db.update(anomalyFindings)
+    .set({ status: review.status, reviewNote: review.note ?? null, reviewedBy: adminId, reviewedAt: new Date() })
+    .where(and(eq(anomalyFindings.id, id), eq(anomalyFindings.status, AnomalyStatus.OPEN)))
+    .returning();
+  if (!finding) {
+    throw new AnomalyError(404, "No open finding with this id");
+  }
+  return finding;
+}
+
+/**
+ * Scan now and then on an interval
+ */
+export function startAnomalyScanJob(clock: Clock = systemClock, intervalMs: number = ANOMALY_SCAN_INTERVAL_MS) {
+  let running = false;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap a slow one
+    if (running) return;
+    running = true;
+    try {
+      await runAnomalyScan(clock());
+    } catch (error) {
+      console.error("Anomaly scan failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  return timer;
+}
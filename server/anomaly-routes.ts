@@ -0,0 +1,37 @@
+import express from "express";
+import { requireRole } from "./auth";
+import { serveContract } from "./api-contract";
+import { AnomalyError, listAnomalyFindings, reviewAnomalyFinding, runAnomalyScan } from "./anomaly-detection";
+import { UserRole } from "@shared/schema";
+import { apiContracts } from "@shared/api-contracts";
+
+const router = express.Router();
+
+serveContract(router, apiContracts.getAnomalyFindings, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await listAnomalyFindings(req.query.status));
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.runAnomalyScan, [requireRole(UserRole.ADMIN)], async (_req, res, next) => {
+  try {
+    res.json({ written: await runAnomalyScan() });
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.reviewAnomalyFinding, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await reviewAnomalyFinding(req.params.id, req.body, req.user!.id));
+  } catch (err) {
+    if (err instanceof AnomalyError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    next(err);
+  }
+});
+
+export default router;
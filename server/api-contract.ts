@@ -0,0 +1,65 @@
+import express, { Request, Response, NextFunction, RequestHandler } from "express";
+import type { z } from "zod";
+import type {
+  ApiContract,
+  ContractBody,
+  ContractParams,
+  ContractQuery,
+  ContractResult,
+} from "@shared/api-contracts";
+
+type ErrorBody = { message: string };
+
+export type ContractRequest<C extends ApiContract> =
+  Request<ContractParams<C>, ContractResult<C> | ErrorBody, ContractBody<C>, ContractQuery<C>>;
+
+export type ContractResponse<C extends ApiContract> = Response<ContractResult<C> | ErrorBody>;
+
+export type ContractHandler<C extends ApiContract> =
+  (req: ContractRequest<C>, res: ContractResponse<C>, next: NextFunction) => unknown;
+
+const METHODS = {
+  GET: "get",
+  POST: "post",
+  PUT: "put",
+  PATCH: "patch",
+  DELETE: "delete",
+} as const;
+
+function parsePart(schema: z.ZodTypeAny | undefined, value: unknown) {
+  return schema ? schema.safeParse(value) : { success: true as const, data: value };
+}
+
+/**
+ * Serve a shared API contract on a router mounted at /api.
+ *
+ * Params, query and body are validated against the contract before the
+ * handler runs; a failure answers 400 with the first validation message.
+ * Guards such as requireRole run before validation.
+ */
+export function serveContract<C extends ApiContract>(
+  router: express.Router,
+  contract: C,
+  guards: RequestHandler[],
+  handler: ContractHandler<C>,
+) {
+  const validateAndHandle = (req: Request, res: Response, next: NextFunction) => {
+    const params = parsePart(contract.params, req.params);
+    const query = parsePart(contract.query, req.query);
+    const body = parsePart(contract.body, req.body);
+
+    for (const part of [params, query, body]) {
+      if (!part.success) {
+        return res.status(400).json({ message: part.error.errors[0].message });
+      }
+    }
+
+    req.params = params.data;
+    req.query = query.data;
+    req.body = body.data;
+
+    return handler(req as unknown as ContractRequest<C>, res, next);
+  };
+
+  router[METHODS[contract.method]](contract.path, ...guards, validateAndHandle);
+}
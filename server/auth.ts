@@ -7,7 +7,8 @@ import { promisify } from "util";
 import * as bcryptjs from "bcryptjs";
 import { storage } from "./storage";
 import { User as SelectUser, UserRole } from "@shared/schema";
-import { AuthInfo } from "passport";
+import { IVerifyOptions } from "passport-local";
+import { IncomingMessage } from "http";
 
 // Promisify the scrypt function
 const scryptAsync = promisify(scrypt);
@@ -86,22 +87,47 @@ export async function comparePasswords(supplied: string, stored: string) {
   }
 }
 
-export function setupAuth(app: Express) {
-  const sessionSettings: session.SessionOptions = {
-    secret: process.env.SESSION_SECRET || "coinflip-game-secret",
-    resave: false,
-    saveUninitialized: false,
-    store: storage.sessionStore,
-    cookie: {
-      secure: false, // Set to false for development
-      httpOnly: true,
-      maxAge: 24 * 60 * 60 * 1000, // 1 day
-      sameSite: 'lax',
-    },
-  };
+const sessionSettings: session.SessionOptions = {
+  secret: process.env.SESSION_SECRET || "coinflip-game-secret",
+  resave: false,
+  saveUninitialized: false,
+  store: storage.sessionStore,
+  cookie: {
+    secure: false, // Set to false for development
+    httpOnly: true,
+    maxAge: 24 * 60 * 60 * 1000, // 1 day
+    sameSite: 'lax',
+  },
+};
+
+// Shared by the Express app and WebSocket upgrades
+const sessionParser = session(sessionSettings);
 
+/**
+ * The logged-in user of a request that bypasses Express, such as a WebSocket
+ * upgrade, or null when it has no session or the user is blocked
+ */
+export function authenticateUpgrade(req: IncomingMessage): Promise<SelectUser | null> {
+  const request = req as Request;
+  const response = {} as Response;
+  const chain = [sessionParser, passport.initialize(), passport.session()];
+
+  return new Promise((resolve, reject) => {
+    const step = (index: number) => (err?: unknown) => {
+      if (err) return reject(err);
+      if (index === chain.length) {
+        const user = request.user;
+        return resolve(user && !user.isBlocked ? user : null);
+      }
+      chain[index](request, response, step(index + 1));
+    };
+    step(0)();
+  });
+}
+
+export function setupAuth(app: Express) {
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -198,7 +224,7 @@ export function setupAuth(app: Express) {
   app.post("/api/login", (req, res, next) => {
     console.log("Login attempt:", req.body.username);
     
-    passport.authenticate("local", (err: Error | null, user: Express.User | false, info?: AuthInfo) => {
+    passport.authenticate("local", (err: Error | null, user: Express.User | false, info?: IVerifyOptions) => {
       if (err) {
         console.log("Authentication error:", err);
         return next(err);
@@ -452,7 +478,7 @@ export function setupAuth(app: Express) {
 export function requireRole(roles: UserRole | UserRole[]) {
   const allowedRoles = Array.isArray(roles) ? roles : [roles];
   
-  return (req: Express.Request, res: Express.Response, next: Express.NextFunction) => {
+  return (req: Request, res: Response, next: NextFunction) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+import { postUserMovement, type LedgerExecutor } from "./ledger";
+import { publishBetSettled } from "./live-updates";
+import {
+  JournalEntryType,
+  VOIDED_BET_RESULT,
+  games,
+  transactions,
+  type Game,
+} from "@shared/schema";
+
+/**
+ * Who corrected or voided a settled match or market, and why. Every money
+ * movement made for a correction carries the reason.
+ */
+export type BetCorrection = {
+  performedBy: number;
+  reason: string;
+};
+
+export const correctionReasonSchema = z.string().trim().min(1, "A reason is required");
+
+/**
+ * The amount a bet has actually paid out so far. Pending Satamatka bets keep
+ * their potential payout in the payout column, so only settled bets count.
+ */
+export function paidOutAmount(game: Game): number {
+  if (!game.result || game.result === "pending" || game.result === VOIDED_BET_RESULT) return 0;
+  return game.payout;
+}
+
+/**
+ * Move money for a corrected bet. Besides the ledger entry, a transactions row
+ * is written so the player sees the reversal or refund in their history.
+ * Returns the player's new balance.
+ */
+export async function postBetAdjustment(
+  executor: LedgerExecutor,
+  adjustment: {
+    game: Game;
+    amount: number;
+    entryType: JournalEntryType;
+    description: string;
+    correction: BetCorrection;
+  }
+): Promise<number> {
+  const { game, amount, correction } = adjustment;
+  const description = `${adjustment.description} (${correction.reason})`;
+
+  const balanceAfter = await postUserMovement(executor, {
+    userId: game.userId,
+    amount,
+    entryType: adjustment.entryType,
+    description,
+    referenceType: "game",
+    referenceId: game.id,
+    performedBy: correction.performedBy,
+  });
+
+  await executor.insert(transactions).values({
+    userId: game.userId,
+    amount,
+    balanceAfter,
+    performedBy: correction.performedBy,
+    description,
+  });
+
+  return balanceAfter;
+}
+
+/**
+ * Void a bet: reverse whatever it paid out and refund its stake.
+ * Already voided bets are left alone. Returns whether the bet was voided.
+ */
+export async function voidBet(
+  executor: LedgerExecutor,
+  game: Game,
+  label: string,
+  correction: BetCorrection
+): Promise<boolean> {
+  if (game.result === VOIDED_BET_RESULT) return false;
+
+  let balanceAfter = game.balanceAfter;
+  const paidOut = paidOutAmount(game);
+  if (paidOut > 0) {
+    balanceAfter = await postBetAdjustment(executor, {
+      game,
+      amount: -paidOut,
+      entryType: JournalEntryType.BET_PAYOUT_REVERSAL,
+      description: `Payout reversed, ${label} voided`,
+      correction,
+    });
+  }
+
+  balanceAfter = await postBetAdjustment(executor, {
+    game,
+    amount: game.betAmount,
+    entryType: JournalEntryType.BET_REFUND,
+    description: `Stake refunded, ${label} voided`,
+    correction,
+  });
+
+  const gameData = (game.gameData as Record<string, unknown> | null) ?? {};
+  await executor.update(games)
+    .set({
+      result: VOIDED_BET_RESULT,
+      payout: game.betAmount,
+      balanceAfter,
+      gameData: {
+        ...gameData,
+        voided: {
+          reason: correction.reason,
+          performedBy: correction.performedBy,
+          previousResult: game.result,
+          reversedPayout: paidOut,
+          voidedAt: new Date().toISOString(),
+        },
+      },
+    })
+    .where(eq(games.id, game.id));
+  await publishBetSettled(executor, game, !game.result || game.result === "pending" ? game.payout : null);
+
+  return true;
+}
@@ -0,0 +1,62 @@
+import express from "express";
+import { storage } from "./storage";
+import { requireRole } from "./auth";
+import { serveContract } from "./api-contract";
+import { BetLimitError, getBetLimitScope, saveBetLimitScope } from "./bet-limits";
+import { UserRole } from "@shared/schema";
+import { apiContracts } from "@shared/api-contracts";
+
+const router = express.Router();
+
+/**
+ * The subadmin whose limits a request reads or writes, or null for the
+ * global ones. Subadmins can only reach their own.
+ */
+function limitScopeFor(user: Express.User, subadminId: number | null | undefined): number | null | "forbidden" {
+  if (user.role === UserRole.SUBADMIN) {
+    return subadminId === undefined || subadminId === user.id ? user.id : "forbidden";
+  }
+  return subadminId ?? null;
+}
+
+serveContract(router, apiContracts.getBetLimits, [requireRole([UserRole.ADMIN, UserRole.SUBADMIN])], async (req, res, next) => {
+  try {
+    const subadminId = limitScopeFor(req.user!, req.query.subadminId);
+    if (subadminId === "forbidden") {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    res.json({
+      global: await getBetLimitScope(null),
+      subadmin: subadminId === null ? null : await getBetLimitScope(subadminId),
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.saveBetLimits, [requireRole([UserRole.ADMIN, UserRole.SUBADMIN])], async (req, res, next) => {
+  try {
+    const { subadminId: requested, ...scope } = req.body;
+    const subadminId = limitScopeFor(req.user!, requested);
+    if (subadminId === "forbidden" || (req.user!.role === UserRole.SUBADMIN && requested === null)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    if (subadminId !== null) {
+      const subadmin = await storage.getUser(subadminId);
+      if (!subadmin || subadmin.role !== UserRole.SUBADMIN) {
+        return res.status(404).json({ message: "Subadmin not found" });
+      }
+    }
+
+    res.json(await saveBetLimitScope(subadminId, scope, req.user!.id));
+  } catch (err) {
+    if (err instanceof BetLimitError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    next(err);
+  }
+});
+
+export default router;
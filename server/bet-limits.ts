@@ -0,0 +1,344 @@
+import { and, eq, gte, inArray, isNull, ne, or, sql } from "drizzle-orm";
+import { db } from "./db";
+import { type LedgerExecutor } from "./ledger";
+import { JODI_OUTCOMES, payoutsByOutcome } from "./liability-matrix";
+import { formatRupees } from "@shared/money";
+import type { BetLimitScope } from "@shared/api-contracts";
+import {
+  GameType,
+  VOIDED_BET_RESULT,
+  betLimits,
+  exposureLimits,
+  games,
+  users,
+  type BetLimit,
+  type User,
+} from "@shared/schema";
+
+// Game types that can be given stake limits
+export const LIMITED_GAME_TYPES = [GameType.SATAMATKA, GameType.CRICKET_TOSS, GameType.TEAM_MATCH, GameType.MATCH_MARKET, GameType.COIN_FLIP] as const;
+
+export type LimitedGameType = typeof LIMITED_GAME_TYPES[number];
+
+const GAME_LABELS: Record<LimitedGameType, string> = {
+  [GameType.SATAMATKA]: "Satamatka",
+  [GameType.CRICKET_TOSS]: "Cricket toss",
+  [GameType.TEAM_MATCH]: "Team match",
+  [GameType.MATCH_MARKET]: "Match market",
+  [GameType.COIN_FLIP]: "Coin flip",
+};
+
+// Advisory lock namespaces, so concurrent bets against the same market or the
+// same subadmin's exposure are checked one at a time
+const MARKET_LIABILITY_LOCK = 7301;
+const SUBADMIN_EXPOSURE_LOCK = 7302;
+
+export type BetLimitValues = Pick<BetLimit, "minStake" | "maxStake" | "dailyStakeCap" | "maxNumberLiability">;
+
+const NO_LIMITS: BetLimitValues = {
+  minStake: null,
+  maxStake: null,
+  dailyStakeCap: null,
+  maxNumberLiability: null,
+};
+
+export class BetLimitError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// A bet about to be placed
+export type ProposedBet = {
+  betAmount: number;
+  // What the bet pays if it wins
+  potentialPayout: number;
+  prediction: string;
+  gameMode?: string | null;
+};
+
+function stricter(a: number | null, b: number | null, pick: (a: number, b: number) => number): number | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return pick(a, b);
+}
+
+/**
+ * Combine the global limits with a subadmin's: the stricter value wins
+ */
+export function tightenLimits(global: BetLimitValues, override?: BetLimitValues | null): BetLimitValues {
+  if (!override) return global;
+  return {
+    minStake: stricter(global.minStake, override.minStake, Math.max),
+    maxStake: stricter(global.maxStake, override.maxStake, Math.min),
+    dailyStakeCap: stricter(global.dailyStakeCap, override.dailyStakeCap, Math.min),
+    maxNumberLiability: stricter(global.maxNumberLiability, override.maxNumberLiability, Math.min),
+  };
+}
+
+/**
+ * Why a subadmin's limits would loosen the global ones, or null if they only tighten them
+ */
+export function looserLimitReason(gameType: LimitedGameType, global: BetLimitValues, override: BetLimitValues): string | null {
+  const label = GAME_LABELS[gameType];
+  if (global.minStake !== null && override.minStake !== null && override.minStake < global.minStake) {
+    return `${label} minimum stake cannot be below the admin's ${formatRupees(global.minStake)}`;
+  }
+
+  const caps = [
+    ["maximum stake", "maxStake"],
+    ["daily stake cap", "dailyStakeCap"],
+    ["per-number liability", "maxNumberLiability"],
+  ] as const;
+  for (const [name, key] of caps) {
+    const globalValue = global[key];
+    const value = override[key];
+    if (globalValue !== null && (value === null || value > globalValue)) {
+      return `${label} ${name} cannot exceed the admin's ${formatRupees(globalValue)}`;
+    }
+  }
+  return null;
+}
+
+function limitValues(row: BetLimit | undefined): BetLimitValues {
+  if (!row) return NO_LIMITS;
+  return {
+    minStake: row.minStake,
+    maxStake: row.maxStake,
+    dailyStakeCap: row.dailyStakeCap,
+    maxNumberLiability: row.maxNumberLiability,
+  };
+}
+
+async function getLimitRow(executor: LedgerExecutor, gameType: string, subadminId: number | null): Promise<BetLimit | undefined> {
+  const [row] = await executor.select()
+    .from(betLimits)
+    .where(and(
+      eq(betLimits.gameType, gameType),
+      subadminId === null ? isNull(betLimits.subadminId) : eq(betLimits.subadminId, subadminId),
+    ))
+    .limit(1);
+  return row;
+}
+
+async function getMaxExposure(executor: LedgerExecutor, subadminId: number | null): Promise<number | null> {
+  const [row] = await executor.select()
+    .from(exposureLimits)
+    .where(subadminId === null ? isNull(exposureLimits.subadminId) : eq(exposureLimits.subadminId, subadminId))
+    .limit(1);
+  return row?.maxExposure ?? null;
+}
+
+/**
+ * The limits configured at one level: the admin's global ones for a null
+ * subadmin id, else that subadmin's
+ */
+export async function getBetLimitScope(subadminId: number | null, executor: LedgerExecutor = db): Promise<BetLimitScope> {
+  const limits = [];
+  for (const gameType of LIMITED_GAME_TYPES) {
+    limits.push({ gameType, ...limitValues(await getLimitRow(executor, gameType, subadminId)) });
+  }
+  return { limits, maxExposure: await getMaxExposure(executor, subadminId) };
+}
+
+/**
+ * Replace the limits configured at one level. A subadmin's limits may only
+ * tighten the global ones.
+ */
+export async function saveBetLimitScope(
+  subadminId: number | null,
+  scope: BetLimitScope,
+  updatedBy: number
+): Promise<BetLimitScope> {
+  return db.transaction(async (tx) => {
+    if (subadminId !== null) {
+      const global = await getBetLimitScope(null, tx);
+      for (const limit of scope.limits) {
+        const globalLimit = global.limits.find(l => l.gameType === limit.gameType) ?? NO_LIMITS;
+        const reason = looserLimitReason(limit.gameType, globalLimit, limit);
+        if (reason) throw new BetLimitError(400, reason);
+      }
+      if (global.maxExposure !== null && (scope.maxExposure === null || scope.maxExposure > global.maxExposure)) {
+        throw new BetLimitError(400, `Exposure cap cannot exceed the admin's ${formatRupees(global.maxExposure)}`);
+      }
+    }
+
+    for (const limit of scope.limits) {
+      const values = {
+        minStake: limit.minStake,
+        maxStake: limit.maxStake,
+        dailyStakeCap: limit.dailyStakeCap,
+        maxNumberLiability: limit.gameType === GameType.SATAMATKA ? limit.maxNumberLiability : null,
+        updatedBy,
+        updatedAt: new Date(),
+      };
+      const existing = await getLimitRow(tx, limit.gameType, subadminId);
+      if (existing) {
+        await tx.update(betLimits).set(values).where(eq(betLimits.id, existing.id));
+      } else {
+        await tx.insert(betLimits).values({ gameType: limit.gameType, subadminId, ...values });
+      }
+    }
+
+    const exposureScope = subadminId === null ? isNull(exposureLimits.subadminId) : eq(exposureLimits.subadminId, subadminId);
+    await tx.delete(exposureLimits).where(exposureScope);
+    if (scope.maxExposure !== null) {
+      await tx.insert(exposureLimits).values({ subadminId, maxExposure: scope.maxExposure, updatedBy });
+    }
+
+    return getBetLimitScope(subadminId, tx);
+  });
+}
+
+/**
+ * The limits that apply to a player: the global ones, tightened by their subadmin's
+ */
+export async function getPlayerBetLimits(
+  executor: LedgerExecutor,
+  player: Pick<User, "assignedTo">,
+  gameType: LimitedGameType
+): Promise<BetLimitValues> {
+  const global = limitValues(await getLimitRow(executor, gameType, null));
+  if (!player.assignedTo) return global;
+  return tightenLimits(global, limitValues(await getLimitRow(executor, gameType, player.assignedTo)));
+}
+
+function startOfToday(): Date {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
+async function stakedToday(executor: LedgerExecutor, userId: number, gameType: string): Promise<number> {
+  const [row] = await executor.select({ total: sql<number>`coalesce(sum(${games.betAmount}), 0)::int` })
+    .from(games)
+    .where(and(
+      eq(games.userId, userId),
+      eq(games.gameType, gameType),
+      gte(games.createdAt, startOfToday()),
+      or(isNull(games.result), ne(games.result, VOIDED_BET_RESULT)),
+    ));
+  return row?.total ?? 0;
+}
+
+/**
+ * Reject bets that would take any result of the market past its payout cap.
+ * Only results the new bets win on are checked, so lowering a cap does not
+ * block bets on numbers that are still within it.
+ */
+async function checkNumberLiability(
+  executor: LedgerExecutor,
+  marketId: number,
+  bets: ProposedBet[],
+  maxNumberLiability: number,
+  playerIds: number[] | null
+) {
+  const pending = await executor.select({
+    gameMode: games.gameMode,
+    prediction: games.prediction,
+    payout: games.payout,
+  })
+    .from(games)
+    .where(and(
+      eq(games.marketId, marketId),
+      eq(games.result, "pending"),
+      playerIds ? inArray(games.userId, playerIds) : undefined,
+    ));
+
+  const proposed = payoutsByOutcome(bets.map(bet => ({
+    gameMode: bet.gameMode ?? null,
+    prediction: bet.prediction,
+    payout: bet.potentialPayout,
+  })));
+  const existing = payoutsByOutcome(pending);
+
+  proposed.forEach((payout, index) => {
+    if (payout > 0 && existing[index] + payout > maxNumberLiability) {
+      const available = Math.max(maxNumberLiability - existing[index], 0);
+      throw new BetLimitError(400,
+        `Number ${JODI_OUTCOMES[index]} is at its limit for this market: at most ${formatRupees(available)} more can be won on it`);
+    }
+  });
+}
+
+async function checkSubadminExposure(executor: LedgerExecutor, subadminId: number, bets: ProposedBet[]) {
+  const caps = [await getMaxExposure(executor, null), await getMaxExposure(executor, subadminId)];
+  const maxExposure = caps.reduce<number | null>((cap, value) => stricter(cap, value, Math.min), null);
+  if (maxExposure === null) return;
+
+  await executor.execute(sql`select pg_advisory_xact_lock(${SUBADMIN_EXPOSURE_LOCK}, ${subadminId})`);
+
+  // Unsettled bets record their potential payout until they are settled
+  const [row] = await executor.select({ total: sql<number>`coalesce(sum(${games.payout}), 0)::int` })
+    .from(games)
+    .innerJoin(users, eq(games.userId, users.id))
+    .where(and(
+      eq(users.assignedTo, subadminId),
+      or(isNull(games.result), eq(games.result, "pending")),
+    ));
+
+  const exposure = row?.total ?? 0;
+  const added = bets.reduce((sum, bet) => sum + bet.potentialPayout, 0);
+  if (exposure + added > maxExposure) {
+    throw new BetLimitError(400, "Betting is limited right now: your agent's exposure limit has been reached");
+  }
+}
+
+/**
+ * Check bets against every limit that applies to the player. Must run inside
+ * the transaction that places the bets, after the player's row is locked, so
+ * bets racing each other are checked one at a time. Throws a BetLimitError
+ * that names the limit a bet breaks.
+ */
+export async function enforceBetLimits(
+  executor: LedgerExecutor,
+  player: Pick<User, "id" | "assignedTo">,
+  gameType: LimitedGameType,
+  bets: ProposedBet[],
+  marketId?: number
+): Promise<void> {
+  const label = GAME_LABELS[gameType];
+  const limits = await getPlayerBetLimits(executor, player, gameType);
+
+  for (const bet of bets) {
+    if (limits.minStake !== null && bet.betAmount < limits.minStake) {
+      throw new BetLimitError(400, `Minimum ${label} stake is ${formatRupees(limits.minStake)}`);
+    }
+    if (limits.maxStake !== null && bet.betAmount > limits.maxStake) {
+      throw new BetLimitError(400, `Maximum ${label} stake is ${formatRupees(limits.maxStake)}`);
+    }
+  }
+
+  if (limits.dailyStakeCap !== null) {
+    const total = bets.reduce((sum, bet) => sum + bet.betAmount, 0);
+    const staked = await stakedToday(executor, player.id, gameType);
+    if (staked + total > limits.dailyStakeCap) {
+      const remaining = Math.max(limits.dailyStakeCap - staked, 0);
+      throw new BetLimitError(400,
+        `Daily ${label} limit of ${formatRupees(limits.dailyStakeCap)} reached: you can stake ${formatRupees(remaining)} more today`);
+    }
+  }
+
+  if (gameType === GameType.SATAMATKA && marketId !== undefined) {
+    const global = await getLimitRow(executor, gameType, null);
+    const own = player.assignedTo ? await getLimitRow(executor, gameType, player.assignedTo) : undefined;
+
+    if (global?.maxNumberLiability != null || own?.maxNumberLiability != null) {
+      await executor.execute(sql`select pg_advisory_xact_lock(${MARKET_LIABILITY_LOCK}, ${marketId})`);
+    }
+    if (global?.maxNumberLiability != null) {
+      await checkNumberLiability(executor, marketId, bets, global.maxNumberLiability, null);
+    }
+    if (own?.maxNumberLiability != null && player.assignedTo) {
+      // A subadmin's cap covers the bets of their own players
+      const players = await executor.select({ id: users.id })
+        .from(users)
+        .where(eq(users.assignedTo, player.assignedTo));
+      await checkNumberLiability(executor, marketId, bets, own.maxNumberLiability, players.map(p => p.id));
+    }
+  }
+
+  // Coin flips settle in the same transaction, so they never add to exposure
+  if (gameType !== GameType.COIN_FLIP && player.assignedTo) {
+    await checkSubadminExposure(executor, player.assignedTo, bets);
+  }
+}
@@ -0,0 +1,148 @@
+import express from "express";
+import { db } from "./db";
+import { storage } from "./storage";
+import { requireRole } from "./auth";
+import { serveContract } from "./api-contract";
+import { UserRole, subadminCommissions } from "@shared/schema";
+import { apiContracts } from "@shared/api-contracts";
+
+const router = express.Router();
+
+// Platform default rates live in system settings under this type
+const DEFAULT_COMMISSION_SETTING_TYPE = "commission_default";
+
+async function requireSubadmin(subadminId: number) {
+  const subadmin = await storage.getUser(subadminId);
+  return subadmin && subadmin.role === UserRole.SUBADMIN ? subadmin : undefined;
+}
+
+/**
+ * Resolve the player a subadmin is setting discounts for.
+ * Only the subadmin the player is assigned to may give them discounts.
+ */
+async function requireAssignedPlayer(subadminId: number, userId: number) {
+  const player = await storage.getUser(userId);
+  return player && player.role === UserRole.PLAYER && player.assignedTo === subadminId ? player : undefined;
+}
+
+serveContract(router, apiContracts.getCommissions, [requireRole(UserRole.ADMIN)], async (_req, res, next) => {
+  try {
+    res.json(await db.select().from(subadminCommissions).orderBy(subadminCommissions.subadminId));
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.getDefaultCommissions, [requireRole([UserRole.ADMIN, UserRole.SUBADMIN])], async (_req, res, next) => {
+  try {
+    const settings = await storage.getSystemSettingsByType(DEFAULT_COMMISSION_SETTING_TYPE);
+    const rates: Record<string, number> = {};
+    for (const setting of settings) {
+      rates[setting.settingKey] = parseInt(setting.settingValue, 10);
+    }
+    res.json(rates);
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.saveDefaultCommissions, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    const rates: Record<string, number> = {};
+    for (const [key, rate] of Object.entries(req.body.defaultRates)) {
+      await storage.upsertSystemSetting(DEFAULT_COMMISSION_SETTING_TYPE, key, rate.toString());
+      rates[key] = rate;
+    }
+    res.json(rates);
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.getSubadminCommissions, [requireRole([UserRole.ADMIN, UserRole.SUBADMIN])], async (req, res, next) => {
+  try {
+    const subadminId = req.params.id;
+    if (req.user!.role === UserRole.SUBADMIN && req.user!.id !== subadminId) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    res.json(await storage.getSubadminCommissions(subadminId));
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.saveSubadminCommission, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    const { subadminId, gameType, commissionRate } = req.body;
+    if (!(await requireSubadmin(subadminId))) {
+      return res.status(404).json({ message: "Subadmin not found" });
+    }
+
+    res.json(await storage.upsertSubadminCommission(subadminId, gameType, commissionRate));
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.saveSubadminCommissions, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    const subadminId = req.params.id;
+    if (!(await requireSubadmin(subadminId))) {
+      return res.status(404).json({ message: "Subadmin not found" });
+    }
+
+    const saved = [];
+    for (const commission of req.body.commissions) {
+      saved.push(await storage.upsertSubadminCommission(subadminId, commission.gameType, commission.commissionRate));
+    }
+    res.json(saved);
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.getUserDiscounts, [requireRole(UserRole.SUBADMIN)], async (req, res, next) => {
+  try {
+    const player = await requireAssignedPlayer(req.user!.id, req.params.id);
+    if (!player) {
+      return res.status(404).json({ message: "Player not found" });
+    }
+
+    res.json(await storage.getUserDiscounts(player.id, req.user!.id));
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.saveUserDiscount, [requireRole(UserRole.SUBADMIN)], async (req, res, next) => {
+  try {
+    const { userId, gameType, discountRate } = req.body;
+    if (!(await requireAssignedPlayer(req.user!.id, userId))) {
+      return res.status(404).json({ message: "Player not found" });
+    }
+
+    res.json(await storage.upsertUserDiscount(req.user!.id, userId, gameType, discountRate));
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.saveUserDiscounts, [requireRole(UserRole.SUBADMIN)], async (req, res, next) => {
+  try {
+    const player = await requireAssignedPlayer(req.user!.id, req.params.id);
+    if (!player) {
+      return res.status(404).json({ message: "Player not found" });
+    }
+
+    const saved = [];
+    for (const discount of req.body.discounts) {
+      saved.push(await storage.upsertUserDiscount(req.user!.id, player.id, discount.gameType, discount.discountRate));
+    }
+    res.json(saved);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
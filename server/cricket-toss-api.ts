@@ -4,19 +4,33 @@ import { z } from "zod";
 import { 
   GameType, 
   TeamMatchResult, 
+  JournalEntryType,
+  VOIDED_BET_RESULT,
   users, 
   games, 
   teamMatches,
+  type Game,
   type TeamMatch
 } from "../shared/schema";
-import { eq, and, desc } from "drizzle-orm";
+import { paisaAmountSchema, rupeesToPaisa } from "../shared/money";
+import { eq, and, desc, isNull } from "drizzle-orm";
 import { requireRole } from "./auth";
+import { postUserMovement, type LedgerExecutor } from "./ledger";
+import { correctionReasonSchema, paidOutAmount, postBetAdjustment, voidBet } from "./bet-adjustments";
+import { BetLimitError, enforceBetLimits } from "./bet-limits";
+import { RiskAlertError, assertMatchBettingOpen, checkMatchAlerts } from "./risk-alerts";
+import { SettlementPreviewError, previewSettlement } from "./settlement-preview";
+import { publishBetPlaced, publishBetSettled } from "./live-updates";
+import { bettingCutoff, closeMatchForBetting, getTossCloseMinutes } from "./match-scheduler";
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 
 const router = express.Router();
 
+// Minimum cricket toss bet (₹10)
+const MIN_BET_PAISA = rupeesToPaisa(10);
+
 // Setup multer for image uploads
 const uploadsDir = path.join(process.cwd(), 'uploads');
 const cricketTossUploadsDir = path.join(uploadsDir, 'cricket-toss');
@@ -69,10 +83,12 @@ const createCricketTossMatchSchema = z.object({
 // Schema for placing a bet
 const placeBetSchema = z.object({
   matchId: z.number(),
-  betAmount: z.number().positive("Bet amount must be positive"),
+  betAmount: paisaAmountSchema.min(MIN_BET_PAISA, "Bet amount must be at least ₹10"),
   prediction: z.enum(["team_a", "team_b"], { 
     errorMap: () => ({ message: "Prediction must be either team_a or team_b" })
   }),
+  // The odds (x100) the bet slip quoted; the bet is refused if they have moved
+  expectedOdds: z.number().int().optional(),
 });
 
 // Schema for declaring a result
@@ -82,6 +98,16 @@ const declareResultSchema = z.object({
   }),
 });
 
+// Schema for correcting a declared result
+const correctResultSchema = declareResultSchema.extend({
+  reason: correctionReasonSchema,
+});
+
+// Schema for voiding a match
+const voidMatchSchema = z.object({
+  reason: correctionReasonSchema,
+});
+
 // Get all cricket toss matches
 router.get("/matches", requireRole(["admin", "subadmin"]), async (req, res) => {
   try {
@@ -97,10 +123,13 @@ router.get("/matches", requireRole(["admin", "subadmin"]), async (req, res) => {
   }
 });
 
-// Get all open cricket toss matches (for players)
+// Get all open cricket toss matches (for players), each with when betting
+// on it closes. `msUntilClose` is counted on the server's clock, so the
+// player's countdown does not depend on their device's clock being right.
 router.get("/open-matches", async (req, res) => {
   try {
     const now = new Date();
+    const tossCloseMinutes = await getTossCloseMinutes();
     const matches = await db.select()
       .from(teamMatches)
       .where(
@@ -111,7 +140,14 @@ router.get("/open-matches", async (req, res) => {
       )
       .orderBy(desc(teamMatches.matchTime));
     
-    res.json(matches);
+    res.json(matches.map(match => {
+      const bettingClosesAt = bettingCutoff(match, tossCloseMinutes);
+      return {
+        ...match,
+        bettingClosesAt,
+        msUntilClose: Math.max(0, bettingClosesAt.getTime() - now.getTime()),
+      };
+    }));
   } catch (error) {
     console.error("Error fetching open cricket toss matches:", error);
     res.status(500).json({ message: "Failed to fetch open cricket toss matches" });
@@ -134,15 +170,15 @@ router.get("/match-stats", requireRole(["admin", "subadmin"]), async (req, res)
         .from(games)
         .where(
           and(
-            eq(games.gameType, "cricket"),
+            eq(games.gameType, GameType.CRICKET_TOSS),
             eq(games.matchId, match.id),
-            eq(games.status, "pending")
+            isNull(games.result)
           )
         );
       
       // Calculate stats for each team
-      const teamABets = bets.filter((bet: any) => bet.betData?.prediction === 'team_a');
-      const teamBBets = bets.filter((bet: any) => bet.betData?.prediction === 'team_b');
+      const teamABets = bets.filter(bet => bet.prediction === TeamMatchResult.TEAM_A);
+      const teamBBets = bets.filter(bet => bet.prediction === TeamMatchResult.TEAM_B);
       
       const teamAStats = {
         totalBets: teamABets.length,
@@ -203,7 +239,7 @@ router.put("/matches/:id", requireRole(["admin", "subadmin"]), upload.single('co
     const matchTime = req.body.matchTime;
     
     // Process cover image if it was uploaded
-    let coverImage: string | undefined = existingMatch[0].coverImage;
+    let coverImage: string | null = existingMatch[0].coverImage;
     
     if (req.file) {
       coverImage = `/uploads/cricket-toss/${req.file.filename}`;
@@ -305,7 +341,7 @@ router.post("/matches", requireRole(["admin", "subadmin"]), upload.single('cover
   }
 });
 
-// Close betting for a match
+// Close betting for a match ahead of its scheduled cut-off
 router.post("/matches/:id/close", requireRole(["admin", "subadmin"]), async (req, res) => {
   try {
     const matchId = parseInt(req.params.id);
@@ -331,19 +367,131 @@ router.post("/matches/:id/close", requireRole(["admin", "subadmin"]), async (req
       });
     }
     
-    // Close the match
-    const updatedMatch = await db.update(teamMatches)
-      .set({ status: "closed" })
-      .where(eq(teamMatches.id, matchId))
-      .returning();
+    // Close the match and the markets on it
+    await db.transaction(tx => closeMatchForBetting(tx, matchId));
     
-    res.json(updatedMatch[0]);
+    res.json({ ...match[0], status: "closed" });
   } catch (error) {
     console.error("Error closing cricket toss match:", error);
     res.status(500).json({ message: "Failed to close cricket toss match" });
   }
 });
 
+/**
+ * Find a cricket toss match that is closed for betting and so ready for a
+ * result, locking it so a concurrent declaration or void waits for this one
+ */
+async function findClosedTossMatch(executor: LedgerExecutor, matchId: number) {
+  const [match] = await executor.select()
+    .from(teamMatches)
+    .where(
+      and(
+        eq(teamMatches.id, matchId),
+        eq(teamMatches.category, "cricket_toss"),
+        eq(teamMatches.status, "closed")
+      )
+    )
+    .for('update');
+  return match;
+}
+
+/**
+ * The odds (x100) a bet is paid at: the price it was accepted at. Bets from
+ * before that was recorded fall back to the odds copied into their game data,
+ * then to the match's current odds.
+ */
+function acceptedTossOdds(bet: Pick<Game, "prediction" | "acceptedOdds" | "gameData">, matchData: TeamMatch): number {
+  if (bet.acceptedOdds) return bet.acceptedOdds;
+  const gameData = bet.gameData as { oddTeamA?: number; oddTeamB?: number } | null;
+  const recorded = bet.prediction === "team_a" ? gameData?.oddTeamA : gameData?.oddTeamB;
+  return recorded ?? (bet.prediction === "team_a" ? matchData.oddTeamA : matchData.oddTeamB);
+}
+
+/**
+ * Record the match's result and settle its unsettled bets, posting winners'
+ * payouts to the ledger. Runs on the caller's transaction so the settlement
+ * preview can run it and roll it back.
+ */
+async function settleTossResult(executor: LedgerExecutor, matchData: TeamMatch, result: "team_a" | "team_b") {
+  // Update the match with the result
+  const [updatedMatch] = await executor.update(teamMatches)
+    .set({ 
+      status: "resulted",
+      result
+    })
+    .where(and(eq(teamMatches.id, matchData.id), eq(teamMatches.status, "closed")))
+    .returning();
+  
+  // Process all bets for this match
+  const bets = await executor.select()
+    .from(games)
+    .where(
+      and(
+        eq(games.matchId, matchData.id),
+        eq(games.gameType, GameType.CRICKET_TOSS)
+        // We'll filter unresolved bets after the query
+      )
+    )
+    .for('update');
+  
+  let settled = 0;
+  let winners = 0;
+  
+  // For each bet, determine win/loss and post the payout to the ledger
+  for (const bet of bets) {
+    // Skip bets that already have a result
+    if (bet.result !== null) continue;
+    
+    let payout = 0;
+    const win = bet.prediction === result;
+    
+    if (win) {
+      // Pay the price the bet was accepted at, not the match's current odds
+      payout = Math.floor(bet.betAmount * (acceptedTossOdds(bet, matchData) / 100));
+    }
+    
+    // Get current user balance
+    const userResult = await executor.select({ balance: users.balance })
+      .from(users)
+      .where(eq(users.id, bet.userId))
+      .limit(1);
+    
+    if (userResult.length === 0) {
+      console.error(`User ${bet.userId} not found when processing bet ${bet.id}`);
+      continue;
+    }
+    
+    let newBalance = userResult[0].balance;
+    
+    // Pay the winner out of the house account
+    if (payout > 0) {
+      newBalance = await postUserMovement(executor, {
+        userId: bet.userId,
+        amount: payout,
+        entryType: JournalEntryType.BET_PAYOUT,
+        description: `Cricket toss payout: ${matchData.teamA} vs ${matchData.teamB}`,
+        referenceType: "game",
+        referenceId: bet.id,
+      });
+    }
+    
+    // Update bet with result and payout
+    await executor.update(games)
+      .set({
+        result,
+        payout: payout,
+        balanceAfter: newBalance
+      })
+      .where(eq(games.id, bet.id));
+    await publishBetSettled(executor, bet, bet.payout);
+    
+    settled++;
+    if (win) winners++;
+  }
+  
+  return { updatedMatch, processedBets: bets.length, settled, winners };
+}
+
 // Declare result for a match
 router.post("/matches/:id/result", requireRole(["admin", "subadmin"]), async (req, res) => {
   try {
@@ -354,172 +502,272 @@ router.post("/matches/:id/result", requireRole(["admin", "subadmin"]), async (re
     
     const validatedData = declareResultSchema.parse(req.body);
     
-    // First check if the match exists and is closed
-    const match = await db.select()
-      .from(teamMatches)
-      .where(
-        and(
-          eq(teamMatches.id, matchId),
-          eq(teamMatches.category, "cricket_toss"),
-          eq(teamMatches.status, "closed")
-        )
-      )
-      .limit(1);
+    // The match is locked and checked to be closed in the same transaction
+    // that settles it
+    const outcome = await db.transaction(async (tx) => {
+      const matchData = await findClosedTossMatch(tx, matchId);
+      if (!matchData) {
+        return null;
+      }
+      return settleTossResult(tx, matchData, validatedData.result);
+    });
     
-    if (match.length === 0) {
+    if (!outcome) {
       return res.status(404).json({ 
         message: "Match not found or not in closed state" 
       });
     }
     
-    const matchData = match[0];
+    res.json({
+      match: outcome.updatedMatch,
+      processedBets: outcome.processedBets
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ message: error.errors[0].message });
+    } else {
+      console.error("Error declaring cricket toss result:", error);
+      res.status(500).json({ message: "Failed to declare cricket toss result" });
+    }
+  }
+});
+
+// Dry run of declaring a result: what the settlement would pay, with nothing committed
+router.post("/matches/:id/result/preview", requireRole(["admin", "subadmin"]), async (req, res) => {
+  try {
+    const matchId = parseInt(req.params.id);
+    if (isNaN(matchId)) {
+      return res.status(400).json({ message: "Invalid match ID" });
+    }
+    
+    const validatedData = declareResultSchema.parse(req.body);
     
-    // Update the match with the result
-    const updatedMatch = await db.update(teamMatches)
-      .set({ 
-        status: "resulted",
-        result: validatedData.result
-      })
-      .where(eq(teamMatches.id, matchId))
-      .returning();
+    const preview = await previewSettlement({ matchId }, async (tx) => {
+      const matchData = await findClosedTossMatch(tx, matchId);
+      if (!matchData) {
+        throw new SettlementPreviewError(404, "Match not found or not in closed state");
+      }
+      return settleTossResult(tx, matchData, validatedData.result);
+    });
     
-    // Process all bets for this match
-    const bets = await db.select()
-      .from(games)
-      .where(
-        and(
-          eq(games.matchId, matchId),
-          eq(games.gameType, GameType.CRICKET_TOSS)
-          // We'll filter unresolved bets after the query
-        )
-      );
+    res.json(preview);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ message: error.errors[0].message });
+    } else if (error instanceof SettlementPreviewError) {
+      res.status(error.status).json({ message: error.message });
+    } else {
+      console.error("Error previewing cricket toss result:", error);
+      res.status(500).json({ message: "Failed to preview cricket toss result" });
+    }
+  }
+});
+
+// Correct a wrongly declared result; earlier payouts are reversed and the bets settled again
+router.post("/matches/:id/correct-result", requireRole(["admin"]), async (req, res) => {
+  try {
+    const matchId = parseInt(req.params.id);
+    if (isNaN(matchId)) {
+      return res.status(400).json({ message: "Invalid match ID" });
+    }
     
-    // For each bet, determine win/loss and update user balance
-    for (const bet of bets) {
-      // Skip bets that already have a result
-      if (bet.result !== null) continue;
-      
-      let payout = 0;
-      const win = bet.prediction === validatedData.result;
+    const validatedData = correctResultSchema.parse(req.body);
+    const correction = { performedBy: req.user!.id, reason: validatedData.reason };
+    
+    const outcome = await db.transaction(async (tx) => {
+      const [matchData] = await tx.select()
+        .from(teamMatches)
+        .where(and(eq(teamMatches.id, matchId), eq(teamMatches.category, "cricket_toss")))
+        .for('update');
       
-      if (win) {
-        // Calculate payout based on which team was predicted
-        const odds = bet.prediction === "team_a" ? matchData.oddTeamA : matchData.oddTeamB;
-        payout = Math.floor(bet.betAmount * (odds / 100));
+      if (!matchData || matchData.status !== "resulted") {
+        return null;
       }
       
-      // Get current user balance
-      const userResult = await db.select({ balance: users.balance })
-        .from(users)
-        .where(eq(users.id, bet.userId))
-        .limit(1);
-      
-      if (userResult.length === 0) {
-        console.error(`User ${bet.userId} not found when processing bet ${bet.id}`);
-        continue;
-      }
+      const [updatedMatch] = await tx.update(teamMatches)
+        .set({ result: validatedData.result })
+        .where(eq(teamMatches.id, matchId))
+        .returning();
       
-      const currentBalance = userResult[0].balance;
-      const newBalance = currentBalance + payout;
+      const bets = await tx.select()
+        .from(games)
+        .where(
+          and(
+            eq(games.matchId, matchId),
+            eq(games.gameType, GameType.CRICKET_TOSS)
+          )
+        )
+        .for('update');
       
-      // Update user balance
-      if (payout > 0) {
-        await db.update(users)
-          .set({ balance: newBalance })
-          .where(eq(users.id, bet.userId));
+      let correctedBets = 0;
+      for (const bet of bets) {
+        if (bet.result === VOIDED_BET_RESULT || bet.result === validatedData.result) continue;
+        
+        const previousPayout = paidOutAmount(bet);
+        const odds = acceptedTossOdds(bet, matchData);
+        const payout = bet.prediction === validatedData.result ? Math.floor(bet.betAmount * (odds / 100)) : 0;
+        const label = `${matchData.teamA} vs ${matchData.teamB}`;
+        
+        let newBalance = bet.balanceAfter;
+        if (previousPayout > 0 && previousPayout !== payout) {
+          newBalance = await postBetAdjustment(tx, {
+            game: bet,
+            amount: -previousPayout,
+            entryType: JournalEntryType.BET_PAYOUT_REVERSAL,
+            description: `Cricket toss payout reversed: ${label}`,
+            correction,
+          });
+        }
+        if (payout > 0 && previousPayout !== payout) {
+          newBalance = await postBetAdjustment(tx, {
+            game: bet,
+            amount: payout,
+            entryType: JournalEntryType.BET_PAYOUT,
+            description: `Cricket toss payout after result correction: ${label}`,
+            correction,
+          });
+        }
+        
+        const gameData = (bet.gameData as Record<string, unknown> | null) ?? {};
+        await tx.update(games)
+          .set({
+            result: validatedData.result,
+            payout,
+            balanceAfter: newBalance,
+            gameData: {
+              ...gameData,
+              correction: {
+                ...correction,
+                previousResult: bet.result,
+                previousPayout,
+                correctedAt: new Date().toISOString(),
+              },
+            },
+          })
+          .where(eq(games.id, bet.id));
+        await publishBetSettled(tx, bet, null);
+        correctedBets++;
       }
       
-      // Update bet with result and payout
-      await db.update(games)
-        .set({
-          result: validatedData.result,
-          payout: payout,
-          balanceAfter: newBalance
-        })
-        .where(eq(games.id, bet.id));
+      return { match: updatedMatch, correctedBets };
+    });
+    
+    if (!outcome) {
+      return res.status(404).json({ message: "Match not found or not resulted" });
     }
     
-    res.json({
-      match: updatedMatch[0],
-      processedBets: bets.length
-    });
+    res.json(outcome);
   } catch (error) {
     if (error instanceof z.ZodError) {
       res.status(400).json({ message: error.errors[0].message });
     } else {
-      console.error("Error declaring cricket toss result:", error);
-      res.status(500).json({ message: "Failed to declare cricket toss result" });
+      console.error("Error correcting cricket toss result:", error);
+      res.status(500).json({ message: "Failed to correct cricket toss result" });
     }
   }
 });
 
-// Place a bet on a cricket toss match
-router.post("/bet", async (req, res) => {
+// Cancel a match: every payout is reversed and every stake refunded
+router.post("/matches/:id/void", requireRole(["admin"]), async (req, res) => {
   try {
-    // Ensure user is authenticated
-    if (!req.user) {
-      return res.status(401).json({ message: "You must be logged in to place a bet" });
+    const matchId = parseInt(req.params.id);
+    if (isNaN(matchId)) {
+      return res.status(400).json({ message: "Invalid match ID" });
     }
     
-    const validatedData = placeBetSchema.parse(req.body);
+    const validatedData = voidMatchSchema.parse(req.body);
+    const correction = { performedBy: req.user!.id, reason: validatedData.reason };
     
+    const outcome = await db.transaction(async (tx) => {
+      const [matchData] = await tx.select()
+        .from(teamMatches)
+        .where(and(eq(teamMatches.id, matchId), eq(teamMatches.category, "cricket_toss")))
+        .for('update');
+      
+      if (!matchData || matchData.status === "cancelled") {
+        return null;
+      }
+      
+      const [updatedMatch] = await tx.update(teamMatches)
+        .set({ status: "cancelled", result: TeamMatchResult.CANCELLED })
+        .where(eq(teamMatches.id, matchId))
+        .returning();
+      
+      const bets = await tx.select()
+        .from(games)
+        .where(
+          and(
+            eq(games.matchId, matchId),
+            eq(games.gameType, GameType.CRICKET_TOSS)
+          )
+        )
+        .for('update');
+      
+      let voidedBets = 0;
+      for (const bet of bets) {
+        if (await voidBet(tx, bet, `${matchData.teamA} vs ${matchData.teamB}`, correction)) {
+          voidedBets++;
+        }
+      }
+      
+      return { match: updatedMatch, voidedBets };
+    });
+    
+    if (!outcome) {
+      return res.status(404).json({ message: "Match not found or already cancelled" });
+    }
+    
+    res.json(outcome);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ message: error.errors[0].message });
+    } else {
+      console.error("Error voiding cricket toss match:", error);
+      res.status(500).json({ message: "Failed to void cricket toss match" });
+    }
+  }
+});
+
+/**
+ * Place a cricket toss bet in one transaction: the player's row is locked and
+ * the stake is checked against the balance and the bet limits before it is
+ * posted to the ledger. The match row is share-locked so its odds cannot
+ * change between the price check and the bet being recorded at that price.
+ * `expectedOdds` is the price the player was quoted; when the odds have moved
+ * since, nothing is placed and the current odds are returned to accept.
+ */
+async function placeCricketTossBet(userId: number, matchId: number, prediction: string, betAmount: number, expectedOdds?: number) {
+  const placed = await db.transaction(async (tx) => {
     // Check if the match exists and is open for betting
-    const match = await db.select()
+    const [matchData] = await tx.select()
       .from(teamMatches)
       .where(
         and(
-          eq(teamMatches.id, validatedData.matchId),
+          eq(teamMatches.id, matchId),
           eq(teamMatches.category, "cricket_toss"),
           eq(teamMatches.status, "open")
         )
       )
-      .limit(1);
+      .for('share');
     
-    if (match.length === 0) {
-      return res.status(404).json({ 
-        message: "Match not found or not open for betting" 
-      });
+    if (!matchData) {
+      return { status: 404, message: "Match not found or not open for betting" } as const;
     }
-    
-    const matchData = match[0] as TeamMatch;
-    
-    // Check if the user has enough balance
-    const userResult = await db.select({ balance: users.balance })
-      .from(users)
-      .where(eq(users.id, req.user.id))
-      .limit(1);
-    
-    if (userResult.length === 0) {
-      return res.status(404).json({ message: "User not found" });
+    // The scheduler closes the match at its cut-off, but may not have run yet
+    if (new Date() >= bettingCutoff(matchData, await getTossCloseMinutes(tx))) {
+      return { status: 409, message: "Betting on this match has closed for the toss" } as const;
     }
     
-    const currentBalance = userResult[0].balance;
-    
-    if (currentBalance < validatedData.betAmount) {
-      return res.status(400).json({ 
-        message: "Insufficient balance to place this bet" 
-      });
+    const odds = prediction === "team_a" ? matchData.oddTeamA : matchData.oddTeamB;
+    if (expectedOdds !== undefined && expectedOdds !== odds) {
+      return {
+        status: 409,
+        message: `The odds have changed from ${(expectedOdds / 100).toFixed(2)} to ${(odds / 100).toFixed(2)}`,
+        currentOdds: odds,
+      } as const;
     }
-    
-    // Calculate potential payout
-    const odds = validatedData.prediction === "team_a" 
-      ? matchData.oddTeamA 
-      : matchData.oddTeamB;
-    
-    // Ensure bet amount is a number and correctly scaled
-    // Convert to paisa (multiply by 100) as the system stores amounts in paisa
-    const betAmount = parseInt(validatedData.betAmount.toString()) * 100;
-    
     const potentialWin = Math.floor(betAmount * (odds / 100));
     
-    // Deduct bet amount from user balance
-    const newBalance = currentBalance - betAmount;
-    
-    await db.update(users)
-      .set({ balance: newBalance })
-      .where(eq(users.id, req.user.id));
-    
-    // Create the bet record
     const gameData = {
       teamA: matchData.teamA,
       teamB: matchData.teamB,
@@ -531,26 +779,91 @@ router.post("/bet", async (req, res) => {
       status: matchData.status,
     };
     
-    const createdBet = await db.insert(games)
+    const [player] = await tx.select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .for('update');
+    
+    if (!player) {
+      return { status: 404, message: "User not found" } as const;
+    }
+    if (player.balance < betAmount) {
+      return { status: 400, message: "Insufficient balance to place this bet" } as const;
+    }
+    
+    await assertMatchBettingOpen(tx, matchId, prediction);
+    await enforceBetLimits(tx, player, GameType.CRICKET_TOSS, [{ betAmount, prediction, potentialPayout: potentialWin }]);
+    
+    const [bet] = await tx.insert(games)
       .values({
-        userId: req.user.id,
+        userId,
         gameType: GameType.CRICKET_TOSS,
-        matchId: validatedData.matchId,
-        betAmount: betAmount,
-        prediction: validatedData.prediction,
-        gameData: gameData,
-        balanceAfter: newBalance,
+        matchId,
+        betAmount,
+        prediction,
+        // Potential payout until the match is settled
+        payout: potentialWin,
+        gameData,
+        acceptedOdds: odds,
+        balanceAfter: player.balance - betAmount,
       })
       .returning();
+    await publishBetPlaced(tx, bet);
+    
+    // Move the stake from the player's account to the house
+    const balance = await postUserMovement(tx, {
+      userId,
+      amount: -betAmount,
+      entryType: JournalEntryType.BET_STAKE,
+      description: `Cricket toss bet: ${matchData.teamA} vs ${matchData.teamB}`,
+      referenceType: "game",
+      referenceId: bet.id,
+    });
+    
+    return { status: 201, bet, balance, potentialWin } as const;
+  });
+
+  if (!("message" in placed)) {
+    // A failing alert check is logged rather than failing the placed bet
+    await checkMatchAlerts(matchId, userId)
+      .catch(error => console.error("Error checking risk alerts:", error));
+  }
+  return placed;
+}
+
+// Place a bet on a cricket toss match
+router.post("/bet", async (req, res) => {
+  try {
+    // Ensure user is authenticated
+    if (!req.user) {
+      return res.status(401).json({ message: "You must be logged in to place a bet" });
+    }
+    
+    const validatedData = placeBetSchema.parse(req.body);
+
+    const placed = await placeCricketTossBet(
+      req.user.id,
+      validatedData.matchId,
+      validatedData.prediction,
+      // Bet amounts arrive in paisa, the same unit the balance is stored in
+      validatedData.betAmount,
+      validatedData.expectedOdds
+    );
+    if ("message" in placed) {
+      const { status, ...refusal } = placed;
+      return res.status(status).json(refusal);
+    }
     
     res.status(201).json({
-      bet: createdBet[0],
-      currentBalance: newBalance,
-      potentialWin: potentialWin
+      bet: placed.bet,
+      currentBalance: placed.balance,
+      potentialWin: placed.potentialWin
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
       res.status(400).json({ message: error.errors[0].message });
+    } else if (error instanceof BetLimitError || error instanceof RiskAlertError) {
+      res.status(error.status).json({ message: error.message });
     } else {
       console.error("Error placing cricket toss bet:", error);
       res.status(500).json({ message: "Failed to place bet" });
@@ -607,6 +920,7 @@ router.post("/:id/play", async (req, res) => {
     // This bypasses the schema validation temporarily until we understand the data format
     let betAmount = 0;
     let betOn = "";
+    let expectedOdds: number | undefined;
     
     // Try to extract values from the request body based on different possible formats
     if (req.body) {
@@ -616,6 +930,7 @@ router.post("/:id/play", async (req, res) => {
           const parsedBody = JSON.parse(req.body);
           betAmount = parsedBody.betAmount || parsedBody.amount || 0;
           betOn = parsedBody.betOn || parsedBody.prediction || "";
+          expectedOdds = parsedBody.expectedOdds;
         } catch (e) {
           console.error("Error parsing JSON body:", e);
           // Handle form-urlencoded format
@@ -627,12 +942,17 @@ router.post("/:id/play", async (req, res) => {
         // Object format
         betAmount = parseInt(req.body.betAmount) || parseInt(req.body.amount) || 0;
         betOn = req.body.betOn || req.body.prediction || "";
+        expectedOdds = req.body.expectedOdds;
       }
     }
     
     // Simple validation
-    if (!betAmount || betAmount < 10) {
-      return res.status(400).json({ message: "Bet amount must be at least 10" });
+    if (!betAmount || betAmount < MIN_BET_PAISA) {
+      return res.status(400).json({ message: "Bet amount must be at least ₹10" });
+    }
+    
+    if (expectedOdds !== undefined && !Number.isInteger(expectedOdds)) {
+      return res.status(400).json({ message: "Invalid expected odds" });
     }
     
     if (!betOn || (betOn !== "team_a" && betOn !== "team_b" && betOn !== "TeamA" && betOn !== "TeamB")) {
@@ -643,97 +963,25 @@ router.post("/:id/play", async (req, res) => {
     if (betOn === "TeamA") betOn = "team_a";
     if (betOn === "TeamB") betOn = "team_b";
     
-    // Check if the match exists and is open for betting
-    const match = await db.select()
-      .from(teamMatches)
-      .where(
-        and(
-          eq(teamMatches.id, matchId),
-          eq(teamMatches.category, "cricket_toss"),
-          eq(teamMatches.status, "open")
-        )
-      )
-      .limit(1);
-    
-    if (match.length === 0) {
-      return res.status(404).json({ 
-        message: "Match not found or not open for betting" 
-      });
-    }
-    
-    const matchData = match[0] as TeamMatch;
-    
-    // Check if the user has enough balance
-    const userResult = await db.select({ balance: users.balance })
-      .from(users)
-      .where(eq(users.id, req.user.id))
-      .limit(1);
-    
-    if (userResult.length === 0) {
-      return res.status(404).json({ message: "User not found" });
-    }
-    
-    const currentBalance = userResult[0].balance;
-    
-    if (currentBalance < betAmount) {
-      return res.status(400).json({ 
-        message: "Insufficient balance to place this bet" 
-      });
+    const placed = await placeCricketTossBet(req.user.id, matchId, betOn, betAmount, expectedOdds);
+    if ("message" in placed) {
+      const { status, ...refusal } = placed;
+      return res.status(status).json(refusal);
     }
     
-    // Calculate potential payout
-    const odds = betOn === "team_a" 
-      ? matchData.oddTeamA 
-      : matchData.oddTeamB;
-    
-    // Ensure bet amount is a number and correctly scaled
-    // Convert to paisa (multiply by 100) as the system stores amounts in paisa
-    betAmount = parseInt(betAmount.toString()) * 100;
-    
-    const potentialWin = Math.floor(betAmount * (odds / 100));
-    
-    // Deduct bet amount from user balance
-    const newBalance = currentBalance - betAmount;
-    
-    await db.update(users)
-      .set({ balance: newBalance })
-      .where(eq(users.id, req.user.id));
-    
-    // Create the bet record
-    const gameData = {
-      teamA: matchData.teamA,
-      teamB: matchData.teamB,
-      coverImage: matchData.coverImage,
-      matchId: matchData.id,
-      oddTeamA: matchData.oddTeamA,
-      oddTeamB: matchData.oddTeamB,
-      matchTime: matchData.matchTime,
-      status: matchData.status,
-    };
-    
-    const createdBet = await db.insert(games)
-      .values({
-        userId: req.user.id,
-        gameType: GameType.CRICKET_TOSS,
-        matchId: matchId,
-        betAmount: betAmount,
-        prediction: betOn,
-        gameData: gameData,
-        balanceAfter: newBalance,
-      })
-      .returning();
-    
     res.status(200).json({
-      game: createdBet[0],
+      game: placed.bet,
       user: {
         ...req.user,
-        balance: newBalance
+        balance: placed.balance
       },
-      potentialWin: potentialWin
+      potentialWin: placed.potentialWin
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
       res.status(400).json({ message: error.errors[0].message });
+    } else if (error instanceof BetLimitError || error instanceof RiskAlertError) {
+      res.status(error.status).json({ message: error.message });
     } else {
       console.error("Error placing cricket toss bet:", error);
       res.status(500).json({ message: "Failed to place bet" });
@@ -760,6 +1008,7 @@ router.get("/bets/:matchId", requireRole(["admin", "subadmin"]), async (req, res
       payout: games.payout,
       createdAt: games.createdAt,
       gameData: games.gameData,
+      acceptedOdds: games.acceptedOdds,
     })
     .from(games)
     .innerJoin(users, eq(games.userId, users.id))
@@ -774,7 +1023,7 @@ router.get("/bets/:matchId", requireRole(["admin", "subadmin"]), async (req, res
     // Calculate potential win for each bet
     const betsWithPotential = bets.map(bet => {
       const gameData = bet.gameData as any;
-      const odds = bet.prediction === 'team_a' ? gameData.oddTeamA : gameData.oddTeamB;
+      const odds = bet.acceptedOdds ?? (bet.prediction === 'team_a' ? gameData.oddTeamA : gameData.oddTeamB);
       const potential = Math.floor(bet.betAmount * (odds / 100));
       
       return {
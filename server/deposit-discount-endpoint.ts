@@ -1,4 +1,4 @@
-import { Router } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { storage } from './storage';
 import { z } from 'zod';
 import { UserRole } from '@shared/schema';
@@ -6,7 +6,7 @@ import { UserRole } from '@shared/schema';
 const router = Router();
 
 // Middleware to check if user is a subadmin
-const isSubadmin = (req, res, next) => {
+const isSubadmin = (req: Request, res: Response, next: NextFunction) => {
   if (!req.user) {
     return res.status(401).json({ error: 'Unauthorized' });
   }
@@ -22,7 +22,7 @@ const isSubadmin = (req, res, next) => {
 router.get('/deposit-discount/:userId', isSubadmin, async (req, res) => {
   try {
     const userId = parseInt(req.params.userId);
-    const subadminId = req.user.id;
+    const subadminId = req.user!.id;
     
     if (isNaN(userId)) {
       return res.status(400).json({ error: 'Invalid user ID' });
@@ -40,7 +40,7 @@ router.get('/deposit-discount/:userId', isSubadmin, async (req, res) => {
 router.post('/deposit-discount/:userId', isSubadmin, async (req, res) => {
   try {
     const userId = parseInt(req.params.userId);
-    const subadminId = req.user.id;
+    const subadminId = req.user!.id;
     
     const schema = z.object({
       discountRate: z.number().int().min(0).max(100)
@@ -78,7 +78,7 @@ router.post('/deposit-discount/:userId', isSubadmin, async (req, res) => {
 // Get all deposit discounts for this subadmin's players
 router.get('/deposit-discounts', isSubadmin, async (req, res) => {
   try {
-    const subadminId = req.user.id;
+    const subadminId = req.user!.id;
     
     // Get all players assigned to this subadmin
     const players = await storage.getUsersByAssignedTo(subadminId);
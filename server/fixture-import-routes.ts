@@ -0,0 +1,112 @@
+import express, { Request, Response, NextFunction } from "express";
+import multer from "multer";
+import path from "path";
+import { z } from "zod";
+import { requireRole } from "./auth";
+import {
+  FixtureImportError,
+  type FixtureFormat,
+  fixturesExport,
+  importFixtures,
+  listFixturesForExport,
+  parseFixtureFile,
+  previewFixtureImport,
+  readFixtureImages,
+} from "./fixture-import";
+import { UserRole } from "@shared/schema";
+
+const router = express.Router();
+
+// The fixture list and its images zip are only read, never kept as uploaded
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB, for a zip of team images
+  },
+});
+
+const fixtureUpload = upload.fields([
+  { name: "fixtures", maxCount: 1 },
+  { name: "images", maxCount: 1 },
+]);
+
+const fixtureExportQuerySchema = z.object({
+  format: z.enum(["csv", "json"]),
+  status: z.enum(["open", "closed", "resulted"]).optional(),
+});
+
+function sendFixtureError(res: Response, next: NextFunction, err: unknown) {
+  if (err instanceof FixtureImportError) {
+    return res.status(err.status).json({ message: err.message });
+  }
+  next(err);
+}
+
+// The fixture list and images of an import request; the list's format
+// comes from its file extension
+function uploadedFixtures(req: Request) {
+  const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+  const fixtureFile = files?.fixtures?.[0];
+  if (!fixtureFile) {
+    throw new FixtureImportError(400, "Upload a CSV or JSON fixture list");
+  }
+
+  const extension = path.extname(fixtureFile.originalname).toLowerCase();
+  if (extension !== ".csv" && extension !== ".json") {
+    throw new FixtureImportError(400, "The fixture list must be a .csv or .json file");
+  }
+  const format: FixtureFormat = extension === ".csv" ? "csv" : "json";
+
+  const zip = files?.images?.[0];
+  if (zip && path.extname(zip.originalname).toLowerCase() !== ".zip") {
+    throw new FixtureImportError(400, "Images must be uploaded as a .zip file");
+  }
+
+  return {
+    format,
+    records: parseFixtureFile(fixtureFile.buffer.toString("utf8"), format),
+    images: readFixtureImages(zip?.buffer),
+  };
+}
+
+// Check a fixture list row by row before importing it
+router.post("/cricket-toss/fixtures/preview", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), fixtureUpload, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { format, records, images } = uploadedFixtures(req);
+    res.json(await previewFixtureImport(records, format, images));
+  } catch (err) {
+    sendFixtureError(res, next, err);
+  }
+});
+
+// Create every match of a fixture list, or none if any row has a problem
+router.post("/cricket-toss/fixtures/import", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), fixtureUpload, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { format, records, images } = uploadedFixtures(req);
+    const matches = await importFixtures(records, format, images);
+    res.status(201).json({ imported: matches.length, matches });
+  } catch (err) {
+    sendFixtureError(res, next, err);
+  }
+});
+
+// Cricket toss matches as a fixture list in the import format
+router.get("/cricket-toss/fixtures/export", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = fixtureExportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    const { format, status } = parsed.data;
+    const matches = await listFixturesForExport(status);
+    const filename = `cricket-toss-fixtures${status ? `-${status}` : ""}.${format}`;
+
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.type(format === "csv" ? "text/csv" : "application/json").send(fixturesExport(matches, format));
+  } catch (err) {
+    sendFixtureError(res, next, err);
+  }
+});
+
+export default router;
@@ -0,0 +1,513 @@
+import { and, asc, eq, ne, sql } from "drizzle-orm";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { db } from "./db";
+import { type LedgerExecutor } from "./ledger";
+import { ZipError, extractZipEntry, listZipEntries, type ZipEntry } from "./zip";
+import { TeamMatchResult, teamMatches, type TeamMatch } from "@shared/schema";
+
+// Where cricket toss images are kept, served under /uploads/cricket-toss
+const CRICKET_TOSS_UPLOADS_DIR = path.join(process.cwd(), "uploads", "cricket-toss");
+const CRICKET_TOSS_UPLOADS_URL = "/uploads/cricket-toss/";
+
+// Odds a fixture gets when the file leaves them out, as on the add match form
+const DEFAULT_FIXTURE_ODDS = 200;
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp)$/i;
+
+// Limits on the images taken from a zip: each as for an uploaded image, and
+// all of one import together
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_IMPORT_IMAGE_BYTES = 200 * 1024 * 1024;
+
+// Advisory lock key held while fixtures are imported, so two imports of the
+// same list cannot both pass the duplicate check
+const FIXTURE_IMPORT_LOCK = 7304;
+
+// The columns of a fixture file, in the order they are exported
+export const FIXTURE_COLUMNS = [
+  "teamA",
+  "teamB",
+  "matchTime",
+  "oddTeamA",
+  "oddTeamB",
+  "description",
+  "coverImage",
+  "teamAImage",
+  "teamBImage",
+] as const;
+
+export type FixtureColumn = typeof FIXTURE_COLUMNS[number];
+
+const REQUIRED_COLUMNS: FixtureColumn[] = ["teamA", "teamB", "matchTime"];
+const IMAGE_COLUMNS = ["coverImage", "teamAImage", "teamBImage"] as const;
+
+export type FixtureFormat = "csv" | "json";
+
+// One fixture as written in the file, every value as text like a CSV cell
+export type FixtureRecord = Partial<Record<FixtureColumn, string>>;
+
+// A fixture that passed validation. Odds are x100, images are file names.
+export type Fixture = {
+  teamA: string;
+  teamB: string;
+  matchTime: Date;
+  oddTeamA: number;
+  oddTeamB: number;
+  description: string | null;
+  coverImage: string | null;
+  teamAImage: string | null;
+  teamBImage: string | null;
+};
+
+export type FixturePreviewRow = {
+  // The fixture's row in the file, counting the header as row 1 for CSV
+  row: number;
+  fixture: FixtureRecord;
+  errors: string[];
+};
+
+export type FixturePreview = {
+  rows: FixturePreviewRow[];
+  valid: number;
+  invalid: number;
+};
+
+// An uploaded images zip: the archive and the files listed in it, none of
+// them inflated until a fixture is imported with it
+export type FixtureImages = {
+  archive: Buffer;
+  entries: Map<string, ZipEntry>;
+};
+
+// A match already scheduled, which a fixture must not repeat
+type ScheduledMatch = Pick<TeamMatch, "id" | "teamA" | "teamB" | "matchTime">;
+
+export class FixtureImportError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Split CSV text into rows of cells. Quoted cells may hold commas, quotes
+ * doubled up and line breaks; blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== "")) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+  if (quoted) throw new FixtureImportError(400, "The CSV file has an unclosed quote");
+  endRow();
+
+  return rows;
+}
+
+function fixtureColumn(name: string): FixtureColumn {
+  const column = FIXTURE_COLUMNS.find(known => known.toLowerCase() === name.trim().toLowerCase());
+  if (!column) {
+    throw new FixtureImportError(400, `Unknown column "${name.trim()}". Columns are: ${FIXTURE_COLUMNS.join(", ")}`);
+  }
+  return column;
+}
+
+function checkRequiredColumns(columns: FixtureColumn[]) {
+  const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new FixtureImportError(400, `The fixture list is missing the ${missing.join(", ")} column`);
+  }
+}
+
+/**
+ * Read the fixtures of an uploaded CSV or JSON file. CSV files start with a
+ * header row naming the columns; JSON files hold an array of objects keyed
+ * by the same names.
+ */
+export function parseFixtureFile(content: string, format: FixtureFormat): FixtureRecord[] {
+  if (format === "csv") {
+    const [header, ...rows] = parseCsv(content);
+    if (!header) return [];
+
+    const columns = header.map(fixtureColumn);
+    checkRequiredColumns(columns);
+    return rows.map(cells => {
+      const record: FixtureRecord = {};
+      columns.forEach((column, index) => {
+        record[column] = (cells[index] ?? "").trim();
+      });
+      return record;
+    });
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new FixtureImportError(400, "The JSON file could not be read");
+  }
+  if (!Array.isArray(parsed)) {
+    throw new FixtureImportError(400, "The JSON file must hold an array of fixtures");
+  }
+
+  return parsed.map((item, index) => {
+    if (typeof item !== "object" || item === null || Array.isArray(item)) {
+      throw new FixtureImportError(400, `Fixture ${index + 1} is not an object`);
+    }
+    const record: FixtureRecord = {};
+    for (const [key, value] of Object.entries(item)) {
+      if (value === null || value === undefined) continue;
+      record[fixtureColumn(key)] = String(value).trim();
+    }
+    return record;
+  });
+}
+
+/**
+ * A match time written as YYYY-MM-DD HH:mm (or with a T), read as the
+ * server's local time like matches added on the form. Null when it is not
+ * a real date and time.
+ */
+export function parseFixtureTime(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::00)?$/.exec(value);
+  if (!match) return null;
+
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day, hour, minute);
+  const matches = date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day &&
+    date.getHours() === hour && date.getMinutes() === minute;
+  return matches ? date : null;
+}
+
+export function formatFixtureTime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// Decimal odds such as 1.95, stored x100; null when not valid odds
+function parseFixtureOdds(value: string): number | null {
+  if (!/^\d+(\.\d{1,2})?$/.test(value)) return null;
+  const odds = Math.round(parseFloat(value) * 100);
+  return odds >= 100 ? odds : null;
+}
+
+// The same two teams at the same time is the same match, whichever side
+// each team is written on
+function fixtureKey(teamA: string, teamB: string, matchTime: Date): string {
+  const teams = [teamA, teamB].map(team => team.trim().toLowerCase()).sort();
+  return `${teams.join("|")}|${matchTime.getTime()}`;
+}
+
+/**
+ * Check each fixture and turn the valid ones into matches to create.
+ * Flags missing or unreadable fields, times not in the future, fixtures
+ * repeated in the file or already scheduled, and images that were not
+ * uploaded.
+ */
+export function validateFixtures(
+  records: FixtureRecord[],
+  options: {
+    now: Date;
+    scheduled: ScheduledMatch[];
+    imageExists: (name: string) => boolean;
+    // Row of the first fixture, 2 for CSV files after the header row
+    firstRow: number;
+  }
+): { preview: FixturePreview; fixtures: Fixture[] } {
+  const scheduledKeys = new Map(options.scheduled.map(match => [fixtureKey(match.teamA, match.teamB, match.matchTime), match.id]));
+  const rowsByKey = new Map<string, number>();
+  const fixtures: Fixture[] = [];
+
+  const rows = records.map((record, index): FixturePreviewRow => {
+    const row = options.firstRow + index;
+    const errors: string[] = [];
+
+    const teamA = record.teamA ?? "";
+    const teamB = record.teamB ?? "";
+    if (!teamA) errors.push("Team A is required");
+    if (!teamB) errors.push("Team B is required");
+    if (teamA && teamB && teamA.toLowerCase() === teamB.toLowerCase()) {
+      errors.push("Both sides are the same team");
+    }
+
+    const matchTime = parseFixtureTime(record.matchTime ?? "");
+    if (!record.matchTime) {
+      errors.push("Match time is required");
+    } else if (!matchTime) {
+      errors.push(`Match time "${record.matchTime}" is not a YYYY-MM-DD HH:mm time`);
+    } else if (matchTime <= options.now) {
+      errors.push("Match time is in the past");
+    }
+
+    const oddTeamA = record.oddTeamA ? parseFixtureOdds(record.oddTeamA) : DEFAULT_FIXTURE_ODDS;
+    const oddTeamB = record.oddTeamB ? parseFixtureOdds(record.oddTeamB) : DEFAULT_FIXTURE_ODDS;
+    if (oddTeamA === null) errors.push(`Team A odds "${record.oddTeamA}" must be 1.00 or more`);
+    if (oddTeamB === null) errors.push(`Team B odds "${record.oddTeamB}" must be 1.00 or more`);
+
+    for (const column of IMAGE_COLUMNS) {
+      const name = record[column];
+      if (!name) continue;
+      if (path.basename(name) !== name || !IMAGE_EXTENSIONS.test(name)) {
+        errors.push(`${name} is not an image file name`);
+      } else if (!options.imageExists(name)) {
+        errors.push(`${name} is not in the uploaded images`);
+      }
+    }
+
+    if (teamA && teamB && matchTime) {
+      const key = fixtureKey(teamA, teamB, matchTime);
+      const scheduledId = scheduledKeys.get(key);
+      const earlierRow = rowsByKey.get(key);
+      if (scheduledId !== undefined) errors.push(`Already scheduled as match #${scheduledId}`);
+      if (earlierRow !== undefined) errors.push(`Duplicate of row ${earlierRow}`);
+      else rowsByKey.set(key, row);
+    }
+
+    if (errors.length === 0) {
+      fixtures.push({
+        teamA,
+        teamB,
+        matchTime: matchTime!,
+        oddTeamA: oddTeamA!,
+        oddTeamB: oddTeamB!,
+        description: record.description || null,
+        coverImage: record.coverImage || null,
+        teamAImage: record.teamAImage || null,
+        teamBImage: record.teamBImage || null,
+      });
+    }
+    return { row, fixture: record, errors };
+  });
+
+  const invalid = rows.filter(row => row.errors.length > 0).length;
+  return { preview: { rows, valid: rows.length - invalid, invalid }, fixtures };
+}
+
+function zipFailure(err: unknown): unknown {
+  return err instanceof ZipError
+    ? new FixtureImportError(400, `The images zip could not be read: ${err.message}`)
+    : err;
+}
+
+/**
+ * The images of an uploaded zip by file name, or none without a zip
+ */
+export function readFixtureImages(zip: Buffer | undefined): FixtureImages {
+  if (!zip) return { archive: Buffer.alloc(0), entries: new Map() };
+  try {
+    return { archive: zip, entries: listZipEntries(zip) };
+  } catch (err) {
+    throw zipFailure(err);
+  }
+}
+
+// An image can come from the uploaded zip or already be on the server, as
+// it is for fixtures that were exported
+function imageLookup(images: FixtureImages) {
+  return (name: string) => images.entries.has(name) || fs.existsSync(path.join(CRICKET_TOSS_UPLOADS_DIR, name));
+}
+
+async function scheduledCricketTossMatches(executor: LedgerExecutor): Promise<ScheduledMatch[]> {
+  return executor.select({
+    id: teamMatches.id,
+    teamA: teamMatches.teamA,
+    teamB: teamMatches.teamB,
+    matchTime: teamMatches.matchTime,
+  })
+    .from(teamMatches)
+    .where(and(eq(teamMatches.category, "cricket_toss"), ne(teamMatches.status, "cancelled")));
+}
+
+function firstRow(format: FixtureFormat): number {
+  return format === "csv" ? 2 : 1;
+}
+
+/**
+ * What importing the fixture list would do, row by row, with nothing saved
+ */
+export async function previewFixtureImport(
+  records: FixtureRecord[],
+  format: FixtureFormat,
+  images: FixtureImages
+): Promise<FixturePreview> {
+  const { preview } = validateFixtures(records, {
+    now: new Date(),
+    scheduled: await scheduledCricketTossMatches(db),
+    imageExists: imageLookup(images),
+    firstRow: firstRow(format),
+  });
+  return preview;
+}
+
+/**
+ * Create a cricket toss match for every fixture in one transaction. Nothing
+ * is created unless every row passes the same checks as the preview. Only the
+ * images a fixture names are taken out of the zip, and they are removed again
+ * if the import fails.
+ */
+export async function importFixtures(
+  records: FixtureRecord[],
+  format: FixtureFormat,
+  images: FixtureImages
+): Promise<TeamMatch[]> {
+  if (records.length === 0) {
+    throw new FixtureImportError(400, "The fixture list is empty");
+  }
+
+  const writtenFiles: string[] = [];
+  try {
+    return await insertFixtures(records, format, images, writtenFiles);
+  } catch (err) {
+    for (const file of writtenFiles) {
+      fs.rmSync(file, { force: true });
+    }
+    throw zipFailure(err);
+  }
+}
+
+async function insertFixtures(
+  records: FixtureRecord[],
+  format: FixtureFormat,
+  images: FixtureImages,
+  writtenFiles: string[]
+): Promise<TeamMatch[]> {
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(${FIXTURE_IMPORT_LOCK})`);
+
+    const { preview, fixtures } = validateFixtures(records, {
+      now: new Date(),
+      scheduled: await scheduledCricketTossMatches(tx),
+      imageExists: imageLookup(images),
+      firstRow: firstRow(format),
+    });
+    if (preview.invalid > 0) {
+      throw new FixtureImportError(400, `${preview.invalid} of ${preview.rows.length} fixtures have problems; fix them and preview again`);
+    }
+
+    // Images from the zip are saved under new names, like uploaded ones
+    const savedImages = new Map<string, string>();
+    let savedBytes = 0;
+    const imageUrl = (name: string | null) => {
+      if (!name) return null;
+      const entry = images.entries.get(name);
+      if (!entry) return CRICKET_TOSS_UPLOADS_URL + name;
+
+      let filename = savedImages.get(name);
+      if (!filename) {
+        savedBytes += entry.size;
+        if (savedBytes > MAX_IMPORT_IMAGE_BYTES) {
+          throw new FixtureImportError(400, `The images of one import can take up ${MAX_IMPORT_IMAGE_BYTES / (1024 * 1024)}MB at most`);
+        }
+        const data = extractZipEntry(images.archive, entry, MAX_IMAGE_BYTES);
+
+        filename = `cricket-toss-${Date.now()}-${crypto.randomInt(1e9)}${path.extname(name).toLowerCase()}`;
+        const file = path.join(CRICKET_TOSS_UPLOADS_DIR, filename);
+        fs.mkdirSync(CRICKET_TOSS_UPLOADS_DIR, { recursive: true });
+        fs.writeFileSync(file, data);
+        writtenFiles.push(file);
+        savedImages.set(name, filename);
+      }
+      return CRICKET_TOSS_UPLOADS_URL + filename;
+    };
+
+    return tx.insert(teamMatches)
+      .values(fixtures.map(fixture => ({
+        category: "cricket_toss",
+        teamA: fixture.teamA,
+        teamB: fixture.teamB,
+        description: fixture.description,
+        matchTime: fixture.matchTime,
+        oddTeamA: fixture.oddTeamA,
+        oddTeamB: fixture.oddTeamB,
+        oddDraw: null,
+        status: "open",
+        result: TeamMatchResult.PENDING,
+        coverImage: imageUrl(fixture.coverImage),
+        teamAImage: imageUrl(fixture.teamAImage),
+        teamBImage: imageUrl(fixture.teamBImage),
+      })))
+      .returning();
+  });
+}
+
+// An exported match in the import format. Images are written as their file
+// names, which an import finds on the server again.
+function fixtureRecord(match: TeamMatch): Record<FixtureColumn, string> {
+  const imageName = (url: string | null) => (url ? path.posix.basename(url) : "");
+  return {
+    teamA: match.teamA,
+    teamB: match.teamB,
+    matchTime: formatFixtureTime(match.matchTime),
+    oddTeamA: (match.oddTeamA / 100).toFixed(2),
+    oddTeamB: (match.oddTeamB / 100).toFixed(2),
+    description: match.description ?? "",
+    coverImage: imageName(match.coverImage),
+    teamAImage: imageName(match.teamAImage),
+    teamBImage: imageName(match.teamBImage),
+  };
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Matches as a fixture file that can be edited and imported again
+ */
+export function fixturesExport(matches: TeamMatch[], format: FixtureFormat): string {
+  const records = matches.map(fixtureRecord);
+  if (format === "json") return JSON.stringify(records, null, 2) + "\n";
+
+  const rows = [
+    [...FIXTURE_COLUMNS],
+    ...records.map(record => FIXTURE_COLUMNS.map(column => record[column])),
+  ];
+  return rows.map(row => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+/**
+ * Cricket toss matches for export, soonest first. Without a status, every
+ * match that was not cancelled.
+ */
+export async function listFixturesForExport(status?: string): Promise<TeamMatch[]> {
+  return db.select()
+    .from(teamMatches)
+    .where(and(
+      eq(teamMatches.category, "cricket_toss"),
+      status ? eq(teamMatches.status, status) : ne(teamMatches.status, "cancelled"),
+    ))
+    .orderBy(asc(teamMatches.matchTime));
+}
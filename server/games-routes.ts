@@ -0,0 +1,322 @@
+import express, { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { and, desc, eq, gt, gte, isNotNull, ne, sql, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { requireRole } from "./auth";
+import { postUserMovement } from "./ledger";
+import { serveContract } from "./api-contract";
+import { BetLimitError, enforceBetLimits } from "./bet-limits";
+import { drawCoinFlip, getCoinFlipSeedState, setCoinFlipClientSeed } from "./provably-fair";
+import { publishBetSettled } from "./live-updates";
+import {
+  UserRole,
+  GameType,
+  JournalEntryType,
+  users,
+  games,
+  type Game,
+  type User,
+} from "@shared/schema";
+import { apiContracts } from "@shared/api-contracts";
+
+const router = express.Router();
+
+// Coin flip odds (x10000) when the admin has not configured any
+const DEFAULT_COIN_FLIP_ODDS = 19500;
+
+const leaderboardQuerySchema = z.object({
+  timeFrame: z.enum(["today", "this-week", "this-month", "all-time"]).default("all-time"),
+  sortBy: z.enum(["totalWinnings", "winRate", "totalWins"]).default("totalWinnings"),
+  gameType: z.string().optional(),
+});
+
+function withoutPassword(user: User) {
+  const { password, ...rest } = user;
+  return rest;
+}
+
+function timeFrameStart(timeFrame: string): Date | null {
+  const now = new Date();
+  switch (timeFrame) {
+    case "today":
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    case "this-week":
+      return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+    case "this-month":
+      return new Date(now.getFullYear(), now.getMonth(), 1);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Attach the market or match a bet was placed on, as the history tables expect
+ */
+async function withBetTargets(list: Game[]) {
+  const marketIds = Array.from(new Set(list.map(game => game.marketId).filter((id): id is number => id !== null)));
+  const markets = await storage.getSatamatkaMarketsByIds(marketIds);
+  const marketsById = new Map(markets.map(market => [market.id, market]));
+
+  const matchIds = Array.from(new Set(list.map(game => game.matchId).filter((id): id is number => id !== null)));
+  const matches = await Promise.all(matchIds.map(id => storage.getTeamMatch(id)));
+  const matchesById = new Map(matches.filter(Boolean).map(match => [match!.id, match!]));
+
+  return list.map(game => ({
+    ...game,
+    market: game.marketId ? marketsById.get(game.marketId) ?? null : null,
+    match: game.matchId ? matchesById.get(game.matchId) ?? null : null,
+  }));
+}
+
+// Games visible to the current user: own for players, assigned players for subadmins, all for admins
+async function getVisibleGames(user: Express.User): Promise<Game[]> {
+  if (user.role === UserRole.ADMIN) {
+    return storage.getAllGames();
+  }
+  if (user.role === UserRole.SUBADMIN) {
+    const players = await storage.getUsersByAssignedTo(user.id);
+    return storage.getGamesByUserIds(players.map(player => player.id));
+  }
+  return storage.getGamesByUserId(user.id);
+}
+
+router.get("/games", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    res.json(await withBetTargets(await getVisibleGames(req.user)));
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.getMyGameHistory, [], async (req, res, next) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    res.json(await withBetTargets(await storage.getGamesByUserId(req.user.id)));
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.get("/games/pending", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const visible = await getVisibleGames(req.user!);
+    res.json(await withBetTargets(visible.filter(game => !game.result || game.result === "pending")));
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.get("/games/recent", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const visible = await getVisibleGames(req.user!);
+    res.json(visible.slice(0, 20));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Public: the biggest recent wins, for the home page tickers
+router.get("/games/top-winners", async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const winners = await db.select({
+      id: games.id,
+      username: users.username,
+      game: games.gameType,
+      amount: games.betAmount,
+      payout: games.payout,
+      createdAt: games.createdAt,
+    })
+      .from(games)
+      .innerJoin(users, eq(games.userId, users.id))
+      .where(and(gt(games.payout, 0), isNotNull(games.result), ne(games.result, "pending")))
+      .orderBy(desc(games.createdAt))
+      .limit(10);
+
+    res.json(winners);
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.get("/games/:userId", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const target = await storage.getUser(Number(req.params.userId));
+    if (!target) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (req.user!.role === UserRole.SUBADMIN && target.assignedTo !== req.user!.id) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    res.json(await withBetTargets(await storage.getGamesByUserId(target.id)));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Coin flip: stake, provably fair flip and payout happen in one transaction
+serveContract(router, apiContracts.playCoinFlip, [], async (req, res, next) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const { betAmount, prediction } = req.body;
+    const userId = req.user.id;
+    const odds = await storage.getOddsForPlayer(userId, GameType.COIN_FLIP, DEFAULT_COIN_FLIP_ODDS);
+
+    const result = await db.transaction(async (tx) => {
+      const [player] = await tx.select()
+        .from(users)
+        .where(eq(users.id, userId))
+        .for('update');
+
+      if (!player) {
+        return { status: 404, message: "User not found" } as const;
+      }
+      if (player.isBlocked) {
+        return { status: 403, message: "Your account is blocked" } as const;
+      }
+      if (player.balance < betAmount) {
+        return { status: 400, message: "Insufficient balance" } as const;
+      }
+
+      await enforceBetLimits(tx, player, GameType.COIN_FLIP, [
+        { betAmount, prediction, potentialPayout: Math.floor(betAmount * odds / 10000) },
+      ]);
+
+      const { outcome, fairness } = await drawCoinFlip(tx, userId);
+      const isWin = outcome === prediction;
+      const payout = isWin ? Math.floor(betAmount * odds / 10000) : 0;
+
+      const [game] = await tx.insert(games)
+        .values({
+          userId,
+          gameType: GameType.COIN_FLIP,
+          betAmount,
+          prediction,
+          result: outcome,
+          payout,
+          gameData: { odds, fairness },
+        })
+        .returning();
+
+      let balance = await postUserMovement(tx, {
+        userId,
+        amount: -betAmount,
+        entryType: JournalEntryType.BET_STAKE,
+        description: `Coin flip bet on ${prediction}`,
+        referenceType: "game",
+        referenceId: game.id,
+      });
+
+      if (payout > 0) {
+        balance = await postUserMovement(tx, {
+          userId,
+          amount: payout,
+          entryType: JournalEntryType.BET_PAYOUT,
+          description: `Coin flip win on ${outcome}`,
+          referenceType: "game",
+          referenceId: game.id,
+        });
+      }
+
+      const [settled] = await tx.update(games)
+        .set({ balanceAfter: balance })
+        .where(eq(games.id, game.id))
+        .returning();
+      await publishBetSettled(tx, settled, null);
+      const [updatedUser] = await tx.select().from(users).where(eq(users.id, userId));
+
+      return { status: 200, game: settled, user: updatedUser } as const;
+    });
+
+    if (result.status !== 200) {
+      return res.status(result.status).json({ message: result.message });
+    }
+
+    res.json({ game: result.game, user: withoutPassword(result.user) });
+  } catch (err) {
+    if (err instanceof BetLimitError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    next(err);
+  }
+});
+
+// The player's provably fair commitment for their next coin flip
+serveContract(router, apiContracts.getCoinFlipSeeds, [], async (req, res, next) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    res.json(await getCoinFlipSeedState(req.user.id));
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.setCoinFlipClientSeed, [], async (req, res, next) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    res.json(await setCoinFlipClientSeed(req.user.id, req.body.clientSeed));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Public leaderboard aggregated per player
+router.get("/leaderboard", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = leaderboardQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    const { timeFrame, sortBy, gameType } = parsed.data;
+    const conditions: SQL[] = [eq(users.role, UserRole.PLAYER)];
+    const since = timeFrameStart(timeFrame);
+    if (since) conditions.push(gte(games.createdAt, since));
+    if (gameType) conditions.push(eq(games.gameType, gameType));
+
+    const totalBets = sql<number>`count(${games.id})::int`;
+    const totalWins = sql<number>`count(*) filter (where ${games.payout} > 0 and ${games.result} <> 'pending')::int`;
+    const totalWinnings = sql<number>`coalesce(sum(${games.payout}) filter (where ${games.result} <> 'pending'), 0)::int`;
+
+    const rows = await db.select({
+      id: users.id,
+      username: users.username,
+      totalBets,
+      totalWins,
+      totalWinnings,
+    })
+      .from(games)
+      .innerJoin(users, eq(games.userId, users.id))
+      .where(and(...conditions))
+      .groupBy(users.id, users.username);
+
+    const leaderboard = rows
+      .map(row => ({
+        ...row,
+        winRate: row.totalBets ? Math.round((row.totalWins / row.totalBets) * 1000) / 10 : 0,
+      }))
+      .sort((a, b) => b[sortBy] - a[sortBy])
+      .slice(0, 50);
+
+    res.json(leaderboard);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
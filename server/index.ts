@@ -2,6 +2,12 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { pool } from "./db";
+import { startLedgerReconciliationJob } from "./ledger";
+import { startMarketScheduler } from "./market-scheduler";
+import { startMatchScheduler } from "./match-scheduler";
+import { startRiskSnapshotJob } from "./risk-snapshots";
+import { startAnomalyScanJob } from "./anomaly-detection";
+import { CURRENCY_HEADER, DEFAULT_CURRENCY } from "@shared/money";
 import bcrypt from "bcrypt";
 
 // Auto-create admin user on startup if not exists
@@ -28,7 +34,7 @@ async function initializeAdmin() {
       client.release();
     }
   } catch (error) {
-    log('⚠️  Could not initialize admin user:', error);
+    log(`⚠️  Could not initialize admin user: ${error}`);
   }
 }
 
@@ -36,6 +42,12 @@ const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
+// Every API amount is integer paisa; declare the currency it is denominated in
+app.use("/api", (_req, res, next) => {
+  res.setHeader(CURRENCY_HEADER, DEFAULT_CURRENCY);
+  next();
+});
+
 // Route to serve the login test page
 app.get('/login-test', (req, res) => {
   res.sendFile('login-test.html', { root: process.cwd() });
@@ -76,6 +88,21 @@ app.use((req, res, next) => {
   await initializeAdmin();
   
   const server = await registerRoutes(app);
+  
+  // Open pre-ledger balances and keep verifying users.balance against the journal
+  startLedgerReconciliationJob();
+
+  // Open and close Satamatka markets on time and roll recurring ones
+  startMarketScheduler();
+
+  // Close team matches for betting at their cut-off before the match time
+  startMatchScheduler();
+
+  // Keep the daily risk and P&L history used by the risk trends
+  startRiskSnapshotJob();
+
+  // Look for coordinated betting and other patterns for admins to review
+  startAnomalyScanJob();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,69 @@
+import express, { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { requireRole } from "./auth";
+import { JantriError, getJantri, jantriCsv, jantriPdf } from "./jantri";
+import { UserRole } from "@shared/schema";
+
+const router = express.Router();
+
+const jantriQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD"),
+  subadminId: z.coerce.number().int().optional(),
+});
+
+const jantriExportQuerySchema = jantriQuerySchema.extend({
+  format: z.enum(["csv", "pdf"]),
+});
+
+function sendJantriError(res: Response, next: NextFunction, err: unknown) {
+  if (err instanceof JantriError) {
+    return res.status(err.status).json({ message: err.message });
+  }
+  next(err);
+}
+
+// Subadmins only ever see their own players' bets
+function subadminFilter(req: Request, subadminId: number | undefined): number | null {
+  if (req.user!.role === UserRole.SUBADMIN) return req.user!.id;
+  return subadminId ?? null;
+}
+
+// The jantri of a market for a day: stake and potential payout on every number
+router.get("/satamatka/markets/:id/jantri", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = jantriQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    const { date, subadminId } = parsed.data;
+    res.json(await getJantri(Number(req.params.id), date, subadminFilter(req, subadminId)));
+  } catch (err) {
+    sendJantriError(res, next, err);
+  }
+});
+
+// The same jantri as a CSV or PDF download
+router.get("/satamatka/markets/:id/jantri/export", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = jantriExportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    const { date, subadminId, format } = parsed.data;
+    const jantri = await getJantri(Number(req.params.id), date, subadminFilter(req, subadminId));
+    const filename = `jantri-${jantri.marketId}-${jantri.date}.${format}`;
+
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    if (format === "csv") {
+      res.type("text/csv").send(jantriCsv(jantri));
+    } else {
+      res.type("application/pdf").send(jantriPdf(jantri));
+    }
+  } catch (err) {
+    sendJantriError(res, next, err);
+  }
+});
+
+export default router;
@@ -0,0 +1,285 @@
+import { and, eq, gte, lt, ne } from "drizzle-orm";
+import { db } from "./db";
+import { evaluatePrediction, oddsForGame } from "./satamatka-settlement";
+import { JODI_OUTCOMES, payoutsByOutcome } from "./liability-matrix";
+import { renderTextPdf } from "./pdf";
+import { paisaToRupees } from "@shared/money";
+import {
+  GameType,
+  SatamatkaGameMode,
+  UserRole,
+  VOIDED_BET_RESULT,
+  games,
+  satamatkaMarkets,
+  users,
+} from "@shared/schema";
+
+const DIGITS = Array.from({ length: 10 }, (_, digit) => digit.toString());
+
+export class JantriError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// What the bets on one number add up to, in paisa. A bet that covers several
+// numbers, like a crossing, splits its stake between them but pays its whole
+// payout on each.
+export type JantriCell = {
+  stake: number;
+  payout: number;
+  bets: number;
+};
+
+/**
+ * The traditional jantri of a market for one day: stake and potential payout
+ * on every jodi, on every andar (left) and bahar (right) harf digit, and on
+ * odd and even. Payouts are at the odds each player's bet was placed at.
+ */
+export type Jantri = {
+  marketId: number;
+  marketName: string;
+  date: string;
+  subadminId: number | null;
+  subadminName: string | null;
+  betCount: number;
+  totalStake: number;
+  // Indexed like JODI_OUTCOMES
+  jodi: JantriCell[];
+  // Indexed by digit
+  andar: JantriCell[];
+  bahar: JantriCell[];
+  odd: JantriCell;
+  even: JantriCell;
+  // House P&L for each jodi as the close result, over every bet in the
+  // jantri, indexed like JODI_OUTCOMES
+  net: number[];
+};
+
+// A bet with what it pays if it wins
+export type JantriBet = {
+  gameMode: string | null;
+  prediction: string;
+  betAmount: number;
+  potentialPayout: number;
+};
+
+type JantriGrid = Pick<Jantri, "betCount" | "totalStake" | "jodi" | "andar" | "bahar" | "odd" | "even" | "net">;
+
+function emptyCells(count: number): JantriCell[] {
+  return Array.from({ length: count }, () => ({ stake: 0, payout: 0, bets: 0 }));
+}
+
+/**
+ * Add a bet to the cells it covers. The stake is split evenly, with the
+ * paisa left over going to the first cells so the shares add up.
+ */
+function spread(cells: JantriCell[], bet: JantriBet) {
+  if (cells.length === 0) return;
+  const share = Math.floor(bet.betAmount / cells.length);
+  const remainder = bet.betAmount - share * cells.length;
+  cells.forEach((cell, index) => {
+    cell.stake += share + (index < remainder ? 1 : 0);
+    cell.payout += bet.potentialPayout;
+    cell.bets++;
+  });
+}
+
+/**
+ * Lay bets out on the jantri. Which numbers a bet covers comes from the
+ * settlement rules, so crossings expand into every jodi they cross into and
+ * a bare harf digit counts on both the andar and bahar side.
+ */
+export function buildJantriGrid(bets: JantriBet[]): JantriGrid {
+  const jodi = emptyCells(JODI_OUTCOMES.length);
+  const andar = emptyCells(DIGITS.length);
+  const bahar = emptyCells(DIGITS.length);
+  const [odd, even] = emptyCells(2);
+
+  for (const bet of bets) {
+    const wins = JODI_OUTCOMES.map(result => evaluatePrediction(bet.gameMode, bet.prediction, result).won);
+
+    switch (bet.gameMode) {
+      case SatamatkaGameMode.JODI:
+      case SatamatkaGameMode.CROSSING:
+        spread(jodi.filter((_, index) => wins[index]), bet);
+        break;
+      case SatamatkaGameMode.HARF: {
+        // A side covers digit d when the bet wins whenever that side shows d
+        const covers = (position: 0 | 1, digit: string) =>
+          JODI_OUTCOMES.every((result, index) => result[position] !== digit || wins[index]);
+        spread([
+          ...andar.filter((_, digit) => covers(0, DIGITS[digit])),
+          ...bahar.filter((_, digit) => covers(1, DIGITS[digit])),
+        ], bet);
+        break;
+      }
+      case SatamatkaGameMode.ODD_EVEN:
+        spread(bet.prediction === "odd" ? [odd] : bet.prediction === "even" ? [even] : [], bet);
+        break;
+    }
+  }
+
+  const totalStake = bets.reduce((sum, bet) => sum + bet.betAmount, 0);
+  const payouts = payoutsByOutcome(bets.map(bet => ({ ...bet, payout: bet.potentialPayout })));
+
+  return {
+    betCount: bets.length,
+    totalStake,
+    jodi,
+    andar,
+    bahar,
+    odd,
+    even,
+    net: payouts.map(payout => totalStake - payout),
+  };
+}
+
+// Start of a server-local day and of the day after it
+function dayBounds(day: string): [Date, Date] {
+  const start = new Date(`${day}T00:00:00`);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return [start, end];
+}
+
+/**
+ * The jantri of a market over the bets placed on a server-local day, voided
+ * bets left out. A subadmin id narrows it to that subadmin's players.
+ */
+export async function getJantri(marketId: number, date: string, subadminId: number | null): Promise<Jantri> {
+  const [market] = await db.select().from(satamatkaMarkets).where(eq(satamatkaMarkets.id, marketId));
+  if (!market) {
+    throw new JantriError(404, "Market not found");
+  }
+
+  let subadminName: string | null = null;
+  if (subadminId !== null) {
+    const [subadmin] = await db.select({ username: users.username })
+      .from(users)
+      .where(and(eq(users.id, subadminId), eq(users.role, UserRole.SUBADMIN)));
+    if (!subadmin) {
+      throw new JantriError(404, "Subadmin not found");
+    }
+    subadminName = subadmin.username;
+  }
+
+  const [start, end] = dayBounds(date);
+  const rows = await db.select({ game: games })
+    .from(games)
+    .innerJoin(users, eq(users.id, games.userId))
+    .where(and(
+      eq(games.marketId, marketId),
+      eq(games.gameType, GameType.SATAMATKA),
+      ne(games.result, VOIDED_BET_RESULT),
+      gte(games.createdAt, start),
+      lt(games.createdAt, end),
+      subadminId === null ? undefined : eq(users.assignedTo, subadminId),
+    ));
+
+  const bets: JantriBet[] = [];
+  for (const { game } of rows) {
+    const odds = await oddsForGame(game);
+    bets.push({
+      gameMode: game.gameMode,
+      prediction: game.prediction,
+      betAmount: game.betAmount,
+      potentialPayout: Math.floor(game.betAmount * odds / 10000),
+    });
+  }
+
+  return {
+    marketId,
+    marketName: market.name,
+    date,
+    subadminId,
+    subadminName,
+    ...buildJantriGrid(bets),
+  };
+}
+
+function amount(paisa: number): string {
+  return paisaToRupees(paisa).toFixed(2);
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The jantri as CSV, one row per number, amounts in rupees
+ */
+export function jantriCsv(jantri: Jantri): string {
+  const rows: Array<Array<string | number>> = [
+    ["Market", jantri.marketName],
+    ["Date", jantri.date],
+    ["Players", jantri.subadminName ? `Subadmin ${jantri.subadminName}` : "All"],
+    ["Bets", jantri.betCount],
+    ["Total stake", amount(jantri.totalStake)],
+    [],
+    ["Section", "Number", "Stake", "Potential payout", "Bets", "House net if declared"],
+    ...JODI_OUTCOMES.map((number, index) => {
+      const cell = jantri.jodi[index];
+      return ["Jodi", number, amount(cell.stake), amount(cell.payout), cell.bets, amount(jantri.net[index])];
+    }),
+    ...DIGITS.map((digit, index) => {
+      const cell = jantri.andar[index];
+      return ["Andar", digit, amount(cell.stake), amount(cell.payout), cell.bets, ""];
+    }),
+    ...DIGITS.map((digit, index) => {
+      const cell = jantri.bahar[index];
+      return ["Bahar", digit, amount(cell.stake), amount(cell.payout), cell.bets, ""];
+    }),
+    ["Odd/Even", "Odd", amount(jantri.odd.stake), amount(jantri.odd.payout), jantri.odd.bets, ""],
+    ["Odd/Even", "Even", amount(jantri.even.stake), amount(jantri.even.payout), jantri.even.bets, ""],
+  ];
+  return rows.map(row => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+// Width of one number's column in the printed grid
+const PRINT_COLUMN = 11;
+
+function printRow(label: string, values: string[]): string {
+  return label.padEnd(8) + values.map(value => value.padStart(PRINT_COLUMN)).join("");
+}
+
+/**
+ * The jantri as a printable PDF: the 10x10 jodi grid with stake and payout
+ * under each number, then the harf and odd/even rows. Amounts in rupees.
+ */
+export function jantriPdf(jantri: Jantri): Buffer {
+  const lines = [
+    `Jantri: ${jantri.marketName}, ${jantri.date}`,
+    `Players: ${jantri.subadminName ? `subadmin ${jantri.subadminName}` : "all"}`,
+    `Bets: ${jantri.betCount}   Total stake: Rs ${amount(jantri.totalStake)}`,
+    "",
+    "Jodi (S = stake, P = potential payout, N = house net if declared)",
+    printRow("", DIGITS.map(digit => `x${digit}`)),
+  ];
+  for (const tens of DIGITS) {
+    const indexes = DIGITS.map(units => parseInt(tens + units, 10));
+    lines.push(
+      printRow(`${tens}x S`, indexes.map(index => amount(jantri.jodi[index].stake))),
+      printRow("   P", indexes.map(index => amount(jantri.jodi[index].payout))),
+      printRow("   N", indexes.map(index => amount(jantri.net[index]))),
+    );
+  }
+
+  lines.push(
+    "",
+    "Harf",
+    printRow("", DIGITS),
+    printRow("Andar S", jantri.andar.map(cell => amount(cell.stake))),
+    printRow("      P", jantri.andar.map(cell => amount(cell.payout))),
+    printRow("Bahar S", jantri.bahar.map(cell => amount(cell.stake))),
+    printRow("      P", jantri.bahar.map(cell => amount(cell.payout))),
+    "",
+    "Odd/Even",
+    printRow("", ["Odd", "Even"]),
+    printRow("S", [amount(jantri.odd.stake), amount(jantri.even.stake)]),
+    printRow("P", [amount(jantri.odd.payout), amount(jantri.even.payout)]),
+  );
+
+  return renderTextPdf(`Jantri ${jantri.marketName} ${jantri.date}`, lines);
+}
@@ -0,0 +1,473 @@
+import { db } from './db';
+import express, { Request, Response, NextFunction } from 'express';
+import {
+  UserRole,
+  users,
+  ledgerAccounts,
+  journalEntries,
+  journalLines,
+  LedgerAccountType,
+  JournalEntryType,
+  type LedgerAccount,
+  type JournalEntry,
+} from '@shared/schema';
+import { eq, sql, inArray } from 'drizzle-orm';
+import { publishLiveEvent } from './live-updates';
+import { LiveEventType } from '@shared/live-events';
+
+/**
+ * Either the global db handle or a transaction handle from db.transaction().
+ * All ledger writes should go through a transaction so the journal and the
+ * users.balance projection can never disagree.
+ */
+export type LedgerExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type SystemAccountType =
+  | typeof LedgerAccountType.HOUSE
+  | typeof LedgerAccountType.COMMISSION
+  | typeof LedgerAccountType.BONUS;
+
+export interface LedgerLine {
+  accountId: number;
+  amount: number; // signed, in paisa
+}
+
+export interface PostEntryOptions {
+  entryType: JournalEntryType;
+  description: string;
+  lines: LedgerLine[];
+  referenceType?: string;
+  referenceId?: number;
+  performedBy?: number;
+  // Opening balances describe money the users.balance projection already holds
+  skipProjection?: boolean;
+}
+
+export interface PostedEntry {
+  entry: JournalEntry;
+  // New users.balance for every user account touched by the entry
+  balances: Record<number, number>;
+}
+
+const SYSTEM_ACCOUNT_NAMES: Record<SystemAccountType, string> = {
+  [LedgerAccountType.HOUSE]: 'House',
+  [LedgerAccountType.COMMISSION]: 'Commission',
+  [LedgerAccountType.BONUS]: 'Bonus',
+};
+
+function userAccountCode(userId: number) {
+  return `user:${userId}`;
+}
+
+function accountTypeForRole(role: string): LedgerAccountType {
+  if (role === UserRole.ADMIN) return LedgerAccountType.ADMIN;
+  if (role === UserRole.SUBADMIN) return LedgerAccountType.SUBADMIN;
+  return LedgerAccountType.PLAYER;
+}
+
+async function findOrCreateAccount(
+  executor: LedgerExecutor,
+  account: { code: string; accountType: LedgerAccountType; ownerId: number | null; name: string }
+): Promise<LedgerAccount> {
+  const [existing] = await executor.select()
+    .from(ledgerAccounts)
+    .where(eq(ledgerAccounts.code, account.code))
+    .limit(1);
+
+  if (existing) return existing;
+
+  // Concurrent callers may race to create the same account; the unique code settles it
+  await executor.insert(ledgerAccounts)
+    .values(account)
+    .onConflictDoNothing({ target: ledgerAccounts.code });
+
+  const [created] = await executor.select()
+    .from(ledgerAccounts)
+    .where(eq(ledgerAccounts.code, account.code))
+    .limit(1);
+
+  return created;
+}
+
+/**
+ * Get (or lazily create) the ledger account owned by a user
+ */
+export async function getUserAccount(executor: LedgerExecutor, userId: number): Promise<LedgerAccount> {
+  const [existing] = await executor.select()
+    .from(ledgerAccounts)
+    .where(eq(ledgerAccounts.code, userAccountCode(userId)))
+    .limit(1);
+
+  if (existing) return existing;
+
+  const [user] = await executor.select({ username: users.username, role: users.role })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user) {
+    throw new Error(`User ${userId} not found`);
+  }
+
+  return findOrCreateAccount(executor, {
+    code: userAccountCode(userId),
+    accountType: accountTypeForRole(user.role),
+    ownerId: userId,
+    name: user.username,
+  });
+}
+
+/**
+ * Get (or lazily create) one of the platform's house/commission/bonus accounts
+ */
+export async function getSystemAccount(executor: LedgerExecutor, accountType: SystemAccountType): Promise<LedgerAccount> {
+  return findOrCreateAccount(executor, {
+    code: accountType,
+    accountType,
+    ownerId: null,
+    name: SYSTEM_ACCOUNT_NAMES[accountType],
+  });
+}
+
+/**
+ * Post a balanced journal entry and update the users.balance projection
+ * of every user account it touches.
+ */
+export async function postJournalEntry(executor: LedgerExecutor, options: PostEntryOptions): Promise<PostedEntry> {
+  const { lines } = options;
+
+  if (lines.length < 2) {
+    throw new Error('A journal entry needs at least two lines');
+  }
+
+  if (lines.some(line => !Number.isInteger(line.amount))) {
+    throw new Error('Journal line amounts must be whole paisa');
+  }
+
+  const total = lines.reduce((sum, line) => sum + line.amount, 0);
+  if (total !== 0) {
+    throw new Error(`Unbalanced journal entry: lines sum to ${total}`);
+  }
+
+  const [entry] = await executor.insert(journalEntries)
+    .values({
+      entryType: options.entryType,
+      description: options.description,
+      referenceType: options.referenceType ?? null,
+      referenceId: options.referenceId ?? null,
+      performedBy: options.performedBy ?? null,
+    })
+    .returning();
+
+  await executor.insert(journalLines)
+    .values(lines.map(line => ({
+      entryId: entry.id,
+      accountId: line.accountId,
+      amount: line.amount,
+    })));
+
+  const balances: Record<number, number> = {};
+  if (options.skipProjection) {
+    return { entry, balances };
+  }
+
+  // Net the lines per account, then move the cached balance of user-owned accounts
+  const netByAccount = new Map<number, number>();
+  for (const line of lines) {
+    netByAccount.set(line.accountId, (netByAccount.get(line.accountId) || 0) + line.amount);
+  }
+
+  const accounts = await executor.select()
+    .from(ledgerAccounts)
+    .where(inArray(ledgerAccounts.id, Array.from(netByAccount.keys())));
+
+  for (const account of accounts) {
+    if (account.ownerId === null) continue;
+
+    const [updated] = await executor.update(users)
+      .set({ balance: sql`${users.balance} + ${netByAccount.get(account.id) || 0}` })
+      .where(eq(users.id, account.ownerId))
+      .returning({ balance: users.balance });
+
+    if (!updated) {
+      throw new Error(`User ${account.ownerId} not found`);
+    }
+
+    balances[account.ownerId] = updated.balance;
+    await publishLiveEvent(executor, {
+      type: LiveEventType.BALANCE_CHANGED,
+      userId: account.ownerId,
+      balance: updated.balance,
+    });
+  }
+
+  return { entry, balances };
+}
+
+/**
+ * Move money between a user and one of the system accounts.
+ * A positive amount credits the user (deposit, payout, bonus),
+ * a negative amount debits the user (withdrawal, bet stake).
+ * Returns the user's new balance.
+ */
+export async function postUserMovement(
+  executor: LedgerExecutor,
+  movement: {
+    userId: number;
+    amount: number;
+    counterparty?: SystemAccountType;
+    entryType: JournalEntryType;
+    description: string;
+    referenceType?: string;
+    referenceId?: number;
+    performedBy?: number;
+  }
+): Promise<number> {
+  const userAccount = await getUserAccount(executor, movement.userId);
+  const systemAccount = await getSystemAccount(executor, movement.counterparty ?? LedgerAccountType.HOUSE);
+
+  const { balances } = await postJournalEntry(executor, {
+    entryType: movement.entryType,
+    description: movement.description,
+    referenceType: movement.referenceType,
+    referenceId: movement.referenceId,
+    performedBy: movement.performedBy,
+    lines: [
+      { accountId: userAccount.id, amount: movement.amount },
+      { accountId: systemAccount.id, amount: -movement.amount },
+    ],
+  });
+
+  return balances[movement.userId];
+}
+
+/**
+ * Move money from one user's account to another's (admin/subadmin funding).
+ * Returns both users' new balances.
+ */
+export async function postUserTransfer(
+  executor: LedgerExecutor,
+  transfer: {
+    fromUserId: number;
+    toUserId: number;
+    amount: number;
+    entryType?: JournalEntryType;
+    description: string;
+    performedBy?: number;
+  }
+): Promise<Record<number, number>> {
+  const fromAccount = await getUserAccount(executor, transfer.fromUserId);
+  const toAccount = await getUserAccount(executor, transfer.toUserId);
+
+  const { balances } = await postJournalEntry(executor, {
+    entryType: transfer.entryType ?? JournalEntryType.TRANSFER,
+    description: transfer.description,
+    performedBy: transfer.performedBy,
+    lines: [
+      { accountId: fromAccount.id, amount: -transfer.amount },
+      { accountId: toAccount.id, amount: transfer.amount },
+    ],
+  });
+
+  return balances;
+}
+
+export interface BalanceMismatch {
+  userId: number;
+  username: string;
+  cachedBalance: number;
+  ledgerBalance: number;
+  hasLedgerHistory: boolean;
+}
+
+/**
+ * Compare every user's cached balance with the sum of their journal lines
+ */
+export async function findBalanceMismatches(executor: LedgerExecutor = db): Promise<BalanceMismatch[]> {
+  const rows = await executor.select({
+    userId: users.id,
+    username: users.username,
+    cachedBalance: users.balance,
+    ledgerBalance: sql<number>`COALESCE(SUM(${journalLines.amount}), 0)::int`,
+    lineCount: sql<number>`COUNT(${journalLines.id})::int`,
+  })
+    .from(users)
+    .leftJoin(ledgerAccounts, eq(ledgerAccounts.code, sql`'user:' || ${users.id}`))
+    .leftJoin(journalLines, eq(journalLines.accountId, ledgerAccounts.id))
+    .groupBy(users.id, users.username, users.balance);
+
+  return rows
+    .filter(row => row.cachedBalance !== row.ledgerBalance)
+    .map(row => ({
+      userId: row.userId,
+      username: row.username,
+      cachedBalance: row.cachedBalance,
+      ledgerBalance: row.ledgerBalance,
+      hasLedgerHistory: row.lineCount > 0,
+    }));
+}
+
+/**
+ * Post opening balance entries for users whose balance predates the ledger.
+ * Only users with no journal lines at all are opened, so this is safe to re-run.
+ */
+export async function openLedgerBalances(): Promise<number> {
+  const mismatches = await findBalanceMismatches();
+  const unopened = mismatches.filter(mismatch => !mismatch.hasLedgerHistory);
+
+  let opened = 0;
+  for (const mismatch of unopened) {
+    await db.transaction(async (tx) => {
+      // Lock the user so a concurrent movement cannot slip between the read and the post
+      const [user] = await tx.select({ balance: users.balance })
+        .from(users)
+        .where(eq(users.id, mismatch.userId))
+        .for('update');
+
+      const userAccount = await getUserAccount(tx, mismatch.userId);
+      const [{ lineCount }] = await tx.select({ lineCount: sql<number>`COUNT(*)::int` })
+        .from(journalLines)
+        .where(eq(journalLines.accountId, userAccount.id));
+
+      if (!user || user.balance === 0 || lineCount > 0) return;
+
+      const houseAccount = await getSystemAccount(tx, LedgerAccountType.HOUSE);
+      await postJournalEntry(tx, {
+        entryType: JournalEntryType.OPENING_BALANCE,
+        description: `Opening balance for ${mismatch.username}`,
+        skipProjection: true,
+        lines: [
+          { accountId: userAccount.id, amount: user.balance },
+          { accountId: houseAccount.id, amount: -user.balance },
+        ],
+      });
+      opened++;
+    });
+  }
+
+  return opened;
+}
+
+/**
+ * Rebuild the users.balance projection from the journal
+ */
+export async function rebuildBalanceProjection(): Promise<BalanceMismatch[]> {
+  return await db.transaction(async (tx) => {
+    const mismatches = await findBalanceMismatches(tx);
+
+    for (const mismatch of mismatches) {
+      await tx.update(users)
+        .set({ balance: mismatch.ledgerBalance })
+        .where(eq(users.id, mismatch.userId));
+    }
+
+    return mismatches;
+  });
+}
+
+/**
+ * Get the balance of every ledger account, including the system accounts
+ */
+export async function getLedgerAccountBalances() {
+  return await db.select({
+    id: ledgerAccounts.id,
+    code: ledgerAccounts.code,
+    accountType: ledgerAccounts.accountType,
+    ownerId: ledgerAccounts.ownerId,
+    name: ledgerAccounts.name,
+    balance: sql<number>`COALESCE(SUM(${journalLines.amount}), 0)::int`,
+  })
+    .from(ledgerAccounts)
+    .leftJoin(journalLines, eq(journalLines.accountId, ledgerAccounts.id))
+    .groupBy(ledgerAccounts.id)
+    .orderBy(ledgerAccounts.id);
+}
+
+// Verify the projection every hour
+const RECONCILIATION_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Open pre-ledger balances once, then periodically verify that users.balance
+ * still matches the journal. Drift is logged, never silently repaired.
+ */
+export function startLedgerReconciliationJob(intervalMs: number = RECONCILIATION_INTERVAL_MS) {
+  const verify = async () => {
+    try {
+      const mismatches = await findBalanceMismatches();
+      if (mismatches.length > 0) {
+        console.error(`Ledger reconciliation found ${mismatches.length} balance mismatches:`, mismatches);
+      }
+    } catch (error) {
+      console.error('Ledger reconciliation failed:', error);
+    }
+  };
+
+  openLedgerBalances()
+    .then(opened => {
+      if (opened > 0) {
+        console.log(`Ledger: posted opening balances for ${opened} users`);
+      }
+    })
+    .catch(error => console.error('Error opening ledger balances:', error))
+    .finally(verify);
+
+  const timer = setInterval(verify, intervalMs);
+  timer.unref();
+  return timer;
+}
+
+export function setupLedgerRoutes(app: express.Express) {
+  // Balances of every ledger account (admin only)
+  app.get('/api/admin/ledger/accounts', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      if (req.user.role !== UserRole.ADMIN) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      res.json(await getLedgerAccountBalances());
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Verify the users.balance projection against the journal (admin only)
+  app.get('/api/admin/ledger/reconcile', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      if (req.user.role !== UserRole.ADMIN) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      const mismatches = await findBalanceMismatches();
+      res.json({ balanced: mismatches.length === 0, mismatches });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Rebuild the users.balance projection from the journal (admin only)
+  app.post('/api/admin/ledger/reconcile', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      if (req.user.role !== UserRole.ADMIN) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      const opened = await openLedgerBalances();
+      const repaired = await rebuildBalanceProjection();
+      res.json({ opened, repaired });
+    } catch (err) {
+      next(err);
+    }
+  });
+}
@@ -0,0 +1,142 @@
+import { storage } from "./storage";
+import { evaluatePrediction, oddsForGame } from "./satamatka-settlement";
+import {
+  MarketStatus,
+  SatamatkaGameMode,
+  type Game,
+  type SatamatkaMarket,
+} from "@shared/schema";
+
+// Every possible close result, "00" to "99"; index n is the jodi with number n
+export const JODI_OUTCOMES: string[] = Array.from({ length: 100 }, (_, n) => n.toString().padStart(2, "0"));
+
+// Markets that still hold unsettled bets: taking bets, or closed and waiting for a result
+const LIABLE_MARKET_STATUSES: string[] = [MarketStatus.OPEN, MarketStatus.CLOSED];
+
+/**
+ * Net house P&L of a market for every possible result, in paisa.
+ * A positive value is a house profit, a negative one a loss.
+ */
+export type MarketLiability = {
+  marketId: number;
+  marketName: string;
+  marketType: string;
+  status: string;
+  betCount: number;
+  totalStake: number;
+  // Stakes minus payouts if that jodi is the close result, indexed like JODI_OUTCOMES
+  outcomes: number[];
+  // Harf stakes minus the harf payouts certain to be made once a position shows
+  // digit d, indexed by d. Bare-digit bets count for both positions.
+  harf: {
+    totalStake: number;
+    left: number[];
+    right: number[];
+  };
+  worstOutcome: { result: string; net: number };
+  bestOutcome: { result: string; net: number };
+};
+
+// A pending bet with the odds (x10000) it will be paid at
+export type PricedBet = {
+  game: Pick<Game, "gameMode" | "prediction" | "betAmount">;
+  odds: number;
+};
+
+/**
+ * What a set of bets pays out for each possible result, indexed like
+ * JODI_OUTCOMES. Each bet is judged with the settlement rules, so a crossing
+ * bet counts against every jodi its digits cross into.
+ */
+export function payoutsByOutcome(bets: Array<{ gameMode: string | null; prediction: string; payout: number }>): number[] {
+  const payouts = new Array<number>(JODI_OUTCOMES.length).fill(0);
+  for (const bet of bets) {
+    JODI_OUTCOMES.forEach((result, index) => {
+      if (evaluatePrediction(bet.gameMode, bet.prediction, result).won) payouts[index] += bet.payout;
+    });
+  }
+  return payouts;
+}
+
+function digitOutcomes(position: 0 | 1, digit: number): string[] {
+  return JODI_OUTCOMES.filter(result => result[position] === digit.toString());
+}
+
+/**
+ * Build the liability matrix of one market from its pending bets
+ */
+export function buildMarketLiability(market: SatamatkaMarket, bets: PricedBet[]): MarketLiability {
+  const totalStake = bets.reduce((sum, bet) => sum + bet.game.betAmount, 0);
+  const priced = bets.map(({ game, odds }) => ({
+    gameMode: game.gameMode,
+    prediction: game.prediction,
+    payout: Math.floor(game.betAmount * odds / 10000),
+  }));
+  const payouts = payoutsByOutcome(priced);
+
+  const harfBets = priced.filter(bet => bet.gameMode === SatamatkaGameMode.HARF);
+  const harfStake = bets
+    .filter(bet => bet.game.gameMode === SatamatkaGameMode.HARF)
+    .reduce((sum, bet) => sum + bet.game.betAmount, 0);
+  const harfLeft = new Array<number>(10).fill(harfStake);
+  const harfRight = new Array<number>(10).fill(harfStake);
+
+  for (const bet of harfBets) {
+    const wins = JODI_OUTCOMES.map(result => evaluatePrediction(bet.gameMode, bet.prediction, result).won);
+    const winsOn = (results: string[]) => results.every(result => wins[parseInt(result, 10)]);
+    for (let digit = 0; digit < 10; digit++) {
+      if (winsOn(digitOutcomes(0, digit))) harfLeft[digit] -= bet.payout;
+      if (winsOn(digitOutcomes(1, digit))) harfRight[digit] -= bet.payout;
+    }
+  }
+
+  const outcomes = payouts.map(payout => totalStake - payout);
+  let worst = 0;
+  let best = 0;
+  outcomes.forEach((net, index) => {
+    if (net < outcomes[worst]) worst = index;
+    if (net > outcomes[best]) best = index;
+  });
+
+  return {
+    marketId: market.id,
+    marketName: market.name,
+    marketType: market.type,
+    status: market.status,
+    betCount: bets.length,
+    totalStake,
+    outcomes,
+    harf: { totalStake: harfStake, left: harfLeft, right: harfRight },
+    worstOutcome: { result: JODI_OUTCOMES[worst], net: outcomes[worst] },
+    bestOutcome: { result: JODI_OUTCOMES[best], net: outcomes[best] },
+  };
+}
+
+/**
+ * Liability matrices of every market with unsettled bets. Bets are priced at
+ * the player's effective odds from `getOddsForPlayer`, as recorded on the bet
+ * when it was placed. A subadmin id limits the matrices to that subadmin's
+ * players.
+ */
+export async function getSatamatkaLiability(subadminId?: number | null): Promise<MarketLiability[]> {
+  const markets = (await storage.getAllSatamatkaMarkets())
+    .filter(market => LIABLE_MARKET_STATUSES.includes(market.status));
+  if (markets.length === 0) return [];
+
+  let playerIds: Set<number> | null = null;
+  if (subadminId) {
+    const players = await storage.getUsersByAssignedTo(subadminId);
+    playerIds = new Set(players.map(player => player.id));
+  }
+
+  return Promise.all(markets.map(async (market) => {
+    const pending = (await storage.getSatamatkaGamesByMarketId(market.id))
+      .filter(game => game.result === "pending" && (!playerIds || playerIds.has(game.userId)));
+
+    const bets: PricedBet[] = [];
+    for (const game of pending) {
+      bets.push({ game, odds: await oddsForGame(game) });
+    }
+    return buildMarketLiability(market, bets);
+  }));
+}
@@ -0,0 +1,246 @@
+import type { Server } from "http";
+import type { PoolClient } from "pg";
+import { inArray, sql } from "drizzle-orm";
+import { WebSocket, WebSocketServer } from "ws";
+import { db, pool } from "./db";
+import { authenticateUpgrade } from "./auth";
+import { type LedgerExecutor } from "./ledger";
+import {
+  LIVE_UPDATES_PATH,
+  LiveEventType,
+  type DeliveredLiveEvent,
+  type LiveEvent,
+} from "@shared/live-events";
+import { UserRole, users, type Game } from "@shared/schema";
+
+// Postgres channel the events travel on between the transaction that causes
+// them and the process holding the sockets
+const LIVE_CHANNEL = "live_updates";
+
+// How often sockets are pinged, and dropped when the last ping went unanswered
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Close code sent to a user who may no longer receive events
+const POLICY_VIOLATION = 1008;
+
+// How long to wait before listening again after the connection is lost
+const RELISTEN_DELAY_MS = 5 * 1000;
+
+type Subscriber = { userId: number; role: string; alive: boolean };
+
+const subscribers = new Map<WebSocket, Subscriber>();
+
+/**
+ * Queue an event on the caller's transaction. Postgres only delivers it once
+ * the transaction commits, so rolled back changes and settlement previews are
+ * never announced. The user's subadmin is looked up in the same statement.
+ */
+export async function publishLiveEvent(executor: LedgerExecutor, event: LiveEvent) {
+  await executor.execute(sql`
+    select pg_notify(
+      ${LIVE_CHANNEL},
+      (${JSON.stringify(event)}::jsonb || jsonb_build_object(
+        'subadminId', (select assigned_to from users where id = ${event.userId})
+      ))::text
+    )
+  `);
+}
+
+type BetRow = Pick<Game, "id" | "userId" | "gameType" | "marketId" | "matchId" | "payout">;
+
+/**
+ * Announce a bet just placed: its potential payout adds to the exposure
+ */
+export async function publishBetPlaced(executor: LedgerExecutor, bet: BetRow) {
+  await publishLiveEvent(executor, {
+    type: LiveEventType.EXPOSURE_CHANGED,
+    userId: bet.userId,
+    gameId: bet.id,
+    gameType: bet.gameType,
+    marketId: bet.marketId,
+    matchId: bet.matchId,
+    delta: bet.payout,
+  });
+}
+
+/**
+ * Announce a bet settled, resettled or voided. `openPayout` is the potential
+ * payout it held while open, which leaves the exposure; pass null when the
+ * bet had already been settled.
+ */
+export async function publishBetSettled(executor: LedgerExecutor, bet: BetRow, openPayout: number | null) {
+  const target = { gameType: bet.gameType, marketId: bet.marketId, matchId: bet.matchId };
+  await publishLiveEvent(executor, { type: LiveEventType.BET_SETTLED, userId: bet.userId, ...target });
+  if (openPayout) {
+    await publishLiveEvent(executor, {
+      type: LiveEventType.EXPOSURE_CHANGED,
+      userId: bet.userId,
+      gameId: bet.id,
+      ...target,
+      delta: -openPayout,
+    });
+  }
+}
+
+/**
+ * Whether a subscriber should get an event: the user it is about sees their
+ * own changes except exposure, their subadmin and every admin see all of it
+ */
+export function isInAudience(subscriber: Pick<Subscriber, "userId" | "role">, event: DeliveredLiveEvent): boolean {
+  if (subscriber.role === UserRole.ADMIN) return true;
+  if (subscriber.role === UserRole.SUBADMIN && event.subadminId === subscriber.userId) return true;
+  return event.userId === subscriber.userId && event.type !== LiveEventType.EXPOSURE_CHANGED;
+}
+
+function deliver(payload: string) {
+  let event: DeliveredLiveEvent;
+  try {
+    event = JSON.parse(payload);
+  } catch (error) {
+    console.error("Ignoring malformed live event:", error);
+    return;
+  }
+
+  const message = JSON.stringify(event);
+  for (const [socket, subscriber] of Array.from(subscribers)) {
+    if (socket.readyState === WebSocket.OPEN && isInAudience(subscriber, event)) {
+      socket.send(message);
+    }
+  }
+}
+
+function dropSubscriber(ws: WebSocket, code?: number) {
+  subscribers.delete(ws);
+  if (code) ws.close(code);
+  else ws.terminate();
+}
+
+/**
+ * Close every live updates socket of a user, e.g. once they are blocked
+ */
+export function disconnectUser(userId: number) {
+  for (const [ws, subscriber] of Array.from(subscribers)) {
+    if (subscriber.userId === userId) dropSubscriber(ws, POLICY_VIOLATION);
+  }
+}
+
+/**
+ * Re-read who is subscribed: a role and block status are taken at connect
+ * time, so sockets of users since blocked or removed are closed and role
+ * changes take effect
+ */
+async function refreshSubscribers() {
+  const userIds = Array.from(new Set(Array.from(subscribers.values()).map(subscriber => subscriber.userId)));
+  if (userIds.length === 0) return;
+
+  const current = await db.select({ id: users.id, role: users.role, isBlocked: users.isBlocked })
+    .from(users)
+    .where(inArray(users.id, userIds));
+  const byId = new Map(current.map(user => [user.id, user]));
+
+  for (const [ws, subscriber] of Array.from(subscribers)) {
+    const user = byId.get(subscriber.userId);
+    if (!user || user.isBlocked) {
+      dropSubscriber(ws, POLICY_VIOLATION);
+    } else {
+      subscriber.role = user.role;
+    }
+  }
+}
+
+/**
+ * Hold one pooled connection listening on the live channel, and take a new
+ * one if it is lost
+ */
+async function listen() {
+  let client: PoolClient;
+  try {
+    client = await pool.connect();
+  } catch (error) {
+    console.error("Live updates could not connect to listen:", error);
+    setTimeout(listen, RELISTEN_DELAY_MS).unref();
+    return;
+  }
+
+  // Give the connection back and start over, once however it was lost
+  let lost = false;
+  const relisten = (error: Error) => {
+    if (lost) return;
+    lost = true;
+    client.release(error);
+    setTimeout(listen, RELISTEN_DELAY_MS).unref();
+  };
+
+  client.on("notification", (message) => {
+    if (message.channel === LIVE_CHANNEL && message.payload) {
+      deliver(message.payload);
+    }
+  });
+  client.on("error", (error) => {
+    console.error("Live updates lost its connection:", error);
+    relisten(error);
+  });
+
+  try {
+    await client.query(`LISTEN ${LIVE_CHANNEL}`);
+  } catch (error) {
+    console.error("Live updates could not listen:", error);
+    relisten(error as Error);
+  }
+}
+
+/**
+ * Serve the live updates WebSocket on the app's HTTP server. Only logged-in
+ * users can connect; each socket gets the events of its audience.
+ */
+export function attachLiveUpdates(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => {
+    // Other upgrades, such as the Vite dev server's, are not ours
+    if (new URL(req.url ?? "", "http://localhost").pathname !== LIVE_UPDATES_PATH) {
+      return;
+    }
+
+    authenticateUpgrade(req)
+      .then(user => {
+        if (!user) {
+          socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+          socket.destroy();
+          return;
+        }
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          subscribers.set(ws, { userId: user.id, role: user.role, alive: true });
+          ws.on("pong", () => {
+            const subscriber = subscribers.get(ws);
+            if (subscriber) subscriber.alive = true;
+          });
+          ws.on("close", () => subscribers.delete(ws));
+          // Invalid frames from the client surface here; unhandled they
+          // would bring the whole process down
+          ws.on("error", (error) => {
+            console.error("Live updates socket error:", error);
+            dropSubscriber(ws);
+          });
+        });
+      })
+      .catch(error => {
+        console.error("Live updates upgrade failed:", error);
+        socket.destroy();
+      });
+  });
+
+  setInterval(() => {
+    for (const [ws, subscriber] of Array.from(subscribers)) {
+      if (!subscriber.alive) {
+        dropSubscriber(ws);
+        continue;
+      }
+      subscriber.alive = false;
+      ws.ping();
+    }
+    refreshSubscribers().catch(error => console.error("Live updates could not refresh subscribers:", error));
+  }, HEARTBEAT_INTERVAL_MS).unref();
+
+  listen().catch(error => console.error("Live updates could not listen:", error));
+}
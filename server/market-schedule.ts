@@ -0,0 +1,141 @@
+import { MarketStatus, RecurrencePattern, type SatamatkaMarket } from "@shared/schema";
+import { isValidCron, nextCronOccurrence, parseCron } from "./cron";
+
+/**
+ * Pure Satamatka market lifecycle rules, kept free of the database so they
+ * can be checked against any clock.
+ *
+ * waiting -> open          once openTime has passed
+ * waiting/open -> closed   once closeTime has passed
+ * closed -> resulted       when the admin declares the close result
+ * resulted -> next cycle   for recurring markets, once that cycle opens
+ * cancelled -> next cycle  likewise, after an admin voided the cycle
+ */
+
+export type MarketCycle = {
+  openTime: Date;
+  closeTime: Date;
+  resultTime: Date | null;
+};
+
+export type MarketTransition = Partial<Pick<SatamatkaMarket,
+  "status" | "openTime" | "closeTime" | "resultTime" | "openResult" | "closeResult" | "nextOpenTime" | "nextCloseTime"
+>>;
+
+type ScheduledMarket = Pick<SatamatkaMarket,
+  "status" | "openTime" | "closeTime" | "resultTime" | "isRecurring" | "recurrencePattern" | "nextOpenTime" | "nextCloseTime"
+>;
+
+/**
+ * A recurrence pattern is one of the named patterns or a five-field cron
+ * expression giving the open times
+ */
+export function isValidRecurrencePattern(pattern: string): boolean {
+  return (Object.values(RecurrencePattern) as string[]).includes(pattern) || isValidCron(pattern);
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date.getTime());
+  // setDate keeps the local time of day across DST changes
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+function nextOpenTime(pattern: string, previousOpen: Date): Date {
+  switch (pattern) {
+    case RecurrencePattern.DAILY:
+      return addDays(previousOpen, 1);
+    case RecurrencePattern.WEEKLY:
+      return addDays(previousOpen, 7);
+    case RecurrencePattern.WEEKDAYS: {
+      let next = addDays(previousOpen, 1);
+      while (next.getDay() === 0 || next.getDay() === 6) {
+        next = addDays(next, 1);
+      }
+      return next;
+    }
+    default:
+      return nextCronOccurrence(parseCron(pattern), previousOpen);
+  }
+}
+
+/**
+ * The cycle following `cycle`: same duration and result offset, next open time
+ */
+export function nextMarketCycle(pattern: string, cycle: MarketCycle): MarketCycle {
+  const openTime = nextOpenTime(pattern, cycle.openTime);
+  const shift = openTime.getTime() - cycle.openTime.getTime();
+
+  return {
+    openTime,
+    closeTime: new Date(cycle.closeTime.getTime() + shift),
+    resultTime: cycle.resultTime ? new Date(cycle.resultTime.getTime() + shift) : null,
+  };
+}
+
+/**
+ * The first cycle after the market's current one that has not closed yet at
+ * `now`. Cycles missed while the server was down are skipped.
+ */
+export function upcomingMarketCycle(market: ScheduledMarket, now: Date): MarketCycle {
+  const pattern = market.recurrencePattern ?? RecurrencePattern.DAILY;
+  let cycle = nextMarketCycle(pattern, market);
+
+  // A cycle can never be shorter than a minute, so this always terminates;
+  // the cap only guards against corrupt data
+  for (let skipped = 0; cycle.closeTime <= now && skipped < 366 * 24 * 60; skipped++) {
+    cycle = nextMarketCycle(pattern, cycle);
+  }
+  return cycle;
+}
+
+function sameTime(a: Date | null, b: Date | null): boolean {
+  return (a?.getTime() ?? null) === (b?.getTime() ?? null);
+}
+
+/**
+ * What should change about a market at `now`, or null if nothing should.
+ * Applying the result and planning again at the same `now` returns null,
+ * which is what makes the scheduler idempotent.
+ */
+export function planMarketTransition(market: ScheduledMarket, now: Date): MarketTransition | null {
+  switch (market.status) {
+    case MarketStatus.WAITING:
+      if (now >= market.closeTime) return { status: MarketStatus.CLOSED };
+      if (now >= market.openTime) return { status: MarketStatus.OPEN };
+      return null;
+
+    case MarketStatus.OPEN:
+      return now >= market.closeTime ? { status: MarketStatus.CLOSED } : null;
+
+    case MarketStatus.RESULTED:
+    case MarketStatus.CANCELLED: {
+      if (!market.isRecurring) return null;
+
+      const cycle = upcomingMarketCycle(market, now);
+      if (now < cycle.openTime) {
+        // Keep showing this cycle's results until the next one opens
+        if (sameTime(market.nextOpenTime, cycle.openTime) && sameTime(market.nextCloseTime, cycle.closeTime)) {
+          return null;
+        }
+        return { nextOpenTime: cycle.openTime, nextCloseTime: cycle.closeTime };
+      }
+
+      const following = nextMarketCycle(market.recurrencePattern ?? RecurrencePattern.DAILY, cycle);
+      return {
+        status: MarketStatus.OPEN,
+        openTime: cycle.openTime,
+        closeTime: cycle.closeTime,
+        resultTime: cycle.resultTime,
+        openResult: null,
+        closeResult: null,
+        nextOpenTime: following.openTime,
+        nextCloseTime: following.closeTime,
+      };
+    }
+
+    // Closed markets wait for the admin to declare results
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,85 @@
+import { and, eq, inArray, or } from "drizzle-orm";
+import { db } from "./db";
+import { planMarketTransition } from "./market-schedule";
+import { MarketStatus, satamatkaMarkets } from "@shared/schema";
+
+// How often the scheduler checks market times
+const MARKET_SCHEDULER_INTERVAL_MS = 30 * 1000;
+
+export type Clock = () => Date;
+
+const systemClock: Clock = () => new Date();
+
+/**
+ * Move every due market one step through its lifecycle.
+ *
+ * All state lives in satamatka_markets, so a restart simply catches up on
+ * the next tick. Each update only applies if the market still has the status
+ * and open time it was planned from, so overlapping ticks or several server
+ * instances never apply the same transition twice.
+ *
+ * Returns the number of markets that changed.
+ */
+export async function runMarketSchedulerTick(clock: Clock = systemClock): Promise<number> {
+  const now = clock();
+
+  const candidates = await db.select()
+    .from(satamatkaMarkets)
+    .where(or(
+      inArray(satamatkaMarkets.status, [MarketStatus.WAITING, MarketStatus.OPEN]),
+      and(
+        inArray(satamatkaMarkets.status, [MarketStatus.RESULTED, MarketStatus.CANCELLED]),
+        eq(satamatkaMarkets.isRecurring, true),
+      ),
+    ));
+
+  let changed = 0;
+  for (const market of candidates) {
+    const transition = planMarketTransition(market, now);
+    if (!transition) continue;
+
+    const updated = await db.update(satamatkaMarkets)
+      .set(transition)
+      .where(and(
+        eq(satamatkaMarkets.id, market.id),
+        eq(satamatkaMarkets.status, market.status),
+        eq(satamatkaMarkets.openTime, market.openTime),
+      ))
+      .returning({ id: satamatkaMarkets.id });
+
+    if (updated.length > 0) {
+      changed++;
+      if (transition.status && transition.status !== market.status) {
+        console.log(`Market scheduler: ${market.name} (#${market.id}) ${market.status} -> ${transition.status}`);
+      }
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Run the scheduler now and then on an interval. The clock is injectable so
+ * tests can drive the lifecycle with fixed times.
+ */
+export function startMarketScheduler(clock: Clock = systemClock, intervalMs: number = MARKET_SCHEDULER_INTERVAL_MS) {
+  let running = false;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap a slow one
+    if (running) return;
+    running = true;
+    try {
+      await runMarketSchedulerTick(clock);
+    } catch (error) {
+      console.error("Market scheduler tick failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  return timer;
+}
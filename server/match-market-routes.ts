@@ -0,0 +1,130 @@
+import express, { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { requireRole } from "./auth";
+import { serveContract } from "./api-contract";
+import { BetLimitError } from "./bet-limits";
+import { RiskAlertError } from "./risk-alerts";
+import { SettlementPreviewError, previewSettlement } from "./settlement-preview";
+import {
+  MatchMarketError,
+  closeMatchMarket,
+  createMatchMarket,
+  getMyMatchMarketBets,
+  listMatchMarkets,
+  listOpenMatchMarkets,
+  placeMatchMarketBet,
+  settleMatchMarket,
+  updateMatchMarketOdds,
+  voidMatchMarket,
+} from "./match-markets";
+import { db } from "./db";
+import { UserRole } from "@shared/schema";
+import { apiContracts } from "@shared/api-contracts";
+
+const router = express.Router();
+
+function sendMarketError(res: Response, next: NextFunction, err: unknown) {
+  if (
+    err instanceof MatchMarketError ||
+    err instanceof BetLimitError ||
+    err instanceof RiskAlertError ||
+    err instanceof SettlementPreviewError
+  ) {
+    return res.status(err.status).json({ message: err.message });
+  }
+  next(err);
+}
+
+serveContract(router, apiContracts.getMatchMarkets, [requireRole([UserRole.ADMIN, UserRole.SUBADMIN])], async (req, res, next) => {
+  try {
+    res.json(await listMatchMarkets(req.params.id));
+  } catch (err) {
+    sendMarketError(res, next, err);
+  }
+});
+
+// The player's bet slip
+serveContract(router, apiContracts.getOpenMatchMarkets, [], async (req, res, next) => {
+  try {
+    res.json(await listOpenMatchMarkets(req.params.id));
+  } catch (err) {
+    sendMarketError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.createMatchMarket, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.status(201).json(await createMatchMarket(req.params.id, req.body));
+  } catch (err) {
+    sendMarketError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.updateMatchMarketOdds, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await updateMatchMarketOdds(req.params.id, req.body.selections));
+  } catch (err) {
+    sendMarketError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.closeMatchMarket, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await closeMatchMarket(req.params.id));
+  } catch (err) {
+    sendMarketError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.settleMatchMarket, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await db.transaction((tx) => settleMatchMarket(tx, req.params.id, req.body.selectionId)));
+  } catch (err) {
+    sendMarketError(res, next, err);
+  }
+});
+
+// Dry run of declaring a result: what the settlement would pay, with nothing committed
+router.post("/match-markets/:id/result/preview", requireRole(UserRole.ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = z.object({ selectionId: z.number().int() }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "A winning selection is required" });
+    }
+
+    const marketId = Number(req.params.id);
+    res.json(await previewSettlement(
+      { matchMarketId: marketId },
+      (tx) => settleMatchMarket(tx, marketId, parsed.data.selectionId)
+    ));
+  } catch (err) {
+    sendMarketError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.voidMatchMarket, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await voidMatchMarket(req.params.id, { performedBy: req.user!.id, reason: req.body.reason }));
+  } catch (err) {
+    sendMarketError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.placeMatchMarketBet, [requireRole(UserRole.PLAYER)], async (req, res, next) => {
+  try {
+    const { bet, balance } = await placeMatchMarketBet(req.user!.id, req.params.id, req.body);
+    res.status(201).json({ game: bet, balance });
+  } catch (err) {
+    sendMarketError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.getMyMatchMarketBets, [requireRole(UserRole.PLAYER)], async (req, res, next) => {
+  try {
+    res.json(await getMyMatchMarketBets(req.user!.id));
+  } catch (err) {
+    sendMarketError(res, next, err);
+  }
+});
+
+export default router;
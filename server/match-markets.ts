@@ -0,0 +1,405 @@
+import { and, asc, desc, eq, inArray, isNull } from "drizzle-orm";
+import { db } from "./db";
+import { postUserMovement, type LedgerExecutor } from "./ledger";
+import { voidBet, type BetCorrection } from "./bet-adjustments";
+import { enforceBetLimits } from "./bet-limits";
+import { assertMatchBettingOpen, checkMatchAlerts } from "./risk-alerts";
+import { publishBetPlaced, publishBetSettled } from "./live-updates";
+import { bettingCutoff, getTossCloseMinutes } from "./match-scheduler";
+import { formatRupees } from "@shared/money";
+import type { MatchMarketValues } from "@shared/api-contracts";
+import {
+  GameType,
+  JournalEntryType,
+  MatchMarketStatus,
+  MatchMarketType,
+  games,
+  marketSelections,
+  matchMarkets,
+  teamMatches,
+  users,
+  type Game,
+  type MarketSelection,
+  type MatchMarket,
+  type TeamMatch,
+} from "@shared/schema";
+
+export class MatchMarketError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// A selection with the stake and potential payout of its unsettled bets, in paisa
+export type SelectionBookEntry = MarketSelection & { bets: number; stake: number; payout: number };
+
+export type MatchMarketView = MatchMarket & { selections: SelectionBookEntry[] };
+
+export type OpenMatchMarket = MatchMarket & { selections: MarketSelection[] };
+
+export type MatchMarketBetView = Game & { match: TeamMatch; market: MatchMarket };
+
+/**
+ * Stake and potential payout of unsettled bets on each selection of a market
+ */
+export function buildSelectionBook(
+  selections: MarketSelection[],
+  bets: Array<Pick<Game, "selectionId" | "betAmount" | "payout">>
+): SelectionBookEntry[] {
+  return selections.map(selection => {
+    const onSelection = bets.filter(bet => bet.selectionId === selection.id);
+    return {
+      ...selection,
+      bets: onSelection.length,
+      stake: onSelection.reduce((sum, bet) => sum + bet.betAmount, 0),
+      payout: onSelection.reduce((sum, bet) => sum + bet.payout, 0),
+    };
+  });
+}
+
+function marketLabel(match: Pick<TeamMatch, "teamA" | "teamB">, market: Pick<MatchMarket, "name">): string {
+  return `${match.teamA} vs ${match.teamB}, ${market.name}`;
+}
+
+async function findMatch(executor: LedgerExecutor, matchId: number, lock?: "share"): Promise<TeamMatch> {
+  const query = executor.select().from(teamMatches).where(eq(teamMatches.id, matchId));
+  const [match] = lock ? await query.for(lock) : await query;
+  if (!match) {
+    throw new MatchMarketError(404, "Match not found");
+  }
+  return match;
+}
+
+async function findMarket(executor: LedgerExecutor, marketId: number, lock?: "share" | "update"): Promise<MatchMarket> {
+  const query = executor.select().from(matchMarkets).where(eq(matchMarkets.id, marketId));
+  const [market] = lock ? await query.for(lock) : await query;
+  if (!market) {
+    throw new MatchMarketError(404, "Market not found");
+  }
+  return market;
+}
+
+async function selectionsOf(executor: LedgerExecutor, marketIds: number[]): Promise<MarketSelection[]> {
+  if (marketIds.length === 0) return [];
+  return executor.select()
+    .from(marketSelections)
+    .where(inArray(marketSelections.marketId, marketIds))
+    .orderBy(asc(marketSelections.sortOrder), asc(marketSelections.id));
+}
+
+/**
+ * Every market on a match, oldest first, with the book of its unsettled bets
+ */
+export async function listMatchMarkets(matchId: number): Promise<MatchMarketView[]> {
+  await findMatch(db, matchId);
+  const markets = await db.select()
+    .from(matchMarkets)
+    .where(eq(matchMarkets.matchId, matchId))
+    .orderBy(asc(matchMarkets.id));
+  const selections = await selectionsOf(db, markets.map(market => market.id));
+
+  const open = selections.length === 0 ? [] : await db.select()
+    .from(games)
+    .where(and(
+      inArray(games.selectionId, selections.map(selection => selection.id)),
+      isNull(games.result),
+    ));
+
+  return markets.map(market => ({
+    ...market,
+    selections: buildSelectionBook(selections.filter(selection => selection.marketId === market.id), open),
+  }));
+}
+
+/**
+ * The markets of a match open for betting, for the player's bet slip
+ */
+export async function listOpenMatchMarkets(matchId: number): Promise<OpenMatchMarket[]> {
+  const markets = await db.select()
+    .from(matchMarkets)
+    .where(and(eq(matchMarkets.matchId, matchId), eq(matchMarkets.status, MatchMarketStatus.OPEN)))
+    .orderBy(asc(matchMarkets.id));
+  const selections = await selectionsOf(db, markets.map(market => market.id));
+
+  return markets.map(market => ({
+    ...market,
+    selections: selections.filter(selection => selection.marketId === market.id),
+  }));
+}
+
+/**
+ * Add a market to a match. Cricket toss matches take their toss bets on the
+ * match itself, so they cannot carry a second toss market.
+ */
+export async function createMatchMarket(matchId: number, values: MatchMarketValues): Promise<OpenMatchMarket> {
+  return db.transaction(async (tx) => {
+    const match = await findMatch(tx, matchId);
+    // Markets close with their match, so one added later could never take a bet
+    if (match.status !== "open") {
+      throw new MatchMarketError(409, "Markets can only be added to matches open for betting");
+    }
+    if (match.category === "cricket_toss" && values.marketType === MatchMarketType.TOSS) {
+      throw new MatchMarketError(409, "Toss bets on this match are taken on the match itself");
+    }
+
+    const [market] = await tx.insert(matchMarkets)
+      .values({
+        matchId,
+        marketType: values.marketType,
+        name: values.name,
+        line: values.marketType === MatchMarketType.OVER_UNDER ? values.line : null,
+        status: MatchMarketStatus.OPEN,
+      })
+      .returning();
+    const selections = await tx.insert(marketSelections)
+      .values(values.selections.map((selection, index) => ({
+        marketId: market.id,
+        name: selection.name,
+        odds: selection.odds,
+        sortOrder: index,
+      })))
+      .returning();
+
+    return { ...market, selections };
+  });
+}
+
+/**
+ * Reprice the selections of an open market. New odds only apply to bets
+ * placed from now on.
+ */
+export async function updateMatchMarketOdds(
+  marketId: number,
+  odds: Array<{ id: number; odds: number }>
+): Promise<OpenMatchMarket> {
+  return db.transaction(async (tx) => {
+    const market = await findMarket(tx, marketId, "update");
+    if (market.status !== MatchMarketStatus.OPEN) {
+      throw new MatchMarketError(409, "Only markets open for betting can be repriced");
+    }
+
+    const selections = await selectionsOf(tx, [marketId]);
+    for (const change of odds) {
+      if (!selections.some(selection => selection.id === change.id)) {
+        throw new MatchMarketError(400, "That selection is not part of this market");
+      }
+      await tx.update(marketSelections)
+        .set({ odds: change.odds })
+        .where(eq(marketSelections.id, change.id));
+    }
+
+    return { ...market, selections: await selectionsOf(tx, [marketId]) };
+  });
+}
+
+/**
+ * Stop taking bets on a market, ahead of declaring its result
+ */
+export async function closeMatchMarket(marketId: number): Promise<MatchMarket> {
+  return db.transaction(async (tx) => {
+    const market = await findMarket(tx, marketId, "update");
+    if (market.status !== MatchMarketStatus.OPEN) {
+      throw new MatchMarketError(409, "Market is not open for betting");
+    }
+    const [updated] = await tx.update(matchMarkets)
+      .set({ status: MatchMarketStatus.CLOSED })
+      .where(eq(matchMarkets.id, marketId))
+      .returning();
+    return updated;
+  });
+}
+
+/**
+ * Place a bet on one selection of a market. The match, market and selection
+ * rows are share-locked so neither the status nor the odds can change between
+ * the checks and the bet being recorded, and the player's row is locked while
+ * the stake is checked against the balance and the bet limits. Bets are only
+ * taken while the match itself is open and before its betting cut-off.
+ * `expectedOdds` is the price the player was quoted; when the odds have moved
+ * since, nothing is placed.
+ */
+export async function placeMatchMarketBet(
+  userId: number,
+  selectionId: number,
+  bet: { betAmount: number; expectedOdds: number }
+): Promise<{ bet: Game; balance: number; matchId: number }> {
+  const placed = await db.transaction(async (tx) => {
+    const [row] = await tx.select({ selection: marketSelections, market: matchMarkets })
+      .from(marketSelections)
+      .innerJoin(matchMarkets, eq(matchMarkets.id, marketSelections.marketId))
+      .where(eq(marketSelections.id, selectionId))
+      .for("share");
+    if (!row) {
+      throw new MatchMarketError(404, "Selection not found");
+    }
+    const { selection, market } = row;
+    if (market.status !== MatchMarketStatus.OPEN) {
+      throw new MatchMarketError(409, "Market is not open for betting");
+    }
+    // Share-locked so the match cannot close while the bet goes in; the
+    // cut-off is checked too in case the scheduler has not closed it yet
+    const match = await findMatch(tx, market.matchId, "share");
+    if (match.status !== "open") {
+      throw new MatchMarketError(409, "Match is not open for betting");
+    }
+    if (new Date() >= bettingCutoff(match, await getTossCloseMinutes(tx))) {
+      throw new MatchMarketError(409, "Betting on this match has closed");
+    }
+
+    if (selection.odds !== bet.expectedOdds) {
+      throw new MatchMarketError(409,
+        `The odds have changed from ${(bet.expectedOdds / 100).toFixed(2)} to ${(selection.odds / 100).toFixed(2)}`);
+    }
+    const potentialPayout = Math.floor(bet.betAmount * selection.odds / 100);
+
+    const [player] = await tx.select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .for("update");
+    if (!player) {
+      throw new MatchMarketError(404, "User not found");
+    }
+    if (player.balance < bet.betAmount) {
+      throw new MatchMarketError(400, `Insufficient balance: you have ${formatRupees(player.balance)}`);
+    }
+
+    await assertMatchBettingOpen(tx, match.id, selection.name);
+    await enforceBetLimits(tx, player, GameType.MATCH_MARKET, [
+      { betAmount: bet.betAmount, prediction: selection.name, potentialPayout },
+    ]);
+
+    const [game] = await tx.insert(games)
+      .values({
+        userId,
+        gameType: GameType.MATCH_MARKET,
+        matchId: match.id,
+        selectionId,
+        betAmount: bet.betAmount,
+        prediction: selection.name,
+        // Potential payout until the market is settled
+        payout: potentialPayout,
+        acceptedOdds: selection.odds,
+        balanceAfter: player.balance - bet.betAmount,
+        gameData: { marketId: market.id, marketName: market.name },
+      })
+      .returning();
+    await publishBetPlaced(tx, game);
+
+    const balance = await postUserMovement(tx, {
+      userId,
+      amount: -bet.betAmount,
+      entryType: JournalEntryType.BET_STAKE,
+      description: `Match market bet: ${marketLabel(match, market)}`,
+      referenceType: "game",
+      referenceId: game.id,
+    });
+
+    return { bet: game, balance, matchId: match.id };
+  });
+
+  // A failing alert check is logged rather than failing the placed bet
+  await checkMatchAlerts(placed.matchId, userId)
+    .catch(error => console.error("Error checking risk alerts:", error));
+  return placed;
+}
+
+/**
+ * Declare the winning selection of a closed market and settle its unsettled
+ * bets at the odds each was accepted at. Runs on the caller's transaction so
+ * the settlement preview can run it and roll it back.
+ */
+export async function settleMatchMarket(executor: LedgerExecutor, marketId: number, selectionId: number) {
+  const market = await findMarket(executor, marketId, "update");
+  if (market.status !== MatchMarketStatus.CLOSED) {
+    throw new MatchMarketError(409, "Close the market before declaring its result");
+  }
+  const selections = await selectionsOf(executor, [marketId]);
+  const winner = selections.find(selection => selection.id === selectionId);
+  if (!winner) {
+    throw new MatchMarketError(400, "That selection is not part of this market");
+  }
+  const match = await findMatch(executor, market.matchId);
+
+  const [updatedMarket] = await executor.update(matchMarkets)
+    .set({ status: MatchMarketStatus.RESULTED, winningSelectionId: selectionId })
+    .where(eq(matchMarkets.id, marketId))
+    .returning();
+
+  const bets = await executor.select()
+    .from(games)
+    .where(and(inArray(games.selectionId, selections.map(selection => selection.id)), isNull(games.result)))
+    .for("update");
+
+  let winners = 0;
+  for (const bet of bets) {
+    const payout = bet.selectionId === selectionId ? Math.floor(bet.betAmount * (bet.acceptedOdds ?? 0) / 100) : 0;
+
+    let balanceAfter = bet.balanceAfter;
+    if (payout > 0) {
+      balanceAfter = await postUserMovement(executor, {
+        userId: bet.userId,
+        amount: payout,
+        entryType: JournalEntryType.BET_PAYOUT,
+        description: `Match market payout: ${marketLabel(match, market)}`,
+        referenceType: "game",
+        referenceId: bet.id,
+      });
+      winners++;
+    }
+
+    // The result is the winning selection's name, so a bet won when it matches its prediction
+    await executor.update(games)
+      .set({ result: winner.name, payout, balanceAfter })
+      .where(eq(games.id, bet.id));
+    await publishBetSettled(executor, bet, bet.payout);
+  }
+
+  return { market: updatedMarket, settled: bets.length, winners };
+}
+
+/**
+ * Cancel a market: every payout on it is reversed and every stake refunded.
+ * The match and its other markets are left alone.
+ */
+export async function voidMatchMarket(marketId: number, correction: BetCorrection) {
+  return db.transaction(async (tx) => {
+    const market = await findMarket(tx, marketId, "update");
+    if (market.status === MatchMarketStatus.CANCELLED) {
+      throw new MatchMarketError(409, "Market is already cancelled");
+    }
+    const match = await findMatch(tx, market.matchId);
+
+    const [updatedMarket] = await tx.update(matchMarkets)
+      .set({ status: MatchMarketStatus.CANCELLED, winningSelectionId: null })
+      .where(eq(matchMarkets.id, marketId))
+      .returning();
+
+    const selections = await selectionsOf(tx, [marketId]);
+    const bets = selections.length === 0 ? [] : await tx.select()
+      .from(games)
+      .where(inArray(games.selectionId, selections.map(selection => selection.id)))
+      .for("update");
+
+    let voidedBets = 0;
+    for (const bet of bets) {
+      if (await voidBet(tx, bet, marketLabel(match, market), correction)) {
+        voidedBets++;
+      }
+    }
+    return { market: updatedMarket, voidedBets };
+  });
+}
+
+/**
+ * A player's match market bets, newest first, with their matches and markets
+ */
+export async function getMyMatchMarketBets(userId: number): Promise<MatchMarketBetView[]> {
+  const rows = await db.select({ game: games, market: matchMarkets, match: teamMatches })
+    .from(games)
+    .innerJoin(marketSelections, eq(marketSelections.id, games.selectionId))
+    .innerJoin(matchMarkets, eq(matchMarkets.id, marketSelections.marketId))
+    .innerJoin(teamMatches, eq(teamMatches.id, matchMarkets.matchId))
+    .where(and(eq(games.userId, userId), eq(games.gameType, GameType.MATCH_MARKET)))
+    .orderBy(desc(games.createdAt));
+  return rows.map(({ game, market, match }) => ({ ...game, market, match }));
+}
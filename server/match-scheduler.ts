@@ -0,0 +1,120 @@
+import { and, eq, lte } from "drizzle-orm";
+import { db } from "./db";
+import { type LedgerExecutor } from "./ledger";
+import { type Clock } from "./market-scheduler";
+import { MatchMarketStatus, matchMarkets, systemSettings, teamMatches, type TeamMatch } from "@shared/schema";
+
+// How often the scheduler checks match times
+const MATCH_SCHEDULER_INTERVAL_MS = 15 * 1000;
+
+// The system setting holding how many minutes before the match time toss
+// betting closes
+export const TOSS_CLOSE_SETTING_TYPE = "cricket_toss";
+export const TOSS_CLOSE_SETTING_KEY = "close_minutes_before_start";
+
+// The toss usually takes place half an hour before the start
+export const DEFAULT_TOSS_CLOSE_MINUTES = 30;
+
+const systemClock: Clock = () => new Date();
+
+/**
+ * When a match stops taking bets: cricket toss matches close the configured
+ * number of minutes before the match time, so no bet is taken after the
+ * toss, and other matches at the match time itself
+ */
+export function bettingCutoff(match: Pick<TeamMatch, "category" | "matchTime">, tossCloseMinutes: number): Date {
+  const leadMinutes = match.category === "cricket_toss" ? tossCloseMinutes : 0;
+  return new Date(match.matchTime.getTime() - leadMinutes * 60 * 1000);
+}
+
+/**
+ * Minutes before the match time that toss betting closes, from the system
+ * settings. A missing or invalid setting falls back to the default.
+ */
+export async function getTossCloseMinutes(executor: LedgerExecutor = db): Promise<number> {
+  const [setting] = await executor.select()
+    .from(systemSettings)
+    .where(and(
+      eq(systemSettings.settingType, TOSS_CLOSE_SETTING_TYPE),
+      eq(systemSettings.settingKey, TOSS_CLOSE_SETTING_KEY),
+    ));
+
+  const minutes = setting ? Number(setting.settingValue) : NaN;
+  return Number.isInteger(minutes) && minutes >= 0 ? minutes : DEFAULT_TOSS_CLOSE_MINUTES;
+}
+
+/**
+ * Stop a match taking bets: the match and every market on it still open are
+ * closed together. Only applies while the match is open, so a match closed
+ * twice at once is closed once; returns whether this call closed it.
+ */
+export async function closeMatchForBetting(executor: LedgerExecutor, matchId: number): Promise<boolean> {
+  const updated = await executor.update(teamMatches)
+    .set({ status: "closed" })
+    .where(and(eq(teamMatches.id, matchId), eq(teamMatches.status, "open")))
+    .returning({ id: teamMatches.id });
+  if (updated.length === 0) return false;
+
+  await executor.update(matchMarkets)
+    .set({ status: MatchMarketStatus.CLOSED })
+    .where(and(eq(matchMarkets.matchId, matchId), eq(matchMarkets.status, MatchMarketStatus.OPEN)));
+  return true;
+}
+
+/**
+ * Close every open team match whose betting cut-off has passed, with the
+ * markets on it. The update only applies while the match is still open, so
+ * overlapping ticks or an admin closing the match at the same time never
+ * conflict.
+ *
+ * Returns the number of matches closed.
+ */
+export async function runMatchSchedulerTick(clock: Clock = systemClock): Promise<number> {
+  const now = clock();
+  const tossCloseMinutes = await getTossCloseMinutes();
+
+  // The longest lead any match has, so the query fetches every candidate
+  const latestMatchTime = new Date(now.getTime() + tossCloseMinutes * 60 * 1000);
+  const candidates = await db.select()
+    .from(teamMatches)
+    .where(and(eq(teamMatches.status, "open"), lte(teamMatches.matchTime, latestMatchTime)));
+
+  let closed = 0;
+  for (const match of candidates) {
+    if (bettingCutoff(match, tossCloseMinutes) > now) continue;
+
+    const closedNow = await db.transaction(tx => closeMatchForBetting(tx, match.id));
+    if (closedNow) {
+      closed++;
+      console.log(`Match scheduler: ${match.teamA} vs ${match.teamB} (#${match.id}) closed for betting`);
+    }
+  }
+
+  return closed;
+}
+
+/**
+ * Run the scheduler now and then on an interval. The clock is injectable so
+ * tests can drive it with fixed times.
+ */
+export function startMatchScheduler(clock: Clock = systemClock, intervalMs: number = MATCH_SCHEDULER_INTERVAL_MS) {
+  let running = false;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap a slow one
+    if (running) return;
+    running = true;
+    try {
+      await runMatchSchedulerTick(clock);
+    } catch (error) {
+      console.error("Match scheduler tick failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  return timer;
+}
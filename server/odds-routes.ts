@@ -0,0 +1,95 @@
+import express from "express";
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { requireRole } from "./auth";
+import { serveContract } from "./api-contract";
+import { UserRole, gameOdds } from "@shared/schema";
+import { apiContracts } from "@shared/api-contracts";
+
+const router = express.Router();
+
+// Admin odds for one game type
+serveContract(router, apiContracts.getGameOdds, [], async (req, res, next) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    res.json(await storage.getGameOdds(req.query.gameType, false));
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.saveGameOdd, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await storage.upsertGameOdd(req.body.gameType, req.body.oddValue, true));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// The odds that apply to the current player: their subadmin's override, else the admin odds
+serveContract(router, apiContracts.getPlayerGameOdds, [], async (req, res, next) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const { gameType } = req.query;
+    const adminOdds = await storage.getGameOdds(gameType, false);
+    const oddValue = await storage.getOddsForPlayer(req.user.id, gameType, adminOdds[0]?.oddValue ?? 0);
+
+    // Nothing configured at all: let the client fall back to its defaults
+    res.json(oddValue ? [{ gameType, oddValue }] : []);
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.getSubadminGameOdds, [requireRole([UserRole.ADMIN, UserRole.SUBADMIN])], async (req, res, next) => {
+  try {
+    const subadminId = req.params.id;
+    if (req.user!.role === UserRole.SUBADMIN && req.user!.id !== subadminId) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    res.json(await storage.getGameOddsBySubadmin(subadminId));
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.saveSubadminGameOdds, [requireRole([UserRole.ADMIN, UserRole.SUBADMIN])], async (req, res, next) => {
+  try {
+    const subadminId = req.params.id;
+    if (req.user!.role === UserRole.SUBADMIN && req.user!.id !== subadminId) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const subadmin = await storage.getUser(subadminId);
+    if (!subadmin || subadmin.role !== UserRole.SUBADMIN) {
+      return res.status(404).json({ message: "Subadmin not found" });
+    }
+
+    const saved = [];
+    for (const odd of req.body.odds) {
+      saved.push(await storage.upsertGameOdd(odd.gameType, odd.oddValue, false, subadminId));
+    }
+    res.json(saved);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Every admin odd, for the subadmin settings and risk pages
+serveContract(router, apiContracts.getAdminOdds, [requireRole([UserRole.ADMIN, UserRole.SUBADMIN])], async (_req, res, next) => {
+  try {
+    res.json(await db.select().from(gameOdds).where(eq(gameOdds.setByAdmin, true)));
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
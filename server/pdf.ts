@@ -0,0 +1,75 @@
+/**
+ * A small PDF writer for printable reports: lines of monospace text on A4
+ * landscape pages, using the standard Courier font so nothing is embedded.
+ */
+
+// A4 landscape, in points
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+const FONT_SIZE = 7;
+const LINE_HEIGHT = 8.5;
+
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LINE_HEIGHT);
+
+// Courier only covers Latin-1 through the standard encoding, so anything
+// outside printable ASCII is replaced
+function escapeText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function pageContent(lines: string[]): string {
+  const top = PAGE_HEIGHT - MARGIN - FONT_SIZE;
+  return [
+    "BT",
+    `/F1 ${FONT_SIZE} Tf`,
+    `${LINE_HEIGHT} TL`,
+    `${MARGIN} ${top} Td`,
+    ...lines.map(line => `(${escapeText(line)}) '`),
+    "ET",
+  ].join("\n");
+}
+
+/**
+ * Render lines of text as a PDF, starting a new page whenever one is full
+ */
+export function renderTextPdf(title: string, lines: string[]): Buffer {
+  const pages: string[][] = [];
+  for (let start = 0; start < Math.max(lines.length, 1); start += LINES_PER_PAGE) {
+    pages.push(lines.slice(start, start + LINES_PER_PAGE));
+  }
+
+  // Objects 1-4 are fixed; each page then takes a page object and a content stream
+  const pageId = (index: number) => 5 + index * 2;
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${pageId(index)} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>",
+    `<< /Title (${escapeText(title)}) >>`,
+  ];
+  pages.forEach((page, index) => {
+    const content = pageContent(page);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageId(index) + 1} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+    );
+  });
+
+  let body = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(body, "latin1"));
+    body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(body, "latin1");
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  body += offsets.map(offset => `${offset.toString().padStart(10, "0")} 00000 n \n`).join("");
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 4 0 R >>\n`;
+  body += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, "latin1");
+}
@@ -0,0 +1,126 @@
+import { createHash, createHmac, randomBytes } from "crypto";
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import { type LedgerExecutor } from "./ledger";
+import { coinFlipSeeds, type CoinFlipSeed, type GameOutcome } from "@shared/schema";
+import {
+  coinFlipMessage,
+  coinFlipOutcomeFromHmac,
+  type CoinFlipFairness,
+  type CoinFlipSeedState,
+} from "@shared/provably-fair";
+
+export function generateServerSeed(): string {
+  return randomBytes(32).toString("hex");
+}
+
+export function hashServerSeed(serverSeed: string): string {
+  return createHash("sha256").update(serverSeed).digest("hex");
+}
+
+/**
+ * Decide a flip from its revealed inputs
+ */
+export function computeCoinFlip(serverSeed: string, clientSeed: string, nonce: number): GameOutcome {
+  const hmac = createHmac("sha256", serverSeed).update(coinFlipMessage(clientSeed, nonce)).digest("hex");
+  return coinFlipOutcomeFromHmac(hmac);
+}
+
+function toSeedState(seed: CoinFlipSeed): CoinFlipSeedState {
+  return {
+    serverSeedHash: seed.serverSeedHash,
+    clientSeed: seed.clientSeed,
+    nonce: seed.nonce,
+  };
+}
+
+/**
+ * Get (or lazily create) the player's seed row
+ */
+async function getOrCreateSeed(executor: LedgerExecutor, userId: number): Promise<CoinFlipSeed> {
+  const [existing] = await executor.select()
+    .from(coinFlipSeeds)
+    .where(eq(coinFlipSeeds.userId, userId))
+    .limit(1);
+
+  if (existing) return existing;
+
+  // Concurrent first flips may race to create the row; the unique user id settles it
+  const serverSeed = generateServerSeed();
+  await executor.insert(coinFlipSeeds)
+    .values({
+      userId,
+      serverSeed,
+      serverSeedHash: hashServerSeed(serverSeed),
+      clientSeed: randomBytes(8).toString("hex"),
+    })
+    .onConflictDoNothing({ target: coinFlipSeeds.userId });
+
+  const [created] = await executor.select()
+    .from(coinFlipSeeds)
+    .where(eq(coinFlipSeeds.userId, userId))
+    .limit(1);
+
+  return created;
+}
+
+/**
+ * The player's current commitment, without the hidden server seed
+ */
+export async function getCoinFlipSeedState(userId: number): Promise<CoinFlipSeedState> {
+  return toSeedState(await getOrCreateSeed(db, userId));
+}
+
+/**
+ * Change the player's client seed. The committed server seed is kept, so the
+ * player picks their seed knowing only its hash.
+ */
+export async function setCoinFlipClientSeed(userId: number, clientSeed: string): Promise<CoinFlipSeedState> {
+  await getOrCreateSeed(db, userId);
+
+  const [seed] = await db.update(coinFlipSeeds)
+    .set({ clientSeed, updatedAt: new Date() })
+    .where(eq(coinFlipSeeds.userId, userId))
+    .returning();
+
+  return toSeedState(seed);
+}
+
+/**
+ * Flip with the player's committed seed, then commit a fresh seed for the
+ * next flip. Must run inside the transaction that records the game, so a
+ * rolled back bet also rolls back the seed rotation.
+ */
+export async function drawCoinFlip(
+  executor: LedgerExecutor,
+  userId: number
+): Promise<{ outcome: GameOutcome; fairness: CoinFlipFairness }> {
+  await getOrCreateSeed(executor, userId);
+
+  const [seed] = await executor.select()
+    .from(coinFlipSeeds)
+    .where(eq(coinFlipSeeds.userId, userId))
+    .for('update');
+
+  const fairness: CoinFlipFairness = {
+    serverSeed: seed.serverSeed,
+    serverSeedHash: seed.serverSeedHash,
+    clientSeed: seed.clientSeed,
+    nonce: seed.nonce,
+  };
+
+  const nextServerSeed = generateServerSeed();
+  await executor.update(coinFlipSeeds)
+    .set({
+      serverSeed: nextServerSeed,
+      serverSeedHash: hashServerSeed(nextServerSeed),
+      nonce: seed.nonce + 1,
+      updatedAt: new Date(),
+    })
+    .where(eq(coinFlipSeeds.id, seed.id));
+
+  return {
+    outcome: computeCoinFlip(fairness.serverSeed, fairness.clientSeed, fairness.nonce),
+    fairness,
+  };
+}
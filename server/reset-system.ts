@@ -1,15 +1,21 @@
 import express, { Request, Response, NextFunction } from "express";
-import { UserRole } from "@shared/schema";
+import { JournalEntryType, UserRole, type User } from "@shared/schema";
 import { storage } from "./storage";
 import { db } from "./db";
+import { postUserMovement, type LedgerExecutor } from "./ledger";
 import {
+  anomalyFindings,
+  bettingSuspensions,
   games,
+  marketSelections,
+  matchMarkets,
+  riskAlerts,
   satamatkaMarkets,
   teamMatches,
   transactions,
   users
 } from "@shared/schema";
-import { eq, ne } from "drizzle-orm";
+import { and, ne } from "drizzle-orm";
 import { z } from "zod";
 
 // Validation schema for reset request
@@ -41,16 +47,16 @@ router.post("/reset-system", async (req: Request, res: Response, next: NextFunct
     // Perform reset based on type
     switch (resetType) {
       case "all":
-        await resetAllData();
+        await resetAllData(req.user);
         break;
       case "games":
         await resetGameData();
         break;
       case "transactions":
-        await resetTransactionData();
+        await resetTransactionData(req.user);
         break;
       case "balance":
-        await resetUserBalances();
+        await resetUserBalances(req.user);
         break;
     }
 
@@ -66,27 +72,56 @@ router.post("/reset-system", async (req: Request, res: Response, next: NextFunct
   }
 });
 
+/**
+ * Zero every balance except the admins', through the ledger so the journal
+ * keeps matching users.balance
+ */
+async function zeroUserBalances(tx: LedgerExecutor, admin: User) {
+  const funded = await tx.select()
+    .from(users)
+    .where(and(ne(users.role, UserRole.ADMIN), ne(users.balance, 0)))
+    .orderBy(users.id)
+    .for('update');
+
+  for (const user of funded) {
+    await postUserMovement(tx, {
+      userId: user.id,
+      amount: -user.balance,
+      entryType: JournalEntryType.ADJUSTMENT,
+      description: `System reset by ${admin.username}`,
+      performedBy: admin.id,
+    });
+  }
+}
+
 /**
  * Reset all data in the system except admin accounts
  */
-async function resetAllData() {
+async function resetAllData(admin: User) {
   await db.transaction(async (tx) => {
     // Delete all games
     await tx.delete(games);
     
+    // Delete the suspensions and alerts raised on markets and matches
+    await tx.delete(bettingSuspensions);
+    await tx.delete(riskAlerts);
+    
+    // Delete anomaly findings, which point at markets
+    await tx.delete(anomalyFindings);
+    
     // Delete all markets
     await tx.delete(satamatkaMarkets);
     
-    // Delete all team matches
+    // Delete the markets of team matches, then the matches
+    await tx.delete(marketSelections);
+    await tx.delete(matchMarkets);
     await tx.delete(teamMatches);
     
     // Delete all transactions
     await tx.delete(transactions);
     
     // Reset all user balances except admin
-    await tx.update(users)
-      .set({ balance: 0 })
-      .where(ne(users.role, UserRole.ADMIN));
+    await zeroUserBalances(tx, admin);
   });
 }
 
@@ -98,10 +133,19 @@ async function resetGameData() {
     // Delete all games
     await tx.delete(games);
     
+    // Delete the suspensions and alerts raised on markets and matches
+    await tx.delete(bettingSuspensions);
+    await tx.delete(riskAlerts);
+    
+    // Delete anomaly findings, which point at markets
+    await tx.delete(anomalyFindings);
+    
     // Delete all markets
     await tx.delete(satamatkaMarkets);
     
-    // Delete all team matches
+    // Delete the markets of team matches, then the matches
+    await tx.delete(marketSelections);
+    await tx.delete(matchMarkets);
     await tx.delete(teamMatches);
   });
 }
@@ -109,27 +153,23 @@ async function resetGameData() {
 /**
  * Reset all transactions and balances
  */
-async function resetTransactionData() {
+async function resetTransactionData(admin: User) {
   await db.transaction(async (tx) => {
     // Delete all transactions
     await tx.delete(transactions);
     
     // Reset all user balances except admin
-    await tx.update(users)
-      .set({ balance: 0 })
-      .where(ne(users.role, UserRole.ADMIN));
+    await zeroUserBalances(tx, admin);
   });
 }
 
 /**
  * Reset user balances only
  */
-async function resetUserBalances() {
+async function resetUserBalances(admin: User) {
   await db.transaction(async (tx) => {
     // Reset all user balances except admin
-    await tx.update(users)
-      .set({ balance: 0 })
-      .where(ne(users.role, UserRole.ADMIN));
+    await zeroUserBalances(tx, admin);
   });
 }
 
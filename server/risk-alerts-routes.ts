@@ -0,0 +1,92 @@
+import express, { Response, NextFunction } from "express";
+import { requireRole } from "./auth";
+import { serveContract } from "./api-contract";
+import {
+  RiskAlertError,
+  acknowledgeRiskAlert,
+  createAlertRule,
+  deleteAlertRule,
+  liftSuspension,
+  listActiveSuspensions,
+  listAlertRules,
+  listRiskAlerts,
+  updateAlertRule,
+} from "./risk-alerts";
+import { UserRole } from "@shared/schema";
+import { apiContracts } from "@shared/api-contracts";
+
+const router = express.Router();
+
+function sendRiskAlertError(res: Response, next: NextFunction, err: unknown) {
+  if (err instanceof RiskAlertError) {
+    return res.status(err.status).json({ message: err.message });
+  }
+  next(err);
+}
+
+serveContract(router, apiContracts.getRiskAlertRules, [requireRole(UserRole.ADMIN)], async (_req, res, next) => {
+  try {
+    res.json(await listAlertRules());
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.createRiskAlertRule, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.status(201).json(await createAlertRule(req.body, req.user!.id));
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.updateRiskAlertRule, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await updateAlertRule(req.params.id, req.body));
+  } catch (err) {
+    sendRiskAlertError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.deleteRiskAlertRule, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    await deleteAlertRule(req.params.id);
+    res.json({ success: true });
+  } catch (err) {
+    sendRiskAlertError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.getRiskAlerts, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await listRiskAlerts(req.query.status === "open"));
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.acknowledgeRiskAlert, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await acknowledgeRiskAlert(req.params.id, req.user!.id));
+  } catch (err) {
+    sendRiskAlertError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.getBettingSuspensions, [requireRole(UserRole.ADMIN)], async (_req, res, next) => {
+  try {
+    res.json(await listActiveSuspensions());
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.liftBettingSuspension, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await liftSuspension(req.params.id, req.user!.id));
+  } catch (err) {
+    sendRiskAlertError(res, next, err);
+  }
+});
+
+export default router;
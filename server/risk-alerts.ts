@@ -0,0 +1,400 @@
+import { and, desc, eq, inArray, isNull, or, sql, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import { type LedgerExecutor } from "./ledger";
+import { evaluatePrediction } from "./satamatka-settlement";
+import { JODI_OUTCOMES, payoutsByOutcome } from "./liability-matrix";
+import { formatRupees } from "@shared/money";
+import {
+  RiskAlertRuleType,
+  RiskSuspendScope,
+  bettingSuspensions,
+  games,
+  riskAlertRules,
+  riskAlerts,
+  satamatkaMarkets,
+  teamMatches,
+  users,
+  type BettingSuspension,
+  type RiskAlert,
+  type RiskAlertRule,
+} from "@shared/schema";
+
+// Serializes the firing of one rule so bets placed together raise one alert
+const RISK_ALERT_LOCK = 7303;
+
+export class RiskAlertError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export type RiskAlertRuleValues = Pick<RiskAlertRule, "name" | "ruleType" | "threshold" | "suspendScope" | "isActive">;
+
+// Alerts and suspensions come back with the names of what they are about
+export type RiskAlertView = RiskAlert & { marketName: string | null; matchName: string | null; username: string | null };
+export type BettingSuspensionView = BettingSuspension & { marketName: string | null; matchName: string | null };
+
+// Where an alert fired: a Satamatka market or a cricket toss match
+type AlertTarget = { marketId: number; matchId?: undefined } | { matchId: number; marketId?: undefined };
+
+type Firing = {
+  rule: RiskAlertRule;
+  value: number;
+  message: string;
+  selection?: string;
+  userId?: number;
+};
+
+type PendingBet = { userId: number; gameMode: string | null; prediction: string; betAmount: number; payout: number };
+
+const isUnsettled = or(isNull(games.result), eq(games.result, "pending"));
+
+async function activeRules(ruleTypes: RiskAlertRuleType[]): Promise<RiskAlertRule[]> {
+  return db.select()
+    .from(riskAlertRules)
+    .where(and(eq(riskAlertRules.isActive, true), inArray(riskAlertRules.ruleType, ruleTypes)));
+}
+
+// Unsettled bets record their potential payout until they are settled
+async function pendingBets(where: SQL): Promise<PendingBet[]> {
+  return db.select({
+    userId: games.userId,
+    gameMode: games.gameMode,
+    prediction: games.prediction,
+    betAmount: games.betAmount,
+    payout: games.payout,
+  })
+    .from(games)
+    .where(and(where, isUnsettled));
+}
+
+/**
+ * A player's share of the potential payout of a book, in whole percent,
+ * or null while the book pays nothing
+ */
+export function exposureShare(bets: Array<Pick<PendingBet, "userId" | "payout">>, userId: number): number | null {
+  const total = bets.reduce((sum, bet) => sum + bet.payout, 0);
+  if (total <= 0) return null;
+  const own = bets.filter(bet => bet.userId === userId).reduce((sum, bet) => sum + bet.payout, 0);
+  return Math.floor(own * 100 / total);
+}
+
+/**
+ * What the market loses on each jodi, indexed like JODI_OUTCOMES: the
+ * payouts if that jodi is the result minus every stake taken
+ */
+export function jodiLosses(bets: Array<Pick<PendingBet, "gameMode" | "prediction" | "payout" | "betAmount">>): number[] {
+  const totalStake = bets.reduce((sum, bet) => sum + bet.betAmount, 0);
+  return payoutsByOutcome(bets).map(payout => payout - totalStake);
+}
+
+async function usernameOf(userId: number): Promise<string> {
+  const [user] = await db.select({ username: users.username }).from(users).where(eq(users.id, userId));
+  return user?.username ?? `Player ${userId}`;
+}
+
+/**
+ * Record an alert unless the same one is still waiting for an admin, and
+ * suspend betting if the rule asks for it
+ */
+async function recordAlert(target: AlertTarget, firing: Firing) {
+  const { rule } = firing;
+  const targetColumn = target.marketId !== undefined
+    ? eq(riskAlerts.marketId, target.marketId)
+    : eq(riskAlerts.matchId, target.matchId);
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(${RISK_ALERT_LOCK}, ${rule.id})`);
+
+    const [open] = await tx.select({ id: riskAlerts.id })
+      .from(riskAlerts)
+      .where(and(
+        eq(riskAlerts.ruleId, rule.id),
+        targetColumn,
+        firing.selection ? eq(riskAlerts.selection, firing.selection) : isNull(riskAlerts.selection),
+        firing.userId ? eq(riskAlerts.userId, firing.userId) : isNull(riskAlerts.userId),
+        isNull(riskAlerts.acknowledgedAt),
+      ))
+      .limit(1);
+    if (open) return;
+
+    const [alert] = await tx.insert(riskAlerts)
+      .values({
+        ruleId: rule.id,
+        ruleType: rule.ruleType,
+        marketId: target.marketId ?? null,
+        matchId: target.matchId ?? null,
+        selection: firing.selection ?? null,
+        userId: firing.userId ?? null,
+        value: firing.value,
+        threshold: rule.threshold,
+        message: firing.message,
+      })
+      .returning();
+
+    if (rule.suspendScope === RiskSuspendScope.NONE) return;
+    if (rule.suspendScope === RiskSuspendScope.NUMBER && !firing.selection) return;
+
+    const selection = rule.suspendScope === RiskSuspendScope.NUMBER ? firing.selection! : null;
+    const [suspended] = await tx.select({ id: bettingSuspensions.id })
+      .from(bettingSuspensions)
+      .where(and(
+        target.marketId !== undefined
+          ? eq(bettingSuspensions.marketId, target.marketId)
+          : eq(bettingSuspensions.matchId, target.matchId),
+        selection ? eq(bettingSuspensions.selection, selection) : isNull(bettingSuspensions.selection),
+        isNull(bettingSuspensions.liftedAt),
+      ))
+      .limit(1);
+    if (suspended) return;
+
+    await tx.insert(bettingSuspensions).values({
+      marketId: target.marketId ?? null,
+      matchId: target.matchId ?? null,
+      selection,
+      alertId: alert.id,
+      reason: firing.message,
+    });
+  });
+}
+
+/**
+ * Check the alert rules against a Satamatka market's book after a player
+ * bet on it. Runs once the bets are committed so they are part of the book.
+ */
+export async function checkMarketAlerts(marketId: number, userId: number): Promise<void> {
+  const rules = await activeRules([RiskAlertRuleType.JODI_LIABILITY, RiskAlertRuleType.PLAYER_EXPOSURE_SHARE]);
+  if (rules.length === 0) return;
+
+  const [market] = await db.select().from(satamatkaMarkets).where(eq(satamatkaMarkets.id, marketId));
+  if (!market) return;
+
+  const bets = await pendingBets(eq(games.marketId, marketId));
+  const firings: Firing[] = [];
+  let losses: number[] | null = null;
+
+  for (const rule of rules) {
+    if (rule.ruleType === RiskAlertRuleType.JODI_LIABILITY) {
+      losses ??= jodiLosses(bets);
+      losses.forEach((loss, index) => {
+        if (loss > rule.threshold) {
+          firings.push({
+            rule,
+            value: loss,
+            selection: JODI_OUTCOMES[index],
+            message: `${market.name}: jodi ${JODI_OUTCOMES[index]} would lose ${formatRupees(loss)}`,
+          });
+        }
+      });
+    } else {
+      const share = exposureShare(bets, userId);
+      if (share !== null && share > rule.threshold) {
+        firings.push({
+          rule,
+          value: share,
+          userId,
+          message: `${market.name}: ${await usernameOf(userId)} holds ${share}% of the potential payout`,
+        });
+      }
+    }
+  }
+
+  for (const firing of firings) {
+    await recordAlert({ marketId }, firing);
+  }
+}
+
+/**
+ * Check the alert rules against a team match's book after a player bet on
+ * it. The toss imbalance rule only applies to cricket toss matches.
+ */
+export async function checkMatchAlerts(matchId: number, userId: number): Promise<void> {
+  const rules = await activeRules([RiskAlertRuleType.TOSS_IMBALANCE, RiskAlertRuleType.PLAYER_EXPOSURE_SHARE]);
+  if (rules.length === 0) return;
+
+  const [match] = await db.select().from(teamMatches).where(eq(teamMatches.id, matchId));
+  if (!match) return;
+
+  const bets = await pendingBets(eq(games.matchId, matchId));
+  const matchName = `${match.teamA} vs ${match.teamB}`;
+  const firings: Firing[] = [];
+
+  for (const rule of rules) {
+    if (rule.ruleType === RiskAlertRuleType.TOSS_IMBALANCE) {
+      if (match.category !== "cricket_toss") continue;
+      const sidePayout = (side: string) => bets
+        .filter(bet => bet.prediction === side)
+        .reduce((sum, bet) => sum + bet.payout, 0);
+      const teamA = sidePayout("team_a");
+      const teamB = sidePayout("team_b");
+      const gap = Math.abs(teamA - teamB);
+
+      if (gap > rule.threshold) {
+        const heavier = teamA > teamB ? "team_a" : "team_b";
+        firings.push({
+          rule,
+          value: gap,
+          selection: heavier,
+          message: `${matchName}: ${heavier === "team_a" ? match.teamA : match.teamB} would pay ${formatRupees(gap)} more than the other side`,
+        });
+      }
+    } else {
+      const share = exposureShare(bets, userId);
+      if (share !== null && share > rule.threshold) {
+        firings.push({
+          rule,
+          value: share,
+          userId,
+          message: `${matchName}: ${await usernameOf(userId)} holds ${share}% of the potential payout`,
+        });
+      }
+    }
+  }
+
+  for (const firing of firings) {
+    await recordAlert({ matchId }, firing);
+  }
+}
+
+/**
+ * Reject bets on a suspended market, or on a suspended jodi of it. A
+ * suspended jodi blocks every bet that would win on it.
+ */
+export async function assertMarketBettingOpen(
+  executor: LedgerExecutor,
+  marketId: number,
+  bets: Array<{ gameMode: string | null; prediction: string }>
+): Promise<void> {
+  const suspensions = await executor.select()
+    .from(bettingSuspensions)
+    .where(and(eq(bettingSuspensions.marketId, marketId), isNull(bettingSuspensions.liftedAt)));
+
+  for (const { selection } of suspensions) {
+    if (selection === null) {
+      throw new RiskAlertError(409, "Betting on this market is suspended");
+    }
+    if (bets.some(bet => evaluatePrediction(bet.gameMode, bet.prediction, selection).won)) {
+      throw new RiskAlertError(409, `Bets that win on ${selection} are suspended for this market`);
+    }
+  }
+}
+
+/**
+ * Reject a bet on a suspended team match, or on a suspended side of it
+ */
+export async function assertMatchBettingOpen(executor: LedgerExecutor, matchId: number, prediction: string): Promise<void> {
+  const suspensions = await executor.select()
+    .from(bettingSuspensions)
+    .where(and(eq(bettingSuspensions.matchId, matchId), isNull(bettingSuspensions.liftedAt)));
+
+  for (const { selection } of suspensions) {
+    if (selection === null) {
+      throw new RiskAlertError(409, "Betting on this match is suspended");
+    }
+    if (selection === prediction) {
+      throw new RiskAlertError(409, "Betting on this team is suspended for this match");
+    }
+  }
+}
+
+export async function listAlertRules(): Promise<RiskAlertRule[]> {
+  return db.select().from(riskAlertRules).orderBy(riskAlertRules.id);
+}
+
+export async function createAlertRule(values: RiskAlertRuleValues, createdBy: number): Promise<RiskAlertRule> {
+  const [rule] = await db.insert(riskAlertRules).values({ ...values, createdBy }).returning();
+  return rule;
+}
+
+export async function updateAlertRule(id: number, values: RiskAlertRuleValues): Promise<RiskAlertRule> {
+  const [rule] = await db.update(riskAlertRules)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(riskAlertRules.id, id))
+    .returning();
+  if (!rule) {
+    throw new RiskAlertError(404, "Alert rule not found");
+  }
+  return rule;
+}
+
+// Alerts the rule already raised stay in the history
+export async function deleteAlertRule(id: number): Promise<void> {
+  const [rule] = await db.delete(riskAlertRules).where(eq(riskAlertRules.id, id)).returning();
+  if (!rule) {
+    throw new RiskAlertError(404, "Alert rule not found");
+  }
+}
+
+/**
+ * The latest alerts, newest first; only those no admin has acknowledged yet
+ * when `openOnly` is set
+ */
+export async function listRiskAlerts(openOnly: boolean, limit = 100): Promise<RiskAlertView[]> {
+  const rows = await db.select({
+    alert: riskAlerts,
+    marketName: satamatkaMarkets.name,
+    teamA: teamMatches.teamA,
+    teamB: teamMatches.teamB,
+    username: users.username,
+  })
+    .from(riskAlerts)
+    .leftJoin(satamatkaMarkets, eq(riskAlerts.marketId, satamatkaMarkets.id))
+    .leftJoin(teamMatches, eq(riskAlerts.matchId, teamMatches.id))
+    .leftJoin(users, eq(riskAlerts.userId, users.id))
+    .where(openOnly ? isNull(riskAlerts.acknowledgedAt) : undefined)
+    .orderBy(desc(riskAlerts.createdAt))
+    .limit(limit);
+
+  return rows.map(row => ({
+    ...row.alert,
+    marketName: row.marketName,
+    matchName: row.teamA ? `${row.teamA} vs ${row.teamB}` : null,
+    username: row.username,
+  }));
+}
+
+export async function acknowledgeRiskAlert(id: number, adminId: number): Promise<RiskAlert> {
+  const [alert] = await db.update(riskAlerts)
+    .set({ acknowledgedBy: adminId, acknowledgedAt: new Date() })
+    .where(and(eq(riskAlerts.id, id), isNull(riskAlerts.acknowledgedAt)))
+    .returning();
+  if (!alert) {
+    throw new RiskAlertError(404, "No open alert with this id");
+  }
+  return alert;
+}
+
+/**
+ * Suspensions still holding betting, newest first
+ */
+export async function listActiveSuspensions(): Promise<BettingSuspensionView[]> {
+  const rows = await db.select({
+    suspension: bettingSuspensions,
+    marketName: satamatkaMarkets.name,
+    teamA: teamMatches.teamA,
+    teamB: teamMatches.teamB,
+  })
+    .from(bettingSuspensions)
+    .leftJoin(satamatkaMarkets, eq(bettingSuspensions.marketId, satamatkaMarkets.id))
+    .leftJoin(teamMatches, eq(bettingSuspensions.matchId, teamMatches.id))
+    .where(isNull(bettingSuspensions.liftedAt))
+    .orderBy(desc(bettingSuspensions.createdAt));
+
+  return rows.map(row => ({
+    ...row.suspension,
+    marketName: row.marketName,
+    matchName: row.teamA ? `${row.teamA} vs ${row.teamB}` : null,
+  }));
+}
+
+// Re-enable betting held by a suspension
+export async function liftSuspension(id: number, adminId: number): Promise<BettingSuspension> {
+  const [suspension] = await db.update(bettingSuspensions)
+    .set({ liftedBy: adminId, liftedAt: new Date() })
+    .where(and(eq(bettingSuspensions.id, id), isNull(bettingSuspensions.liftedAt)))
+    .returning();
+  if (!suspension) {
+    throw new RiskAlertError(404, "No active suspension with this id");
+  }
+  return suspension;
+}
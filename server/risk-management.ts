@@ -1,6 +1,22 @@
 import { Request, Response } from "express";
+import { and, desc, eq, inArray, isNotNull, ne, sql, type SQL } from "drizzle-orm";
+import { db } from "./db";
 import { storage } from "./storage";
-import { UserRole, GameType } from "../shared/schema";
+import { getSatamatkaLiability } from "./liability-matrix";
+import { buildSelectionBook } from "./match-markets";
+import { rupeesToPaisa } from "../shared/money";
+import {
+  UserRole,
+  GameType,
+  MatchMarketStatus,
+  MatchMarketType,
+  games,
+  marketSelections,
+  matchMarkets,
+  teamMatches,
+  users,
+  type Game,
+} from "../shared/schema";
 
 /**
  * Types for risk management data
@@ -24,7 +40,7 @@ interface DetailedRiskData {
   cricketMatchAnalysis?: any[];
 }
 
-interface RiskManagementResponse {
+export interface RiskManagementResponse {
   summaries: RiskSummary[];
   detailedData: DetailedRiskData;
   userInfo: { [userId: number]: { username: string; } };
@@ -32,6 +48,19 @@ interface RiskManagementResponse {
   message?: string;
 }
 
+// Active bets above this stake count as high risk
+const HIGH_RISK_BET_AMOUNT = rupeesToPaisa(1000);
+
+const EMPTY_RISK_SUMMARY = {
+  totalBetAmount: 0,
+  potentialLiability: 0,
+  potentialProfit: 0,
+  exposureAmount: 0,
+  activeBets: 0,
+  totalBets: 0,
+  highRiskBets: 0
+};
+
 /**
  * Get risk management data for admins (platform-wide risk analysis)
  */
@@ -39,76 +68,8 @@ export async function getAdminRiskManagement(req: Request, res: Response) {
   try {
     // Check if admin wants to filter by specific subadmin
     const subadminId = req.query.subadminId ? parseInt(req.query.subadminId as string) : null;
-    
-    console.log("🔍 Admin risk management request with subadminId:", subadminId);
-    
-    // Admin gets platform-wide risk management data or filtered by subadmin
-    const marketGameRiskData = await getMarketGameRiskData(subadminId);
-    const cricketTossRiskData = await getCricketTossRiskData(subadminId);
-    
-    // Fetch real user information for all users involved in games
-    const userIds = Array.from(new Set([
-      ...Object.keys(marketGameRiskData.userExposure).map(id => parseInt(id)),
-      ...Object.keys(cricketTossRiskData.userExposure).map(id => parseInt(id))
-    ]));
-    
-    // Fetch real market information for all markets with games
-    const marketIds = Array.from(new Set(
-      Object.keys(marketGameRiskData.marketExposure).map(id => parseInt(id))
-    ));
-    
-    // Get user information from database
-    const userInfo: { [userId: number]: { username: string } } = {};
-    if (userIds.length > 0) {
-      const users = await storage.getUsersByIds(userIds);
-      users.forEach(user => {
-        userInfo[user.id] = { username: user.username };
-      });
-    }
-    
-    // Get market information from database
-    const marketInfo: { [marketId: number]: { name: string; type: string } } = {};
-    if (marketIds.length > 0) {
-      const markets = await storage.getSatamatkaMarketsByIds(marketIds);
-      markets.forEach(market => {
-        marketInfo[market.id] = { 
-          name: market.name,
-          type: market.type
-        };
-      });
-    }
-    
-    const response: RiskManagementResponse = {
-      summaries: [
-        {
-          ...marketGameRiskData.summary,
-          gameType: GameType.SATAMATKA,
-          gameTypeFormatted: "Market Game"
-        },
-        {
-          ...cricketTossRiskData.summary,
-          gameType: GameType.CRICKET_TOSS,
-          gameTypeFormatted: "Cricket Toss"
-        }
-      ],
-      detailedData: {
-        userExposure: {
-          ...marketGameRiskData.userExposure,
-          ...cricketTossRiskData.userExposure
-        },
-        marketExposure: marketGameRiskData.marketExposure,
-        gameData: [
-          ...marketGameRiskData.games,
-          ...cricketTossRiskData.games
-        ],
-        cricketMatchAnalysis: cricketTossRiskData.matchAnalysis || []
-      },
-      userInfo,
-      marketInfo
-    };
-    
-    console.log("🔍 Cricket match analysis found:", cricketTossRiskData.matchAnalysis?.length || 0);
-    return res.status(200).json(response);
+
+    return res.status(200).json(await buildAdminRiskResponse(subadminId));
   } catch (error) {
     console.error("Error in admin risk management:", error);
     return res.status(500).json({ message: "Failed to get risk management data" });
@@ -123,440 +84,507 @@ export async function getSubadminRiskManagement(req: Request, res: Response) {
     if (!req.user || req.user.role !== UserRole.SUBADMIN) {
       return res.status(403).json({ message: "Unauthorized access" });
     }
-    
-    const subadminId = req.user.id;
-    
-    // Get all users assigned to this subadmin
-    const assignedUsers = await storage.getUsersByAssignedTo(subadminId);
-    if (!assignedUsers.length) {
-      return res.status(200).json({
-        summaries: [
-          {
-            totalBetAmount: 0,
-            potentialLiability: 0,
-            potentialProfit: 0,
-            exposureAmount: 0,
-            activeBets: 0,
-            totalBets: 0,
-            highRiskBets: 0,
-            gameType: GameType.SATAMATKA,
-            gameTypeFormatted: "Market Game"
-          },
-          {
-            totalBetAmount: 0,
-            potentialLiability: 0,
-            potentialProfit: 0,
-            exposureAmount: 0,
-            activeBets: 0,
-            totalBets: 0,
-            highRiskBets: 0,
-            gameType: GameType.CRICKET_TOSS,
-            gameTypeFormatted: "Cricket Toss"
-          }
-        ],
-        detailedData: {
-          userExposure: {},
-          marketExposure: {},
-          gameData: []
-        },
-        userInfo: {},
-        marketInfo: {},
-        message: "No assigned players found"
-      });
-    }
-    
-    const userIds = assignedUsers.map(user => user.id);
-    
-    // Get odds for this subadmin
-    const marketGameOdd = await storage.getGameOddBySubadminAndType(subadminId, GameType.SATAMATKA);
-    const cricketTossOdd = await storage.getGameOddBySubadminAndType(subadminId, GameType.CRICKET_TOSS);
-    
-    // If subadmin hasn't set odds, use admin odds
-    const defaultMarketOdd = !marketGameOdd ? 
-      await storage.getGameOddByType(GameType.SATAMATKA) : 
-      marketGameOdd;
-      
-    const defaultCricketOdd = !cricketTossOdd ? 
-      await storage.getGameOddByType(GameType.CRICKET_TOSS) : 
-      cricketTossOdd;
-    
-    // Get games for assigned users
-    const allGames = await storage.getGamesByUserIds(userIds);
-    
-    // Filter by game type
-    const marketGames = allGames.filter(game => game.gameType === GameType.SATAMATKA);
-    const cricketTossGames = allGames.filter(game => game.gameType === GameType.CRICKET_TOSS);
-    
-    // Calculate risk data for each game type
-    const marketRiskData = calculateRiskData(
-      marketGames, 
-      defaultMarketOdd?.oddValue || 90
-    );
-    
-    const cricketRiskData = await getCricketTossRiskData(subadminId);
-    
-    // Create user info mapping
-    const userInfo: { [userId: number]: { username: string } } = {};
-    assignedUsers.forEach(user => {
-      userInfo[user.id] = { username: user.username };
-    });
-    
-    // Get market IDs from the game data
-    const marketIds = Array.from(new Set(
-      marketGames
-        .filter(game => game.marketId)
-        .map(game => game.marketId as number)
-    ));
-    
-    // Fetch market information
-    const marketInfo: { [marketId: number]: { name: string; type: string } } = {};
-    if (marketIds.length > 0) {
-      const markets = await storage.getSatamatkaMarketsByIds(marketIds);
-      markets.forEach(market => {
-        marketInfo[market.id] = { 
-          name: market.name,
-          type: market.type
-        };
-      });
-    }
-    
-    const response: RiskManagementResponse = {
+
+    return res.status(200).json(await buildSubadminRiskResponse(req.user.id));
+  } catch (error) {
+    console.error("Error in subadmin risk management:", error);
+    return res.status(500).json({ message: "Failed to get risk management data" });
+  }
+}
+
+/**
+ * Platform-wide risk data, or that of one subadmin's players when
+ * `subadminId` is set
+ */
+export async function buildAdminRiskResponse(subadminId: number | null): Promise<RiskManagementResponse> {
+  const marketGameRiskData = await getMarketGameRiskData(subadminId);
+  const cricketTossRiskData = await getCricketTossRiskData(subadminId);
+
+  // Fetch real user information for all users involved in games
+  const userIds = Array.from(new Set([
+    ...Object.keys(marketGameRiskData.userExposure).map(id => parseInt(id)),
+    ...Object.keys(cricketTossRiskData.userExposure).map(id => parseInt(id))
+  ]));
+
+  // Fetch real market information for all markets with games
+  const marketIds = Object.keys(marketGameRiskData.marketExposure).map(id => parseInt(id));
+
+  return {
+    summaries: [
+      {
+        ...marketGameRiskData.summary,
+        gameType: GameType.SATAMATKA,
+        gameTypeFormatted: "Market Game"
+      },
+      {
+        ...cricketTossRiskData.summary,
+        gameType: GameType.CRICKET_TOSS,
+        gameTypeFormatted: "Cricket Toss"
+      }
+    ],
+    detailedData: {
+      userExposure: {
+        ...marketGameRiskData.userExposure,
+        ...cricketTossRiskData.userExposure
+      },
+      marketExposure: marketGameRiskData.marketExposure,
+      gameData: [
+        ...marketGameRiskData.games,
+        ...cricketTossRiskData.games
+      ],
+      cricketMatchAnalysis: cricketTossRiskData.matchAnalysis || []
+    },
+    userInfo: await getUserInfo(userIds),
+    marketInfo: await getMarketInfo(marketIds)
+  };
+}
+
+/**
+ * Risk data of the players assigned to a subadmin
+ */
+export async function buildSubadminRiskResponse(subadminId: number): Promise<RiskManagementResponse> {
+  // Get all users assigned to this subadmin
+  const assignedUsers = await storage.getUsersByAssignedTo(subadminId);
+  if (!assignedUsers.length) {
+    return {
       summaries: [
         {
-          ...marketRiskData.summary,
+          ...EMPTY_RISK_SUMMARY,
           gameType: GameType.SATAMATKA,
           gameTypeFormatted: "Market Game"
         },
         {
-          ...cricketRiskData.summary,
+          ...EMPTY_RISK_SUMMARY,
           gameType: GameType.CRICKET_TOSS,
           gameTypeFormatted: "Cricket Toss"
         }
       ],
       detailedData: {
-        userExposure: {
-          ...marketRiskData.userExposure,
-          ...cricketRiskData.userExposure
-        },
-        marketExposure: marketRiskData.marketExposure,
-        gameData: [
-          ...marketRiskData.games,
-          ...cricketRiskData.games
-        ],
-        cricketMatchAnalysis: cricketRiskData.matchAnalysis || []
+        userExposure: {},
+        marketExposure: {},
+        gameData: []
       },
-      userInfo,
-      marketInfo
+      userInfo: {},
+      marketInfo: {},
+      message: "No assigned players found"
     };
-    
-    return res.status(200).json(response);
+  }
+
+  // Use the subadmin's market odds, or the admin's if they haven't set any
+  const marketGameOdd = await storage.getGameOddBySubadminAndType(subadminId, GameType.SATAMATKA)
+    ?? await storage.getGameOddByType(GameType.SATAMATKA);
+
+  // Every market game of the assigned players, settled or not
+  const marketScope = and(
+    eq(games.gameType, GameType.SATAMATKA),
+    inArray(games.userId, assignedUsers.map(user => user.id))
+  );
+
+  const marketRiskData = await aggregateRiskData(marketScope, marketGameOdd?.oddValue || 90);
+  const cricketRiskData = await getCricketTossRiskData(subadminId);
+
+  // Create user info mapping
+  const userInfo: { [userId: number]: { username: string } } = {};
+  assignedUsers.forEach(user => {
+    userInfo[user.id] = { username: user.username };
+  });
+
+  // Every market the players have bet on
+  const marketRows = await db.selectDistinct({ marketId: games.marketId })
+    .from(games)
+    .where(and(marketScope, isNotNull(games.marketId)));
+
+  return {
+    summaries: [
+      {
+        ...marketRiskData.summary,
+        gameType: GameType.SATAMATKA,
+        gameTypeFormatted: "Market Game"
+      },
+      {
+        ...cricketRiskData.summary,
+        gameType: GameType.CRICKET_TOSS,
+        gameTypeFormatted: "Cricket Toss"
+      }
+    ],
+    detailedData: {
+      userExposure: {
+        ...marketRiskData.userExposure,
+        ...cricketRiskData.userExposure
+      },
+      marketExposure: marketRiskData.marketExposure,
+      gameData: [
+        ...marketRiskData.games,
+        ...cricketRiskData.games
+      ],
+      cricketMatchAnalysis: cricketRiskData.matchAnalysis || []
+    },
+    userInfo,
+    marketInfo: await getMarketInfo(marketRows.map(row => row.marketId as number))
+  };
+}
+
+/**
+ * Get the per-result liability matrix of every Satamatka market with unsettled
+ * bets. Subadmins only see their own players; admins may filter by subadmin.
+ */
+export async function getSatamatkaLiabilityMatrix(req: Request, res: Response) {
+  try {
+    const subadminId = req.user!.role === UserRole.SUBADMIN
+      ? req.user!.id
+      : req.query.subadminId ? parseInt(req.query.subadminId as string) : null;
+
+    const markets = await getSatamatkaLiability(subadminId);
+    return res.status(200).json({ markets });
   } catch (error) {
-    console.error("Error in subadmin risk management:", error);
-    return res.status(500).json({ message: "Failed to get risk management data" });
+    console.error("Error in Satamatka liability matrix:", error);
+    return res.status(500).json({ message: "Failed to get liability matrix" });
   }
 }
 
+async function getUserInfo(userIds: number[]) {
+  const userInfo: { [userId: number]: { username: string } } = {};
+  if (userIds.length > 0) {
+    const players = await storage.getUsersByIds(userIds);
+    players.forEach(user => {
+      userInfo[user.id] = { username: user.username };
+    });
+  }
+  return userInfo;
+}
+
+async function getMarketInfo(marketIds: number[]) {
+  const marketInfo: { [marketId: number]: { name: string; type: string } } = {};
+  if (marketIds.length > 0) {
+    const markets = await storage.getSatamatkaMarketsByIds(marketIds);
+    markets.forEach(market => {
+      marketInfo[market.id] = {
+        name: market.name,
+        type: market.type
+      };
+    });
+  }
+  return marketInfo;
+}
+
+// Games of the players assigned to a subadmin
+function assignedPlayersOf(subadminId: number) {
+  return inArray(games.userId, db.select({ id: users.id }).from(users).where(eq(users.assignedTo, subadminId)));
+}
+
 /**
  * Get risk management data for market games
  */
 async function getMarketGameRiskData(subadminId?: number | null) {
   // Get all active/open markets
   const activeMarkets = await storage.getActiveSatamatkaMarkets();
-  
+
   if (!activeMarkets || activeMarkets.length === 0) {
     // No active markets, return empty data
     return {
-      summary: {
-        totalBetAmount: 0,
-        potentialLiability: 0, 
-        potentialProfit: 0,
-        exposureAmount: 0,
-        activeBets: 0,
-        totalBets: 0,
-        highRiskBets: 0
-      },
+      summary: { ...EMPTY_RISK_SUMMARY },
       userExposure: {},
       marketExposure: {},
       games: []
     };
   }
-  
-  // Get games only from active markets
-  const activeMarketIds = activeMarkets.map(market => market.id);
-  let games = await storage.getGamesByType(GameType.SATAMATKA);
-  let activeMarketGames = games.filter(game => 
-    game.marketId && activeMarketIds.includes(game.marketId)
-  );
 
-  // Filter games by subadmin if specified
-  if (subadminId) {
-    // Get users assigned to this subadmin
-    const subadminUsers = await storage.getUsersByAssignedTo(subadminId);
-    const subadminUserIds = subadminUsers.map(user => user.id);
-    
-    console.log(`🔍 Subadmin ${subadminId} has ${subadminUsers.length} assigned users:`, subadminUserIds);
-    console.log(`🔍 Before filtering: ${activeMarketGames.length} market games`);
-    
-    // Filter games to only include those from subadmin's users
-    activeMarketGames = activeMarketGames.filter(game => subadminUserIds.includes(game.userId));
-    
-    console.log(`🔍 After filtering: ${activeMarketGames.length} market games for subadmin ${subadminId}`);
-  }
-  
   // Get market game odds set by admin
   const marketOdds = await storage.getGameOddByType(GameType.SATAMATKA);
   const oddValue = marketOdds?.oddValue || 90; // Default to 90 if not set
-  
-  return calculateRiskData(activeMarketGames, oddValue);
+
+  // Games only from active markets, filtered by subadmin if specified
+  return aggregateRiskData(and(
+    eq(games.gameType, GameType.SATAMATKA),
+    inArray(games.marketId, activeMarkets.map(market => market.id)),
+    subadminId ? assignedPlayersOf(subadminId) : undefined
+  ), oddValue);
 }
 
 /**
- * Get risk management data for cricket toss games with detailed match analysis
+ * Get risk management data for cricket toss games, and the bets on the other
+ * markets of those matches, with detailed match analysis
  */
 async function getCricketTossRiskData(subadminId?: number | null) {
-  // Get all cricket toss games
-  let games = await storage.getGamesByType(GameType.CRICKET_TOSS);
-
-  // Filter games by subadmin if specified
-  if (subadminId) {
-    // Get users assigned to this subadmin
-    const subadminUsers = await storage.getUsersByAssignedTo(subadminId);
-    const subadminUserIds = subadminUsers.map(user => user.id);
-    
-    console.log(`🔍 Cricket: Subadmin ${subadminId} has ${subadminUsers.length} assigned users:`, subadminUserIds);
-    console.log(`🔍 Cricket: Before filtering: ${games.length} cricket games`);
-    console.log(`🔍 Cricket: All games:`, games.map(g => ({ id: g.id, userId: g.userId, matchId: g.matchId, result: g.result })));
-    
-    // Filter games to only include those from subadmin's users
-    games = games.filter(game => subadminUserIds.includes(game.userId));
-    
-    console.log(`🔍 Cricket: After filtering: ${games.length} cricket games for subadmin ${subadminId}`);
-    console.log(`🔍 Cricket: Filtered games:`, games.map(g => ({ id: g.id, userId: g.userId, matchId: g.matchId, result: g.result })));
-  }
-  
   // Get cricket toss odds set by admin
   const cricketOdds = await storage.getGameOddByType(GameType.CRICKET_TOSS);
   const oddValue = cricketOdds?.oddValue || 90; // Default to 90 if not set
-  
-  // Get match-wise analysis
-  console.log(`🔍 Cricket: About to get match analysis with ${games.length} games`);
-  const matchAnalysis = await getCricketMatchAnalysis(games, oddValue);
-  console.log(`🔍 Cricket: Match analysis returned ${matchAnalysis.length} matches`);
-  
-  const riskData = calculateRiskData(games, oddValue);
-  
-  // Add match analysis to the response
+
+  const playerScope = subadminId ? assignedPlayersOf(subadminId) : undefined;
+  const riskData = await aggregateRiskData(and(
+    inArray(games.gameType, [GameType.CRICKET_TOSS, GameType.MATCH_MARKET]),
+    playerScope
+  ), oddValue);
+
+  // Get match-wise analysis from the unsettled bets
+  const matchAnalysis = await getCricketMatchAnalysis(playerScope, riskData.games);
+
   return {
     ...riskData,
     matchAnalysis
   };
 }
 
+// Odds (x100) a toss bet is paid at, as in settlement: the price it was
+// accepted at, else the odds copied into its game data, else the match's
+const tossBetOdds = sql`coalesce(${games.acceptedOdds}, case ${games.prediction}
+  when 'team_a' then coalesce((${games.gameData}->>'oddTeamA')::int, ${teamMatches.oddTeamA})
+  else coalesce((${games.gameData}->>'oddTeamB')::int, ${teamMatches.oddTeamB})
+end)`;
+
 /**
- * Get detailed cricket match analysis with team-wise betting data
+ * Get detailed cricket match analysis with team-wise betting data. Toss
+ * stakes and payouts are summed per side by the database.
  */
-async function getCricketMatchAnalysis(games: any[], oddValue: number) {
+async function getCricketMatchAnalysis(playerScope: SQL | undefined, activeGames: Game[]) {
   try {
-    console.log("Getting cricket match analysis...");
-    console.log("Total cricket toss games:", games.length);
-    
-    // Get all active cricket toss matches
-    const activeMatches = await storage.getActiveTeamMatches();
-    console.log("All active matches:", activeMatches.length);
-    
-    const cricketMatches = activeMatches.filter(match => match.category === "cricket_toss");
-    console.log("Cricket toss matches:", cricketMatches.length);
-    
-    if (cricketMatches.length === 0) {
-      console.log("No cricket toss matches found");
-      return [];
-    }
-    
-    const matchAnalysis = await Promise.all(cricketMatches.map(async (match) => {
-      console.log(`Processing match ${match.id}: ${match.teamA} vs ${match.teamB}`);
-      
-      // Filter games for this specific match - match both null result and pending result
-      const matchGames = games.filter(game => 
-        game.matchId === match.id && (game.result === null || game.result === 'pending' || !game.result)
-      );
-      
-      console.log(`Match ${match.id} has ${matchGames.length} active bets`);
-      
-      // Separate bets by team selection
-      const teamABets = matchGames.filter(game => game.prediction === 'team_a');
-      const teamBBets = matchGames.filter(game => game.prediction === 'team_b');
-      
-      console.log(`Team A bets: ${teamABets.length}, Team B bets: ${teamBBets.length}`);
-      
-      // Use custom odds from game odds system (prioritize subadmin custom odds)
-      // First check if there are custom odds for cricket toss, otherwise use match odds
-      let teamAOdds = match.oddTeamA / 100; // Default to match odds (2.00x)
-      let teamBOdds = match.oddTeamB / 100; // Default to match odds (2.00x)
-      
-      // Check if any of the players in this match have subadmin with custom cricket toss odds
-      const allPlayerIds = [...teamABets.map(g => g.userId), ...teamBBets.map(g => g.userId)];
-      if (allPlayerIds.length > 0) {
-        // Get the first player's subadmin assignment to check for custom odds
-        const firstPlayer = await storage.getUser(allPlayerIds[0]);
-        if (firstPlayer && firstPlayer.assignedTo) {
-          const subadminOdds = await storage.getGameOddsBySubadmin(firstPlayer.assignedTo);
-          const customOdds = subadminOdds.find(odd => odd.gameType === 'cricket_toss');
-          if (customOdds && customOdds.oddValue) {
-            // Convert from database format (19000 = 1.9) to multiplier
-            const customMultiplier = customOdds.oddValue / 10000;
-            teamAOdds = customMultiplier;
-            teamBOdds = customMultiplier;
-          }
-        }
-      }
-      
-      // Calculate team A statistics using match-specific odds
-      const teamAStats = {
-        totalBets: teamABets.length,
-        totalAmount: teamABets.reduce((sum, game) => sum + game.betAmount, 0),
-        potentialPayout: teamABets.reduce((sum, game) => sum + (game.betAmount * teamAOdds), 0),
-        users: Array.from(new Set(teamABets.map(game => game.userId)))
+    const cricketMatches = (await storage.getActiveTeamMatches())
+      .filter(match => match.category === "cricket_toss");
+    if (cricketMatches.length === 0) return [];
+
+    const matchIds = cricketMatches.map(match => match.id);
+    const [tossBook, marketAnalysis] = await Promise.all([
+      db.select({
+        matchId: teamMatches.id,
+        prediction: games.prediction,
+        totalBets: sql<number>`count(*)::int`,
+        totalAmount: sql<number>`sum(${games.betAmount})::float8`,
+        potentialPayout: sql<number>`sum(floor(${games.betAmount} * ${tossBetOdds} / 100.0))::float8`,
+        users: sql<number[]>`array_agg(distinct ${games.userId})`,
+      })
+        .from(games)
+        .innerJoin(teamMatches, eq(teamMatches.id, games.matchId))
+        .where(and(
+          eq(games.gameType, GameType.CRICKET_TOSS),
+          inArray(games.matchId, matchIds),
+          isActiveBet,
+          playerScope
+        ))
+        .groupBy(teamMatches.id, games.prediction),
+      getMatchMarketAnalysis(matchIds, activeGames),
+    ]);
+
+    const sideStats = (matchId: number, prediction: string) => {
+      const row = tossBook.find(entry => entry.matchId === matchId && entry.prediction === prediction);
+      return {
+        totalBets: row?.totalBets ?? 0,
+        totalAmount: row?.totalAmount ?? 0,
+        potentialPayout: row?.potentialPayout ?? 0,
+        users: row?.users ?? [],
       };
-      
-      // Calculate team B statistics using match-specific odds
-      const teamBStats = {
-        totalBets: teamBBets.length,
-        totalAmount: teamBBets.reduce((sum, game) => sum + game.betAmount, 0),
-        potentialPayout: teamBBets.reduce((sum, game) => sum + (game.betAmount * teamBOdds), 0),
-        users: Array.from(new Set(teamBBets.map(game => game.userId)))
+    };
+
+    // Return all matches, even those with 0 bets to show in the UI
+    return cricketMatches.map(match => {
+      const teamAStats = sideStats(match.id, "team_a");
+      const teamBStats = sideStats(match.id, "team_b");
+
+      // The toss is the match's first market; the others are independent, so
+      // the worst case pays the heaviest selection of every market at once
+      const tossMarket: MatchMarketAnalysis = {
+        matchId: match.id,
+        marketId: null,
+        marketType: MatchMarketType.TOSS,
+        name: "Toss",
+        status: match.status,
+        selections: [
+          { selectionId: null, name: match.teamA, odds: match.oddTeamA, ...teamAStats },
+          { selectionId: null, name: match.teamB, odds: match.oddTeamB, ...teamBStats },
+        ],
+        summary: marketSummary(
+          teamAStats.totalAmount + teamBStats.totalAmount,
+          teamAStats.totalBets + teamBStats.totalBets,
+          Math.max(teamAStats.potentialPayout, teamBStats.potentialPayout)
+        ),
       };
-      
-      // Calculate match totals and risk
-      const totalBetAmount = teamAStats.totalAmount + teamBStats.totalAmount;
-      const maxPotentialPayout = Math.max(teamAStats.potentialPayout, teamBStats.potentialPayout);
-      
-      // For cricket toss: 
-      // - Potential Profit = if house wins (keep all bet amounts)
-      // - Potential Liability = worst case payout (maximum we'd pay out)
-      const potentialProfit = totalBetAmount; // House keeps all ₹400 if house wins
-      const potentialLoss = maxPotentialPayout; // Maximum payout to users (₹400 × 2.00 = ₹800)
-      
-      // Determine risk level based on potential liability
-      let riskLevel = 'low';
-      if (potentialLoss > 50000) { // ₹500 
-        riskLevel = 'high';
-      } else if (potentialLoss > 20000) { // ₹200
-        riskLevel = 'medium';
-      }
-      
-      const analysis = {
+      const markets: MatchMarketAnalysis[] = [tossMarket, ...marketAnalysis.filter(market => market.matchId === match.id)];
+      const totalBets = markets.reduce((sum, market) => sum + market.summary.totalBets, 0);
+      const totalAmount = markets.reduce((sum, market) => sum + market.summary.totalAmount, 0);
+      const maxPotentialPayout = markets.reduce((sum, market) => sum + market.summary.potentialLoss, 0);
+
+      return {
         matchId: match.id,
         matchInfo: {
           teamA: match.teamA,
           teamB: match.teamB,
           description: match.description,
           matchTime: match.matchTime,
-          oddTeamA: Math.round(teamAOdds * 100), // Use actual calculated odds
-          oddTeamB: Math.round(teamBOdds * 100), // Use actual calculated odds  
+          oddTeamA: match.oddTeamA,
+          oddTeamB: match.oddTeamB,
           status: match.status
         },
         teamAStats,
         teamBStats,
+        markets,
         summary: {
-          totalBets: matchGames.length,
-          totalAmount: totalBetAmount,
-          potentialProfit: totalBetAmount, // House profit if house wins (keep all bets)
+          totalBets,
+          totalAmount,
+          potentialProfit: totalAmount, // House profit if house wins (keep all bets)
           potentialLoss: maxPotentialPayout, // Maximum payout to users
-          riskLevel,
+          riskLevel: riskLevelOf(maxPotentialPayout),
           maxPotentialPayout
         }
       };
-      
-      console.log(`Match ${match.id} analysis:`, JSON.stringify(analysis, null, 2));
-      return analysis;
-    }));
-    
-    // Return all matches, even those with 0 bets to show in the UI
-    console.log("Final match analysis:", matchAnalysis.length);
-    return matchAnalysis;
+    });
   } catch (error) {
     console.error("Error in cricket match analysis:", error);
     return [];
   }
 }
 
+// Risk level of a book by its potential liability
+function riskLevelOf(potentialLoss: number) {
+  if (potentialLoss > 50000) return 'high'; // ₹500
+  if (potentialLoss > 20000) return 'medium'; // ₹200
+  return 'low';
+}
+
+function marketSummary(totalAmount: number, totalBets: number, potentialLoss: number) {
+  return {
+    totalBets,
+    totalAmount,
+    // Only one selection of a market can win
+    potentialLoss,
+    riskLevel: riskLevelOf(potentialLoss)
+  };
+}
+
+// Betting on one selection of a match's market, in paisa
+export interface MarketSelectionAnalysis {
+  selectionId: number | null;
+  name: string;
+  odds: number;
+  totalBets: number;
+  totalAmount: number;
+  potentialPayout: number;
+  users: number[];
+}
+
+// One market of a match with its selections; the toss has no market id
+export interface MatchMarketAnalysis {
+  matchId: number;
+  marketId: number | null;
+  marketType: string;
+  name: string;
+  status: string;
+  selections: MarketSelectionAnalysis[];
+  summary: ReturnType<typeof marketSummary>;
+}
+
 /**
- * Calculate risk metrics from game data
+ * Selection-wise betting data of every market on the given matches, from
+ * the unsettled match market bets among `activeGames`
  */
-function calculateRiskData(games: any[], oddValue: number) {
-  // Consider games with no result OR with result='pending' as active bets
-  const activeBets = games.filter(game => !game.result || game.result === 'pending').length;
-  const totalBets = games.length;
-  
-  // Calculate exposure by user
+async function getMatchMarketAnalysis(matchIds: number[], activeGames: Game[]): Promise<MatchMarketAnalysis[]> {
+  const markets = await db.select()
+    .from(matchMarkets)
+    .where(and(inArray(matchMarkets.matchId, matchIds), ne(matchMarkets.status, MatchMarketStatus.CANCELLED)))
+    .orderBy(matchMarkets.id);
+  if (markets.length === 0) return [];
+
+  const selections = await db.select()
+    .from(marketSelections)
+    .where(inArray(marketSelections.marketId, markets.map(market => market.id)))
+    .orderBy(marketSelections.sortOrder, marketSelections.id);
+  const marketGames = activeGames.filter(game => game.gameType === GameType.MATCH_MARKET);
+
+  return markets.map(market => {
+    const book = buildSelectionBook(selections.filter(selection => selection.marketId === market.id), marketGames);
+    const totalAmount = book.reduce((sum, entry) => sum + entry.stake, 0);
+    const totalBets = book.reduce((sum, entry) => sum + entry.bets, 0);
+    const potentialLoss = Math.max(0, ...book.map(entry => entry.payout));
+
+    return {
+      matchId: market.matchId,
+      marketId: market.id,
+      marketType: market.marketType,
+      name: market.name,
+      status: market.status,
+      selections: book.map(entry => ({
+        selectionId: entry.id,
+        name: entry.name,
+        odds: entry.odds,
+        totalBets: entry.bets,
+        totalAmount: entry.stake,
+        potentialPayout: entry.payout,
+        users: Array.from(new Set(marketGames.filter(game => game.selectionId === entry.id).map(game => game.userId)))
+      })),
+      summary: marketSummary(totalAmount, totalBets, potentialLoss)
+    };
+  });
+}
+
+// Bets with no result yet, or with result 'pending'
+const isActiveBet = sql`coalesce(${games.result}, '') in ('', 'pending')`;
+
+/**
+ * Potential payout multiplier by game mode; other modes fall back to the
+ * admin's odds setting
+ */
+function payoutMultiplier(oddValue: number) {
+  // Match market bets pay the odds they were accepted at
+  return sql`case when ${games.gameType} = ${GameType.MATCH_MARKET} then ${games.acceptedOdds} / 100.0
+    else case ${games.gameMode}
+      when 'jodi' then 90
+      when 'harf' then 9
+      when 'crossing' then 95
+      when 'odd_even' then 1.9
+      else ${oddValue / 100}::numeric
+    end
+  end`;
+}
+
+/**
+ * Calculate risk metrics for the games matching `scope`. Totals and
+ * exposures are summed by the database; only the active bets are loaded.
+ */
+async function aggregateRiskData(scope: SQL | undefined, oddValue: number) {
+  const potentialPayout = sql`${games.betAmount} * ${payoutMultiplier(oddValue)}`;
+  const activeScope = and(scope, isActiveBet);
+
+  const [[totals], byUser, byMarket, activeGames] = await Promise.all([
+    db.select({
+      totalBets: sql<number>`count(*)::int`,
+      activeBets: sql<number>`(count(*) filter (where ${isActiveBet}))::int`,
+      totalBetAmount: sql<number>`coalesce(sum(${games.betAmount}) filter (where ${isActiveBet}), 0)::float8`,
+      potentialLiability: sql<number>`coalesce(sum(${potentialPayout}) filter (where ${isActiveBet}), 0)::float8`,
+      highRiskBets: sql<number>`(count(*) filter (where ${isActiveBet} and ${games.betAmount} > ${HIGH_RISK_BET_AMOUNT}))::int`,
+    }).from(games).where(scope),
+    db.select({ userId: games.userId, exposure: sql<number>`sum(${potentialPayout})::float8` })
+      .from(games)
+      .where(activeScope)
+      .groupBy(games.userId),
+    db.select({ marketId: games.marketId, exposure: sql<number>`sum(${potentialPayout})::float8` })
+      .from(games)
+      .where(and(activeScope, isNotNull(games.marketId)))
+      .groupBy(games.marketId),
+    db.select().from(games).where(activeScope).orderBy(desc(games.createdAt)),
+  ]);
+
   const userExposure: { [userId: number]: number } = {};
-  // Calculate exposure by market (for market games)
+  byUser.forEach(row => {
+    userExposure[row.userId] = row.exposure;
+  });
+
   const marketExposure: { [marketId: number]: number } = {};
-  
-  let totalBetAmount = 0;
-  let potentialLiability = 0;
-  let highRiskBets = 0;
-  
-  // Calculate total bet amount and potential liability
-  games.forEach(game => {
-    // Only count active bets for liability calculations (null result OR 'pending' result)
-    if (!game.result || game.result === 'pending') {
-      const betAmount = game.betAmount;
-      
-      // Calculate potential payout based on specific game mode
-      let multiplier = 1;
-      switch (game.gameMode) {
-        case 'jodi': multiplier = 90; break;
-        case 'harf': multiplier = 9; break;
-        case 'crossing': multiplier = 95; break;
-        case 'odd_even': multiplier = 1.9; break;
-        default: multiplier = oddValue / 100; // Fallback to admin setting
-      }
-      
-      const potentialPayout = betAmount * multiplier;
-      
-      totalBetAmount += betAmount;
-      potentialLiability += potentialPayout;
-      
-      // Track high risk bets (bets over ₹1000)
-      if (betAmount > 1000) {
-        highRiskBets++;
-      }
-      
-      // Track exposure by user
-      if (!userExposure[game.userId]) {
-        userExposure[game.userId] = 0;
-      }
-      userExposure[game.userId] += potentialPayout;
-      
-      // Track exposure by market (for market games)
-      if (game.marketId && !marketExposure[game.marketId]) {
-        marketExposure[game.marketId] = 0;
-      }
-      if (game.marketId) {
-        marketExposure[game.marketId] += potentialPayout;
-      }
-    }
+  byMarket.forEach(row => {
+    marketExposure[row.marketId as number] = row.exposure;
   });
-  
-  // Calculate potential profit (house edge)
-  const potentialProfit = totalBetAmount - potentialLiability;
-  
-  // Calculate maximum exposure amount (worst-case scenario)
-  const exposureAmount = Math.max(...Object.values(userExposure), 0);
-  
+
   return {
     summary: {
-      totalBetAmount,
-      potentialLiability,
-      potentialProfit,
-      exposureAmount,
-      activeBets,
-      totalBets,
-      highRiskBets
+      totalBetAmount: totals.totalBetAmount,
+      potentialLiability: totals.potentialLiability,
+      // Potential profit (house edge)
+      potentialProfit: totals.totalBetAmount - totals.potentialLiability,
+      // Maximum exposure amount (worst-case scenario)
+      exposureAmount: Math.max(...Object.values(userExposure), 0),
+      activeBets: totals.activeBets,
+      totalBets: totals.totalBets,
+      highRiskBets: totals.highRiskBets
     },
     userExposure,
     marketExposure,
-    games
+    games: activeGames
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,18 @@
+import express from "express";
+import { requireRole } from "./auth";
+import { serveContract } from "./api-contract";
+import { getRiskSnapshots } from "./risk-snapshots";
+import { UserRole } from "@shared/schema";
+import { apiContracts } from "@shared/api-contracts";
+
+const router = express.Router();
+
+serveContract(router, apiContracts.getRiskSnapshots, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await getRiskSnapshots(req.query.from, req.query.to, req.query.scope));
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,258 @@
+import { and, asc, eq, gte, inArray, isNotNull, lt, lte, sql, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import { type Clock } from "./market-scheduler";
+import {
+  RiskSnapshotScope,
+  VOIDED_BET_RESULT,
+  games,
+  riskSnapshots,
+  satamatkaMarkets,
+  teamMatches,
+  users,
+  type RiskSnapshot,
+} from "@shared/schema";
+
+// How often exposure is sampled and today's figures refreshed
+const RISK_SNAPSHOT_INTERVAL_MS = 15 * 60 * 1000;
+
+// Bets settle after the day they are placed on, so each new day the figures
+// of this many earlier days are taken again
+const RESNAPSHOT_DAYS = 7;
+
+const systemClock: Clock = () => new Date();
+
+// The key each scope totals over; bets with a null key are left out. The
+// total has a single key, so its rows are not grouped.
+const SCOPE_KEYS: Record<RiskSnapshotScope, SQL<string | null>> = {
+  [RiskSnapshotScope.TOTAL]: sql<string>`'all'`,
+  [RiskSnapshotScope.GAME]: sql<string>`${games.gameType}`,
+  [RiskSnapshotScope.MARKET]: sql<string | null>`case
+    when ${games.marketId} is not null then 'market:' || ${games.marketId}
+    when ${games.matchId} is not null then 'match:' || ${games.matchId}
+  end`,
+  [RiskSnapshotScope.SUBADMIN]: sql<string>`coalesce(${users.assignedTo}::text, 'direct')`,
+  [RiskSnapshotScope.PLAYER]: sql<string>`${games.userId}::text`,
+};
+
+const SCOPES = Object.values(RiskSnapshotScope);
+
+function groupingOf(scope: RiskSnapshotScope) {
+  return scope === RiskSnapshotScope.TOTAL ? [] : [SCOPE_KEYS[scope]];
+}
+
+const isVoided = sql`${games.result} is not distinct from ${VOIDED_BET_RESULT}`;
+const isUnsettled = sql`coalesce(${games.result}, 'pending') = 'pending'`;
+const isSettled = sql`not (${isVoided} or ${isUnsettled})`;
+
+type SnapshotFigures = {
+  scope: RiskSnapshotScope;
+  scopeKey: string;
+  betCount?: number;
+  handle?: number;
+  payouts?: number;
+  ggr?: number;
+  peakExposure?: number;
+};
+
+/**
+ * The server-local calendar date of a moment, as YYYY-MM-DD
+ */
+export function localDate(moment: Date): string {
+  const month = String(moment.getMonth() + 1).padStart(2, "0");
+  const day = String(moment.getDate()).padStart(2, "0");
+  return `${moment.getFullYear()}-${month}-${day}`;
+}
+
+// Start of a server-local day and of the day after it
+function dayBounds(day: string): [Date, Date] {
+  const start = new Date(`${day}T00:00:00`);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return [start, end];
+}
+
+function shiftDay(day: string, days: number): string {
+  const [start] = dayBounds(day);
+  start.setDate(start.getDate() + days);
+  return localDate(start);
+}
+
+/**
+ * Names for the keys of each scope, as of now
+ */
+async function labelsFor(rows: SnapshotFigures[]): Promise<Map<string, string>> {
+  const labels = new Map<string, string>();
+  const idsOf = (scope: RiskSnapshotScope, prefix = "") => Array.from(new Set(
+    rows.filter(row => row.scope === scope && row.scopeKey.startsWith(prefix))
+      .map(row => Number(row.scopeKey.slice(prefix.length)))
+      .filter(id => Number.isInteger(id))
+  ));
+
+  const userIds = Array.from(new Set([
+    ...idsOf(RiskSnapshotScope.SUBADMIN),
+    ...idsOf(RiskSnapshotScope.PLAYER),
+  ]));
+  const marketIds = idsOf(RiskSnapshotScope.MARKET, "market:");
+  const matchIds = idsOf(RiskSnapshotScope.MARKET, "match:");
+
+  const [people, markets, matches] = await Promise.all([
+    userIds.length
+      ? db.select({ id: users.id, username: users.username }).from(users).where(inArray(users.id, userIds))
+      : [],
+    marketIds.length
+      ? db.select({ id: satamatkaMarkets.id, name: satamatkaMarkets.name }).from(satamatkaMarkets).where(inArray(satamatkaMarkets.id, marketIds))
+      : [],
+    matchIds.length
+      ? db.select({ id: teamMatches.id, teamA: teamMatches.teamA, teamB: teamMatches.teamB }).from(teamMatches).where(inArray(teamMatches.id, matchIds))
+      : [],
+  ]);
+
+  for (const person of people) {
+    labels.set(`${RiskSnapshotScope.SUBADMIN}:${person.id}`, person.username);
+    labels.set(`${RiskSnapshotScope.PLAYER}:${person.id}`, person.username);
+  }
+  for (const market of markets) {
+    labels.set(`${RiskSnapshotScope.MARKET}:market:${market.id}`, market.name);
+  }
+  for (const match of matches) {
+    labels.set(`${RiskSnapshotScope.MARKET}:match:${match.id}`, `${match.teamA} vs ${match.teamB}`);
+  }
+  labels.set(`${RiskSnapshotScope.TOTAL}:all`, "All games");
+  labels.set(`${RiskSnapshotScope.SUBADMIN}:direct`, "Direct players");
+  return labels;
+}
+
+/**
+ * Write figures into a day's rows. Only the given fields are changed, so the
+ * daily totals and the exposure samples can be taken separately; the peak
+ * only ever goes up.
+ */
+async function upsertFigures(day: string, rows: SnapshotFigures[], fields: "totals" | "peak") {
+  if (!rows.length) return;
+  const labels = await labelsFor(rows);
+
+  await db.insert(riskSnapshots)
+    .values(rows.map(row => ({
+      ...row,
+      snapshotDate: day,
+      label: labels.get(`${row.scope}:${row.scopeKey}`) ?? row.scopeKey,
+    })))
+    .onConflictDoUpdate({
+      target: [riskSnapshots.snapshotDate, riskSnapshots.scope, riskSnapshots.scopeKey],
+      set: fields === "totals"
+        ? {
+          label: sql`excluded.label`,
+          betCount: sql`excluded.bet_count`,
+          handle: sql`excluded.handle`,
+          payouts: sql`excluded.payouts`,
+          ggr: sql`excluded.ggr`,
+          updatedAt: new Date(),
+        }
+        : {
+          label: sql`excluded.label`,
+          peakExposure: sql`greatest(${riskSnapshots.peakExposure}, excluded.peak_exposure)`,
+          updatedAt: new Date(),
+        },
+    });
+}
+
+/**
+ * Take the handle, payouts and GGR of the bets placed on a day, in every scope
+ */
+export async function snapshotDayTotals(day: string): Promise<number> {
+  const [start, end] = dayBounds(day);
+
+  const perScope = await Promise.all(SCOPES.map(async (scope) => {
+    const key = SCOPE_KEYS[scope];
+    const rows = await db.select({
+      scopeKey: key,
+      betCount: sql<number>`(count(*) filter (where not ${isVoided}))::int`,
+      handle: sql<number>`coalesce(sum(${games.betAmount}) filter (where not ${isVoided}), 0)::int`,
+      payouts: sql<number>`coalesce(sum(${games.payout}) filter (where ${isSettled}), 0)::int`,
+      ggr: sql<number>`coalesce(sum(${games.betAmount} - ${games.payout}) filter (where ${isSettled}), 0)::int`,
+    })
+      .from(games)
+      .innerJoin(users, eq(games.userId, users.id))
+      .where(and(gte(games.createdAt, start), lt(games.createdAt, end), isNotNull(key)))
+      .groupBy(...groupingOf(scope));
+    return rows.map(row => ({ ...row, scope, scopeKey: row.scopeKey! }));
+  }));
+
+  const rows = perScope.flat();
+  await upsertFigures(day, rows, "totals");
+  return rows.length;
+}
+
+/**
+ * Sample the potential payout of every unsettled bet, in every scope, and
+ * raise the day's peak exposure where it is higher
+ */
+export async function recordExposurePeaks(day: string): Promise<number> {
+  const perScope = await Promise.all(SCOPES.map(async (scope) => {
+    const key = SCOPE_KEYS[scope];
+    const rows = await db.select({
+      scopeKey: key,
+      peakExposure: sql<number>`coalesce(sum(${games.payout}), 0)::int`,
+    })
+      .from(games)
+      .innerJoin(users, eq(games.userId, users.id))
+      .where(and(isUnsettled, isNotNull(key)))
+      .groupBy(...groupingOf(scope));
+    return rows.map(row => ({ ...row, scope, scopeKey: row.scopeKey! }));
+  }));
+
+  const rows = perScope.flat();
+  await upsertFigures(day, rows, "peak");
+  return rows.length;
+}
+
+/**
+ * Snapshots of one scope over a range of days, oldest first
+ */
+export async function getRiskSnapshots(from: string, to: string, scope: RiskSnapshotScope): Promise<RiskSnapshot[]> {
+  return db.select()
+    .from(riskSnapshots)
+    .where(and(
+      eq(riskSnapshots.scope, scope),
+      gte(riskSnapshots.snapshotDate, from),
+      lte(riskSnapshots.snapshotDate, to),
+    ))
+    .orderBy(asc(riskSnapshots.snapshotDate), asc(riskSnapshots.label));
+}
+
+/**
+ * Sample exposure and refresh today's figures now and then on an interval.
+ * The first tick of each day, including the first after a restart, also
+ * takes the figures of the days before again, so bets that settled late and
+ * days the server was down are caught up.
+ */
+export function startRiskSnapshotJob(clock: Clock = systemClock, intervalMs: number = RISK_SNAPSHOT_INTERVAL_MS) {
+  let running = false;
+  let lastDay: string | null = null;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap a slow one
+    if (running) return;
+    running = true;
+    try {
+      const today = localDate(clock());
+      if (today !== lastDay) {
+        for (let back = RESNAPSHOT_DAYS; back >= 1; back--) {
+          await snapshotDayTotals(shiftDay(today, -back));
+        }
+        lastDay = today;
+      }
+      await recordExposurePeaks(today);
+      await snapshotDayTotals(today);
+    } catch (error) {
+      console.error("Risk snapshot tick failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  return timer;
+}
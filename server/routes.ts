@@ -0,0 +1,80 @@
+import express, { type Express } from "express";
+import { createServer, type Server } from "http";
+import path from "path";
+import { setupAuth, requireRole } from "./auth";
+import { setupWalletRoutes } from "./wallet-system";
+import { setupLedgerRoutes } from "./ledger";
+import { setupDepositCommissionEndpoints } from "./deposit-commission-endpoint";
+import { setupUploadRoutes } from "./upload-routes";
+import { attachLiveUpdates } from "./live-updates";
+import { getAdminRiskManagement, getSubadminRiskManagement, getSatamatkaLiabilityMatrix } from "./risk-management";
+import { UserRole } from "@shared/schema";
+import usersRoutes from "./users-routes";
+import satamatkaRoutes from "./satamatka-routes";
+import gamesRoutes from "./games-routes";
+import oddsRoutes from "./odds-routes";
+import commissionsRoutes from "./commissions-routes";
+import settingsRoutes from "./settings-routes";
+import betLimitsRoutes from "./bet-limits-routes";
+import riskAlertsRoutes from "./risk-alerts-routes";
+import riskSnapshotsRoutes from "./risk-snapshots-routes";
+import anomalyRoutes from "./anomaly-routes";
+import subadminCreditRoutes from "./subadmin-credit-routes";
+import jantriRoutes from "./jantri-routes";
+import teamMatchRoutes from "./team-match-routes";
+import matchMarketRoutes from "./match-market-routes";
+import fixtureImportRoutes from "./fixture-import-routes";
+import depositDiscountRoutes from "./deposit-discount-endpoint";
+import cricketTossRoutes from "./cricket-toss-api";
+import resetSystemRoutes from "./reset-system";
+
+// One router per domain, each mounted under /api
+const domainRouters: express.Router[] = [
+  usersRoutes,
+  satamatkaRoutes,
+  gamesRoutes,
+  oddsRoutes,
+  commissionsRoutes,
+  settingsRoutes,
+  betLimitsRoutes,
+  riskAlertsRoutes,
+  riskSnapshotsRoutes,
+  anomalyRoutes,
+  subadminCreditRoutes,
+  jantriRoutes,
+  teamMatchRoutes,
+  matchMarketRoutes,
+  fixtureImportRoutes,
+];
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions and /api/register, /api/login, /api/logout, /api/user
+  setupAuth(app);
+
+  // Uploaded proofs, sliders, banners and team images
+  app.use("/uploads", express.static(path.join(process.cwd(), "uploads")));
+
+  for (const router of domainRouters) {
+    app.use("/api", router);
+  }
+
+  setupWalletRoutes(app);
+  setupLedgerRoutes(app);
+  setupDepositCommissionEndpoints(app);
+  setupUploadRoutes(app);
+
+  app.use("/api/subadmin", depositDiscountRoutes);
+  app.use("/api/cricket-toss", cricketTossRoutes);
+  app.use("/api/admin", resetSystemRoutes);
+
+  app.get("/api/risk/admin", requireRole(UserRole.ADMIN), getAdminRiskManagement);
+  app.get("/api/risk/subadmin", requireRole(UserRole.SUBADMIN), getSubadminRiskManagement);
+  app.get("/api/risk/satamatka-liability", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), getSatamatkaLiabilityMatrix);
+
+  const server = createServer(app);
+
+  // Balance, settlement, wallet and exposure events for the client caches
+  attachLiveUpdates(server);
+
+  return server;
+}
@@ -0,0 +1,434 @@
+import express, { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { requireRole } from "./auth";
+import { serveContract } from "./api-contract";
+import { isValidRecurrencePattern } from "./market-schedule";
+import { postUserMovement } from "./ledger";
+import {
+  DEFAULT_SATAMATKA_ODDS,
+  SettlementError,
+  applyMarketResults,
+  declareMarketResults,
+  settleMarketById,
+  voidMarket,
+} from "./satamatka-settlement";
+import { correctionReasonSchema } from "./bet-adjustments";
+import { BetLimitError, enforceBetLimits } from "./bet-limits";
+import { RiskAlertError, assertMarketBettingOpen, checkMarketAlerts } from "./risk-alerts";
+import { previewSettlement } from "./settlement-preview";
+import { publishBetPlaced } from "./live-updates";
+import {
+  UserRole,
+  GameType,
+  MarketStatus,
+  SatamatkaGameMode,
+  JournalEntryType,
+  insertSatamatkaMarketSchema,
+  users,
+  games,
+  satamatkaMarkets,
+  type Game,
+} from "@shared/schema";
+import { apiContracts } from "@shared/api-contracts";
+
+const router = express.Router();
+
+// Valid prediction formats for each betting mode
+const PREDICTION_PATTERNS: Record<SatamatkaGameMode, RegExp> = {
+  [SatamatkaGameMode.JODI]: /^\d{2}$/,
+  [SatamatkaGameMode.HARF]: /^[ABLR]?\d$/,
+  [SatamatkaGameMode.CROSSING]: /^\d(,?\d)+$/,
+  [SatamatkaGameMode.ODD_EVEN]: /^(odd|even)$/,
+};
+
+// The admin form sends ISO strings for the market times
+const marketBodySchema = insertSatamatkaMarketSchema.extend({
+  openTime: z.coerce.date(),
+  closeTime: z.coerce.date(),
+  resultTime: z.coerce.date().nullish(),
+  nextOpenTime: z.coerce.date().nullish(),
+  nextCloseTime: z.coerce.date().nullish(),
+  lastResultedDate: z.coerce.date().nullish(),
+  recurrencePattern: z.string()
+    .refine(isValidRecurrencePattern, "Recurrence must be daily, weekdays, weekly or a five-field cron expression")
+    .nullish(),
+});
+
+const marketStatusSchema = z.object({
+  status: z.enum([MarketStatus.WAITING, MarketStatus.OPEN, MarketStatus.CLOSED, MarketStatus.RESULTED]),
+});
+
+const marketResultsSchema = z.object({
+  openResult: z.string().regex(/^\d$/, "Open result must be a single digit").optional(),
+  closeResult: z.string().regex(/^\d{2}$/, "Close result must be two digits").optional(),
+}).refine(data => data.openResult !== undefined || data.closeResult !== undefined, "A result is required");
+
+const marketCorrectionSchema = z.object({
+  openResult: z.string().regex(/^\d$/, "Open result must be a single digit").optional(),
+  closeResult: z.string().regex(/^\d{2}$/, "Close result must be two digits"),
+  reason: correctionReasonSchema,
+});
+
+const marketVoidSchema = z.object({
+  reason: correctionReasonSchema,
+});
+
+
+class BetError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Place one or more bets on an open market in a single transaction:
+ * the market's row is share-locked so it cannot close, settle or roll on to
+ * its next cycle meanwhile, the player's row is locked, the full stake is
+ * checked against the balance and every stake is posted to the ledger.
+ */
+async function placeBets(
+  userId: number,
+  marketId: number,
+  gameMode: SatamatkaGameMode,
+  bets: Array<{ prediction: string; betAmount: number }>
+): Promise<{ games: Game[]; totalBetAmount: number; balance: number }> {
+  for (const bet of bets) {
+    if (!PREDICTION_PATTERNS[gameMode].test(bet.prediction)) {
+      throw new BetError(400, `Invalid prediction "${bet.prediction}" for ${gameMode}`);
+    }
+  }
+
+  const odds = await storage.getOddsForPlayer(userId, `satamatka_${gameMode}`, DEFAULT_SATAMATKA_ODDS[gameMode]);
+  const totalBetAmount = bets.reduce((sum, bet) => sum + bet.betAmount, 0);
+
+  const result = await db.transaction(async (tx) => {
+    const [market] = await tx.select()
+      .from(satamatkaMarkets)
+      .where(eq(satamatkaMarkets.id, marketId))
+      .for('share');
+
+    if (!market) {
+      throw new BetError(404, "Market not found");
+    }
+    // The current cycle takes bets until its close time, even if the
+    // scheduler has not closed it yet
+    if (market.status !== MarketStatus.OPEN || new Date() >= market.closeTime) {
+      throw new BetError(400, "Market is not open for betting");
+    }
+
+    const [player] = await tx.select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .for('update');
+
+    if (!player) {
+      throw new BetError(404, "User not found");
+    }
+    if (player.isBlocked) {
+      throw new BetError(403, "Your account is blocked");
+    }
+    if (player.balance < totalBetAmount) {
+      throw new BetError(400, "Insufficient balance to place this bet");
+    }
+
+    await assertMarketBettingOpen(tx, marketId, bets.map(bet => ({ gameMode, prediction: bet.prediction })));
+    await enforceBetLimits(tx, player, GameType.SATAMATKA, bets.map(bet => ({
+      ...bet,
+      gameMode,
+      potentialPayout: Math.floor(bet.betAmount * odds / 10000),
+    })), marketId);
+
+    const placed: Game[] = [];
+    let balance = player.balance;
+    for (const bet of bets) {
+      const [game] = await tx.insert(games)
+        .values({
+          userId,
+          gameType: GameType.SATAMATKA,
+          betAmount: bet.betAmount,
+          prediction: bet.prediction,
+          result: "pending",
+          // Potential payout until the market is settled
+          payout: Math.floor(bet.betAmount * odds / 10000),
+          marketId,
+          gameMode,
+          gameData: { odds },
+        })
+        .returning();
+
+      balance = await postUserMovement(tx, {
+        userId,
+        amount: -bet.betAmount,
+        entryType: JournalEntryType.BET_STAKE,
+        description: `Satamatka ${gameMode} bet on ${market.name}: ${bet.prediction}`,
+        referenceType: "game",
+        referenceId: game.id,
+      });
+
+      const [withBalance] = await tx.update(games)
+        .set({ balanceAfter: balance })
+        .where(eq(games.id, game.id))
+        .returning();
+      await publishBetPlaced(tx, withBalance);
+      placed.push(withBalance);
+    }
+
+    return { games: placed, totalBetAmount, balance };
+  });
+
+  // The alert rules look at the book with these bets in it. A failing check
+  // is logged rather than failing bets that are already placed.
+  await checkMarketAlerts(marketId, userId)
+    .catch(error => console.error("Error checking risk alerts:", error));
+  return result;
+}
+
+function sendBetError(res: Response, next: NextFunction, err: unknown) {
+  if (
+    err instanceof BetError ||
+    err instanceof SettlementError ||
+    err instanceof BetLimitError ||
+    err instanceof RiskAlertError
+  ) {
+    return res.status(err.status).json({ message: err.message });
+  }
+  next(err);
+}
+
+serveContract(router, apiContracts.getSatamatkaMarkets, [], async (_req, res, next) => {
+  try {
+    res.json(await storage.getAllSatamatkaMarkets());
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.getActiveSatamatkaMarkets, [], async (_req, res, next) => {
+  try {
+    res.json(await storage.getActiveSatamatkaMarkets());
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.getSatamatkaMarket, [], async (req, res, next) => {
+  try {
+    const market = await storage.getSatamatkaMarket(req.params.id);
+    if (!market) {
+      return res.status(404).json({ message: "Market not found" });
+    }
+    res.json(market);
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.get("/satamatka/markets/:id/games", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    let marketGames = await storage.getSatamatkaGamesByMarketId(Number(req.params.id));
+
+    if (req.user!.role === UserRole.SUBADMIN) {
+      const players = await storage.getUsersByAssignedTo(req.user!.id);
+      const playerIds = new Set(players.map(player => player.id));
+      marketGames = marketGames.filter(game => playerIds.has(game.userId));
+    }
+
+    res.json(marketGames);
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post("/satamatka/markets", requireRole(UserRole.ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = marketBodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+    if (parsed.data.closeTime <= parsed.data.openTime) {
+      return res.status(400).json({ message: "Close time must be after open time" });
+    }
+
+    res.status(201).json(await storage.createSatamatkaMarket(parsed.data));
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.patch("/satamatka/markets/:id", requireRole(UserRole.ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = marketBodySchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    const market = await storage.updateSatamatkaMarket(Number(req.params.id), parsed.data);
+    if (!market) {
+      return res.status(404).json({ message: "Market not found" });
+    }
+    res.json(market);
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.delete("/satamatka/markets/:id", requireRole(UserRole.ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const marketId = Number(req.params.id);
+    const marketGames = await storage.getSatamatkaGamesByMarketId(marketId);
+    if (marketGames.length > 0) {
+      return res.status(400).json({ message: "Cannot delete a market that has bets" });
+    }
+
+    const market = await storage.getSatamatkaMarket(marketId);
+    if (!market) {
+      return res.status(404).json({ message: "Market not found" });
+    }
+
+    await db.delete(satamatkaMarkets).where(eq(satamatkaMarkets.id, marketId));
+
+    res.json({ success: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.patch("/satamatka/markets/:id/status", requireRole(UserRole.ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = marketStatusSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    const market = await storage.updateSatamatkaMarketStatus(Number(req.params.id), parsed.data.status);
+    if (!market) {
+      return res.status(404).json({ message: "Market not found" });
+    }
+    res.json(market);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Declare the open and/or close result; a close result settles the market's bets
+router.patch("/satamatka/markets/:id/results", requireRole(UserRole.ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = marketResultsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    const { market, settlement } = await declareMarketResults(Number(req.params.id), parsed.data);
+    res.json({ ...market, settledBets: settlement.settled, settlement });
+  } catch (err) {
+    sendBetError(res, next, err);
+  }
+});
+
+// Dry run of declaring results: what the settlement would pay, with nothing committed
+router.post("/satamatka/markets/:id/results/preview", requireRole(UserRole.ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = marketResultsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    const marketId = Number(req.params.id);
+    res.json(await previewSettlement({ marketId }, async (tx) => {
+      const { settlement } = await applyMarketResults(tx, marketId, parsed.data);
+      return settlement;
+    }));
+  } catch (err) {
+    sendBetError(res, next, err);
+  }
+});
+
+// Settle the market against its declared results again; bets already settled are left alone
+router.post("/satamatka/markets/:id/settle", requireRole(UserRole.ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(await settleMarketById(Number(req.params.id)));
+  } catch (err) {
+    sendBetError(res, next, err);
+  }
+});
+
+// Change a wrongly declared result; earlier payouts are reversed and the bets settled again
+router.post("/satamatka/markets/:id/correct-result", requireRole(UserRole.ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = marketCorrectionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    const { reason, ...results } = parsed.data;
+    res.json(await declareMarketResults(Number(req.params.id), results, { performedBy: req.user!.id, reason }));
+  } catch (err) {
+    sendBetError(res, next, err);
+  }
+});
+
+// Void the market's current cycle and refund every stake
+router.post("/satamatka/markets/:id/void", requireRole(UserRole.ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = marketVoidSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    res.json(await voidMarket(Number(req.params.id), { performedBy: req.user!.id, reason: parsed.data.reason }));
+  } catch (err) {
+    sendBetError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.playSatamatka, [], async (req, res, next) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const { marketId, gameMode, prediction, betAmount } = req.body;
+    const result = await placeBets(req.user.id, marketId, gameMode, [{ prediction, betAmount }]);
+
+    res.status(201).json({ game: result.games[0], balance: result.balance });
+  } catch (err) {
+    sendBetError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.playSatamatkaMultiple, [], async (req, res, next) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const { marketId, gameMode, bets } = req.body;
+    res.status(201).json(await placeBets(req.user.id, marketId, gameMode, bets));
+  } catch (err) {
+    sendBetError(res, next, err);
+  }
+});
+
+// Public: declared results, either the latest ones or those of a single day
+router.get("/public/market-results", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (typeof req.query.date === "string" && req.query.date) {
+      const start = new Date(req.query.date);
+      if (isNaN(start.getTime())) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+      const end = new Date(start.getTime() + 24 * 60 * 60 * 1000 - 1);
+      return res.json(await storage.getMarketResultsByDateRange(start, end));
+    }
+
+    const limit = Math.min(Number(req.query.limit) || 20, 100);
+    res.json(await storage.getRecentMarketResults(limit));
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,368 @@
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { postUserMovement, type LedgerExecutor } from "./ledger";
+import { paidOutAmount, postBetAdjustment, voidBet, type BetCorrection } from "./bet-adjustments";
+import { publishBetSettled } from "./live-updates";
+import {
+  MarketStatus,
+  VOIDED_BET_RESULT,
+  SatamatkaGameMode,
+  JournalEntryType,
+  games,
+  satamatkaMarkets,
+  type Game,
+  type SatamatkaMarket,
+} from "@shared/schema";
+
+// Fallback odds (x10000) for a mode that has no admin or subadmin odds configured
+export const DEFAULT_SATAMATKA_ODDS: Record<SatamatkaGameMode, number> = {
+  [SatamatkaGameMode.JODI]: 900000,
+  [SatamatkaGameMode.HARF]: 90000,
+  [SatamatkaGameMode.CROSSING]: 950000,
+  [SatamatkaGameMode.ODD_EVEN]: 19000,
+};
+
+/**
+ * How a bet was judged, stored in games.game_data.settlement.
+ * `cycleOpenTime` ties the evaluation to the market cycle it belongs to, since
+ * recurring markets reuse the same market id for every cycle.
+ */
+export type BetEvaluation = {
+  cycleOpenTime: string;
+  openResult: string | null;
+  closeResult: string;
+  won: boolean;
+  // The part of the result the prediction was matched against
+  matched: string;
+  odds: number;
+  payout: number;
+  settledAt: string;
+  // Set when the bet was judged again after a result correction
+  correction?: BetCorrection;
+};
+
+type SatamatkaGameData = {
+  odds?: number;
+  settlement?: BetEvaluation;
+  // Earlier evaluations replaced by a re-settlement, oldest first
+  previousSettlements?: BetEvaluation[];
+};
+
+export type SettlementSummary = {
+  settled: number;
+  winners: number;
+  resettled: number;
+  unchanged: number;
+  voided: number;
+  paidOut: number;
+  reversed: number;
+};
+
+export class SettlementError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Whether a bet wins against the two-digit close result, and which part of
+ * the result decided it
+ */
+export function evaluatePrediction(gameMode: string | null, prediction: string, closeResult: string): { won: boolean; matched: string } {
+  const left = closeResult[0];
+  const right = closeResult[1];
+
+  switch (gameMode) {
+    case SatamatkaGameMode.JODI:
+      return { won: prediction === closeResult, matched: closeResult };
+    case SatamatkaGameMode.HARF: {
+      const digit = prediction.slice(-1);
+      const position = prediction.length > 1 ? prediction[0] : null;
+      // A/L bets the left digit, B/R the right one, a bare digit either
+      if (position === "A" || position === "L") return { won: digit === left, matched: left };
+      if (position === "B" || position === "R") return { won: digit === right, matched: right };
+      return { won: digit === left || digit === right, matched: closeResult };
+    }
+    case SatamatkaGameMode.CROSSING: {
+      // The chosen digits cross into every jodi made of two of them, in either order
+      const digits = prediction.replace(/[^0-9]/g, "").split("");
+      const leftIndex = digits.indexOf(left);
+      const won = leftIndex !== -1 && digits.some((digit, index) => index !== leftIndex && digit === right);
+      return { won, matched: closeResult };
+    }
+    case SatamatkaGameMode.ODD_EVEN: {
+      const parity = parseInt(closeResult, 10) % 2 === 1 ? "odd" : "even";
+      return { won: parity === prediction, matched: parity };
+    }
+    default:
+      return { won: false, matched: closeResult };
+  }
+}
+
+/**
+ * The odds (x10000) a bet settles at: the player's effective odds recorded
+ * when the bet was placed
+ */
+export async function oddsForGame(game: Game): Promise<number> {
+  const recorded = (game.gameData as SatamatkaGameData | null)?.odds;
+  if (recorded) return recorded;
+
+  // Bets placed before odds were recorded on the bet settle at the player's current odds
+  const gameMode = game.gameMode as SatamatkaGameMode;
+  return storage.getOddsForPlayer(game.userId, `satamatka_${gameMode}`, DEFAULT_SATAMATKA_ODDS[gameMode]);
+}
+
+/**
+ * Whether a game was placed in the market's current cycle. Pending bets always
+ * are: every earlier cycle was settled before the market rolled over.
+ */
+function inCurrentCycle(game: Game, market: SatamatkaMarket, cycleOpenTime: string): boolean {
+  if (game.result === "pending") return true;
+  if (game.result === VOIDED_BET_RESULT) return false;
+
+  const settlement = (game.gameData as SatamatkaGameData | null)?.settlement;
+  if (settlement) return settlement.cycleOpenTime === cycleOpenTime;
+
+  // Settled before evaluations were recorded
+  return game.createdAt !== null && game.createdAt >= market.openTime;
+}
+
+/**
+ * Settle every bet of the market's current cycle against its close result.
+ *
+ * Pending bets are settled and paid. Bets already settled against the same
+ * result are left alone, so running this twice changes nothing. Bets settled
+ * against a different result are only touched as part of a `correction`:
+ * the earlier payout is reversed and the bet is judged again.
+ */
+export async function settleMarket(
+  executor: LedgerExecutor,
+  market: SatamatkaMarket,
+  correction?: BetCorrection
+): Promise<SettlementSummary> {
+  const summary: SettlementSummary = { settled: 0, winners: 0, resettled: 0, unchanged: 0, voided: 0, paidOut: 0, reversed: 0 };
+  const closeResult = market.closeResult;
+  if (!closeResult) return summary;
+
+  const cycleOpenTime = market.openTime.toISOString();
+  const marketGames = await executor.select()
+    .from(games)
+    .where(eq(games.marketId, market.id))
+    .orderBy(games.id)
+    .for('update');
+
+  for (const game of marketGames) {
+    if (!inCurrentCycle(game, market, cycleOpenTime)) continue;
+
+    const gameData = (game.gameData as SatamatkaGameData | null) ?? {};
+    const previous = gameData.settlement;
+    const isPending = game.result === "pending";
+
+    // Bets settled before evaluations were recorded count as settled against
+    // the current result unless the result is being corrected
+    if (!isPending && (previous ? previous.closeResult === closeResult : !correction)) {
+      summary.unchanged++;
+      continue;
+    }
+    if (!isPending && !correction) {
+      throw new SettlementError(409, `Bet #${game.id} was settled against another result; correct the market result instead`);
+    }
+
+    const odds = await oddsForGame(game);
+    const { won, matched } = evaluatePrediction(game.gameMode, game.prediction, closeResult);
+    const payout = won ? Math.floor(game.betAmount * odds / 10000) : 0;
+
+    const previousPayout = previous?.payout ?? paidOutAmount(game);
+    const evaluation: BetEvaluation = {
+      cycleOpenTime,
+      openResult: market.openResult,
+      closeResult,
+      won,
+      matched,
+      odds,
+      payout,
+      settledAt: new Date().toISOString(),
+      correction: isPending ? undefined : correction,
+    };
+
+    let balanceAfter = game.balanceAfter;
+    if (correction && previousPayout > 0 && previousPayout !== payout) {
+      balanceAfter = await postBetAdjustment(executor, {
+        game,
+        amount: -previousPayout,
+        entryType: JournalEntryType.BET_PAYOUT_REVERSAL,
+        description: `Satamatka payout reversed on ${market.name}: result corrected to ${closeResult}`,
+        correction,
+      });
+      summary.reversed += previousPayout;
+    }
+    if (payout > 0 && previousPayout !== payout) {
+      const description = `Satamatka win on ${market.name}: ${game.prediction}`;
+      balanceAfter = correction && !isPending
+        ? await postBetAdjustment(executor, { game, amount: payout, entryType: JournalEntryType.BET_PAYOUT, description, correction })
+        : await postUserMovement(executor, {
+          userId: game.userId,
+          amount: payout,
+          entryType: JournalEntryType.BET_PAYOUT,
+          description,
+          referenceType: "game",
+          referenceId: game.id,
+        });
+      summary.paidOut += payout;
+    }
+
+    await executor.update(games)
+      .set({
+        result: won ? "win" : "loss",
+        payout,
+        balanceAfter,
+        gameData: {
+          ...gameData,
+          settlement: evaluation,
+          previousSettlements: previous
+            ? [...(gameData.previousSettlements ?? []), previous]
+            : gameData.previousSettlements,
+        },
+      })
+      .where(eq(games.id, game.id));
+    await publishBetSettled(executor, game, isPending ? game.payout : null);
+
+    if (isPending) summary.settled++;
+    else summary.resettled++;
+    if (won) summary.winners++;
+  }
+
+  return summary;
+}
+
+async function lockMarket(executor: LedgerExecutor, marketId: number): Promise<SatamatkaMarket> {
+  const [market] = await executor.select()
+    .from(satamatkaMarkets)
+    .where(eq(satamatkaMarkets.id, marketId))
+    .for('update');
+
+  if (!market) {
+    throw new SettlementError(404, "Market not found");
+  }
+  if (market.status === MarketStatus.CANCELLED) {
+    throw new SettlementError(409, "Market has been voided");
+  }
+  return market;
+}
+
+/**
+ * Record a market's open and/or close result and settle its bets in one
+ * transaction. Changing a close result that bets were already settled
+ * against is only allowed as a `correction`.
+ */
+export async function declareMarketResults(
+  marketId: number,
+  results: { openResult?: string; closeResult?: string },
+  correction?: BetCorrection
+): Promise<{ market: SatamatkaMarket; settlement: SettlementSummary }> {
+  return db.transaction(tx => applyMarketResults(tx, marketId, results, correction));
+}
+
+/**
+ * The body of declareMarketResults, run on the caller's transaction so the
+ * settlement preview can run it and roll it back.
+ */
+export async function applyMarketResults(
+  executor: LedgerExecutor,
+  marketId: number,
+  results: { openResult?: string; closeResult?: string },
+  correction?: BetCorrection
+): Promise<{ market: SatamatkaMarket; settlement: SettlementSummary }> {
+  const current = await lockMarket(executor, marketId);
+
+  // A recurring market that rolled on has an open cycle with no result;
+  // "correcting" it would settle the new cycle's bets instead
+  if (correction && (current.status !== MarketStatus.RESULTED || current.closeResult === null)) {
+    throw new SettlementError(409, "The market's current cycle has no declared result to correct");
+  }
+  // The close result ends the cycle, so betting on it must have stopped
+  if (results.closeResult !== undefined && (current.status === MarketStatus.OPEN || current.status === MarketStatus.WAITING)) {
+    throw new SettlementError(409, "Close betting on the market before declaring its close result");
+  }
+
+  const correcting = results.closeResult !== undefined
+    && current.closeResult !== null
+    && current.closeResult !== results.closeResult;
+  if (correcting && !correction) {
+    throw new SettlementError(409, `Market already has close result ${current.closeResult}; correct the result instead`);
+  }
+
+  const update: Partial<SatamatkaMarket> = {};
+  if (results.openResult !== undefined) {
+    update.openResult = results.openResult;
+  }
+  // The close result completes the market's cycle
+  if (results.closeResult !== undefined) {
+    update.closeResult = results.closeResult;
+    update.status = MarketStatus.RESULTED;
+    update.lastResultedDate = new Date();
+  }
+
+  const [market] = await executor.update(satamatkaMarkets)
+    .set(update)
+    .where(eq(satamatkaMarkets.id, marketId))
+    .returning();
+
+  const settlement = await settleMarket(executor, market, correction);
+  return { market, settlement };
+}
+
+/**
+ * Settle a market against the results it already has, e.g. for bets left
+ * pending by an interrupted settlement. Safe to run any number of times.
+ */
+export async function settleMarketById(marketId: number): Promise<SettlementSummary> {
+  return db.transaction(async (tx) => {
+    const market = await lockMarket(tx, marketId);
+    if (!market.closeResult) {
+      throw new SettlementError(400, "Market does not have a close result");
+    }
+
+    return settleMarket(tx, market);
+  });
+}
+
+/**
+ * Void the market's current cycle: every bet's payout is reversed and its
+ * stake refunded, and the market is marked cancelled. Recurring markets roll
+ * on to their next cycle as usual.
+ */
+export async function voidMarket(
+  marketId: number,
+  correction: BetCorrection
+): Promise<{ market: SatamatkaMarket; settlement: SettlementSummary }> {
+  return db.transaction(async (tx) => {
+    const current = await lockMarket(tx, marketId);
+    const summary: SettlementSummary = { settled: 0, winners: 0, resettled: 0, unchanged: 0, voided: 0, paidOut: 0, reversed: 0 };
+
+    const cycleOpenTime = current.openTime.toISOString();
+    const marketGames = await tx.select()
+      .from(games)
+      .where(eq(games.marketId, marketId))
+      .orderBy(games.id)
+      .for('update');
+
+    for (const game of marketGames) {
+      if (!inCurrentCycle(game, current, cycleOpenTime)) continue;
+
+      const reversed = paidOutAmount(game);
+      if (await voidBet(tx, game, `${current.name} market`, correction)) {
+        summary.voided++;
+        summary.reversed += reversed;
+      }
+    }
+
+    const [market] = await tx.update(satamatkaMarkets)
+      .set({ status: MarketStatus.CANCELLED, lastResultedDate: new Date() })
+      .where(eq(satamatkaMarkets.id, marketId))
+      .returning();
+
+    return { market, settlement: summary };
+  });
+}
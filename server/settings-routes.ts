@@ -0,0 +1,32 @@
+import express from "express";
+import { storage } from "./storage";
+import { requireRole } from "./auth";
+import { serveContract } from "./api-contract";
+import { UserRole } from "@shared/schema";
+import { apiContracts } from "@shared/api-contracts";
+
+const router = express.Router();
+
+// Settings of one type, e.g. ?type=payment
+serveContract(router, apiContracts.getSettings, [], async (req, res, next) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    res.json(await storage.getSystemSettingsByType(req.query.type));
+  } catch (err) {
+    next(err);
+  }
+});
+
+serveContract(router, apiContracts.saveSetting, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    const { settingType, settingKey, settingValue } = req.body;
+    res.json(await storage.upsertSystemSetting(settingType, settingKey, settingValue));
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
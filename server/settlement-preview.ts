@@ -0,0 +1,179 @@
+import { TransactionRollbackError, and, eq, inArray, isNull, or, sql } from "drizzle-orm";
+import { db } from "./db";
+import { type LedgerExecutor } from "./ledger";
+import {
+  LedgerAccountType,
+  games,
+  journalEntries,
+  journalLines,
+  ledgerAccounts,
+  marketSelections,
+  users,
+} from "@shared/schema";
+
+export class SettlementPreviewError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// What a settlement run reports about the bets it settled
+export type SettlementRun = { settled: number; winners: number };
+
+// The Satamatka market, team match or match market being settled
+export type PreviewTarget = { marketId: number } | { matchId: number } | { matchMarketId: number };
+
+function targetBets(target: PreviewTarget) {
+  if ("marketId" in target) return eq(games.marketId, target.marketId);
+  // A match's own bets; those on its markets settle with the market
+  if ("matchId" in target) return and(eq(games.matchId, target.matchId), isNull(games.selectionId));
+  return inArray(
+    games.selectionId,
+    db.select({ id: marketSelections.id }).from(marketSelections).where(eq(marketSelections.marketId, target.matchMarketId))
+  );
+}
+
+/**
+ * What declaring a result would do, in paisa. `payout` is what the settlement
+ * credits (or, when correcting, takes back from) an account; `stake` is what
+ * the unsettled bets staked. House P&L is the stakes minus every payout.
+ */
+export type SettlementPreview = {
+  betsSettled: number;
+  winners: number;
+  totalStake: number;
+  totalPayout: number;
+  housePnl: number;
+  players: Array<{ userId: number; username: string; subadminId: number | null; stake: number; payout: number }>;
+  subadmins: Array<{ subadminId: number | null; username: string | null; playerCount: number; stake: number; payout: number }>;
+  // Commission, bonus and agent accounts the settlement moves money on
+  commissionAccounts: Array<{ accountId: number; name: string; accountType: string; amount: number }>;
+};
+
+async function unsettledStakes(executor: LedgerExecutor, target: PreviewTarget): Promise<Map<number, number>> {
+  const rows = await executor.select({
+    userId: games.userId,
+    stake: sql<number>`sum(${games.betAmount})::int`,
+  })
+    .from(games)
+    .where(and(
+      targetBets(target),
+      or(isNull(games.result), eq(games.result, "pending")),
+    ))
+    .groupBy(games.userId);
+  return new Map(rows.map(row => [row.userId, row.stake]));
+}
+
+/**
+ * Journal lines the current transaction has posted, netted per account.
+ * Rows a transaction inserts carry its id in their xmin.
+ */
+async function linesPostedInTransaction(executor: LedgerExecutor) {
+  return executor.select({
+    accountId: ledgerAccounts.id,
+    accountType: ledgerAccounts.accountType,
+    name: ledgerAccounts.name,
+    ownerId: ledgerAccounts.ownerId,
+    amount: sql<number>`sum(${journalLines.amount})::int`,
+  })
+    .from(journalLines)
+    .innerJoin(journalEntries, eq(journalLines.entryId, journalEntries.id))
+    .innerJoin(ledgerAccounts, eq(journalLines.accountId, ledgerAccounts.id))
+    .where(sql`${journalEntries}.xmin = pg_current_xact_id()::xid`)
+    .groupBy(ledgerAccounts.id);
+}
+
+async function buildPreview(
+  executor: LedgerExecutor,
+  run: SettlementRun,
+  stakes: Map<number, number>
+): Promise<SettlementPreview> {
+  const lines = await linesPostedInTransaction(executor);
+
+  const payouts = new Map<number, number>();
+  let houseMovement = 0;
+  const commissionAccounts: SettlementPreview["commissionAccounts"] = [];
+  for (const line of lines) {
+    if (line.accountType === LedgerAccountType.PLAYER && line.ownerId !== null) {
+      payouts.set(line.ownerId, line.amount);
+    } else if (line.accountType === LedgerAccountType.HOUSE) {
+      houseMovement += line.amount;
+    } else if (line.amount !== 0) {
+      commissionAccounts.push({ accountId: line.accountId, name: line.name, accountType: line.accountType, amount: line.amount });
+    }
+  }
+
+  const playerIds = Array.from(new Set([...Array.from(stakes.keys()), ...Array.from(payouts.keys())]));
+  const people = playerIds.length
+    ? await executor.select({ id: users.id, username: users.username, assignedTo: users.assignedTo })
+      .from(users)
+      .where(inArray(users.id, playerIds))
+    : [];
+
+  const players = people.map(player => ({
+    userId: player.id,
+    username: player.username,
+    subadminId: player.assignedTo,
+    stake: stakes.get(player.id) ?? 0,
+    payout: payouts.get(player.id) ?? 0,
+  })).sort((a, b) => b.payout - a.payout || a.userId - b.userId);
+
+  const bySubadmin = new Map<number | null, SettlementPreview["subadmins"][number]>();
+  for (const player of players) {
+    const group = bySubadmin.get(player.subadminId)
+      ?? { subadminId: player.subadminId, username: null, playerCount: 0, stake: 0, payout: 0 };
+    group.playerCount++;
+    group.stake += player.stake;
+    group.payout += player.payout;
+    bySubadmin.set(player.subadminId, group);
+  }
+
+  const subadminIds = Array.from(bySubadmin.keys()).filter((id): id is number => id !== null);
+  if (subadminIds.length) {
+    const subadmins = await executor.select({ id: users.id, username: users.username })
+      .from(users)
+      .where(inArray(users.id, subadminIds));
+    for (const subadmin of subadmins) {
+      bySubadmin.get(subadmin.id)!.username = subadmin.username;
+    }
+  }
+
+  const totalStake = players.reduce((sum, player) => sum + player.stake, 0);
+  return {
+    betsSettled: run.settled,
+    winners: run.winners,
+    totalStake,
+    totalPayout: players.reduce((sum, player) => sum + player.payout, 0),
+    // The house account pays every payout, so its movement is minus the payouts
+    housePnl: totalStake + houseMovement,
+    players,
+    subadmins: Array.from(bySubadmin.values()).sort((a, b) => b.payout - a.payout),
+    commissionAccounts,
+  };
+}
+
+/**
+ * Dry run of a settlement: `settle` runs the real settlement code in a
+ * transaction, the money it moved is read back from the journal, and the
+ * transaction is rolled back. Errors the settlement raises come through as
+ * they would for the real declaration.
+ */
+export async function previewSettlement(
+  target: PreviewTarget,
+  settle: (tx: LedgerExecutor) => Promise<SettlementRun>
+): Promise<SettlementPreview> {
+  let preview: SettlementPreview | undefined;
+
+  try {
+    await db.transaction(async (tx) => {
+      const stakes = await unsettledStakes(tx, target);
+      const run = await settle(tx);
+      preview = await buildPreview(tx, run, stakes);
+      tx.rollback();
+    });
+  } catch (error) {
+    if (!(error instanceof TransactionRollbackError)) throw error;
+  }
+
+  return preview!;
+}
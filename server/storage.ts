@@ -44,7 +44,7 @@ import {
 } from "@shared/schema";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
-import { eq, desc, and, lt, gt, gte, lte, ne, isNotNull, or, sql, asc, count, isNull, like, not } from 'drizzle-orm';
+import { eq, desc, and, lt, gt, gte, lte, ne, isNotNull, or, sql, asc, count, isNull, like, not, inArray } from 'drizzle-orm';
 import { pool } from "./db";
 
 /**
@@ -130,7 +130,7 @@ export interface IStorage {
   getGameOdds(gameType: string, includeSubadminOdds?: boolean): Promise<GameOdd[]>;
   getGameOddsBySubadmin(subadminId: number, gameType?: string): Promise<GameOdd[]>;
   upsertGameOdd(gameType: string, oddValue: number, setByAdmin: boolean, subadminId?: number): Promise<GameOdd>;
-  getOddsForPlayer(userId: number, gameType: string): Promise<number>;
+  getOddsForPlayer(userId: number, gameType: string, defaultOdds?: number): Promise<number>;
 
   // Admin seeding methods
   seedCricketTossGames(): Promise<void>;
@@ -328,14 +328,15 @@ export class DatabaseStorage implements IStorage {
     
     return await db.select()
       .from(games)
-      .where(sql`${games.userId} IN (${userIds.join(', ')})`)
+      .where(inArray(games.userId, userIds))
       .orderBy(desc(games.createdAt));
   }
 
   async getAllGames(limit?: number): Promise<Game[]> {
     let query = db.select()
       .from(games)
-      .orderBy(desc(games.createdAt));
+      .orderBy(desc(games.createdAt))
+      .$dynamic();
 
     if (limit) {
       query = query.limit(limit);
@@ -360,7 +361,8 @@ export class DatabaseStorage implements IStorage {
     let query = db.select()
       .from(games)
       .where(eq(games.userId, userId))
-      .orderBy(desc(games.createdAt));
+      .orderBy(desc(games.createdAt))
+      .$dynamic();
 
     if (limit) {
       query = query.limit(limit);
@@ -370,8 +372,9 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateGameStatus(gameId: number, status: string): Promise<Game | undefined> {
+    // A bet has no separate status column; its lifecycle lives in `result`
     const [game] = await db.update(games)
-      .set({ status })
+      .set({ result: status })
       .where(eq(games.id, gameId))
       .returning();
     return game;
@@ -442,8 +445,11 @@ export class DatabaseStorage implements IStorage {
       updateData.openResult = openResult;
     }
     
+    // The close result completes the market's cycle
     if (closeResult !== undefined) {
       updateData.closeResult = closeResult;
+      updateData.status = MarketStatus.RESULTED;
+      updateData.lastResultedDate = new Date();
     }
     
     const [updatedMarket] = await db.update(satamatkaMarkets)
@@ -567,7 +573,8 @@ export class DatabaseStorage implements IStorage {
   async getAllTransactions(limit?: number): Promise<Transaction[]> {
     let query = db.select()
       .from(transactions)
-      .orderBy(desc(transactions.createdAt));
+      .orderBy(desc(transactions.createdAt))
+      .$dynamic();
     
     if (limit) {
       query = query.limit(limit);
@@ -848,15 +855,15 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getGameOddsBySubadmin(subadminId: number, gameType?: string): Promise<GameOdd[]> {
-    let query = db.select()
-      .from(gameOdds)
-      .where(eq(gameOdds.subadminId, subadminId));
+    const conditions = [eq(gameOdds.subadminId, subadminId)];
     
     if (gameType) {
-      query = query.where(eq(gameOdds.gameType, gameType));
+      conditions.push(eq(gameOdds.gameType, gameType));
     }
     
-    return await query;
+    return await db.select()
+      .from(gameOdds)
+      .where(and(...conditions));
   }
   
   // Get game odd by type and subadmin - used for risk management
@@ -953,7 +960,7 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getOddsForPlayer(userId: number, gameType: string): Promise<number> {
+  async getOddsForPlayer(userId: number, gameType: string, defaultOdds: number = 200): Promise<number> {
     // Get the player's assigned subadmin
     const [user] = await db.select()
       .from(users)
@@ -970,7 +977,7 @@ export class DatabaseStorage implements IStorage {
           )
         );
       
-      return adminOdd?.oddValue || 200; // Default to 2.00 odds (stored as integer: 200)
+      return adminOdd?.oddValue || defaultOdds;
     }
     
     // Check if subadmin has custom odds for this game type
@@ -997,7 +1004,7 @@ export class DatabaseStorage implements IStorage {
         )
       );
     
-    return adminOdd?.oddValue || 200; // Default to 2.00 odds
+    return adminOdd?.oddValue || defaultOdds;
   }
 
   // Admin seeding methods
@@ -0,0 +1,68 @@
+import express, { Response, NextFunction } from "express";
+import { requireRole } from "./auth";
+import { serveContract } from "./api-contract";
+import {
+  SubadminCreditError,
+  getSubadminCredit,
+  setCreditLimit,
+  setFloatFrozen,
+  settleFloat,
+  topUpFloat,
+} from "./subadmin-credit";
+import { UserRole } from "@shared/schema";
+import { apiContracts } from "@shared/api-contracts";
+
+const router = express.Router();
+
+function sendCreditError(res: Response, next: NextFunction, err: unknown) {
+  if (err instanceof SubadminCreditError) {
+    return res.status(err.status).json({ message: err.message });
+  }
+  next(err);
+}
+
+// Subadmins can read their own credit, for the dashboard
+serveContract(router, apiContracts.getSubadminCredit, [requireRole([UserRole.ADMIN, UserRole.SUBADMIN])], async (req, res, next) => {
+  try {
+    if (req.user!.role === UserRole.SUBADMIN && req.params.id !== req.user!.id) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    res.json(await getSubadminCredit(req.params.id));
+  } catch (err) {
+    sendCreditError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.setSubadminCreditLimit, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await setCreditLimit(req.params.id, req.body.creditLimit, req.user!.id));
+  } catch (err) {
+    sendCreditError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.topUpSubadminFloat, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await topUpFloat(req.params.id, req.body.amount, req.user!.id, req.body.note));
+  } catch (err) {
+    sendCreditError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.settleSubadminFloat, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await settleFloat(req.params.id, req.user!.id, req.body.note));
+  } catch (err) {
+    sendCreditError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.setSubadminFloatFrozen, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await setFloatFrozen(req.params.id, req.body.frozen, req.user!.id));
+  } catch (err) {
+    sendCreditError(res, next, err);
+  }
+});
+
+export default router;
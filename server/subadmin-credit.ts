@@ -0,0 +1,256 @@
+import { and, desc, eq } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { db } from "./db";
+import { type LedgerExecutor } from "./ledger";
+import { formatRupees } from "@shared/money";
+import {
+  RequestType,
+  SubadminFloatMovementType,
+  UserRole,
+  subadminCredit,
+  subadminFloatMovements,
+  users,
+  type SubadminCredit,
+  type SubadminFloatMovement,
+  type WalletRequest,
+} from "@shared/schema";
+
+// How many float movements the credit view lists
+const RECENT_MOVEMENTS = 50;
+
+export class SubadminCreditError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// A subadmin's credit with how much of it is left. Subadmins who were never
+// given a limit have a zero limit and float; migrate-subadmin-credit.ts gives
+// the subadmins from before credit was enforced a starting limit.
+export type SubadminCreditView = Pick<SubadminCredit, "subadminId" | "creditLimit" | "floatBalance" | "isFrozen"> & {
+  username: string;
+  available: number;
+  updatedAt: Date | null;
+};
+
+export type FloatMovementView = SubadminFloatMovement & { performedByName: string | null };
+
+type CreditState = Pick<SubadminCredit, "creditLimit" | "floatBalance" | "isFrozen">;
+
+/**
+ * How much more the subadmin can hand out in deposits: the float plus the
+ * part of the credit limit not yet drawn
+ */
+export function availableCredit(credit: Pick<SubadminCredit, "creditLimit" | "floatBalance">): number {
+  return Math.max(credit.floatBalance + credit.creditLimit, 0);
+}
+
+/**
+ * Why approving a deposit of `amount` from this float is refused, or null
+ * when it can go ahead
+ */
+export function depositRefusal(credit: CreditState, amount: number): SubadminCreditError | null {
+  if (credit.isFrozen) {
+    return new SubadminCreditError(409, "Your float is frozen; deposits cannot be approved until the admin lifts the freeze");
+  }
+  const available = availableCredit(credit);
+  if (amount > available) {
+    return new SubadminCreditError(
+      400,
+      `Not enough credit to approve this deposit: ${formatRupees(available)} of your credit is left`,
+    );
+  }
+  return null;
+}
+
+function toView(username: string, credit: (CreditState & { updatedAt: Date | null }) | null, subadminId: number): SubadminCreditView {
+  const state = credit ?? { creditLimit: 0, floatBalance: 0, isFrozen: false, updatedAt: null };
+  return {
+    subadminId,
+    username,
+    creditLimit: state.creditLimit,
+    floatBalance: state.floatBalance,
+    isFrozen: state.isFrozen,
+    available: availableCredit(state),
+    updatedAt: state.updatedAt,
+  };
+}
+
+/**
+ * The subadmin's credit row, created on first use and locked until the
+ * caller's transaction ends so float changes apply one at a time
+ */
+async function lockCredit(executor: LedgerExecutor, subadminId: number): Promise<SubadminCredit> {
+  await executor.insert(subadminCredit).values({ subadminId }).onConflictDoNothing();
+  const [credit] = await executor.select()
+    .from(subadminCredit)
+    .where(eq(subadminCredit.subadminId, subadminId))
+    .for("update");
+  return credit;
+}
+
+async function moveFloat(
+  executor: LedgerExecutor,
+  credit: SubadminCredit,
+  movement: {
+    movementType: SubadminFloatMovementType;
+    amount: number;
+    performedBy: number;
+    walletRequestId?: number;
+    note?: string;
+  },
+): Promise<SubadminCredit> {
+  const floatAfter = credit.floatBalance + movement.amount;
+  const [updated] = await executor.update(subadminCredit)
+    .set({ floatBalance: floatAfter, updatedBy: movement.performedBy, updatedAt: new Date() })
+    .where(eq(subadminCredit.id, credit.id))
+    .returning();
+
+  await executor.insert(subadminFloatMovements).values({
+    subadminId: credit.subadminId,
+    movementType: movement.movementType,
+    amount: movement.amount,
+    floatAfter,
+    walletRequestId: movement.walletRequestId ?? null,
+    performedBy: movement.performedBy,
+    note: movement.note || null,
+  });
+  return updated;
+}
+
+/**
+ * Move the float of a subadmin who approved a wallet request for one of their
+ * players: deposits draw it down and withdrawals replenish it. Runs in the
+ * review's transaction, so a refused deposit leaves the request pending.
+ * Funds a subadmin moves directly, without a request, pass no request id.
+ */
+export async function applyApprovedRequest(
+  executor: LedgerExecutor,
+  subadminId: number,
+  request: Pick<WalletRequest, "requestType" | "amount"> & { id?: number },
+  note?: string,
+) {
+  if (request.requestType !== RequestType.DEPOSIT && request.requestType !== RequestType.WITHDRAWAL) {
+    return;
+  }
+
+  const credit = await lockCredit(executor, subadminId);
+  if (request.requestType === RequestType.DEPOSIT) {
+    const refusal = depositRefusal(credit, request.amount);
+    if (refusal) {
+      throw refusal;
+    }
+  }
+
+  await moveFloat(executor, credit, {
+    movementType: request.requestType === RequestType.DEPOSIT
+      ? SubadminFloatMovementType.DEPOSIT_APPROVED
+      : SubadminFloatMovementType.WITHDRAWAL_APPROVED,
+    amount: request.requestType === RequestType.DEPOSIT ? -request.amount : request.amount,
+    performedBy: subadminId,
+    walletRequestId: request.id,
+    note,
+  });
+}
+
+async function findSubadmin(executor: LedgerExecutor, subadminId: number) {
+  const [subadmin] = await executor.select({ id: users.id, username: users.username })
+    .from(users)
+    .where(and(eq(users.id, subadminId), eq(users.role, UserRole.SUBADMIN)));
+  if (!subadmin) {
+    throw new SubadminCreditError(404, "Subadmin not found");
+  }
+  return subadmin;
+}
+
+/**
+ * One subadmin's credit with their latest float movements
+ */
+export async function getSubadminCredit(subadminId: number) {
+  const subadmin = await findSubadmin(db, subadminId);
+  const [credit] = await db.select().from(subadminCredit).where(eq(subadminCredit.subadminId, subadminId));
+
+  const performer = alias(users, "performer");
+  const movements: FloatMovementView[] = (await db.select({
+    movement: subadminFloatMovements,
+    performedByName: performer.username,
+  })
+    .from(subadminFloatMovements)
+    .leftJoin(performer, eq(performer.id, subadminFloatMovements.performedBy))
+    .where(eq(subadminFloatMovements.subadminId, subadminId))
+    .orderBy(desc(subadminFloatMovements.createdAt), desc(subadminFloatMovements.id))
+    .limit(RECENT_MOVEMENTS))
+    .map(row => ({ ...row.movement, performedByName: row.performedByName }));
+
+  return { credit: toView(subadmin.username, credit ?? null, subadminId), movements };
+}
+
+/**
+ * Change how far below zero the subadmin's float may go. Lowering it under
+ * what is already drawn only stops further deposits.
+ */
+export async function setCreditLimit(subadminId: number, creditLimit: number, adminId: number) {
+  return db.transaction(async (tx) => {
+    const subadmin = await findSubadmin(tx, subadminId);
+    const credit = await lockCredit(tx, subadminId);
+    const [updated] = await tx.update(subadminCredit)
+      .set({ creditLimit, updatedBy: adminId, updatedAt: new Date() })
+      .where(eq(subadminCredit.id, credit.id))
+      .returning();
+    return toView(subadmin.username, updated, subadminId);
+  });
+}
+
+/**
+ * Add funds to the subadmin's float
+ */
+export async function topUpFloat(subadminId: number, amount: number, adminId: number, note?: string) {
+  return db.transaction(async (tx) => {
+    const subadmin = await findSubadmin(tx, subadminId);
+    const credit = await lockCredit(tx, subadminId);
+    const updated = await moveFloat(tx, credit, {
+      movementType: SubadminFloatMovementType.TOP_UP,
+      amount,
+      performedBy: adminId,
+      note,
+    });
+    return toView(subadmin.username, updated, subadminId);
+  });
+}
+
+/**
+ * Settle up with the subadmin: whatever they owe or hold is squared off
+ * outside the platform and the float goes back to zero
+ */
+export async function settleFloat(subadminId: number, adminId: number, note?: string) {
+  return db.transaction(async (tx) => {
+    const subadmin = await findSubadmin(tx, subadminId);
+    const credit = await lockCredit(tx, subadminId);
+    if (credit.floatBalance === 0) {
+      throw new SubadminCreditError(400, "The float is already settled");
+    }
+    const updated = await moveFloat(tx, credit, {
+      movementType: SubadminFloatMovementType.SETTLEMENT,
+      amount: -credit.floatBalance,
+      performedBy: adminId,
+      note,
+    });
+    return toView(subadmin.username, updated, subadminId);
+  });
+}
+
+/**
+ * Freeze or unfreeze the subadmin's float. A frozen float refuses deposits;
+ * withdrawals still replenish it.
+ */
+export async function setFloatFrozen(subadminId: number, frozen: boolean, adminId: number) {
+  return db.transaction(async (tx) => {
+    const subadmin = await findSubadmin(tx, subadminId);
+    const credit = await lockCredit(tx, subadminId);
+    const [updated] = await tx.update(subadminCredit)
+      .set({ isFrozen: frozen, updatedBy: adminId, updatedAt: new Date() })
+      .where(eq(subadminCredit.id, credit.id))
+      .returning();
+    return toView(subadmin.username, updated, subadminId);
+  });
+}
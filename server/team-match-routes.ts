@@ -0,0 +1,127 @@
+import express, { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { requireRole } from "./auth";
+import { serveContract } from "./api-contract";
+import { BetLimitError } from "./bet-limits";
+import { RiskAlertError } from "./risk-alerts";
+import { SettlementPreviewError, previewSettlement } from "./settlement-preview";
+import {
+  TeamMatchError,
+  closeTeamMatch,
+  createTeamMatch,
+  getMyTeamMatchBets,
+  listOpenTeamMatches,
+  listTeamMatches,
+  placeTeamMatchBet,
+  settleTeamMatch,
+  updateTeamMatch,
+  voidTeamMatch,
+} from "./team-matches";
+import { db } from "./db";
+import { UserRole } from "@shared/schema";
+import { apiContracts } from "@shared/api-contracts";
+
+const router = express.Router();
+
+function sendMatchError(res: Response, next: NextFunction, err: unknown) {
+  if (
+    err instanceof TeamMatchError ||
+    err instanceof BetLimitError ||
+    err instanceof RiskAlertError ||
+    err instanceof SettlementPreviewError
+  ) {
+    return res.status(err.status).json({ message: err.message });
+  }
+  next(err);
+}
+
+serveContract(router, apiContracts.getTeamMatches, [requireRole([UserRole.ADMIN, UserRole.SUBADMIN])], async (req, res, next) => {
+  try {
+    res.json(await listTeamMatches(req.query.sport));
+  } catch (err) {
+    sendMatchError(res, next, err);
+  }
+});
+
+// The player lobby
+serveContract(router, apiContracts.getOpenTeamMatches, [], async (req, res, next) => {
+  try {
+    res.json(await listOpenTeamMatches(req.query.sport));
+  } catch (err) {
+    sendMatchError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.createTeamMatch, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.status(201).json(await createTeamMatch(req.body));
+  } catch (err) {
+    sendMatchError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.updateTeamMatch, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await updateTeamMatch(req.params.id, req.body));
+  } catch (err) {
+    sendMatchError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.closeTeamMatch, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await closeTeamMatch(req.params.id));
+  } catch (err) {
+    sendMatchError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.settleTeamMatch, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await db.transaction((tx) => settleTeamMatch(tx, req.params.id, req.body.result)));
+  } catch (err) {
+    sendMatchError(res, next, err);
+  }
+});
+
+// Dry run of declaring a result: what the settlement would pay, with nothing committed
+router.post("/team-matches/:id/result/preview", requireRole(UserRole.ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = z.object({ result: z.string().min(1, "A result is required") }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    const matchId = Number(req.params.id);
+    res.json(await previewSettlement({ matchId }, (tx) => settleTeamMatch(tx, matchId, parsed.data.result)));
+  } catch (err) {
+    sendMatchError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.voidTeamMatch, [requireRole(UserRole.ADMIN)], async (req, res, next) => {
+  try {
+    res.json(await voidTeamMatch(req.params.id, { performedBy: req.user!.id, reason: req.body.reason }));
+  } catch (err) {
+    sendMatchError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.placeTeamMatchBet, [requireRole(UserRole.PLAYER)], async (req, res, next) => {
+  try {
+    const { bet, balance } = await placeTeamMatchBet(req.user!.id, req.params.id, req.body);
+    res.status(201).json({ game: bet, balance });
+  } catch (err) {
+    sendMatchError(res, next, err);
+  }
+});
+
+serveContract(router, apiContracts.getMyTeamMatchBets, [requireRole(UserRole.PLAYER)], async (req, res, next) => {
+  try {
+    res.json(await getMyTeamMatchBets(req.user!.id));
+  } catch (err) {
+    sendMatchError(res, next, err);
+  }
+});
+
+export default router;
@@ -0,0 +1,379 @@
+import { and, asc, desc, eq, inArray, isNull } from "drizzle-orm";
+import { db } from "./db";
+import { postUserMovement, type LedgerExecutor } from "./ledger";
+import { voidBet, type BetCorrection } from "./bet-adjustments";
+import { enforceBetLimits } from "./bet-limits";
+import { assertMatchBettingOpen, checkMatchAlerts } from "./risk-alerts";
+import { publishBetPlaced, publishBetSettled } from "./live-updates";
+import { bettingCutoff, closeMatchForBetting } from "./match-scheduler";
+import { formatRupees } from "@shared/money";
+import type { TeamMatchValues } from "@shared/api-contracts";
+import {
+  GameType,
+  JournalEntryType,
+  MatchSport,
+  SPORT_OUTCOMES,
+  TeamMatchResult,
+  games,
+  teamMatches,
+  users,
+  type Game,
+  type TeamMatch,
+} from "@shared/schema";
+
+const SPORTS: string[] = Object.values(MatchSport);
+
+export class TeamMatchError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// What the unsettled bets on one result stake and would pay, in paisa
+export type MatchBookEntry = {
+  outcome: TeamMatchResult;
+  bets: number;
+  stake: number;
+  payout: number;
+};
+
+export type TeamMatchView = TeamMatch & { book: MatchBookEntry[] };
+
+export type TeamMatchBetView = Game & { match: TeamMatch };
+
+/**
+ * The results a match can be bet on and settled with, from its sport
+ */
+export function matchOutcomes(match: Pick<TeamMatch, "category">): TeamMatchResult[] {
+  return SPORT_OUTCOMES[match.category as MatchSport] ?? [];
+}
+
+/**
+ * The match's current odds (x100) on a result, or null when the result is
+ * not one its sport offers
+ */
+export function outcomeOdds(match: Pick<TeamMatch, "category" | "oddTeamA" | "oddTeamB" | "oddDraw">, outcome: string): number | null {
+  if (!matchOutcomes(match).includes(outcome as TeamMatchResult)) return null;
+  switch (outcome) {
+    case TeamMatchResult.TEAM_A:
+      return match.oddTeamA;
+    case TeamMatchResult.TEAM_B:
+      return match.oddTeamB;
+    case TeamMatchResult.DRAW:
+      return match.oddDraw;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Stake and potential payout of unsettled bets on each result of the match
+ */
+export function buildMatchBook(
+  match: Pick<TeamMatch, "category">,
+  bets: Array<Pick<Game, "prediction" | "betAmount" | "payout">>
+): MatchBookEntry[] {
+  return matchOutcomes(match).map(outcome => {
+    const onOutcome = bets.filter(bet => bet.prediction === outcome);
+    return {
+      outcome,
+      bets: onOutcome.length,
+      stake: onOutcome.reduce((sum, bet) => sum + bet.betAmount, 0),
+      payout: onOutcome.reduce((sum, bet) => sum + bet.payout, 0),
+    };
+  });
+}
+
+function matchLabel(match: Pick<TeamMatch, "teamA" | "teamB">): string {
+  return `${match.teamA} vs ${match.teamB}`;
+}
+
+async function findMatch(executor: LedgerExecutor, matchId: number, lock?: "share" | "update"): Promise<TeamMatch> {
+  const query = executor.select()
+    .from(teamMatches)
+    .where(and(eq(teamMatches.id, matchId), inArray(teamMatches.category, SPORTS)));
+  const [match] = lock ? await query.for(lock) : await query;
+  if (!match) {
+    throw new TeamMatchError(404, "Match not found");
+  }
+  return match;
+}
+
+/**
+ * Every team match, newest first, with the book of its unsettled bets.
+ * A sport narrows the list to that sport.
+ */
+export async function listTeamMatches(sport?: MatchSport): Promise<TeamMatchView[]> {
+  const matches = await db.select()
+    .from(teamMatches)
+    .where(sport ? eq(teamMatches.category, sport) : inArray(teamMatches.category, SPORTS))
+    .orderBy(desc(teamMatches.matchTime));
+  if (matches.length === 0) return [];
+
+  const open = await db.select()
+    .from(games)
+    .where(and(
+      eq(games.gameType, GameType.TEAM_MATCH),
+      inArray(games.matchId, matches.map(match => match.id)),
+      isNull(games.result),
+    ));
+
+  return matches.map(match => ({
+    ...match,
+    book: buildMatchBook(match, open.filter(bet => bet.matchId === match.id)),
+  }));
+}
+
+/**
+ * Matches open for betting, soonest first, for the player lobby
+ */
+export async function listOpenTeamMatches(sport?: MatchSport): Promise<TeamMatch[]> {
+  return db.select()
+    .from(teamMatches)
+    .where(and(
+      sport ? eq(teamMatches.category, sport) : inArray(teamMatches.category, SPORTS),
+      eq(teamMatches.status, "open"),
+    ))
+    .orderBy(asc(teamMatches.matchTime));
+}
+
+// Draw odds are only kept for sports that offer a draw
+function matchColumns(values: TeamMatchValues) {
+  const offersDraw = SPORT_OUTCOMES[values.sport].includes(TeamMatchResult.DRAW);
+  return {
+    category: values.sport,
+    teamA: values.teamA,
+    teamB: values.teamB,
+    description: values.description || null,
+    matchTime: values.matchTime,
+    oddTeamA: values.oddTeamA,
+    oddTeamB: values.oddTeamB,
+    oddDraw: offersDraw ? values.oddDraw : null,
+  };
+}
+
+export async function createTeamMatch(values: TeamMatchValues): Promise<TeamMatch> {
+  const [match] = await db.insert(teamMatches)
+    .values({ ...matchColumns(values), status: "open", result: TeamMatchResult.PENDING })
+    .returning();
+  return match;
+}
+
+/**
+ * Edit a match still open for betting. New odds only apply to bets placed
+ * from now on. The sport cannot change once bets are on the match, since it
+ * decides which results they can be on.
+ */
+export async function updateTeamMatch(matchId: number, values: TeamMatchValues): Promise<TeamMatch> {
+  return db.transaction(async (tx) => {
+    const match = await findMatch(tx, matchId, "update");
+    if (match.status !== "open") {
+      throw new TeamMatchError(409, "Only matches open for betting can be edited");
+    }
+
+    if (values.sport !== match.category) {
+      const [bet] = await tx.select({ id: games.id })
+        .from(games)
+        .where(and(eq(games.matchId, matchId), eq(games.gameType, GameType.TEAM_MATCH)))
+        .limit(1);
+      if (bet) {
+        throw new TeamMatchError(409, "The sport cannot be changed once bets have been placed");
+      }
+    }
+
+    const [updated] = await tx.update(teamMatches)
+      .set(matchColumns(values))
+      .where(eq(teamMatches.id, matchId))
+      .returning();
+    return updated;
+  });
+}
+
+/**
+ * Stop taking bets on a match, ahead of declaring its result
+ */
+export async function closeTeamMatch(matchId: number): Promise<TeamMatch> {
+  return db.transaction(async (tx) => {
+    const match = await findMatch(tx, matchId, "update");
+    if (match.status !== "open") {
+      throw new TeamMatchError(409, "Match is not open for betting");
+    }
+    await closeMatchForBetting(tx, matchId);
+    return { ...match, status: "closed" };
+  });
+}
+
+/**
+ * Place a bet on one result of a match. The match row is share-locked so its
+ * odds cannot change between the price check and the bet being recorded at
+ * that price, and the player's row is locked while the stake is checked
+ * against the balance and the bet limits. `expectedOdds` is the price the
+ * player was quoted; when the odds have moved since, nothing is placed.
+ */
+export async function placeTeamMatchBet(
+  userId: number,
+  matchId: number,
+  bet: { prediction: string; betAmount: number; expectedOdds: number }
+): Promise<{ bet: Game; balance: number }> {
+  const placed = await db.transaction(async (tx) => {
+    const match = await findMatch(tx, matchId, "share");
+    if (match.status !== "open") {
+      throw new TeamMatchError(409, "Match is not open for betting");
+    }
+    // The scheduler closes the match at its start, but may not have run yet
+    if (new Date() >= bettingCutoff(match, 0)) {
+      throw new TeamMatchError(409, "Betting on this match has closed");
+    }
+
+    const odds = outcomeOdds(match, bet.prediction);
+    if (odds === null) {
+      throw new TeamMatchError(400, "That result cannot be bet on for this match");
+    }
+    if (odds !== bet.expectedOdds) {
+      throw new TeamMatchError(409,
+        `The odds have changed from ${(bet.expectedOdds / 100).toFixed(2)} to ${(odds / 100).toFixed(2)}`);
+    }
+    const potentialPayout = Math.floor(bet.betAmount * odds / 100);
+
+    const [player] = await tx.select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .for("update");
+    if (!player) {
+      throw new TeamMatchError(404, "User not found");
+    }
+    if (player.balance < bet.betAmount) {
+      throw new TeamMatchError(400, `Insufficient balance: you have ${formatRupees(player.balance)}`);
+    }
+
+    await assertMatchBettingOpen(tx, matchId, bet.prediction);
+    await enforceBetLimits(tx, player, GameType.TEAM_MATCH, [
+      { betAmount: bet.betAmount, prediction: bet.prediction, potentialPayout },
+    ]);
+
+    const [game] = await tx.insert(games)
+      .values({
+        userId,
+        gameType: GameType.TEAM_MATCH,
+        matchId,
+        betAmount: bet.betAmount,
+        prediction: bet.prediction,
+        // Potential payout until the match is settled
+        payout: potentialPayout,
+        acceptedOdds: odds,
+        balanceAfter: player.balance - bet.betAmount,
+      })
+      .returning();
+    await publishBetPlaced(tx, game);
+
+    const balance = await postUserMovement(tx, {
+      userId,
+      amount: -bet.betAmount,
+      entryType: JournalEntryType.BET_STAKE,
+      description: `Team match bet: ${matchLabel(match)}`,
+      referenceType: "game",
+      referenceId: game.id,
+    });
+
+    return { bet: game, balance };
+  });
+
+  // A failing alert check is logged rather than failing the placed bet
+  await checkMatchAlerts(matchId, userId)
+    .catch(error => console.error("Error checking risk alerts:", error));
+  return placed;
+}
+
+/**
+ * Declare a closed match's result and settle its unsettled bets at the odds
+ * each was accepted at. Runs on the caller's transaction so the settlement
+ * preview can run it and roll it back.
+ */
+export async function settleTeamMatch(executor: LedgerExecutor, matchId: number, result: string) {
+  const match = await findMatch(executor, matchId, "update");
+  if (match.status !== "closed") {
+    throw new TeamMatchError(409, "Close the match before declaring its result");
+  }
+  if (!matchOutcomes(match).includes(result as TeamMatchResult)) {
+    throw new TeamMatchError(400, "That result is not possible for this match");
+  }
+
+  const [updatedMatch] = await executor.update(teamMatches)
+    .set({ status: "resulted", result })
+    .where(eq(teamMatches.id, matchId))
+    .returning();
+
+  const bets = await executor.select()
+    .from(games)
+    .where(and(eq(games.matchId, matchId), eq(games.gameType, GameType.TEAM_MATCH), isNull(games.result)))
+    .for("update");
+
+  let winners = 0;
+  for (const bet of bets) {
+    const won = bet.prediction === result;
+    const odds = bet.acceptedOdds ?? outcomeOdds(match, bet.prediction) ?? 0;
+    const payout = won ? Math.floor(bet.betAmount * odds / 100) : 0;
+
+    let balanceAfter = bet.balanceAfter;
+    if (payout > 0) {
+      balanceAfter = await postUserMovement(executor, {
+        userId: bet.userId,
+        amount: payout,
+        entryType: JournalEntryType.BET_PAYOUT,
+        description: `Team match payout: ${matchLabel(match)}`,
+        referenceType: "game",
+        referenceId: bet.id,
+      });
+      winners++;
+    }
+
+    await executor.update(games)
+      .set({ result, payout, balanceAfter })
+      .where(eq(games.id, bet.id));
+    await publishBetSettled(executor, bet, bet.payout);
+  }
+
+  return { match: updatedMatch, settled: bets.length, winners };
+}
+
+/**
+ * Cancel a match: every payout is reversed and every stake refunded
+ */
+export async function voidTeamMatch(matchId: number, correction: BetCorrection) {
+  return db.transaction(async (tx) => {
+    const match = await findMatch(tx, matchId, "update");
+    if (match.status === "cancelled") {
+      throw new TeamMatchError(409, "Match is already cancelled");
+    }
+
+    const [updatedMatch] = await tx.update(teamMatches)
+      .set({ status: "cancelled", result: TeamMatchResult.CANCELLED })
+      .where(eq(teamMatches.id, matchId))
+      .returning();
+
+    const bets = await tx.select()
+      .from(games)
+      .where(and(eq(games.matchId, matchId), eq(games.gameType, GameType.TEAM_MATCH)))
+      .for("update");
+
+    let voidedBets = 0;
+    for (const bet of bets) {
+      if (await voidBet(tx, bet, matchLabel(match), correction)) {
+        voidedBets++;
+      }
+    }
+    return { match: updatedMatch, voidedBets };
+  });
+}
+
+/**
+ * A player's team match bets, newest first, with their matches
+ */
+export async function getMyTeamMatchBets(userId: number): Promise<TeamMatchBetView[]> {
+  const rows = await db.select({ game: games, match: teamMatches })
+    .from(games)
+    .innerJoin(teamMatches, eq(teamMatches.id, games.matchId))
+    .where(and(eq(games.userId, userId), eq(games.gameType, GameType.TEAM_MATCH)))
+    .orderBy(desc(games.createdAt));
+  return rows.map(({ game, match }) => ({ ...game, match }));
+}
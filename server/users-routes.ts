@@ -0,0 +1,473 @@
+import express, { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { eq, inArray, desc } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { hashPassword, requireRole } from "./auth";
+import { postUserMovement, postUserTransfer } from "./ledger";
+import { serveContract } from "./api-contract";
+import { disconnectUser } from "./live-updates";
+import {
+  UserRole,
+  JournalEntryType,
+  VOIDED_BET_RESULT,
+  users,
+  games,
+  transactions,
+  type User,
+  type Game,
+} from "@shared/schema";
+import { paisaAmountSchema } from "@shared/money";
+import { apiContracts } from "@shared/api-contracts";
+
+const router = express.Router();
+
+const balanceUpdateSchema = z.object({
+  // Signed amount in paisa: positive adds funds, negative removes them
+  amount: paisaAmountSchema.refine(amount => amount !== 0, "Amount cannot be zero"),
+  description: z.string().optional(),
+});
+
+const editUserSchema = z.object({
+  username: z.string().min(3).optional(),
+  password: z.string().min(6).optional(),
+});
+
+const resetAccountSchema = z.object({
+  userId: z.number().int(),
+  resetType: z.enum(["player", "subadmin"]),
+});
+
+function withoutPassword(user: User) {
+  const { password, ...rest } = user;
+  return rest;
+}
+
+/**
+ * Users the current admin or subadmin is allowed to manage.
+ * Admins manage everyone, subadmins only the players assigned to them.
+ */
+async function getManagedUsers(manager: Express.User): Promise<User[]> {
+  if (manager.role === UserRole.ADMIN) {
+    return storage.getAllUsers();
+  }
+  return storage.getUsersByAssignedTo(manager.id);
+}
+
+async function canManageUser(manager: Express.User, target: User): Promise<boolean> {
+  if (manager.role === UserRole.ADMIN) return true;
+  return manager.role === UserRole.SUBADMIN && target.assignedTo === manager.id;
+}
+
+function sumBy<T>(items: T[], pick: (item: T) => number) {
+  return items.reduce((sum, item) => sum + pick(item), 0);
+}
+
+function isSettled(game: Game) {
+  return !!game.result && game.result !== "pending";
+}
+
+function isWin(game: Game) {
+  // A voided bet's payout is its refunded stake
+  return isSettled(game) && game.result !== VOIDED_BET_RESULT && game.payout > 0;
+}
+
+// List users visible to the current admin/subadmin
+router.get("/users", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const assignedTo = req.query.assignedTo ? Number(req.query.assignedTo) : undefined;
+
+    let list = await getManagedUsers(req.user!);
+    if (assignedTo !== undefined && !isNaN(assignedTo)) {
+      list = list.filter(user => user.assignedTo === assignedTo);
+    }
+
+    res.json(list.map(withoutPassword));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Current player's betting statistics
+router.get("/users/stats", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const userGames = await storage.getGamesByUserId(req.user.id);
+    const settled = userGames.filter(isSettled);
+    const wins = settled.filter(isWin);
+    const recent = settled.slice(0, 20);
+
+    const gameTypeDistribution: Record<string, number> = {};
+    for (const game of userGames) {
+      gameTypeDistribution[game.gameType] = (gameTypeDistribution[game.gameType] || 0) + 1;
+    }
+
+    const favoriteGame = Object.entries(gameTypeDistribution)
+      .sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+    const totalWagered = sumBy(userGames, game => game.betAmount);
+    const totalWon = sumBy(wins, game => game.payout);
+
+    res.json({
+      totalBets: userGames.length,
+      winRate: settled.length ? (wins.length / settled.length) * 100 : 0,
+      recentWinRate: recent.length ? (recent.filter(isWin).length / recent.length) * 100 : 0,
+      totalWagered,
+      totalWon,
+      netProfit: totalWon - totalWagered,
+      gameTypeDistribution,
+      favoriteGame,
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.get("/users/:id", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const target = await storage.getUser(Number(req.params.id));
+    if (!target) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    // Subadmins can also read their own record
+    if (target.id !== req.user!.id && !(await canManageUser(req.user!, target))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    res.json(withoutPassword(target));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Add (positive amount) or remove (negative amount) funds
+router.patch("/users/:id/balance", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = balanceUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    const { amount } = parsed.data;
+    const manager = req.user!;
+    const targetId = Number(req.params.id);
+
+    const result = await db.transaction(async (tx) => {
+      const lockIds = manager.role === UserRole.SUBADMIN ? [targetId, manager.id] : [targetId];
+      const locked = await tx.select()
+        .from(users)
+        .where(inArray(users.id, lockIds))
+        .orderBy(users.id)
+        .for('update');
+
+      const target = locked.find(user => user.id === targetId);
+      if (!target) {
+        return { status: 404, message: "User not found" } as const;
+      }
+
+      if (!(await canManageUser(manager, target))) {
+        return { status: 403, message: "You can only update balances of your assigned users" } as const;
+      }
+
+      if (amount < 0 && target.balance < -amount) {
+        return { status: 400, message: "User has insufficient balance for this deduction" } as const;
+      }
+
+      const description = parsed.data.description
+        || (amount > 0 ? `Funds added by ${manager.username}` : `Funds deducted by ${manager.username}`);
+
+      let balanceAfter: number;
+      if (manager.role === UserRole.SUBADMIN) {
+        // Subadmins fund their players out of their own wallet
+        const subadmin = locked.find(user => user.id === manager.id)!;
+        if (amount > 0 && subadmin.balance < amount) {
+          return { status: 400, message: "Insufficient balance to fund this user" } as const;
+        }
+
+        const balances = await postUserTransfer(tx, {
+          fromUserId: manager.id,
+          toUserId: target.id,
+          amount,
+          description,
+          performedBy: manager.id,
+        });
+        balanceAfter = balances[target.id];
+      } else {
+        balanceAfter = await postUserMovement(tx, {
+          userId: target.id,
+          amount,
+          entryType: JournalEntryType.ADJUSTMENT,
+          description,
+          performedBy: manager.id,
+        });
+      }
+
+      await tx.insert(transactions).values({
+        userId: target.id,
+        amount,
+        balanceAfter,
+        performedBy: manager.id,
+        description,
+      });
+
+      const [updated] = await tx.select().from(users).where(eq(users.id, target.id));
+      return { status: 200, user: updated } as const;
+    });
+
+    if (result.status !== 200) {
+      return res.status(result.status).json({ message: result.message });
+    }
+
+    res.json(withoutPassword(result.user));
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.patch("/users/:id/block", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const target = await storage.getUser(Number(req.params.id));
+    if (!target) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (target.role === UserRole.ADMIN || !(await canManageUser(req.user!, target))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const updated = await storage.blockUser(target.id, req.user!.id);
+    disconnectUser(target.id);
+    res.json(updated && withoutPassword(updated));
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.patch("/users/:id/unblock", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const target = await storage.getUser(Number(req.params.id));
+    if (!target) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (!(await canManageUser(req.user!, target))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    // A subadmin cannot lift a block placed by the admin
+    if (req.user!.role === UserRole.SUBADMIN && target.blockedBy && target.blockedBy !== req.user!.id) {
+      return res.status(403).json({ message: "This user was blocked by an administrator" });
+    }
+
+    const updated = await storage.unblockUser(target.id);
+    res.json(updated && withoutPassword(updated));
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.patch("/users/:id/edit", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = editUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    const target = await storage.getUser(Number(req.params.id));
+    if (!target) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (!(await canManageUser(req.user!, target))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const { username, password } = parsed.data;
+    if (username && username !== target.username && await storage.getUserByUsername(username)) {
+      return res.status(400).json({ message: "Username already exists" });
+    }
+
+    const updated = await storage.updateUser(target.id, {
+      username,
+      password: password ? await hashPassword(password) : undefined,
+    });
+    res.json(updated && withoutPassword(updated));
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.delete("/users/:id", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const target = await storage.getUser(Number(req.params.id));
+    if (!target) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (target.role === UserRole.ADMIN || !(await canManageUser(req.user!, target))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    if (!(await storage.deleteUser(target.id))) {
+      return res.status(500).json({ message: "Failed to delete user" });
+    }
+    res.json({ success: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * Reset an account to a fresh state: zero balance, no games, no transactions.
+ * Resetting a subadmin also resets every player assigned to them.
+ */
+router.post("/users/reset-account", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = resetAccountSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    const target = await storage.getUser(parsed.data.userId);
+    if (!target) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (target.role === UserRole.ADMIN || !(await canManageUser(req.user!, target))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const resetIds = [target.id];
+    if (parsed.data.resetType === "subadmin" && target.role === UserRole.SUBADMIN) {
+      const players = await storage.getUsersByAssignedTo(target.id);
+      resetIds.push(...players.map(player => player.id));
+    }
+
+    await db.transaction(async (tx) => {
+      const locked = await tx.select()
+        .from(users)
+        .where(inArray(users.id, resetIds))
+        .orderBy(users.id)
+        .for('update');
+
+      await tx.delete(games).where(inArray(games.userId, resetIds));
+      await tx.delete(transactions).where(inArray(transactions.userId, resetIds));
+
+      // Zero balances through the ledger so the journal keeps matching users.balance
+      for (const user of locked) {
+        if (user.balance === 0) continue;
+        await postUserMovement(tx, {
+          userId: user.id,
+          amount: -user.balance,
+          entryType: JournalEntryType.ADJUSTMENT,
+          description: `Account reset by ${req.user!.username}`,
+          performedBy: req.user!.id,
+        });
+      }
+    });
+
+    res.json({ success: true, resetUserIds: resetIds });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Wallet transactions: own for players, assigned players for subadmins, all for admins
+serveContract(router, apiContracts.getTransactions, [], async (req, res, next) => {
+  try {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    if (req.user.role === UserRole.ADMIN) {
+      return res.json(await storage.getAllTransactions());
+    }
+
+    if (req.user.role === UserRole.SUBADMIN) {
+      const players = await storage.getUsersByAssignedTo(req.user.id);
+      const ids = [req.user.id, ...players.map(player => player.id)];
+      const list = await db.select()
+        .from(transactions)
+        .where(inArray(transactions.userId, ids))
+        .orderBy(desc(transactions.createdAt));
+      return res.json(list);
+    }
+
+    res.json(await storage.getTransactionsByUserId(req.user.id));
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.get("/transactions/:userId", requireRole([UserRole.ADMIN, UserRole.SUBADMIN]), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const target = await storage.getUser(Number(req.params.userId));
+    if (!target) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (!(await canManageUser(req.user!, target))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    res.json(await storage.getTransactionsByUserId(target.id));
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.get("/admin/stats", requireRole(UserRole.ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const allGames = await storage.getAllGames();
+    const settled = allGames.filter(isSettled);
+    const pending = allGames.filter(game => !isSettled(game));
+    const allTransactions = await storage.getAllTransactions();
+
+    const recentTransactions = await storage.getRecentTransactions(10);
+
+    res.json({
+      // House result: stakes taken minus payouts made
+      totalProfitLoss: sumBy(settled, game => game.betAmount - game.payout),
+      totalDeposits: sumBy(allTransactions.filter(tx => tx.amount > 0), tx => tx.amount),
+      activeBetAmount: sumBy(pending, game => game.betAmount),
+      potentialPayout: sumBy(pending, game => game.payout),
+      recentTransactions,
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.get("/subadmin/stats", requireRole(UserRole.SUBADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const players = await storage.getUsersByAssignedTo(req.user!.id);
+    const playerIds = players.map(player => player.id);
+    const playerGames = await storage.getGamesByUserIds(playerIds);
+    const playerTransactions = await storage.getWalletTransactionsByUserIds(playerIds);
+    const usernames = new Map(players.map(player => [player.id, player.username]));
+
+    const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
+    const activeIds = new Set(
+      playerGames
+        .filter(game => game.createdAt && game.createdAt.getTime() >= weekAgo)
+        .map(game => game.userId)
+    );
+
+    res.json({
+      totalProfit: sumBy(playerGames.filter(isSettled), game => game.betAmount - game.payout),
+      totalDeposits: sumBy(playerTransactions.filter(tx => tx.amount > 0), tx => tx.amount),
+      totalUsers: players.length,
+      activeUsers: activeIds.size,
+      recentGames: playerGames.slice(0, 10).map(game => ({
+        id: game.id,
+        username: usernames.get(game.userId) ?? "",
+        gameType: game.gameType,
+        betAmount: game.betAmount,
+        result: !isSettled(game) ? "pending" : isWin(game) ? "win" : "loss",
+        createdAt: game.createdAt,
+      })),
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -1,47 +1,17 @@
 import { db } from './db';
 import express, { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
-import { UserRole, walletRequests, users, transactions, systemSettings, depositCommissions, playerDepositDiscounts } from '@shared/schema';
+import { UserRole, PaymentMode, RequestStatus, RequestType, walletRequests, users, transactions, systemSettings, depositCommissions, playerDepositDiscounts, JournalEntryType, LedgerAccountType } from '@shared/schema';
 import { eq, desc, and, isNull } from 'drizzle-orm';
-
-// Payment Modes
-export const PaymentMode = {
-  UPI: 'upi',
-  BANK: 'bank',
-} as const;
-
-// Request Status
-export const RequestStatus = {
-  PENDING: 'pending',
-  APPROVED: 'approved',
-  REJECTED: 'rejected',
-} as const;
-
-// Request Type
-export const RequestType = {
-  DEPOSIT: 'deposit',
-  WITHDRAWAL: 'withdrawal',
-  PLATFORM_INVESTMENT: 'platform_investment',
-} as const;
+import { paisaAmountSchema } from '@shared/money';
+import { apiContracts } from '@shared/api-contracts';
+import { postUserMovement, postJournalEntry, getUserAccount, getSystemAccount } from './ledger';
+import { serveContract } from './api-contract';
+import { SubadminCreditError, applyApprovedRequest } from './subadmin-credit';
+import { publishLiveEvent } from './live-updates';
+import { LiveEventType } from '@shared/live-events';
 
 // Validation schemas
-export const walletRequestSchema = z.object({
-  userId: z.number(),
-  amount: z.number().positive(),
-  requestType: z.enum([RequestType.DEPOSIT, RequestType.WITHDRAWAL, RequestType.PLATFORM_INVESTMENT]),
-  paymentMode: z.enum([PaymentMode.UPI, PaymentMode.BANK]),
-  paymentDetails: z.object({
-    upiId: z.string().optional(),
-    bankName: z.string().optional(),
-    accountNumber: z.string().optional(),
-    ifscCode: z.string().optional(),
-    utrNumber: z.string().optional(),
-    transactionId: z.string().optional(),
-  }),
-  proofImageUrl: z.string().optional(),
-  notes: z.string().optional(),
-});
-
 export const adminRequestReviewSchema = z.object({
   status: z.enum([RequestStatus.APPROVED, RequestStatus.REJECTED]),
   notes: z.string().optional(),
@@ -73,19 +43,27 @@ export type WalletRequest = {
 // Helper functions for wallet requests
 export async function createWalletRequest(walletRequest: Omit<WalletRequest, 'id' | 'status' | 'reviewedBy' | 'createdAt' | 'updatedAt'>) {
   try {
-    // Store the request using Drizzle ORM
-    const result = await db.insert(walletRequests).values({
-      userId: walletRequest.userId,
-      amount: walletRequest.amount,
-      requestType: walletRequest.requestType,
-      paymentMode: walletRequest.paymentMode,
-      paymentDetails: walletRequest.paymentDetails,
-      status: RequestStatus.PENDING,
-      proofImageUrl: walletRequest.proofImageUrl || null,
-      notes: walletRequest.notes || null,
-    }).returning();
+    // Store the request and let the reviewers know in the same transaction
+    return await db.transaction(async (tx) => {
+      const [request] = await tx.insert(walletRequests).values({
+        userId: walletRequest.userId,
+        amount: walletRequest.amount,
+        requestType: walletRequest.requestType,
+        paymentMode: walletRequest.paymentMode,
+        paymentDetails: walletRequest.paymentDetails,
+        status: RequestStatus.PENDING,
+        proofImageUrl: walletRequest.proofImageUrl || null,
+        notes: walletRequest.notes || null,
+      }).returning();
 
-    return result[0];
+      await publishLiveEvent(tx, {
+        type: LiveEventType.WALLET_REQUEST_UPDATED,
+        userId: request.userId,
+        requestId: request.id,
+        status: request.status,
+      });
+      return request;
+    });
   } catch (error) {
     console.error('Error creating wallet request:', error);
     throw new Error('Failed to create wallet request');
@@ -199,6 +177,23 @@ export async function getWalletRequests(userId?: number, status?: string, reques
 // It is imported there when needed
 // Removing it here to avoid duplicate declarations
 
+/**
+ * Error raised when a wallet request cannot be reviewed in its current state.
+ * Carries an HTTP status so the route error handler can return it as-is.
+ */
+export class WalletReviewError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'WalletReviewError';
+  }
+}
+
+/**
+ * Approve or reject a wallet request.
+ * Everything runs in one transaction that locks the request and the user row,
+ * so concurrent reviews of the same request are serialized and only the first wins.
+ * When a subadmin approves, the request also moves their float (see subadmin-credit.ts).
+ */
 export async function reviewWalletRequest(
   requestId: number, 
   adminId: number, 
@@ -206,16 +201,42 @@ export async function reviewWalletRequest(
   notes?: string
 ) {
   try {
-    // Import the connection pool for raw SQL transactions
-    const { pool } = await import('./db');
-    // For transactions, we need to use the raw pool to start/commit/rollback the transaction
-    const client = await pool.connect();
-    
-    try {
-      await client.query('BEGIN');
+    return await db.transaction(async (tx) => {
+      // Lock the request so a second reviewer waits until this review commits
+      const [pendingRequest] = await tx.select()
+        .from(walletRequests)
+        .where(eq(walletRequests.id, requestId))
+        .for('update');
+      
+      if (!pendingRequest) {
+        throw new WalletReviewError('Wallet request not found', 404);
+      }
+      
+      if (pendingRequest.status !== RequestStatus.PENDING) {
+        throw new WalletReviewError(`Wallet request has already been ${pendingRequest.status}`, 409);
+      }
+      
+      // Lock the user so the balance check below cannot race with other balance changes
+      const [requestUser] = await tx.select({ balance: users.balance })
+        .from(users)
+        .where(eq(users.id, pendingRequest.userId))
+        .for('update');
+      
+      if (!requestUser) {
+        throw new WalletReviewError('User not found', 404);
+      }
+      
+      // Request amounts are stored in paisa, the same unit as the balance
+      const balanceChangePaisa = pendingRequest.requestType === RequestType.WITHDRAWAL 
+        ? -pendingRequest.amount 
+        : pendingRequest.amount;
+      
+      if (status === RequestStatus.APPROVED && requestUser.balance + balanceChangePaisa < 0) {
+        throw new WalletReviewError('Insufficient balance to approve this withdrawal', 400);
+      }
       
       // Update the request status
-      const updatedRequests = await db
+      const [request] = await tx
         .update(walletRequests)
         .set({
           status: status,
@@ -226,83 +247,73 @@ export async function reviewWalletRequest(
         .where(eq(walletRequests.id, requestId))
         .returning();
       
-      if (updatedRequests.length === 0) {
-        await client.query('ROLLBACK');
-        throw new Error('Wallet request not found');
-      }
-      
-      const request = updatedRequests[0];
+      await publishLiveEvent(tx, {
+        type: LiveEventType.WALLET_REQUEST_UPDATED,
+        userId: request.userId,
+        requestId,
+        status: request.status,
+      });
       
-      // If request is approved, update the user's balance and create a transaction record
+      // If request is approved, post it to the ledger and create a transaction record
       if (status === RequestStatus.APPROVED) {
-        // Convert amount to paisa (multiply by 100) since the balance is stored in paisa
-        // but the deposit/withdrawal amounts are entered in rupees
-        const balanceChangeRupees = request.requestType === RequestType.WITHDRAWAL 
-          ? -request.amount 
-          : request.amount;
-          
-        // Convert rupees to paisa (multiply by 100) for storage
-        const balanceChangePaisa = balanceChangeRupees * 100;
-        
-        // Update user balance with SQL function to add
-        const updatedUsersResult = await client.query(
-          'UPDATE users SET balance = balance + $1 WHERE id = $2 RETURNING *',
-          [balanceChangePaisa, request.userId]
-        );
-        
-        if (updatedUsersResult.rowCount === 0) {
-          await client.query('ROLLBACK');
-          throw new Error('User not found');
-        }
-        
-        // Get the updated user balance after the transaction
-        const updatedUser = await client.query(
-          'SELECT balance FROM users WHERE id = $1',
-          [request.userId]
-        );
-        
         // Get the admin's username and role to include in the description
-        const adminResult = await client.query(
-          'SELECT username, role FROM users WHERE id = $1',
-          [adminId]
-        );
-        
-        let adminDescription = '';
-        if (adminResult?.rowCount && adminResult.rowCount > 0) {
-          adminDescription = `${adminResult.rows[0].username} (${adminResult.rows[0].role})`;
-        } else {
-          adminDescription = `Admin #${adminId}`;
+        const [admin] = await tx.select({ username: users.username, role: users.role })
+          .from(users)
+          .where(eq(users.id, adminId))
+          .limit(1);
+        
+        const adminDescription = admin
+          ? `${admin.username} (${admin.role})`
+          : `Admin #${adminId}`;
+        
+        // Subadmins fund their players' deposits from their float, and withdrawals pay back into it
+        if (admin?.role === UserRole.SUBADMIN) {
+          await applyApprovedRequest(tx, adminId, request);
         }
         
         // Create appropriate description based on request type
         let transactionDescription;
+        let entryType: JournalEntryType;
         
         if (request.requestType === RequestType.PLATFORM_INVESTMENT) {
           transactionDescription = `Platform Investment approved by ${adminDescription}`;
+          entryType = JournalEntryType.PLATFORM_INVESTMENT;
         } else {
           transactionDescription = `${request.requestType === RequestType.DEPOSIT ? 'Deposit' : 'Withdrawal'} request processed by ${adminDescription}`;
+          entryType = request.requestType === RequestType.DEPOSIT ? JournalEntryType.DEPOSIT : JournalEntryType.WITHDRAWAL;
         }
         
+        // Post the movement against the house account; this also updates users.balance
+        const balanceAfter = await postUserMovement(tx, {
+          userId: request.userId,
+          amount: balanceChangePaisa,
+          entryType,
+          description: transactionDescription,
+          referenceType: 'wallet_request',
+          referenceId: requestId,
+          performedBy: adminId,
+        });
+        
         // Create transaction record with the player's balance after this transaction
-        await db.insert(transactions).values({
+        await tx.insert(transactions).values({
           userId: request.userId,
           amount: balanceChangePaisa, // Use the converted amount (paisa)
-          balanceAfter: updatedUser.rows[0].balance, // Include the player's updated balance
+          balanceAfter, // Include the player's updated balance
           performedBy: adminId,
           requestId: requestId,
           description: transactionDescription,
         });
       }
       
-      await client.query('COMMIT');
       return request;
-    } catch (error) {
-      await client.query('ROLLBACK');
+    });
+  } catch (error) {
+    if (error instanceof WalletReviewError) {
       throw error;
-    } finally {
-      client.release();
     }
-  } catch (error) {
+    if (error instanceof SubadminCreditError) {
+      throw new WalletReviewError(error.message, error.status);
+    }
     console.error('Error reviewing wallet request:', error);
     throw new Error('Failed to review wallet request');
   }
@@ -319,19 +330,21 @@ export async function setupDepositCommissions(app: express.Express) {
 }
 
 export function setupWalletRoutes(app: express.Express) {
+  // Routes with a shared API contract
+  const router = express.Router();
+  app.use('/api', router);
+
   // Create a new wallet request (deposit or withdrawal)
-  app.post('/api/wallet/requests', async (req: Request, res: Response, next: NextFunction) => {
+  serveContract(router, apiContracts.createWalletRequest, [], async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: 'Unauthorized' });
       }
       
-      const validatedData = walletRequestSchema.parse({
+      const newRequest = await createWalletRequest({
         ...req.body,
         userId: req.user.id,
       });
-      
-      const newRequest = await createWalletRequest(validatedData);
       res.status(201).json(newRequest);
     } catch (err) {
       next(err);
@@ -352,55 +365,46 @@ export function setupWalletRoutes(app: express.Express) {
       
       const { amount, notes } = req.body;
       
-      if (!amount || amount <= 0 || !notes) {
-        return res.status(400).json({ message: 'Invalid request data - amount and notes are required' });
+      if (!paisaAmountSchema.positive().safeParse(amount).success || !notes) {
+        return res.status(400).json({ message: 'Invalid request data - amount (in paisa) and notes are required' });
       }
       
-      // Start a transaction
-      const { pool } = await import('./db');
-      const client = await pool.connect();
-      
       try {
-        await client.query('BEGIN');
-        
-        // Convert amount to paisa for storage
-        const amountInPaisa = amount * 100;
-        
-        // Update admin's balance
-        const updatedUserResult = await client.query(
-          'UPDATE users SET balance = balance + $1 WHERE id = $2 RETURNING balance',
-          [amountInPaisa, req.user.id]
-        );
-        
-        if (updatedUserResult.rowCount === 0) {
-          await client.query('ROLLBACK');
-          return res.status(500).json({ message: 'Failed to update admin balance' });
-        }
-        
-        // Get the updated balance
-        const updatedBalance = updatedUserResult.rows[0].balance;
-        
-        // Create transaction record with special description
-        const transactionResult = await client.query(
-          'INSERT INTO transactions (user_id, amount, balance_after, performed_by, description) VALUES ($1, $2, $3, $4, $5) RETURNING *',
-          [req.user.id, amountInPaisa, updatedBalance, req.user.id, `Platform Investment: ${notes}`]
-        );
-        
-        await client.query('COMMIT');
+        const amountInPaisa: number = amount;
+        const description = `Platform Investment: ${notes}`;
+        
+        const { transaction, updatedBalance } = await db.transaction(async (tx) => {
+          // Post the investment from the house account into the admin's account
+          const updatedBalance = await postUserMovement(tx, {
+            userId: req.user.id,
+            amount: amountInPaisa,
+            entryType: JournalEntryType.PLATFORM_INVESTMENT,
+            description,
+            performedBy: req.user.id,
+          });
+          
+          // Create transaction record with special description
+          const [transaction] = await tx.insert(transactions).values({
+            userId: req.user.id,
+            amount: amountInPaisa,
+            balanceAfter: updatedBalance,
+            performedBy: req.user.id,
+            description,
+          }).returning();
+          
+          return { transaction, updatedBalance };
+        });
         
         // Return the transaction and updated user
         res.status(201).json({
-          transaction: transactionResult.rows[0],
-          userBalance: updatedBalance / 100, // Convert back to rupees for display
+          transaction,
+          userBalance: updatedBalance,
           message: 'Platform investment recorded successfully.'
         });
         
       } catch (error) {
-        await client.query('ROLLBACK');
         console.error('Investment error:', error);
         res.status(500).json({ message: 'Platform investment failed' });
-      } finally {
-        client.release();
       }
     } catch (err) {
       next(err);
@@ -437,7 +441,7 @@ export function setupWalletRoutes(app: express.Express) {
   });
   
   // Get user's own wallet requests
-  app.get('/api/wallet/my-requests', async (req: Request, res: Response, next: NextFunction) => {
+  serveContract(router, apiContracts.getMyWalletRequests, [], async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: 'Unauthorized' });
@@ -493,12 +497,15 @@ export function setupWalletRoutes(app: express.Express) {
       
       res.json(updatedRequest);
     } catch (err) {
+      if (err instanceof WalletReviewError) {
+        return res.status(err.status).json({ message: err.message });
+      }
       next(err);
     }
   });
   
   // Get payment details defined by admin
-  app.get('/api/wallet/payment-details', async (req: Request, res: Response, next: NextFunction) => {
+  serveContract(router, apiContracts.getPaymentDetails, [], async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: 'Unauthorized' });
@@ -563,7 +570,7 @@ export function setupWalletRoutes(app: express.Express) {
   });
   
   // Update payment details (admin only)
-  app.put('/api/wallet/payment-details', async (req: Request, res: Response, next: NextFunction) => {
+  serveContract(router, apiContracts.savePaymentDetails, [], async (req, res, next) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: 'Unauthorized' });
@@ -619,7 +626,7 @@ export function setupWalletRoutes(app: express.Express) {
       // Validate the request data
       const { userId, amount, transactionType, notes } = req.body;
       
-      if (!userId || !amount || amount <= 0 || !transactionType || !notes) {
+      if (!userId || !paisaAmountSchema.positive().safeParse(amount).success || (transactionType !== 'deposit' && transactionType !== 'withdraw') || !notes) {
         return res.status(400).json({ message: 'Invalid request data' });
       }
       
@@ -638,203 +645,206 @@ export function setupWalletRoutes(app: express.Express) {
         }
       }
       
-      // Start a transaction
-      const { pool } = await import('./db');
-      const client = await pool.connect();
-      
       try {
-        await client.query('BEGIN');
-        
-        // Get the user receiving funds
-        const userResult = await client.query('SELECT * FROM users WHERE id = $1', [userId]);
-        
-        if (userResult.rowCount === 0) {
-          await client.query('ROLLBACK');
-          return res.status(404).json({ message: 'User not found' });
-        }
+        const result = await db.transaction(async (tx) => {
+          // Get the user receiving funds
+          // Locked so the balance checked below is the one the entry applies to
+          const [targetUser] = await tx.select()
+            .from(users)
+            .where(eq(users.id, Number(userId)))
+            .limit(1)
+            .for('update');
+          
+          if (!targetUser) {
+            return { status: 404, message: 'User not found' } as const;
+          }
 
-        // Convert amount to paisa for storage
-        const amountInPaisa = amount * 100;
-        const actualAmount = transactionType === 'deposit' ? amountInPaisa : -amountInPaisa;
-        
-        // Special case: Admin adding funds to their own wallet (platform investment)
-        const isAdminSelfFunding = req.user.role === UserRole.ADMIN && userId === req.user.id && transactionType === 'deposit';
-        
-        // If admin is adding funds to another user/subadmin, check admin's balance
-        if (req.user.role === UserRole.ADMIN && transactionType === 'deposit' && userId !== req.user.id) {
-          // Get admin's current balance
-          const adminResult = await client.query('SELECT balance FROM users WHERE id = $1', [req.user.id]);
+          const amountInPaisa: number = amount;
+          const actualAmount = transactionType === 'deposit' ? amountInPaisa : -amountInPaisa;
           
-          // Check if target user is a subadmin for commission calculations
-          const isTargetSubadmin = userResult.rows[0].role === UserRole.SUBADMIN;
+          // Special case: Admin adding funds to their own wallet (platform investment)
+          const isAdminSelfFunding = req.user.role === UserRole.ADMIN && targetUser.id === req.user.id && transactionType === 'deposit';
+          const isTargetSubadmin = targetUser.role === UserRole.SUBADMIN;
           
-          // For transfers to subadmins, we apply the commission logic where only a percentage of funds
-          // is deducted from the admin's wallet (commission-based system)
-          let adminDeductionAmount = amountInPaisa; // Default: deduct full amount for players
+          // Amount moved into (+) or out of (-) the admin's own wallet as the counterparty.
+          // Whatever the admin's wallet does not cover is funded by (or returned to) the house.
+          let adminAmount = 0;
           
-          if (isTargetSubadmin) {
-            // Get the commission rate for this subadmin (e.g., 50% = 5000)
-            // Import from deposit-commission-endpoint.ts to get the current implementation
-            const { getSubadminDepositCommission } = await import('./deposit-commission-endpoint');
-            const commissionRate = await getSubadminDepositCommission(userId);
+          // If admin is adding funds to another user/subadmin, check admin's balance
+          if (req.user.role === UserRole.ADMIN && transactionType === 'deposit' && targetUser.id !== req.user.id) {
+            // For transfers to subadmins, we apply the commission logic where only a percentage of funds
+            // is deducted from the admin's wallet (commission-based system)
+            let adminDeductionAmount = amountInPaisa; // Default: deduct full amount for players
+            
+            if (isTargetSubadmin) {
+              // Get the commission rate for this subadmin (e.g., 50% = 5000)
+              // Import from deposit-commission-endpoint.ts to get the current implementation
+              const { getSubadminDepositCommission } = await import('./deposit-commission-endpoint');
+              const commissionRate = await getSubadminDepositCommission(targetUser.id);
+              
+              // Only deduct the commission percentage from admin's wallet, not the full amount
+              adminDeductionAmount = Math.floor((amountInPaisa * commissionRate) / 10000);
+              
+              // Log the commission calculation for debugging
+              console.log(`Transfer to subadmin ${targetUser.id}: Total amount: ${amountInPaisa}, Commission rate: ${commissionRate/100}%, Admin deduction: ${adminDeductionAmount}`);
+            }
             
-            // Calculate the amount to deduct from admin (only the commission percentage)
-            // BUG FIX: Calculate the correct commission - only deduct the commission percentage
-            // from admin's wallet, not the full amount
-            adminDeductionAmount = Math.floor((amountInPaisa * commissionRate) / 10000);
+            // Check if admin has sufficient balance for the deduction
+            const [admin] = await tx.select({ balance: users.balance })
+              .from(users)
+              .where(eq(users.id, req.user.id))
+              .limit(1);
             
-            // Log the commission calculation for debugging
-            console.log(`Transfer to subadmin ${userId}: Total amount: ${amountInPaisa}, Commission rate: ${commissionRate/100}%, Admin deduction: ${adminDeductionAmount}`);
+            if (!admin || admin.balance < adminDeductionAmount) {
+              return { 
+                status: 400, 
+                message: 'Insufficient balance to fund user. Please add funds to your admin wallet first.' 
+              } as const;
+            }
+            
+            adminAmount = -adminDeductionAmount;
           }
           
-          // Check if admin has sufficient balance for the deduction
-          if (adminResult.rowCount === 0 || adminResult.rows[0].balance < adminDeductionAmount) {
-            await client.query('ROLLBACK');
-            return res.status(400).json({ 
-              message: 'Insufficient balance to fund user. Please add funds to your admin wallet first.' 
-            });
+          // If admin is deducting funds from a user/subadmin, add those funds to admin's wallet
+          if (req.user.role === UserRole.ADMIN && transactionType === 'withdraw' && targetUser.id !== req.user.id) {
+            // First check if user has sufficient balance
+            if (targetUser.balance < amountInPaisa) {
+              return { 
+                status: 400, 
+                message: 'User has insufficient balance for this deduction.' 
+              } as const;
+            }
+            
+            // For withdrawals from subadmins, we apply the commission logic where only a percentage 
+            // of funds is added to the admin's wallet (commission-based system)
+            let adminAdditionAmount = amountInPaisa; // Default: add full amount for players
+            
+            if (isTargetSubadmin) {
+              const { getSubadminDepositCommission } = await import('./deposit-commission-endpoint');
+              const commissionRate = await getSubadminDepositCommission(targetUser.id);
+              
+              // Only add the commission percentage to admin's wallet, not the full amount
+              adminAdditionAmount = Math.floor((amountInPaisa * commissionRate) / 10000);
+              
+              // Log the commission calculation for debugging
+              console.log(`Withdrawal from subadmin ${targetUser.id}: Total amount: ${amountInPaisa}, Commission rate: ${commissionRate/100}%, Admin addition: ${adminAdditionAmount}`);
+            }
+            
+            adminAmount = adminAdditionAmount;
           }
           
-          // Deduct the calculated amount from admin's balance
-          await client.query(
-            'UPDATE users SET balance = balance - $1 WHERE id = $2',
-            [adminDeductionAmount, req.user.id]
-          );
-          
-          // Record this deduction in admin's transactions
-          const description = isTargetSubadmin 
-            ? `Fund transferred to ${userResult.rows[0].username} (${userResult.rows[0].role}) deducted from ${req.user.username} (${req.user.role}) (Commission applied)` 
-            : `Fund transferred to ${userResult.rows[0].username} (${userResult.rows[0].role}) deducted from ${req.user.username} (${req.user.role})`;
+          // Subadmins fund their players from their float, like an approved wallet request
+          if (req.user.role === UserRole.SUBADMIN) {
+            if (transactionType === 'withdraw' && targetUser.balance < amountInPaisa) {
+              return { 
+                status: 400, 
+                message: 'User has insufficient balance for this deduction.' 
+              } as const;
+            }
             
-          await client.query(
-            'INSERT INTO transactions (user_id, amount, performed_by, description, balance_after) VALUES ($1, $2, $3, $4, $5)',
-            [
-              req.user.id, 
-              -adminDeductionAmount, 
-              req.user.id, 
-              description,
-              adminResult.rows[0].balance - adminDeductionAmount
-            ]
-          );
-        }
-        
-        // If admin is deducting funds from a user/subadmin, add those funds to admin's wallet
-        if (req.user.role === UserRole.ADMIN && transactionType === 'withdraw' && userId !== req.user.id) {
-          // First check if user has sufficient balance
-          if (userResult.rows[0].balance < amountInPaisa) {
-            await client.query('ROLLBACK');
-            return res.status(400).json({ 
-              message: 'User has insufficient balance for this deduction.' 
-            });
+            await applyApprovedRequest(tx, req.user.id, {
+              requestType: transactionType === 'deposit' ? RequestType.DEPOSIT : RequestType.WITHDRAWAL,
+              amount: amountInPaisa,
+            }, `${transactionType === 'deposit' ? 'Funds added to' : 'Funds deducted from'} ${targetUser.username}`);
           }
           
-          // Check if target user is a subadmin for commission calculations
-          const isTargetSubadmin = userResult.rows[0].role === UserRole.SUBADMIN;
-          
-          // For withdrawals from subadmins, we apply the commission logic where only a percentage 
-          // of funds is added to the admin's wallet (commission-based system)
-          let adminAdditionAmount = amountInPaisa; // Default: add full amount for players
+          // Create transaction record with appropriate description
+          let transactionDescription;
           
-          if (isTargetSubadmin) {
-            // Get the commission rate for this subadmin (e.g., 50% = 5000)
-            // Import from deposit-commission-endpoint.ts to get the current implementation
-            const { getSubadminDepositCommission } = await import('./deposit-commission-endpoint');
-            const commissionRate = await getSubadminDepositCommission(userId);
-            
-            // Calculate the amount to add to admin (only the commission percentage)
-            // BUG FIX: Calculate the correct commission - only add the commission percentage
-            // to admin's wallet, not the full amount
-            adminAdditionAmount = Math.floor((amountInPaisa * commissionRate) / 10000);
-            
-            // Log the commission calculation for debugging
-            console.log(`Withdrawal from subadmin ${userId}: Total amount: ${amountInPaisa}, Commission rate: ${commissionRate/100}%, Admin addition: ${adminAdditionAmount}`);
+          if (isAdminSelfFunding) {
+            transactionDescription = `Platform Investment`;
+          } else {
+            // Include both recipient and sender information in the description
+            if (transactionType === 'deposit') {
+              // For deposit, include special info about commission for subadmin
+              transactionDescription = isTargetSubadmin && req.user.role === UserRole.ADMIN
+                ? `Fund added to ${targetUser.username} (${targetUser.role}) from ${req.user.username} (${req.user.role}) (Commission applied)`
+                : `Fund added to ${targetUser.username} (${targetUser.role}) from ${req.user.username} (${req.user.role})`;
+            } else {
+              // For withdraw, special handling for subadmin transactions with commission
+              transactionDescription = isTargetSubadmin && req.user.role === UserRole.ADMIN
+                ? `Fund deducted from ${targetUser.username} (${targetUser.role}) added to ${req.user.username} (${req.user.role}) (Commission applied)`
+                : `Fund deducted from ${targetUser.username} (${targetUser.role}) by ${req.user.username} (${req.user.role})`;
+            }
           }
           
-          // Get admin's current balance before update
-          const adminResult = await client.query('SELECT balance FROM users WHERE id = $1', [req.user.id]);
+          // Post one balanced entry: target user, admin wallet (if involved) and the house
+          const targetAccount = await getUserAccount(tx, targetUser.id);
+          const houseAccount = await getSystemAccount(tx, LedgerAccountType.HOUSE);
+          const lines = [{ accountId: targetAccount.id, amount: actualAmount }];
           
-          // Add the calculated amount to admin's balance
-          await client.query(
-            'UPDATE users SET balance = balance + $1 WHERE id = $2',
-            [adminAdditionAmount, req.user.id]
-          );
+          if (adminAmount !== 0) {
+            const adminAccount = await getUserAccount(tx, req.user.id);
+            lines.push({ accountId: adminAccount.id, amount: adminAmount });
+          }
           
-          // Record this addition in admin's transactions
-          const description = isTargetSubadmin 
-            ? `Fund added to ${req.user.username} (${req.user.role}) deducted from ${userResult.rows[0].username} (${userResult.rows[0].role}) (Commission applied)` 
-            : `Fund added to ${req.user.username} (${req.user.role}) deducted from ${userResult.rows[0].username} (${userResult.rows[0].role})`;
+          const houseAmount = -(actualAmount + adminAmount);
+          if (houseAmount !== 0) {
+            lines.push({ accountId: houseAccount.id, amount: houseAmount });
+          }
           
-          await client.query(
-            'INSERT INTO transactions (user_id, amount, performed_by, description, balance_after) VALUES ($1, $2, $3, $4, $5)',
-            [
-              req.user.id, 
-              adminAdditionAmount, 
-              req.user.id, 
+          const { balances } = await postJournalEntry(tx, {
+            entryType: isAdminSelfFunding
+              ? JournalEntryType.PLATFORM_INVESTMENT
+              : transactionType === 'deposit' ? JournalEntryType.DEPOSIT : JournalEntryType.WITHDRAWAL,
+            description: transactionDescription,
+            performedBy: req.user.id,
+            lines,
+          });
+          
+          // Record the admin's side of the transfer in admin's transactions
+          if (adminAmount !== 0) {
+            const description = adminAmount < 0
+              ? (isTargetSubadmin 
+                ? `Fund transferred to ${targetUser.username} (${targetUser.role}) deducted from ${req.user.username} (${req.user.role}) (Commission applied)` 
+                : `Fund transferred to ${targetUser.username} (${targetUser.role}) deducted from ${req.user.username} (${req.user.role})`)
+              : (isTargetSubadmin 
+                ? `Fund added to ${req.user.username} (${req.user.role}) deducted from ${targetUser.username} (${targetUser.role}) (Commission applied)` 
+                : `Fund added to ${req.user.username} (${req.user.role}) deducted from ${targetUser.username} (${targetUser.role})`);
+            
+            await tx.insert(transactions).values({
+              userId: req.user.id,
+              amount: adminAmount,
+              performedBy: req.user.id,
               description,
-              adminResult.rows[0].balance + adminAdditionAmount
-            ]
-          );
-        }
-        
-        // Update user balance
-        const updatedUserResult = await client.query(
-          'UPDATE users SET balance = balance + $1 WHERE id = $2 RETURNING balance',
-          [actualAmount, userId]
-        );
-        
-        if (updatedUserResult.rowCount === 0) {
-          await client.query('ROLLBACK');
-          return res.status(500).json({ message: 'Failed to update user balance' });
-        }
-        
-        // Get the updated balance
-        const updatedBalance = updatedUserResult.rows[0].balance;
-        
-        // Create transaction record with appropriate description
-        let transactionDescription;
-        
-        if (isAdminSelfFunding) {
-          transactionDescription = `Platform Investment`;
-        } else {
-          // Include both recipient and sender information in the description
-          if (transactionType === 'deposit') {
-            // For deposit, include special info about commission for subadmin
-            const isSubadminReceivingFunds = userResult.rows[0].role === UserRole.SUBADMIN;
-            transactionDescription = isSubadminReceivingFunds && req.user.role === UserRole.ADMIN
-              ? `Fund added to ${userResult.rows[0].username} (${userResult.rows[0].role}) from ${req.user.username} (${req.user.role}) (Commission applied)`
-              : `Fund added to ${userResult.rows[0].username} (${userResult.rows[0].role}) from ${req.user.username} (${req.user.role})`;
-          } else {
-            // For withdraw, special handling for subadmin transactions with commission
-            const isSubadminLosingFunds = userResult.rows[0].role === UserRole.SUBADMIN && req.user.role === UserRole.ADMIN;
-            transactionDescription = isSubadminLosingFunds
-              ? `Fund deducted from ${userResult.rows[0].username} (${userResult.rows[0].role}) added to ${req.user.username} (${req.user.role}) (Commission applied)`
-              : `Fund deducted from ${userResult.rows[0].username} (${userResult.rows[0].role}) by ${req.user.username} (${req.user.role})`;
+              balanceAfter: balances[req.user.id],
+            });
           }
-        }
-        
-        const transactionResult = await client.query(
-          'INSERT INTO transactions (user_id, amount, balance_after, performed_by, description) VALUES ($1, $2, $3, $4, $5) RETURNING *',
-          [userId, actualAmount, updatedBalance, req.user.id, transactionDescription]
-        );
+          
+          // Get the updated balance
+          const updatedBalance = balances[targetUser.id];
+          
+          const [transaction] = await tx.insert(transactions).values({
+            userId: targetUser.id,
+            amount: actualAmount,
+            balanceAfter: updatedBalance,
+            performedBy: req.user.id,
+            description: transactionDescription,
+          }).returning();
+          
+          return { status: 201, transaction, updatedBalance, isAdminSelfFunding } as const;
+        });
         
-        await client.query('COMMIT');
+        if (result.status !== 201) {
+          return res.status(result.status).json({ message: result.message });
+        }
         
         // Return the transaction and updated user
         res.status(201).json({
-          transaction: transactionResult.rows[0],
-          userBalance: updatedBalance / 100, // Convert back to rupees for display
-          message: isAdminSelfFunding ? 'Platform investment recorded successfully.' : 'Transaction completed successfully.'
+          transaction: result.transaction,
+          userBalance: result.updatedBalance,
+          message: result.isAdminSelfFunding ? 'Platform investment recorded successfully.' : 'Transaction completed successfully.'
         });
         
       } catch (error) {
-        await client.query('ROLLBACK');
+        if (error instanceof SubadminCreditError) {
+          return res.status(error.status).json({ message: error.message });
+        }
         console.error('Transaction error:', error);
         res.status(500).json({ message: 'Transaction failed' });
-      } finally {
-        client.release();
       }
     } catch (err) {
       next(err);
     }
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,130 @@
+/**
+ * A small zip reader for uploaded archives: reads the central directory and
+ * inflates stored or deflated entries with zlib, so nothing else is needed.
+ * Encrypted entries, zip64 and multi-disk archives are not supported.
+ */
+import path from "path";
+import zlib from "zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+// The end record is 22 bytes, followed by a comment of up to 64KB
+const END_RECORD_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const CENTRAL_ENTRY_SIZE = 46;
+const LOCAL_HEADER_SIZE = 30;
+
+export class ZipError extends Error {}
+
+// Where an entry's data sits in the archive, and how big it says it is
+export type ZipEntry = {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  dataStart: number;
+};
+
+// Offsets and lengths come from the upload, so each is checked before use
+function checkBounds(archive: Buffer, offset: number, length: number) {
+  if (offset < 0 || length < 0 || offset + length > archive.length) {
+    throw new ZipError("The zip archive is damaged");
+  }
+}
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+  const earliest = Math.max(0, archive.length - END_RECORD_SIZE - MAX_COMMENT_SIZE);
+  for (let offset = archive.length - END_RECORD_SIZE; offset >= earliest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new ZipError("Not a zip archive");
+}
+
+/**
+ * The files in a zip archive by file name, without their folders, read from
+ * the central directory without inflating anything. Folder entries and macOS
+ * resource forks are skipped; when two folders hold the same file name the
+ * first one wins.
+ */
+export function listZipEntries(archive: Buffer): Map<string, ZipEntry> {
+  if (archive.length < END_RECORD_SIZE) throw new ZipError("Not a zip archive");
+
+  const end = findEndOfCentralDirectory(archive);
+  const entryCount = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+
+  const entries = new Map<string, ZipEntry>();
+  for (let index = 0; index < entryCount; index++) {
+    checkBounds(archive, offset, CENTRAL_ENTRY_SIZE);
+    if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new ZipError("The zip archive is damaged");
+    }
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    checkBounds(archive, offset + CENTRAL_ENTRY_SIZE, nameLength);
+    const entryName = archive.toString("utf8", offset + CENTRAL_ENTRY_SIZE, offset + CENTRAL_ENTRY_SIZE + nameLength);
+    offset += CENTRAL_ENTRY_SIZE + nameLength + extraLength + commentLength;
+
+    const name = path.posix.basename(entryName);
+    if (entryName.endsWith("/") || entryName.startsWith("__MACOSX/") || !name || entries.has(name)) {
+      continue;
+    }
+    if (flags & 0x1) throw new ZipError(`${name} is encrypted`);
+    if (method !== METHOD_STORED && method !== METHOD_DEFLATED) {
+      throw new ZipError(`${name} uses an unsupported compression method`);
+    }
+
+    // The data follows the local header, whose name and extra field lengths
+    // can differ from the central directory's
+    checkBounds(archive, localOffset, LOCAL_HEADER_SIZE);
+    if (archive.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new ZipError("The zip archive is damaged");
+    }
+    const dataStart = localOffset + LOCAL_HEADER_SIZE +
+      archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    checkBounds(archive, dataStart, compressedSize);
+
+    entries.set(name, { name, method, compressedSize, size, dataStart });
+  }
+
+  return entries;
+}
+
+/**
+ * The contents of one entry. Entries larger than `maxSize`, whether by their
+ * declared size or once inflated, are refused rather than read.
+ */
+export function extractZipEntry(archive: Buffer, entry: ZipEntry, maxSize: number): Buffer {
+  if (entry.size > maxSize) {
+    throw new ZipError(`${entry.name} is larger than ${Math.floor(maxSize / (1024 * 1024))}MB`);
+  }
+  checkBounds(archive, entry.dataStart, entry.compressedSize);
+  const data = archive.subarray(entry.dataStart, entry.dataStart + entry.compressedSize);
+
+  if (entry.method === METHOD_STORED) {
+    if (data.length !== entry.size) throw new ZipError("The zip archive is damaged");
+    return Buffer.from(data);
+  }
+
+  try {
+    // Capped at the declared size, so an entry that lies about it cannot
+    // inflate past it
+    const inflated = zlib.inflateRawSync(data, { maxOutputLength: Math.max(entry.size, 1) });
+    if (inflated.length !== entry.size) throw new ZipError("The zip archive is damaged");
+    return inflated;
+  } catch (err) {
+    if (err instanceof ZipError) throw err;
+    throw new ZipError(`${entry.name} could not be inflated`);
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Settle a Satamatka market against its declared results.
+ * Bets left pending are settled; bets already settled against the same result
+ * are left alone, so this is safe to re-run. Wrongly declared results are
+ * corrected through POST /api/satamatka/markets/:id/correct-result instead.
+ *
+ * Usage: npx tsx settle-market.ts <marketId>
+ */
+import 'dotenv/config';
+import { pool } from './server/db';
+import { settleMarketById } from './server/satamatka-settlement';
+
+async function run() {
+  const marketId = Number(process.argv[2]);
+  if (!Number.isInteger(marketId) || marketId <= 0) {
+    console.error('Usage: npx tsx settle-market.ts <marketId>');
+    process.exit(1);
+  }
+
+  let failed = false;
+  try {
+    const summary = await settleMarketById(marketId);
+    console.log(`Market ${marketId}:`, summary);
+  } catch (error) {
+    failed = true;
+    console.error('Settlement failed:', error instanceof Error ? error.message : error);
+  } finally {
+    await pool.end();
+    process.exit(failed ? 1 : 0);
+  }
+}
+
+run();
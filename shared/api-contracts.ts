@@ -0,0 +1,830 @@
+import { z } from "zod";
+import {
+  GameType,
+  PaymentMode,
+  RequestType,
+  GameOutcome,
+  SatamatkaGameMode,
+  RiskAlertRuleType,
+  RiskSuspendScope,
+  RiskSnapshotScope,
+  AnomalyStatus,
+  MatchSport,
+  MatchMarketType,
+  SPORT_OUTCOMES,
+  TeamMatchResult,
+  insertSystemSettingSchema,
+  type User,
+  type Game,
+  type GameOdd,
+  type SatamatkaMarket,
+  type TeamMatch,
+  type MatchMarket,
+  type MarketSelection,
+  type SystemSetting,
+  type SubadminCommission,
+  type UserDiscount,
+  type Transaction,
+  type WalletRequest,
+  type RiskAlert,
+  type RiskAlertRule,
+  type BettingSuspension,
+  type RiskSnapshot,
+  type AnomalyFinding,
+  type SubadminCredit,
+  type SubadminFloatMovement,
+} from "./schema";
+import { paisaAmountSchema } from "./money";
+import { clientSeedSchema, type CoinFlipSeedState } from "./provably-fair";
+
+/**
+ * API route contracts shared by the server and the client.
+ *
+ * Each contract declares a route once: its method, its path below /api, and
+ * zod schemas for the path params, query string, request body and response.
+ * The server validates requests against them (server/api-contract.ts) and the
+ * client hooks in client/src/lib/api.generated.ts are generated from them
+ * (`npm run generate:api`).
+ *
+ * Response schemas only type the payload; the server is trusted to send it.
+ */
+
+// Every contract path is mounted below this prefix
+export const API_PREFIX = "/api";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface ApiContract {
+  method: HttpMethod;
+  path: string;
+  params?: z.ZodTypeAny;
+  query?: z.ZodTypeAny;
+  body?: z.ZodTypeAny;
+  response: z.ZodTypeAny;
+}
+
+export function defineContract<C extends ApiContract>(contract: C): C {
+  return contract;
+}
+
+// Values as they arrive over JSON: dates become ISO strings
+export type Serialized<T> =
+  T extends Date ? string :
+  T extends Array<infer U> ? Serialized<U>[] :
+  T extends object ? { [K in keyof T]: Serialized<T[K]> } :
+  T;
+
+type SchemaOf<C, K extends "params" | "query" | "body"> =
+  C extends { [key in K]: infer S extends z.ZodTypeAny } ? S : never;
+
+// What the server handler sees after validation
+export type ContractParams<C extends ApiContract> = z.output<SchemaOf<C, "params">>;
+export type ContractQuery<C extends ApiContract> = z.output<SchemaOf<C, "query">>;
+export type ContractBody<C extends ApiContract> = z.output<SchemaOf<C, "body">>;
+export type ContractResult<C extends ApiContract> = z.output<C["response"]>;
+
+// What the client sends and receives
+export type ContractInput<C extends ApiContract> =
+  ([SchemaOf<C, "params">] extends [never] ? {} : { params: z.input<SchemaOf<C, "params">> }) &
+  ([SchemaOf<C, "query">] extends [never] ? {} : { query: z.input<SchemaOf<C, "query">> }) &
+  ([SchemaOf<C, "body">] extends [never] ? {} : { body: z.input<SchemaOf<C, "body">> });
+export type ContractResponse<C extends ApiContract> = Serialized<ContractResult<C>>;
+
+/**
+ * Fill the :params of a contract path and append its query string
+ */
+export function contractUrl(
+  contract: ApiContract,
+  params: Record<string, unknown> = {},
+  query: Record<string, unknown> = {},
+): string {
+  const path = contract.path.replace(/:(\w+)/g, (_, key: string) => encodeURIComponent(String(params[key])));
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null) {
+      search.set(key, String(value));
+    }
+  }
+
+  const queryString = search.toString();
+  return `${API_PREFIX}${path}${queryString ? `?${queryString}` : ""}`;
+}
+
+const idParamsSchema = z.object({ id: z.coerce.number().int() });
+const gameTypeQuerySchema = z.object({ gameType: z.string().min(1, "gameType is required") });
+
+// Response payload types
+const userView = z.custom<Omit<User, "password">>();
+const gameView = z.custom<Game>();
+const gameOddView = z.custom<GameOdd>();
+const marketView = z.custom<SatamatkaMarket>();
+const settingView = z.custom<SystemSetting>();
+const transactionView = z.custom<Transaction>();
+const successView = z.object({ success: z.literal(true) });
+
+// Bets come back with the market or match they were placed on
+const gameWithTargetsView = z.custom<Game & { market: SatamatkaMarket | null; match: TeamMatch | null }>();
+
+// Odds are stored x10000 (19500 = 1.95x)
+const oddValueSchema = z.number().int("Odds must be sent x10000 as a whole number").positive();
+
+// Commission and discount rates are basis points (500 = 5%)
+const rateSchema = z.number().int().min(0).max(10000);
+
+const satamatkaGameModeSchema = z.enum([
+  SatamatkaGameMode.JODI,
+  SatamatkaGameMode.HARF,
+  SatamatkaGameMode.CROSSING,
+  SatamatkaGameMode.ODD_EVEN,
+]);
+
+const betSchema = z.object({
+  prediction: z.string().trim().min(1),
+  betAmount: paisaAmountSchema.positive("Bet amount must be positive"),
+});
+
+// Stake limits in paisa; null leaves a limit unset
+const stakeLimitSchema = paisaAmountSchema.positive("Limits must be positive").nullable();
+
+export const betLimitScopeSchema = z.object({
+  limits: z.array(z.object({
+    gameType: z.enum([GameType.SATAMATKA, GameType.CRICKET_TOSS, GameType.TEAM_MATCH, GameType.MATCH_MARKET, GameType.COIN_FLIP]),
+    minStake: stakeLimitSchema,
+    maxStake: stakeLimitSchema,
+    dailyStakeCap: stakeLimitSchema,
+    maxNumberLiability: stakeLimitSchema,
+  }).refine(
+    limit => limit.minStake === null || limit.maxStake === null || limit.minStake <= limit.maxStake,
+    "Minimum stake cannot be above the maximum stake"
+  )),
+  maxExposure: stakeLimitSchema,
+});
+
+export type BetLimitScope = z.output<typeof betLimitScopeSchema>;
+
+// Thresholds are paisa, except the player share rule which takes a percentage
+export const riskAlertRuleSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  ruleType: z.enum([
+    RiskAlertRuleType.JODI_LIABILITY,
+    RiskAlertRuleType.PLAYER_EXPOSURE_SHARE,
+    RiskAlertRuleType.TOSS_IMBALANCE,
+  ]),
+  threshold: z.number().int("Threshold must be a whole number").positive("Threshold must be positive"),
+  suspendScope: z.enum([RiskSuspendScope.NONE, RiskSuspendScope.NUMBER, RiskSuspendScope.MARKET]),
+  isActive: z.boolean(),
+}).refine(
+  rule => rule.ruleType !== RiskAlertRuleType.PLAYER_EXPOSURE_SHARE || rule.threshold < 100,
+  "A player share threshold is a percentage below 100"
+).refine(
+  rule => rule.ruleType !== RiskAlertRuleType.PLAYER_EXPOSURE_SHARE || rule.suspendScope !== RiskSuspendScope.NUMBER,
+  "A player share rule can only suspend the whole market or match"
+);
+
+// Alerts and suspensions carry the names of what they are about
+const riskAlertView = z.custom<RiskAlert & { marketName: string | null; matchName: string | null; username: string | null }>();
+const bettingSuspensionView = z.custom<BettingSuspension & { marketName: string | null; matchName: string | null }>();
+
+// Longest range of daily risk snapshots served at once
+export const MAX_RISK_SNAPSHOT_DAYS = 92;
+
+const snapshotDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const riskSnapshotQuerySchema = z.object({
+  from: snapshotDateSchema,
+  to: snapshotDateSchema,
+  scope: z.enum([
+    RiskSnapshotScope.TOTAL,
+    RiskSnapshotScope.GAME,
+    RiskSnapshotScope.MARKET,
+    RiskSnapshotScope.SUBADMIN,
+    RiskSnapshotScope.PLAYER,
+  ]).default(RiskSnapshotScope.TOTAL),
+}).refine(
+  range => range.from <= range.to,
+  "The range must start before it ends"
+).refine(
+  range => Date.parse(range.to) - Date.parse(range.from) < MAX_RISK_SNAPSHOT_DAYS * 24 * 60 * 60 * 1000,
+  `The range can cover at most ${MAX_RISK_SNAPSHOT_DAYS} days`
+);
+
+// Findings carry the users, bets and withdrawal requests they are based on
+const anomalyFindingView = z.custom<AnomalyFinding & {
+  subadminName: string | null;
+  marketName: string | null;
+  users: Array<{ id: number; username: string; subadminId: number | null }>;
+  bets: Array<{
+    id: number;
+    userId: number;
+    gameType: string;
+    prediction: string;
+    betAmount: number;
+    payout: number;
+    result: string | null;
+    createdAt: Date | null;
+  }>;
+  walletRequests: Array<{ id: number; userId: number; amount: number; paymentMode: string; status: string; createdAt: Date | null }>;
+}>();
+
+export const anomalyReviewSchema = z.object({
+  status: z.enum([AnomalyStatus.CONFIRMED, AnomalyStatus.DISMISSED]),
+  note: z.string().trim().max(500).optional(),
+});
+
+const subadminCreditView = z.custom<Pick<SubadminCredit, "subadminId" | "creditLimit" | "floatBalance" | "isFrozen"> & {
+  username: string;
+  available: number;
+  updatedAt: Date | null;
+}>();
+
+const floatMovementView = z.custom<SubadminFloatMovement & { performedByName: string | null }>();
+
+const floatNoteSchema = z.string().trim().max(500).optional();
+
+export const paymentDetailsSchema = z.object({
+  upi: z.object({
+    id: z.string(),
+    qrCode: z.string().nullable(),
+  }),
+  bank: z.object({
+    name: z.string(),
+    accountNumber: z.string(),
+    ifscCode: z.string(),
+    accountHolder: z.string(),
+  }),
+});
+
+export const walletRequestBodySchema = z.object({
+  amount: paisaAmountSchema.positive(),
+  requestType: z.enum([RequestType.DEPOSIT, RequestType.WITHDRAWAL, RequestType.PLATFORM_INVESTMENT]),
+  paymentMode: z.enum([PaymentMode.UPI, PaymentMode.BANK]),
+  paymentDetails: z.object({
+    upiId: z.string().optional(),
+    bankName: z.string().optional(),
+    accountNumber: z.string().optional(),
+    ifscCode: z.string().optional(),
+    utrNumber: z.string().optional(),
+    transactionId: z.string().optional(),
+  }),
+  proofImageUrl: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+const walletRequestView = z.custom<WalletRequest & { user?: { id: number; username: string; role: string } }>();
+
+const matchSportSchema = z.enum([
+  MatchSport.CRICKET,
+  MatchSport.FOOTBALL,
+  MatchSport.BASKETBALL,
+  MatchSport.TENNIS,
+  MatchSport.OTHER,
+]);
+
+// Odds are x100 (200 = 2.00x)
+const matchOddsSchema = z.number().int().min(100, "Odds must be at least 1.00");
+
+export const teamMatchBodySchema = z.object({
+  sport: matchSportSchema,
+  teamA: z.string().trim().min(1, "Team A name is required"),
+  teamB: z.string().trim().min(1, "Team B name is required"),
+  description: z.string().trim().max(500).optional(),
+  matchTime: z.string()
+    .refine(value => !Number.isNaN(Date.parse(value)), "Match time is invalid")
+    .transform(value => new Date(value)),
+  oddTeamA: matchOddsSchema,
+  oddTeamB: matchOddsSchema,
+  oddDraw: matchOddsSchema.nullable(),
+}).refine(
+  match => !SPORT_OUTCOMES[match.sport].includes(TeamMatchResult.DRAW) || match.oddDraw !== null,
+  "Draw odds are required for sports that can end in a draw"
+);
+
+export type TeamMatchValues = z.output<typeof teamMatchBodySchema>;
+
+const matchSportQuerySchema = z.object({ sport: matchSportSchema.optional() });
+
+// Team matches carry the stake and potential payout of their unsettled bets on each result
+const teamMatchView = z.custom<TeamMatch & {
+  book: Array<{ outcome: TeamMatchResult; bets: number; stake: number; payout: number }>;
+}>();
+
+const matchMarketSelectionSchema = z.object({
+  name: z.string().trim().min(1, "Every selection needs a name").max(100),
+  odds: matchOddsSchema,
+});
+
+export const matchMarketBodySchema = z.object({
+  marketType: z.enum([
+    MatchMarketType.TOSS,
+    MatchMarketType.MATCH_WINNER,
+    MatchMarketType.OVER_UNDER,
+    MatchMarketType.TOP_BATSMAN,
+  ]),
+  name: z.string().trim().min(1, "A market name is required").max(100),
+  // Tenths of a run (1655 = 165.5)
+  line: z.number().int().positive("The line must be positive").nullable(),
+  selections: z.array(matchMarketSelectionSchema).min(2, "A market needs at least two selections"),
+}).refine(
+  market => market.marketType !== MatchMarketType.OVER_UNDER || market.line !== null,
+  "Over/under markets need a line"
+).refine(
+  market => new Set(market.selections.map(selection => selection.name.toLowerCase())).size === market.selections.length,
+  "Selection names must be different"
+);
+
+export type MatchMarketValues = z.output<typeof matchMarketBodySchema>;
+
+// Markets come with their selections, each with the stake and potential
+// payout of its unsettled bets
+const matchMarketView = z.custom<MatchMarket & {
+  selections: Array<MarketSelection & { bets: number; stake: number; payout: number }>;
+}>();
+
+const openMatchMarketView = z.custom<MatchMarket & { selections: MarketSelection[] }>();
+
+export const apiContracts = {
+  // Odds
+  getGameOdds: defineContract({
+    method: "GET",
+    path: "/game-odds",
+    query: gameTypeQuerySchema,
+    response: z.array(gameOddView),
+  }),
+  saveGameOdd: defineContract({
+    method: "POST",
+    path: "/game-odds",
+    body: z.object({
+      gameType: z.string().min(1),
+      oddValue: oddValueSchema,
+    }),
+    response: gameOddView,
+  }),
+  getPlayerGameOdds: defineContract({
+    method: "GET",
+    path: "/game-odds/player",
+    query: gameTypeQuerySchema,
+    response: z.array(z.object({ gameType: z.string(), oddValue: z.number() })),
+  }),
+  getSubadminGameOdds: defineContract({
+    method: "GET",
+    path: "/game-odds/subadmin/:id",
+    params: idParamsSchema,
+    response: z.array(gameOddView),
+  }),
+  saveSubadminGameOdds: defineContract({
+    method: "POST",
+    path: "/game-odds/subadmin/:id",
+    params: idParamsSchema,
+    body: z.object({
+      odds: z.array(z.object({
+        gameType: z.string().min(1),
+        oddValue: oddValueSchema,
+      })).min(1),
+    }),
+    response: z.array(gameOddView),
+  }),
+  getAdminOdds: defineContract({
+    method: "GET",
+    path: "/odds/admin",
+    response: z.array(gameOddView),
+  }),
+
+  // Bet limits: the admin's global limits, or a subadmin's tightened ones
+  getBetLimits: defineContract({
+    method: "GET",
+    path: "/bet-limits",
+    query: z.object({ subadminId: z.coerce.number().int().optional() }),
+    response: z.custom<{ global: BetLimitScope; subadmin: BetLimitScope | null }>(),
+  }),
+  saveBetLimits: defineContract({
+    method: "PUT",
+    path: "/bet-limits",
+    body: betLimitScopeSchema.extend({ subadminId: z.number().int().nullable() }),
+    response: z.custom<BetLimitScope>(),
+  }),
+
+  // Subadmin credit: the float subadmins fund their players' deposits from
+  getSubadminCredit: defineContract({
+    method: "GET",
+    path: "/subadmin-credit/:id",
+    params: idParamsSchema,
+    response: z.object({ credit: subadminCreditView, movements: z.array(floatMovementView) }),
+  }),
+  setSubadminCreditLimit: defineContract({
+    method: "PUT",
+    path: "/subadmin-credit/:id/limit",
+    params: idParamsSchema,
+    body: z.object({ creditLimit: paisaAmountSchema.nonnegative("Credit limit cannot be negative") }),
+    response: subadminCreditView,
+  }),
+  topUpSubadminFloat: defineContract({
+    method: "POST",
+    path: "/subadmin-credit/:id/top-up",
+    params: idParamsSchema,
+    body: z.object({ amount: paisaAmountSchema.positive("Amount must be positive"), note: floatNoteSchema }),
+    response: subadminCreditView,
+  }),
+  settleSubadminFloat: defineContract({
+    method: "POST",
+    path: "/subadmin-credit/:id/settle",
+    params: idParamsSchema,
+    body: z.object({ note: floatNoteSchema }),
+    response: subadminCreditView,
+  }),
+  setSubadminFloatFrozen: defineContract({
+    method: "PUT",
+    path: "/subadmin-credit/:id/frozen",
+    params: idParamsSchema,
+    body: z.object({ frozen: z.boolean() }),
+    response: subadminCreditView,
+  }),
+
+  // Risk alert rules, the alerts they raise and the betting they suspend
+  getRiskAlertRules: defineContract({
+    method: "GET",
+    path: "/risk/alert-rules",
+    response: z.array(z.custom<RiskAlertRule>()),
+  }),
+  createRiskAlertRule: defineContract({
+    method: "POST",
+    path: "/risk/alert-rules",
+    body: riskAlertRuleSchema,
+    response: z.custom<RiskAlertRule>(),
+  }),
+  updateRiskAlertRule: defineContract({
+    method: "PUT",
+    path: "/risk/alert-rules/:id",
+    params: idParamsSchema,
+    body: riskAlertRuleSchema,
+    response: z.custom<RiskAlertRule>(),
+  }),
+  deleteRiskAlertRule: defineContract({
+    method: "DELETE",
+    path: "/risk/alert-rules/:id",
+    params: idParamsSchema,
+    response: successView,
+  }),
+  getRiskAlerts: defineContract({
+    method: "GET",
+    path: "/risk/alerts",
+    query: z.object({ status: z.enum(["open", "all"]).default("open") }),
+    response: z.array(riskAlertView),
+  }),
+  acknowledgeRiskAlert: defineContract({
+    method: "POST",
+    path: "/risk/alerts/:id/acknowledge",
+    params: idParamsSchema,
+    response: z.custom<RiskAlert>(),
+  }),
+  getBettingSuspensions: defineContract({
+    method: "GET",
+    path: "/risk/suspensions",
+    response: z.array(bettingSuspensionView),
+  }),
+  liftBettingSuspension: defineContract({
+    method: "POST",
+    path: "/risk/suspensions/:id/lift",
+    params: idParamsSchema,
+    response: z.custom<BettingSuspension>(),
+  }),
+  getRiskSnapshots: defineContract({
+    method: "GET",
+    path: "/risk/snapshots",
+    query: riskSnapshotQuerySchema,
+    response: z.array(z.custom<RiskSnapshot>()),
+  }),
+  getAnomalyFindings: defineContract({
+    method: "GET",
+    path: "/risk/anomalies",
+    query: z.object({
+      status: z.enum([AnomalyStatus.OPEN, AnomalyStatus.CONFIRMED, AnomalyStatus.DISMISSED, "all"]).default(AnomalyStatus.OPEN),
+    }),
+    response: z.array(anomalyFindingView),
+  }),
+  runAnomalyScan: defineContract({
+    method: "POST",
+    path: "/risk/anomalies/scan",
+    response: z.object({ written: z.number() }),
+  }),
+  reviewAnomalyFinding: defineContract({
+    method: "POST",
+    path: "/risk/anomalies/:id/review",
+    params: idParamsSchema,
+    body: anomalyReviewSchema,
+    response: z.custom<AnomalyFinding>(),
+  }),
+
+  // Settings
+  getSettings: defineContract({
+    method: "GET",
+    path: "/settings",
+    query: z.object({ type: z.string().min(1, "type is required") }),
+    response: z.array(settingView),
+  }),
+  saveSetting: defineContract({
+    method: "POST",
+    path: "/settings",
+    body: insertSystemSettingSchema,
+    response: settingView,
+  }),
+
+  // Commissions and discounts
+  getCommissions: defineContract({
+    method: "GET",
+    path: "/commissions",
+    response: z.array(z.custom<SubadminCommission>()),
+  }),
+  getDefaultCommissions: defineContract({
+    method: "GET",
+    path: "/commissions/default",
+    response: z.record(z.string(), z.number()),
+  }),
+  saveDefaultCommissions: defineContract({
+    method: "POST",
+    path: "/commissions/default",
+    body: z.object({ defaultRates: z.record(z.string(), rateSchema) }),
+    response: z.record(z.string(), z.number()),
+  }),
+  getSubadminCommissions: defineContract({
+    method: "GET",
+    path: "/commissions/subadmin/:id",
+    params: idParamsSchema,
+    response: z.array(z.custom<SubadminCommission>()),
+  }),
+  saveSubadminCommission: defineContract({
+    method: "POST",
+    path: "/commissions/subadmin",
+    body: z.object({
+      subadminId: z.number().int(),
+      gameType: z.string().min(1),
+      commissionRate: rateSchema,
+    }),
+    response: z.custom<SubadminCommission>(),
+  }),
+  saveSubadminCommissions: defineContract({
+    method: "POST",
+    path: "/commissions/subadmin/:id",
+    params: idParamsSchema,
+    body: z.object({
+      commissions: z.array(z.object({
+        gameType: z.string().min(1),
+        commissionRate: rateSchema,
+      })).min(1),
+    }),
+    response: z.array(z.custom<SubadminCommission>()),
+  }),
+  getUserDiscounts: defineContract({
+    method: "GET",
+    path: "/discounts/user/:id",
+    params: idParamsSchema,
+    response: z.array(z.custom<UserDiscount>()),
+  }),
+  saveUserDiscount: defineContract({
+    method: "POST",
+    path: "/discounts/user",
+    body: z.object({
+      userId: z.number().int(),
+      gameType: z.string().min(1),
+      discountRate: rateSchema,
+    }),
+    response: z.custom<UserDiscount>(),
+  }),
+  saveUserDiscounts: defineContract({
+    method: "POST",
+    path: "/discounts/user/:id",
+    params: idParamsSchema,
+    body: z.object({
+      discounts: z.array(z.object({
+        gameType: z.string().min(1),
+        discountRate: rateSchema,
+      })).min(1),
+    }),
+    response: z.array(z.custom<UserDiscount>()),
+  }),
+
+  // Satamatka
+  getSatamatkaMarkets: defineContract({
+    method: "GET",
+    path: "/satamatka/markets",
+    response: z.array(marketView),
+  }),
+  getActiveSatamatkaMarkets: defineContract({
+    method: "GET",
+    path: "/satamatka/markets/active",
+    response: z.array(marketView),
+  }),
+  getSatamatkaMarket: defineContract({
+    method: "GET",
+    path: "/satamatka/markets/:id",
+    params: idParamsSchema,
+    response: marketView,
+  }),
+  playSatamatka: defineContract({
+    method: "POST",
+    path: "/satamatka/play",
+    body: betSchema.extend({
+      marketId: z.number().int(),
+      gameMode: satamatkaGameModeSchema,
+    }),
+    response: z.object({ game: gameView, balance: z.number() }),
+  }),
+  playSatamatkaMultiple: defineContract({
+    method: "POST",
+    path: "/satamatka/play-multiple",
+    body: z.object({
+      marketId: z.number().int(),
+      gameMode: satamatkaGameModeSchema,
+      bets: z.array(betSchema).min(1, "At least one bet is required"),
+    }),
+    response: z.object({ games: z.array(gameView), totalBetAmount: z.number(), balance: z.number() }),
+  }),
+
+  // Team matches: win/lose or win/draw/lose markets on any sport
+  getTeamMatches: defineContract({
+    method: "GET",
+    path: "/team-matches",
+    query: matchSportQuerySchema,
+    response: z.array(teamMatchView),
+  }),
+  getOpenTeamMatches: defineContract({
+    method: "GET",
+    path: "/team-matches/open",
+    query: matchSportQuerySchema,
+    response: z.array(z.custom<TeamMatch>()),
+  }),
+  createTeamMatch: defineContract({
+    method: "POST",
+    path: "/team-matches",
+    body: teamMatchBodySchema,
+    response: z.custom<TeamMatch>(),
+  }),
+  updateTeamMatch: defineContract({
+    method: "PUT",
+    path: "/team-matches/:id",
+    params: idParamsSchema,
+    body: teamMatchBodySchema,
+    response: z.custom<TeamMatch>(),
+  }),
+  closeTeamMatch: defineContract({
+    method: "POST",
+    path: "/team-matches/:id/close",
+    params: idParamsSchema,
+    response: z.custom<TeamMatch>(),
+  }),
+  settleTeamMatch: defineContract({
+    method: "POST",
+    path: "/team-matches/:id/result",
+    params: idParamsSchema,
+    body: z.object({ result: z.string().min(1, "A result is required") }),
+    response: z.object({ match: z.custom<TeamMatch>(), settled: z.number(), winners: z.number() }),
+  }),
+  voidTeamMatch: defineContract({
+    method: "POST",
+    path: "/team-matches/:id/void",
+    params: idParamsSchema,
+    body: z.object({ reason: z.string().trim().min(1, "A reason is required") }),
+    response: z.object({ match: z.custom<TeamMatch>(), voidedBets: z.number() }),
+  }),
+  placeTeamMatchBet: defineContract({
+    method: "POST",
+    path: "/team-matches/:id/bet",
+    params: idParamsSchema,
+    body: betSchema.extend({
+      // The odds (x100) the bet slip quoted; the bet is refused if they have moved
+      expectedOdds: z.number().int(),
+    }),
+    response: z.object({ game: gameView, balance: z.number() }),
+  }),
+  getMyTeamMatchBets: defineContract({
+    method: "GET",
+    path: "/team-matches/my-bets",
+    response: z.array(z.custom<Game & { match: TeamMatch }>()),
+  }),
+
+  // Match markets: toss, match winner, over/under and other propositions on a
+  // team match, each with its own odds, status and result
+  getMatchMarkets: defineContract({
+    method: "GET",
+    path: "/team-matches/:id/markets",
+    params: idParamsSchema,
+    response: z.array(matchMarketView),
+  }),
+  getOpenMatchMarkets: defineContract({
+    method: "GET",
+    path: "/team-matches/:id/markets/open",
+    params: idParamsSchema,
+    response: z.array(openMatchMarketView),
+  }),
+  createMatchMarket: defineContract({
+    method: "POST",
+    path: "/team-matches/:id/markets",
+    params: idParamsSchema,
+    body: matchMarketBodySchema,
+    response: openMatchMarketView,
+  }),
+  updateMatchMarketOdds: defineContract({
+    method: "PUT",
+    path: "/match-markets/:id/odds",
+    params: idParamsSchema,
+    body: z.object({
+      selections: z.array(z.object({ id: z.number().int(), odds: matchOddsSchema })).min(1),
+    }),
+    response: openMatchMarketView,
+  }),
+  closeMatchMarket: defineContract({
+    method: "POST",
+    path: "/match-markets/:id/close",
+    params: idParamsSchema,
+    response: z.custom<MatchMarket>(),
+  }),
+  settleMatchMarket: defineContract({
+    method: "POST",
+    path: "/match-markets/:id/result",
+    params: idParamsSchema,
+    body: z.object({ selectionId: z.number().int() }),
+    response: z.object({ market: z.custom<MatchMarket>(), settled: z.number(), winners: z.number() }),
+  }),
+  voidMatchMarket: defineContract({
+    method: "POST",
+    path: "/match-markets/:id/void",
+    params: idParamsSchema,
+    body: z.object({ reason: z.string().trim().min(1, "A reason is required") }),
+    response: z.object({ market: z.custom<MatchMarket>(), voidedBets: z.number() }),
+  }),
+  placeMatchMarketBet: defineContract({
+    method: "POST",
+    path: "/market-selections/:id/bet",
+    params: idParamsSchema,
+    body: z.object({
+      betAmount: paisaAmountSchema.positive("Bet amount must be positive"),
+      // The odds (x100) the bet slip quoted; the bet is refused if they have moved
+      expectedOdds: z.number().int(),
+    }),
+    response: z.object({ game: gameView, balance: z.number() }),
+  }),
+  getMyMatchMarketBets: defineContract({
+    method: "GET",
+    path: "/match-markets/my-bets",
+    response: z.array(z.custom<Game & { match: TeamMatch; market: MatchMarket }>()),
+  }),
+
+  // Games
+  getMyGameHistory: defineContract({
+    method: "GET",
+    path: "/games/my-history",
+    response: z.array(gameWithTargetsView),
+  }),
+  playCoinFlip: defineContract({
+    method: "POST",
+    path: "/games/play",
+    body: z.object({
+      betAmount: paisaAmountSchema.positive("Bet amount must be positive"),
+      prediction: z.enum([GameOutcome.HEADS, GameOutcome.TAILS]),
+    }),
+    response: z.object({ game: gameView, user: userView }),
+  }),
+  getCoinFlipSeeds: defineContract({
+    method: "GET",
+    path: "/games/coin-flip/seeds",
+    response: z.custom<CoinFlipSeedState>(),
+  }),
+  setCoinFlipClientSeed: defineContract({
+    method: "PUT",
+    path: "/games/coin-flip/seeds",
+    body: z.object({ clientSeed: clientSeedSchema }),
+    response: z.custom<CoinFlipSeedState>(),
+  }),
+
+  // Wallet
+  getPaymentDetails: defineContract({
+    method: "GET",
+    path: "/wallet/payment-details",
+    response: paymentDetailsSchema,
+  }),
+  savePaymentDetails: defineContract({
+    method: "PUT",
+    path: "/wallet/payment-details",
+    body: paymentDetailsSchema,
+    response: successView,
+  }),
+  getMyWalletRequests: defineContract({
+    method: "GET",
+    path: "/wallet/my-requests",
+    response: z.array(walletRequestView),
+  }),
+  createWalletRequest: defineContract({
+    method: "POST",
+    path: "/wallet/requests",
+    body: walletRequestBodySchema,
+    response: walletRequestView,
+  }),
+  getTransactions: defineContract({
+    method: "GET",
+    path: "/transactions",
+    response: z.array(transactionView),
+  }),
+} as const;
+
+export type ApiContracts = typeof apiContracts;
+export type ApiContractName = keyof ApiContracts;
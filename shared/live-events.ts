@@ -0,0 +1,40 @@
+/**
+ * Events the server pushes over the live updates WebSocket.
+ *
+ * Every event names the user it is about. It goes to that user, to the
+ * subadmin they are assigned to and to every admin; exposure changes only go
+ * to the subadmin and the admins. Events only say what changed, so clients
+ * refetch instead of patching their data.
+ */
+
+// Where the WebSocket is served on the HTTP server
+export const LIVE_UPDATES_PATH = "/api/live";
+
+export const LiveEventType = {
+  // A user's balance moved; carries the new balance in paisa
+  BALANCE_CHANGED: "balance_changed",
+  // A bet was settled, resettled or voided
+  BET_SETTLED: "bet_settled",
+  // A wallet request was created or reviewed
+  WALLET_REQUEST_UPDATED: "wallet_request_updated",
+  // The potential payout of open bets moved by `delta` paisa
+  EXPOSURE_CHANGED: "exposure_changed",
+} as const;
+
+export type LiveEventType = typeof LiveEventType[keyof typeof LiveEventType];
+
+// The market or match a bet is on, if any
+type BetTarget = {
+  gameType: string;
+  marketId: number | null;
+  matchId: number | null;
+};
+
+export type LiveEvent =
+  | { type: typeof LiveEventType.BALANCE_CHANGED; userId: number; balance: number }
+  | ({ type: typeof LiveEventType.BET_SETTLED; userId: number } & BetTarget)
+  | { type: typeof LiveEventType.WALLET_REQUEST_UPDATED; userId: number; requestId: number; status: string }
+  | ({ type: typeof LiveEventType.EXPOSURE_CHANGED; userId: number; gameId: number; delta: number } & BetTarget);
+
+// An event as delivered, with the subadmin of the user it is about
+export type DeliveredLiveEvent = LiveEvent & { subadminId: number | null };
@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+/**
+ * Money shared by the server and the client.
+ *
+ * Every amount stored in the database or sent over the API is an integer
+ * number of paisa, and API responses declare their currency in the
+ * X-Currency header rather than on each amount. Rupees only exist at the
+ * edges: form inputs and display.
+ */
+
+// Supported currencies
+export const Currency = {
+  INR: "INR",
+} as const;
+
+export type Currency = typeof Currency[keyof typeof Currency];
+
+export const DEFAULT_CURRENCY: Currency = Currency.INR;
+
+// Minor units (paisa) per major unit (rupee)
+export const PAISA_PER_RUPEE = 100;
+
+// Response header used by the API to declare the currency of its amounts
+export const CURRENCY_HEADER = "X-Currency";
+
+// Validation schema for integer paisa amounts in request bodies
+export const paisaAmountSchema = z.number().int("Amount must be a whole number of paisa");
+
+/**
+ * Convert a rupee amount (e.g. from a form input) to integer paisa
+ */
+export function rupeesToPaisa(rupees: number): number {
+  return Math.round(rupees * PAISA_PER_RUPEE);
+}
+
+/**
+ * Convert integer paisa to rupees, for display and form inputs only
+ */
+export function paisaToRupees(paisa: number): number {
+  return paisa / PAISA_PER_RUPEE;
+}
+
+/**
+ * Format integer paisa as a rupee amount for messages, e.g. "₹12.50"
+ */
+export function formatRupees(paisa: number): string {
+  return `₹${paisaToRupees(paisa).toFixed(2)}`;
+}
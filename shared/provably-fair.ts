@@ -0,0 +1,51 @@
+import { z } from "zod";
+import { GameOutcome } from "./schema";
+
+/**
+ * Provably fair coin flips, shared by the server and the client.
+ *
+ * Before a flip the server commits to a random server seed by publishing its
+ * SHA-256 hash. The flip is decided by HMAC-SHA256(serverSeed, "clientSeed:nonce"),
+ * where the client seed is chosen by the player and the nonce counts their
+ * flips. After the flip the server seed is revealed, so anyone can check it
+ * against the committed hash and recompute the outcome.
+ */
+
+// What each coin flip stores in games.game_data.fairness
+export type CoinFlipFairness = {
+  serverSeed: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+};
+
+// The player's current commitment: the next flip's server seed stays hidden
+export type CoinFlipSeedState = {
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+};
+
+export const clientSeedSchema = z.string()
+  .trim()
+  .min(1, "Client seed is required")
+  .max(64, "Client seed must be at most 64 characters")
+  .regex(/^[A-Za-z0-9_-]+$/, "Client seed may only contain letters, digits, - and _");
+
+// Hex digits of the HMAC turned into the outcome (8 hex digits = 32 bits)
+const OUTCOME_HEX_DIGITS = 8;
+
+/**
+ * The HMAC message for a flip
+ */
+export function coinFlipMessage(clientSeed: string, nonce: number): string {
+  return `${clientSeed}:${nonce}`;
+}
+
+/**
+ * Map an HMAC (hex) onto heads or tails with equal probability
+ */
+export function coinFlipOutcomeFromHmac(hmacHex: string): GameOutcome {
+  const value = parseInt(hmacHex.slice(0, OUTCOME_HEX_DIGITS), 16) / 2 ** (OUTCOME_HEX_DIGITS * 4);
+  return value < 0.5 ? GameOutcome.HEADS : GameOutcome.TAILS;
+}
@@ -0,0 +1,860 @@
+import { pgTable, text, serial, integer, boolean, timestamp, date, json, jsonb, varchar, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+// User roles
+export const UserRole = {
+  ADMIN: "admin",
+  SUBADMIN: "subadmin",
+  PLAYER: "player",
+} as const;
+
+export type UserRole = typeof UserRole[keyof typeof UserRole];
+
+// Game types stored in games.game_type
+export const GameType = {
+  COIN_FLIP: "coin_flip",
+  SATAMATKA: "satamatka",
+  TEAM_MATCH: "team_match",
+  CRICKET_TOSS: "cricket_toss",
+  // A bet on a selection of one of a match's markets
+  MATCH_MARKET: "match_market",
+} as const;
+
+export type GameType = typeof GameType[keyof typeof GameType];
+
+// Coin flip outcomes
+export const GameOutcome = {
+  HEADS: "heads",
+  TAILS: "tails",
+} as const;
+
+export type GameOutcome = typeof GameOutcome[keyof typeof GameOutcome];
+
+// Satamatka market types
+export const MarketType = {
+  DISHAWAR: "dishawar",
+  GALI: "gali",
+  MUMBAI: "mumbai",
+  KALYAN: "kalyan",
+} as const;
+
+export type MarketType = typeof MarketType[keyof typeof MarketType];
+
+// Satamatka market lifecycle: waiting -> open -> closed -> resulted
+export const MarketStatus = {
+  WAITING: "waiting",
+  OPEN: "open",
+  CLOSED: "closed",
+  RESULTED: "resulted",
+  // Voided by an admin; every stake of the cycle was refunded
+  CANCELLED: "cancelled",
+} as const;
+
+export type MarketStatus = typeof MarketStatus[keyof typeof MarketStatus];
+
+// How recurring markets roll to their next cycle
+export const RecurrencePattern = {
+  DAILY: "daily",
+  WEEKDAYS: "weekdays",
+  WEEKLY: "weekly",
+} as const;
+
+export type RecurrencePattern = typeof RecurrencePattern[keyof typeof RecurrencePattern];
+
+// Satamatka betting modes
+export const SatamatkaGameMode = {
+  JODI: "jodi",
+  HARF: "harf",
+  CROSSING: "crossing",
+  ODD_EVEN: "odd_even",
+} as const;
+
+export type SatamatkaGameMode = typeof SatamatkaGameMode[keyof typeof SatamatkaGameMode];
+
+// Team match results
+export const TeamMatchResult = {
+  TEAM_A: "team_a",
+  TEAM_B: "team_b",
+  DRAW: "draw",
+  PENDING: "pending",
+  CANCELLED: "cancelled",
+} as const;
+
+export type TeamMatchResult = typeof TeamMatchResult[keyof typeof TeamMatchResult];
+
+// Sports offered as team match markets, stored as the match category.
+// Cricket toss matches have their own "cricket_toss" category.
+export const MatchSport = {
+  CRICKET: "cricket",
+  FOOTBALL: "football",
+  BASKETBALL: "basketball",
+  TENNIS: "tennis",
+  OTHER: "other",
+} as const;
+
+export type MatchSport = typeof MatchSport[keyof typeof MatchSport];
+
+// The results a team match can be bet on, by sport. Sports that can end level
+// are three-way markets, where a draw pays at the match's draw odds.
+export const SPORT_OUTCOMES: Record<MatchSport, TeamMatchResult[]> = {
+  [MatchSport.CRICKET]: [TeamMatchResult.TEAM_A, TeamMatchResult.DRAW, TeamMatchResult.TEAM_B],
+  [MatchSport.FOOTBALL]: [TeamMatchResult.TEAM_A, TeamMatchResult.DRAW, TeamMatchResult.TEAM_B],
+  [MatchSport.BASKETBALL]: [TeamMatchResult.TEAM_A, TeamMatchResult.TEAM_B],
+  [MatchSport.TENNIS]: [TeamMatchResult.TEAM_A, TeamMatchResult.TEAM_B],
+  [MatchSport.OTHER]: [TeamMatchResult.TEAM_A, TeamMatchResult.TEAM_B],
+};
+
+// Wallet payment modes
+export const PaymentMode = {
+  UPI: "upi",
+  BANK: "bank",
+} as const;
+
+export type PaymentMode = typeof PaymentMode[keyof typeof PaymentMode];
+
+// Wallet request status
+export const RequestStatus = {
+  PENDING: "pending",
+  APPROVED: "approved",
+  REJECTED: "rejected",
+} as const;
+
+export type RequestStatus = typeof RequestStatus[keyof typeof RequestStatus];
+
+// Wallet request types
+export const RequestType = {
+  DEPOSIT: "deposit",
+  WITHDRAWAL: "withdrawal",
+  PLATFORM_INVESTMENT: "platform_investment",
+} as const;
+
+export type RequestType = typeof RequestType[keyof typeof RequestType];
+
+// How the player paid or wants to be paid, stored with each wallet request
+export type WalletPaymentDetails = {
+  upiId?: string;
+  bankName?: string;
+  accountNumber?: string;
+  ifscCode?: string;
+  utrNumber?: string;
+  transactionId?: string;
+};
+
+// Users: admins, subadmins and the players assigned to them. Balances are in paisa.
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  email: text("email"),
+  mobile: text("mobile"),
+  role: text("role").notNull().default(UserRole.PLAYER),
+  balance: integer("balance").notNull().default(0),
+  assignedTo: integer("assigned_to").references((): AnyPgColumn => users.id),
+  isBlocked: boolean("is_blocked").notNull().default(false),
+  blockedBy: integer("blocked_by").references((): AnyPgColumn => users.id),
+});
+
+// Satamatka markets
+export const satamatkaMarkets = pgTable("satamatka_markets", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  type: text("type").notNull(),
+  openTime: timestamp("open_time").notNull(),
+  closeTime: timestamp("close_time").notNull(),
+  resultTime: timestamp("result_time"),
+  openResult: text("open_result"),
+  closeResult: text("close_result"),
+  status: text("status").notNull().default(MarketStatus.WAITING),
+  isRecurring: boolean("is_recurring").notNull().default(false),
+  recurrencePattern: text("recurrence_pattern").default(RecurrencePattern.DAILY),
+  lastResultedDate: timestamp("last_resulted_date"),
+  nextOpenTime: timestamp("next_open_time"),
+  nextCloseTime: timestamp("next_close_time"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Team matches (cricket toss and other sports). Odds are stored x100 (200 = 2.00x).
+export const teamMatches = pgTable("team_matches", {
+  id: serial("id").primaryKey(),
+  teamA: text("team_a").notNull(),
+  teamB: text("team_b").notNull(),
+  category: text("category").notNull().default("cricket"),
+  description: text("description"),
+  matchTime: timestamp("match_time").notNull(),
+  result: text("result").notNull().default(TeamMatchResult.PENDING),
+  oddTeamA: integer("odd_team_a").notNull().default(200),
+  oddTeamB: integer("odd_team_b").notNull().default(200),
+  oddDraw: integer("odd_draw").default(300),
+  status: text("status").notNull().default("open"),
+  teamAImage: text("team_a_image"),
+  teamBImage: text("team_b_image"),
+  coverImage: text("cover_image"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Propositions a match can carry besides the result it was created for, e.g.
+// the match winner on a cricket toss fixture
+export const MatchMarketType = {
+  TOSS: "toss",
+  MATCH_WINNER: "match_winner",
+  // First-innings total over or under a line
+  OVER_UNDER: "over_under",
+  // Top batsman of a team and similar pick-one-of-many markets
+  TOP_BATSMAN: "top_batsman",
+} as const;
+
+export type MatchMarketType = typeof MatchMarketType[keyof typeof MatchMarketType];
+
+export const MatchMarketStatus = {
+  OPEN: "open",
+  CLOSED: "closed",
+  RESULTED: "resulted",
+  CANCELLED: "cancelled",
+} as const;
+
+export type MatchMarketStatus = typeof MatchMarketStatus[keyof typeof MatchMarketStatus];
+
+// Markets on a team match. Each is bet on, closed, resulted and voided on its
+// own; the winning selection is set once it is resulted.
+export const matchMarkets = pgTable("match_markets", {
+  id: serial("id").primaryKey(),
+  matchId: integer("match_id").notNull().references(() => teamMatches.id),
+  marketType: text("market_type").notNull(),
+  name: text("name").notNull(),
+  // Over/under line in tenths of a run (1655 = 165.5)
+  line: integer("line"),
+  status: text("status").notNull().default(MatchMarketStatus.OPEN),
+  winningSelectionId: integer("winning_selection_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("match_markets_match_id_idx").on(table.matchId),
+]);
+
+// The outcomes of a market, each with its own odds (x100, 190 = 1.90x)
+export const marketSelections = pgTable("market_selections", {
+  id: serial("id").primaryKey(),
+  marketId: integer("market_id").notNull().references(() => matchMarkets.id),
+  name: text("name").notNull(),
+  odds: integer("odds").notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
+}, (table) => [
+  index("market_selections_market_id_idx").on(table.marketId),
+]);
+
+export type MatchMarket = typeof matchMarkets.$inferSelect;
+export type MarketSelection = typeof marketSelections.$inferSelect;
+
+// Result of a bet whose match or market was voided; its payout is the refunded stake
+export const VOIDED_BET_RESULT = "void";
+
+// Games: one row per bet. Amounts are in paisa.
+export const games = pgTable("games", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  gameType: text("game_type").notNull().default(GameType.COIN_FLIP),
+  betAmount: integer("bet_amount").notNull(),
+  prediction: text("prediction").notNull(),
+  result: text("result"),
+  payout: integer("payout").notNull().default(0),
+  balanceAfter: integer("balance_after"),
+  createdAt: timestamp("created_at").defaultNow(),
+  marketId: integer("market_id").references(() => satamatkaMarkets.id),
+  matchId: integer("match_id").references(() => teamMatches.id),
+  gameMode: text("game_mode"),
+  gameData: jsonb("game_data"),
+  // Fixed odds (x100) a team match bet was accepted at; settlement pays this
+  // price whatever the match's odds are by then
+  acceptedOdds: integer("accepted_odds"),
+  // The match market selection a bet backs; its match is in `matchId`
+  selectionId: integer("selection_id").references(() => marketSelections.id),
+}, (table) => [
+  index("games_market_id_idx").on(table.marketId),
+  index("games_match_id_idx").on(table.matchId),
+  index("games_selection_id_idx").on(table.selectionId),
+  index("games_user_id_game_type_created_at_idx").on(table.userId, table.gameType, table.createdAt),
+  index("games_created_at_idx").on(table.createdAt),
+]);
+
+// Wallet transactions: every balance change made outside of a bet. Amounts are in paisa.
+export const transactions = pgTable("transactions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  amount: integer("amount").notNull(),
+  balanceAfter: integer("balance_after"),
+  performedBy: integer("performed_by").notNull().references(() => users.id),
+  description: text("description"),
+  requestId: integer("request_id").references(() => walletRequests.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Deposit and withdrawal requests. Amounts are in paisa.
+export const walletRequests = pgTable("wallet_requests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  amount: integer("amount").notNull(),
+  requestType: text("request_type").notNull(),
+  paymentMode: text("payment_mode").notNull(),
+  paymentDetails: json("payment_details").$type<WalletPaymentDetails>().notNull(),
+  status: text("status").notNull().default(RequestStatus.PENDING),
+  proofImageUrl: text("proof_image_url"),
+  notes: text("notes"),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// System settings stored as type/key/value triples
+export const systemSettings = pgTable("system_settings", {
+  id: serial("id").primaryKey(),
+  settingType: text("setting_type").notNull(),
+  settingKey: text("setting_key").notNull(),
+  settingValue: text("setting_value").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Per-game commission rates for subadmins, in basis points (500 = 5%)
+export const subadminCommissions = pgTable("subadmin_commissions", {
+  id: serial("id").primaryKey(),
+  subadminId: integer("subadmin_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  gameType: text("game_type").notNull(),
+  commissionRate: integer("commission_rate").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Per-game discounts a subadmin gives their players, in basis points
+export const userDiscounts = pgTable("user_discounts", {
+  id: serial("id").primaryKey(),
+  subadminId: integer("subadmin_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  gameType: text("game_type").notNull(),
+  discountRate: integer("discount_rate").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Deposit bonus a subadmin gives a player, in basis points
+export const playerDepositDiscounts = pgTable("player_deposit_discounts", {
+  id: serial("id").primaryKey(),
+  subadminId: integer("subadmin_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  discountRate: integer("discount_rate").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Game odds set by the admin or overridden per subadmin. Values are stored x10000 (19500 = 1.95x).
+export const gameOdds = pgTable("game_odds", {
+  id: serial("id").primaryKey(),
+  gameType: text("game_type").notNull(),
+  oddValue: integer("odd_value").notNull(),
+  setByAdmin: boolean("set_by_admin").notNull().default(true),
+  subadminId: integer("subadmin_id").references(() => users.id, { onDelete: "cascade" }),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Commission rate the admin pays a subadmin on deposits, in basis points
+export const depositCommissions = pgTable("deposit_commissions", {
+  id: serial("id").primaryKey(),
+  subadminId: integer("subadmin_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  commissionRate: integer("commission_rate").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Express sessions (connect-pg-simple)
+export const sessions = pgTable("sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: jsonb("sess").notNull(),
+  expire: timestamp("expire").notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
+export const insertUserSchema = createInsertSchema(users).pick({
+  username: true,
+  password: true,
+  email: true,
+  mobile: true,
+  role: true,
+  balance: true,
+  assignedTo: true,
+});
+
+export const insertGameSchema = createInsertSchema(games).pick({
+  userId: true,
+  gameType: true,
+  betAmount: true,
+  prediction: true,
+  result: true,
+  payout: true,
+  balanceAfter: true,
+  marketId: true,
+  matchId: true,
+  gameMode: true,
+  gameData: true,
+  acceptedOdds: true,
+  selectionId: true,
+});
+
+export const insertSatamatkaMarketSchema = createInsertSchema(satamatkaMarkets).pick({
+  name: true,
+  type: true,
+  openTime: true,
+  closeTime: true,
+  resultTime: true,
+  openResult: true,
+  closeResult: true,
+  status: true,
+  isRecurring: true,
+  recurrencePattern: true,
+  lastResultedDate: true,
+  nextOpenTime: true,
+  nextCloseTime: true,
+});
+
+export const insertTeamMatchSchema = createInsertSchema(teamMatches).pick({
+  teamA: true,
+  teamB: true,
+  category: true,
+  description: true,
+  matchTime: true,
+  result: true,
+  oddTeamA: true,
+  oddTeamB: true,
+  oddDraw: true,
+  status: true,
+  teamAImage: true,
+  teamBImage: true,
+  coverImage: true,
+});
+
+export const insertTransactionSchema = createInsertSchema(transactions).pick({
+  userId: true,
+  amount: true,
+  balanceAfter: true,
+  performedBy: true,
+  description: true,
+  requestId: true,
+});
+
+export const insertWalletRequestSchema = createInsertSchema(walletRequests).pick({
+  userId: true,
+  amount: true,
+  requestType: true,
+  paymentMode: true,
+  paymentDetails: true,
+  status: true,
+  proofImageUrl: true,
+  notes: true,
+  reviewedBy: true,
+});
+
+export const insertSystemSettingSchema = createInsertSchema(systemSettings).pick({
+  settingType: true,
+  settingKey: true,
+  settingValue: true,
+});
+
+export const insertSubadminCommissionSchema = createInsertSchema(subadminCommissions).pick({
+  subadminId: true,
+  gameType: true,
+  commissionRate: true,
+  isActive: true,
+});
+
+export const insertUserDiscountSchema = createInsertSchema(userDiscounts).pick({
+  subadminId: true,
+  userId: true,
+  gameType: true,
+  discountRate: true,
+  isActive: true,
+});
+
+export const insertPlayerDepositDiscountSchema = createInsertSchema(playerDepositDiscounts).pick({
+  subadminId: true,
+  userId: true,
+  discountRate: true,
+  isActive: true,
+});
+
+export const insertGameOddSchema = createInsertSchema(gameOdds).pick({
+  gameType: true,
+  oddValue: true,
+  setByAdmin: true,
+  subadminId: true,
+  isActive: true,
+});
+
+export const insertDepositCommissionSchema = createInsertSchema(depositCommissions).pick({
+  subadminId: true,
+  commissionRate: true,
+  isActive: true,
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+export type InsertGame = z.infer<typeof insertGameSchema>;
+export type Game = typeof games.$inferSelect;
+export type InsertSatamatkaMarket = z.infer<typeof insertSatamatkaMarketSchema>;
+export type SatamatkaMarket = typeof satamatkaMarkets.$inferSelect;
+export type InsertTeamMatch = z.infer<typeof insertTeamMatchSchema>;
+export type TeamMatch = typeof teamMatches.$inferSelect;
+export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+export type Transaction = typeof transactions.$inferSelect;
+export type InsertWalletRequest = z.infer<typeof insertWalletRequestSchema>;
+export type WalletRequest = typeof walletRequests.$inferSelect;
+export type InsertSystemSetting = z.infer<typeof insertSystemSettingSchema>;
+export type SystemSetting = typeof systemSettings.$inferSelect;
+export type InsertSubadminCommission = z.infer<typeof insertSubadminCommissionSchema>;
+export type SubadminCommission = typeof subadminCommissions.$inferSelect;
+export type InsertUserDiscount = z.infer<typeof insertUserDiscountSchema>;
+export type UserDiscount = typeof userDiscounts.$inferSelect;
+export type InsertPlayerDepositDiscount = z.infer<typeof insertPlayerDepositDiscountSchema>;
+export type PlayerDepositDiscount = typeof playerDepositDiscounts.$inferSelect;
+export type InsertGameOdd = z.infer<typeof insertGameOddSchema>;
+export type GameOdd = typeof gameOdds.$inferSelect;
+export type InsertDepositCommission = z.infer<typeof insertDepositCommissionSchema>;
+export type DepositCommission = typeof depositCommissions.$inferSelect;
+
+// Ledger account types
+export const LedgerAccountType = {
+  PLAYER: "player",
+  SUBADMIN: "subadmin",
+  ADMIN: "admin",
+  HOUSE: "house",
+  COMMISSION: "commission",
+  BONUS: "bonus",
+} as const;
+
+export type LedgerAccountType = typeof LedgerAccountType[keyof typeof LedgerAccountType];
+
+// Journal entry types - one per kind of money movement
+export const JournalEntryType = {
+  OPENING_BALANCE: "opening_balance",
+  DEPOSIT: "deposit",
+  WITHDRAWAL: "withdrawal",
+  PLATFORM_INVESTMENT: "platform_investment",
+  TRANSFER: "transfer",
+  BET_STAKE: "bet_stake",
+  BET_PAYOUT: "bet_payout",
+  BET_PAYOUT_REVERSAL: "bet_payout_reversal",
+  BET_REFUND: "bet_refund",
+  COMMISSION: "commission",
+  BONUS: "bonus",
+  ADJUSTMENT: "adjustment",
+} as const;
+
+export type JournalEntryType = typeof JournalEntryType[keyof typeof JournalEntryType];
+
+// Ledger accounts: one per user plus the house, commission and bonus accounts.
+// `code` is "user:<id>" for user accounts and the account type for system accounts.
+export const ledgerAccounts = pgTable("ledger_accounts", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  accountType: text("account_type").notNull(),
+  ownerId: integer("owner_id"),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Journal entries group the balanced lines of a single money movement
+export const journalEntries = pgTable("journal_entries", {
+  id: serial("id").primaryKey(),
+  entryType: text("entry_type").notNull(),
+  description: text("description").notNull(),
+  referenceType: text("reference_type"),
+  referenceId: integer("reference_id"),
+  performedBy: integer("performed_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Journal lines: signed amounts in paisa, the lines of one entry always sum to zero
+export const journalLines = pgTable("journal_lines", {
+  id: serial("id").primaryKey(),
+  entryId: integer("entry_id").notNull().references(() => journalEntries.id),
+  accountId: integer("account_id").notNull().references(() => ledgerAccounts.id),
+  amount: integer("amount").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("journal_lines_account_id_idx").on(table.accountId),
+  index("journal_lines_entry_id_idx").on(table.entryId),
+]);
+
+export const insertLedgerAccountSchema = createInsertSchema(ledgerAccounts).pick({
+  code: true,
+  accountType: true,
+  ownerId: true,
+  name: true,
+});
+
+export const insertJournalEntrySchema = createInsertSchema(journalEntries).pick({
+  entryType: true,
+  description: true,
+  referenceType: true,
+  referenceId: true,
+  performedBy: true,
+});
+
+export type InsertLedgerAccount = z.infer<typeof insertLedgerAccountSchema>;
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
+export type JournalEntry = typeof journalEntries.$inferSelect;
+export type JournalLine = typeof journalLines.$inferSelect;
+
+// Provably fair coin flip seeds, one row per player. `serverSeed` is the
+// committed seed for the player's next flip and is only revealed once used.
+export const coinFlipSeeds = pgTable("coin_flip_seeds", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id),
+  serverSeed: text("server_seed").notNull(),
+  serverSeedHash: text("server_seed_hash").notNull(),
+  clientSeed: text("client_seed").notNull(),
+  nonce: integer("nonce").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type CoinFlipSeed = typeof coinFlipSeeds.$inferSelect;
+
+// Stake limits for one game type, in paisa; null means no limit. Rows without
+// a subadmin are the admin's global limits, a subadmin's row can only tighten
+// them for that subadmin's players.
+export const betLimits = pgTable("bet_limits", {
+  id: serial("id").primaryKey(),
+  gameType: text("game_type").notNull(),
+  subadminId: integer("subadmin_id").references(() => users.id, { onDelete: "cascade" }),
+  minStake: integer("min_stake"),
+  maxStake: integer("max_stake"),
+  // Total stakes one player may place on the game per day
+  dailyStakeCap: integer("daily_stake_cap"),
+  // Most a Satamatka market may pay out on any single result
+  maxNumberLiability: integer("max_number_liability"),
+  updatedBy: integer("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Cap on the potential payout of all unsettled bets of a subadmin's players,
+// in paisa. The row without a subadmin applies to every subadmin.
+export const exposureLimits = pgTable("exposure_limits", {
+  id: serial("id").primaryKey(),
+  subadminId: integer("subadmin_id").unique().references(() => users.id, { onDelete: "cascade" }),
+  maxExposure: integer("max_exposure").notNull(),
+  updatedBy: integer("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type BetLimit = typeof betLimits.$inferSelect;
+export type ExposureLimit = typeof exposureLimits.$inferSelect;
+
+// What a risk alert rule watches; the unit of its threshold is noted per type
+export const RiskAlertRuleType = {
+  // Net loss of a Satamatka market if a single jodi is the result, in paisa
+  JODI_LIABILITY: "jodi_liability",
+  // One player's share of the potential payout of a market or match, in percent
+  PLAYER_EXPOSURE_SHARE: "player_exposure_share",
+  // Gap between the potential payouts of the two sides of a cricket toss match, in paisa
+  TOSS_IMBALANCE: "toss_imbalance",
+} as const;
+
+export type RiskAlertRuleType = typeof RiskAlertRuleType[keyof typeof RiskAlertRuleType];
+
+// What betting a rule suspends when it fires
+export const RiskSuspendScope = {
+  NONE: "none",
+  // The jodi or toss side that fired the rule
+  NUMBER: "number",
+  // The whole market or match
+  MARKET: "market",
+} as const;
+
+export type RiskSuspendScope = typeof RiskSuspendScope[keyof typeof RiskSuspendScope];
+
+// Risk alert rules set by the admin, checked whenever a bet is placed
+export const riskAlertRules = pgTable("risk_alert_rules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  ruleType: text("rule_type").notNull(),
+  threshold: integer("threshold").notNull(),
+  suspendScope: text("suspend_scope").notNull().default(RiskSuspendScope.NONE),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// One firing of a rule on a market or match. `selection` is the jodi or toss
+// side it fired on and `userId` the player, where the rule is about one.
+export const riskAlerts = pgTable("risk_alerts", {
+  id: serial("id").primaryKey(),
+  ruleId: integer("rule_id").references(() => riskAlertRules.id, { onDelete: "set null" }),
+  ruleType: text("rule_type").notNull(),
+  marketId: integer("market_id").references(() => satamatkaMarkets.id),
+  matchId: integer("match_id").references(() => teamMatches.id),
+  selection: text("selection"),
+  userId: integer("user_id").references(() => users.id),
+  value: integer("value").notNull(),
+  threshold: integer("threshold").notNull(),
+  message: text("message").notNull(),
+  acknowledgedBy: integer("acknowledged_by").references(() => users.id, { onDelete: "set null" }),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Betting held on a market or match, or on one jodi or toss side of it when
+// `selection` is set, until an admin lifts it
+export const bettingSuspensions = pgTable("betting_suspensions", {
+  id: serial("id").primaryKey(),
+  marketId: integer("market_id").references(() => satamatkaMarkets.id),
+  matchId: integer("match_id").references(() => teamMatches.id),
+  selection: text("selection"),
+  alertId: integer("alert_id").references(() => riskAlerts.id, { onDelete: "set null" }),
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  liftedBy: integer("lifted_by").references(() => users.id, { onDelete: "set null" }),
+  liftedAt: timestamp("lifted_at"),
+});
+
+export type RiskAlertRule = typeof riskAlertRules.$inferSelect;
+export type RiskAlert = typeof riskAlerts.$inferSelect;
+export type BettingSuspension = typeof bettingSuspensions.$inferSelect;
+
+// What a daily risk snapshot row is totalled over
+export const RiskSnapshotScope = {
+  // Every bet on the platform; the key is `all`
+  TOTAL: "total",
+  // Every bet of one game type; the key is the game type
+  GAME: "game",
+  // One Satamatka market or cricket match; the key is `market:<id>` or `match:<id>`
+  MARKET: "market",
+  // The players assigned to one subadmin; the key is the subadmin id, or `direct`
+  SUBADMIN: "subadmin",
+  // One player; the key is the user id
+  PLAYER: "player",
+} as const;
+
+export type RiskSnapshotScope = typeof RiskSnapshotScope[keyof typeof RiskSnapshotScope];
+
+// Daily risk and P&L history, in paisa. Handle, payouts and GGR are over the
+// bets placed that day; GGR only counts bets that have settled. Peak exposure
+// is the largest potential payout of unsettled bets sampled during the day.
+export const riskSnapshots = pgTable("risk_snapshots", {
+  id: serial("id").primaryKey(),
+  snapshotDate: date("snapshot_date", { mode: "string" }).notNull(),
+  scope: text("scope").notNull(),
+  scopeKey: text("scope_key").notNull(),
+  label: text("label").notNull(),
+  betCount: integer("bet_count").notNull().default(0),
+  handle: integer("handle").notNull().default(0),
+  payouts: integer("payouts").notNull().default(0),
+  ggr: integer("ggr").notNull().default(0),
+  peakExposure: integer("peak_exposure").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("risk_snapshots_date_scope_key_idx").on(table.snapshotDate, table.scope, table.scopeKey),
+]);
+
+export type RiskSnapshot = typeof riskSnapshots.$inferSelect;
+
+// Kinds of suspicious pattern the anomaly scan looks for
+export const AnomalyType = {
+  // Several accounts betting the same jodi on a market within seconds
+  COORDINATED_BETS: "coordinated_bets",
+  // Accounts under one subadmin withdrawing to the same UPI id or bank account
+  SHARED_PAYMENT_DETAILS: "shared_payment_details",
+  // A player winning far more often than the odds of their bets allow
+  WIN_RATE_OUTLIER: "win_rate_outlier",
+} as const;
+
+export type AnomalyType = typeof AnomalyType[keyof typeof AnomalyType];
+
+export const AnomalyStatus = {
+  OPEN: "open",
+  CONFIRMED: "confirmed",
+  DISMISSED: "dismissed",
+} as const;
+
+export type AnomalyStatus = typeof AnomalyStatus[keyof typeof AnomalyStatus];
+
+// The users, bets and withdrawal requests a finding is based on
+export type AnomalyEvidence = {
+  userIds: number[];
+  gameIds: number[];
+  walletRequestIds: number[];
+};
+
+// Findings of the anomaly scan waiting for an admin to review them. The
+// fingerprint identifies the pattern, so scanning again updates a finding
+// instead of raising it twice.
+export const anomalyFindings = pgTable("anomaly_findings", {
+  id: serial("id").primaryKey(),
+  findingType: text("finding_type").notNull(),
+  fingerprint: text("fingerprint").notNull().unique(),
+  summary: text("summary").notNull(),
+  // How strongly the pattern stands out; comparable within a finding type
+  score: integer("score").notNull(),
+  subadminId: integer("subadmin_id").references(() => users.id, { onDelete: "set null" }),
+  marketId: integer("market_id").references(() => satamatkaMarkets.id),
+  evidence: jsonb("evidence").$type<AnomalyEvidence>().notNull(),
+  status: text("status").notNull().default(AnomalyStatus.OPEN),
+  reviewNote: text("review_note"),
+  reviewedBy: integer("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+});
+
+export type AnomalyFinding = typeof anomalyFindings.$inferSelect;
+
+// Why a subadmin's float moved
+export const SubadminFloatMovementType = {
+  // A deposit the subadmin approved for one of their players; draws the float down
+  DEPOSIT_APPROVED: "deposit_approved",
+  // A withdrawal the subadmin approved for one of their players; replenishes the float
+  WITHDRAWAL_APPROVED: "withdrawal_approved",
+  // Funds the admin added to the float
+  TOP_UP: "top_up",
+  // The admin settled up with the subadmin, bringing the float back to zero
+  SETTLEMENT: "settlement",
+} as const;
+
+export type SubadminFloatMovementType = typeof SubadminFloatMovementType[keyof typeof SubadminFloatMovementType];
+
+// The float a subadmin funds their players from, in paisa. The float can go
+// below zero down to minus the credit limit; approving a deposit that would
+// take it further, or any deposit while the float is frozen, is refused.
+export const subadminCredit = pgTable("subadmin_credit", {
+  id: serial("id").primaryKey(),
+  subadminId: integer("subadmin_id").notNull().references(() => users.id, { onDelete: "cascade" }).unique(),
+  creditLimit: integer("credit_limit").notNull().default(0),
+  floatBalance: integer("float_balance").notNull().default(0),
+  isFrozen: boolean("is_frozen").notNull().default(false),
+  updatedBy: integer("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Every change to a subadmin's float, with the float after it
+export const subadminFloatMovements = pgTable("subadmin_float_movements", {
+  id: serial("id").primaryKey(),
+  subadminId: integer("subadmin_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  movementType: text("movement_type").notNull(),
+  // Signed: negative draws the float down
+  amount: integer("amount").notNull(),
+  floatAfter: integer("float_after").notNull(),
+  walletRequestId: integer("wallet_request_id").references(() => walletRequests.id, { onDelete: "set null" }),
+  performedBy: integer("performed_by").references(() => users.id, { onDelete: "set null" }),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("subadmin_float_movements_subadmin_idx").on(table.subadminId, table.createdAt),
+]);
+
+export type SubadminCredit = typeof subadminCredit.$inferSelect;
+export type SubadminFloatMovement = typeof subadminFloatMovements.$inferSelect;
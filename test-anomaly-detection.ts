@@ -0,0 +1,77 @@
+/**
+ * Checks for the anomaly detectors: clusters of accounts betting the same
+ * jodi within seconds, withdrawal accounts shared under one subadmin, and
+ * win rates far above what the odds of the bets allow.
+ *
+ * Usage: npx tsx test-anomaly-detection.ts
+ */
+import 'dotenv/config';
+import assert from 'node:assert/strict';
+import { GameType, SatamatkaGameMode } from './shared/schema';
+import {
+  findBetClusters,
+  findSharedPaymentDetails,
+  paymentIdentifiers,
+  winProbability,
+  winRateZScore,
+} from './server/anomaly-detection';
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 1, 12, 0, seconds));
+
+function run() {
+  const bet = (id: number, userId: number, prediction: string, seconds: number) =>
+    ({ id, userId, marketId: 1, prediction, betAmount: 100000, createdAt: at(seconds) });
+
+  const clusters = findBetClusters([
+    bet(1, 1, '37', 0),
+    bet(2, 2, '37', 10),
+    bet(3, 3, '37', 40),
+    // Same number a minute later, and a different number in the same burst
+    bet(4, 4, '37', 120),
+    bet(5, 5, '73', 5),
+  ], 60, 3);
+  assert.equal(clusters.length, 1);
+  assert.deepEqual(clusters[0].bets.map(b => b.id), [1, 2, 3]);
+  assert.equal(clusters[0].spanSeconds, 40);
+  assert.equal(clusters[0].totalStake, 300000);
+
+  // One account betting three times is not a cluster
+  assert.equal(findBetClusters([bet(1, 1, '37', 0), bet(2, 1, '37', 1), bet(3, 1, '37', 2)], 60, 3).length, 0);
+  console.log('✓ only bursts from enough different accounts are clusters');
+
+  assert.deepEqual(paymentIdentifiers({ upiId: ' Player@UPI ' }), ['upi:player@upi']);
+  assert.deepEqual(paymentIdentifiers({ accountNumber: '1234 5678', ifscCode: 'sbin0001' }), ['bank:SBIN0001:12345678']);
+
+  const groups = findSharedPaymentDetails([
+    { id: 1, userId: 1, subadminId: 9, paymentDetails: { upiId: 'same@upi' } },
+    { id: 2, userId: 2, subadminId: 9, paymentDetails: { upiId: 'SAME@upi' } },
+    { id: 3, userId: 2, subadminId: 9, paymentDetails: { upiId: 'same@upi' } },
+    // Under another subadmin, and one player's own repeat withdrawals
+    { id: 4, userId: 3, subadminId: 8, paymentDetails: { upiId: 'same@upi' } },
+    { id: 5, userId: 4, subadminId: 9, paymentDetails: { upiId: 'own@upi' } },
+    { id: 6, userId: 4, subadminId: 9, paymentDetails: { upiId: 'own@upi' } },
+  ]);
+  assert.equal(groups.length, 1);
+  assert.deepEqual(groups[0].userIds, [1, 2]);
+  assert.deepEqual(groups[0].requestIds, [1, 2, 3]);
+  console.log('✓ withdrawal accounts are shared per subadmin, not per player');
+
+  assert.equal(winProbability(GameType.SATAMATKA, SatamatkaGameMode.JODI, '37'), 0.01);
+  assert.equal(winProbability(GameType.SATAMATKA, SatamatkaGameMode.ODD_EVEN, 'odd'), 0.5);
+  assert.equal(winProbability(GameType.SATAMATKA, SatamatkaGameMode.CROSSING, '3,7'), 0.02);
+  assert.equal(winProbability(GameType.CRICKET_TOSS, null, 'team_a'), 0.5);
+
+  // 10 jodi wins out of 50 bets expects half a win
+  const jodis = Array<number>(50).fill(0.01);
+  assert.ok(winRateZScore(10, jodis) > 10);
+  // 30 even-chance wins out of 50 is within luck
+  assert.ok(winRateZScore(30, Array<number>(50).fill(0.5)) < 2);
+  console.log('✓ win chances follow the settlement rules and z-scores separate luck from outliers');
+}
+
+try {
+  run();
+} catch (error) {
+  console.error('✗ Check failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,57 @@
+/**
+ * Checks for combining bet limits: a subadmin's limits only ever tighten the
+ * admin's global ones.
+ *
+ * Usage: npx tsx test-bet-limits.ts
+ */
+import 'dotenv/config';
+import assert from 'node:assert/strict';
+import { GameType } from './shared/schema';
+import { looserLimitReason, tightenLimits, type BetLimitValues } from './server/bet-limits';
+
+const global: BetLimitValues = {
+  minStake: 1000,
+  maxStake: 500000,
+  dailyStakeCap: null,
+  maxNumberLiability: 10000000,
+};
+
+function run() {
+  // The stricter value wins; unset values fall back to the other level
+  assert.deepEqual(
+    tightenLimits(global, { minStake: 5000, maxStake: 900000, dailyStakeCap: 2000000, maxNumberLiability: null }),
+    { minStake: 5000, maxStake: 500000, dailyStakeCap: 2000000, maxNumberLiability: 10000000 },
+  );
+  assert.deepEqual(tightenLimits(global, null), global);
+
+  // Tightening is allowed
+  assert.equal(looserLimitReason(GameType.SATAMATKA, global, {
+    minStake: 2000,
+    maxStake: 100000,
+    dailyStakeCap: 300000,
+    maxNumberLiability: 5000000,
+  }), null);
+
+  // Loosening or clearing an admin limit is not
+  assert.match(
+    looserLimitReason(GameType.SATAMATKA, global, { ...global, minStake: 500 }) ?? '',
+    /minimum stake cannot be below the admin's ₹10\.00/,
+  );
+  assert.match(
+    looserLimitReason(GameType.CRICKET_TOSS, global, { ...global, maxStake: 600000 }) ?? '',
+    /Cricket toss maximum stake cannot exceed the admin's ₹5000\.00/,
+  );
+  assert.match(
+    looserLimitReason(GameType.SATAMATKA, global, { ...global, maxNumberLiability: null }) ?? '',
+    /per-number liability cannot exceed/,
+  );
+
+  console.log('✓ subadmin limits tighten the global limits and cannot loosen them');
+}
+
+try {
+  run();
+} catch (error) {
+  console.error('✗ Check failed:', error);
+  process.exit(1);
+}
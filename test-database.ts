@@ -0,0 +1,17 @@
+/**
+ * Points the database-backed checks at TEST_DATABASE_URL.
+ * Those checks create and delete users, bets and ledger entries, so they never
+ * read .env, whose DATABASE_URL is the live database, and refuse to run
+ * without a database meant for them. Import it before anything that opens a
+ * connection.
+ *
+ * Usage: import './test-database';
+ */
+const testDatabaseUrl = process.env.TEST_DATABASE_URL;
+
+if (!testDatabaseUrl) {
+  console.error('✗ TEST_DATABASE_URL is not set. Point it at a disposable database; these checks write to it.');
+  process.exit(1);
+}
+
+process.env.DATABASE_URL = testDatabaseUrl;
@@ -0,0 +1,189 @@
+/**
+ * Checks for the cricket toss fixture import.
+ * Checks how CSV and JSON fixture lists are read, which rows the preview
+ * flags, that an export reads back as the same fixtures, and that images
+ * come out of a zip, which is refused when damaged or too large.
+ *
+ * Usage: npx tsx test-fixture-import.ts
+ */
+import 'dotenv/config';
+import assert from 'node:assert/strict';
+import zlib from 'zlib';
+import { type TeamMatch } from './shared/schema';
+import {
+  FixtureImportError,
+  fixturesExport,
+  parseCsv,
+  parseFixtureFile,
+  parseFixtureTime,
+  validateFixtures,
+} from './server/fixture-import';
+import { ZipError, extractZipEntry, listZipEntries } from './server/zip';
+
+// A zip of the given files, the first stored and the rest deflated. CRCs
+// are left at zero since the reader does not check them.
+function buildZip(files: Array<[string, string]>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  files.forEach(([name, content], index) => {
+    const method = index === 0 ? 0 : 8;
+    const data = method === 0 ? Buffer.from(content) : zlib.deflateRawSync(Buffer.from(content));
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  });
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+function scheduled(id: number, teamA: string, teamB: string, matchTime: string) {
+  return { id, teamA, teamB, matchTime: parseFixtureTime(matchTime)! };
+}
+
+function run() {
+  assert.deepEqual(parseCsv('a,"b, c","say ""hi"""\r\n\r\n"two\nlines",,x\n'), [
+    ['a', 'b, c', 'say "hi"'],
+    ['two\nlines', '', 'x'],
+  ]);
+  console.log('✓ CSV cells can be quoted, hold commas, quotes and line breaks');
+
+  const csv = parseFixtureFile(
+    'TeamA,teamB,matchTime,oddTeamA\nIndia,Australia,2026-03-14 19:30,1.85\n',
+    'csv'
+  );
+  const json = parseFixtureFile(
+    '[{"teamA":"India","teamB":"Australia","matchTime":"2026-03-14T19:30","oddTeamA":1.85}]',
+    'json'
+  );
+  assert.deepEqual(csv, [{ teamA: 'India', teamB: 'Australia', matchTime: '2026-03-14 19:30', oddTeamA: '1.85' }]);
+  assert.deepEqual(json, [{ ...csv[0], matchTime: '2026-03-14T19:30' }]);
+  assert.throws(() => parseFixtureFile('teamA,teamB,venue\n', 'csv'), FixtureImportError);
+  assert.throws(() => parseFixtureFile('teamA,teamB\n', 'csv'), /matchTime/);
+  assert.throws(() => parseFixtureFile('{"teamA":"India"}', 'json'), FixtureImportError);
+  console.log('✓ CSV and JSON fixture lists read the same, and unknown or missing columns are refused');
+
+  assert.equal(parseFixtureTime('2026-02-30 10:00'), null);
+  assert.equal(parseFixtureTime('14/03/2026 10:00'), null);
+  console.log('✓ match times must be real YYYY-MM-DD HH:mm times');
+
+  const { preview, fixtures } = validateFixtures(
+    [
+      { teamA: 'India', teamB: 'Australia', matchTime: '2026-03-14 19:30', oddTeamA: '1.85', coverImage: 'ind-aus.png' },
+      { teamA: 'australia', teamB: 'INDIA', matchTime: '2026-03-14 19:30' },
+      { teamA: 'England', teamB: 'Pakistan', matchTime: '2026-03-15 14:00' },
+      { teamA: 'Sri Lanka', teamB: 'Nepal', matchTime: '2026-03-01 10:00' },
+      { teamA: 'Kenya', teamB: 'Kenya', matchTime: '2026-03-16 10:00', oddTeamB: '0.90' },
+      { teamA: 'Oman', teamB: 'USA', matchTime: '2026-03-16 10:00', teamAImage: 'oman.png', teamBImage: '../usa.png' },
+    ],
+    {
+      now: parseFixtureTime('2026-03-10 12:00')!,
+      scheduled: [scheduled(41, 'Pakistan', 'England', '2026-03-15 14:00')],
+      imageExists: name => name === 'ind-aus.png',
+      firstRow: 2,
+    }
+  );
+  assert.deepEqual(preview.rows.map(row => row.errors), [
+    [],
+    ['Duplicate of row 2'],
+    ['Already scheduled as match #41'],
+    ['Match time is in the past'],
+    ['Both sides are the same team', 'Team B odds "0.90" must be 1.00 or more'],
+    ['oman.png is not in the uploaded images', '../usa.png is not an image file name'],
+  ]);
+  assert.equal(preview.valid, 1);
+  assert.equal(preview.invalid, 5);
+  assert.deepEqual(
+    fixtures.map(({ teamA, oddTeamA, oddTeamB, coverImage }) => ({ teamA, oddTeamA, oddTeamB, coverImage })),
+    [{ teamA: 'India', oddTeamA: 185, oddTeamB: 200, coverImage: 'ind-aus.png' }]
+  );
+  console.log('✓ the preview flags duplicates, past times, bad odds and missing images');
+
+  const match: TeamMatch = {
+    id: 7,
+    teamA: 'India',
+    teamB: 'Australia, A',
+    category: 'cricket_toss',
+    description: 'Final "decider"',
+    matchTime: parseFixtureTime('2026-03-14 19:30')!,
+    result: 'pending',
+    oddTeamA: 185,
+    oddTeamB: 200,
+    oddDraw: null,
+    status: 'open',
+    teamAImage: null,
+    teamBImage: null,
+    coverImage: '/uploads/cricket-toss/cricket-toss-1-2.png',
+    createdAt: null,
+  };
+  const expected = {
+    teamA: 'India',
+    teamB: 'Australia, A',
+    matchTime: '2026-03-14 19:30',
+    oddTeamA: '1.85',
+    oddTeamB: '2.00',
+    description: 'Final "decider"',
+    coverImage: 'cricket-toss-1-2.png',
+    teamAImage: '',
+    teamBImage: '',
+  };
+  assert.deepEqual(parseFixtureFile(fixturesExport([match], 'csv'), 'csv'), [expected]);
+  assert.deepEqual(parseFixtureFile(fixturesExport([match], 'json'), 'json'), [expected]);
+  console.log('✓ exported fixtures read back as the same fixtures');
+
+  const archive = buildZip([
+    ['fixtures/ind-aus.png', 'stored image'],
+    ['__MACOSX/fixtures/._ind-aus.png', 'resource fork'],
+    ['oman.png', 'deflated image '.repeat(20)],
+  ]);
+  const zip = listZipEntries(archive);
+  assert.deepEqual(Array.from(zip.keys()), ['ind-aus.png', 'oman.png']);
+  assert.equal(extractZipEntry(archive, zip.get('ind-aus.png')!, 1024).toString(), 'stored image');
+  assert.equal(extractZipEntry(archive, zip.get('oman.png')!, 1024).toString(), 'deflated image '.repeat(20));
+  console.log('✓ images come out of a zip by file name, stored or deflated');
+
+  assert.throws(() => extractZipEntry(archive, zip.get('oman.png')!, 100), /larger than/);
+  const understated = { ...zip.get('oman.png')!, size: 10 };
+  assert.throws(() => extractZipEntry(archive, understated, 1024), ZipError);
+  console.log('✓ an entry larger than the cap is refused, even when it understates its size');
+
+  const badOffset = Buffer.from(archive);
+  badOffset.writeUInt32LE(archive.length, archive.length - 6);
+  assert.throws(() => listZipEntries(badOffset), ZipError);
+  assert.throws(() => listZipEntries(archive.subarray(0, archive.length - 30)), ZipError);
+  assert.throws(() => listZipEntries(Buffer.from('not a zip')), ZipError);
+  console.log('✓ a damaged or truncated zip is refused with a ZipError');
+}
+
+try {
+  run();
+} catch (error) {
+  console.error('✗ Check failed:', error);
+  process.exit(1);
+}
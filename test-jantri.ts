@@ -0,0 +1,94 @@
+/**
+ * Checks for the jantri report.
+ * Lays a handful of bets out on the jantri and checks where their stakes and
+ * payouts land, then that the CSV and PDF exports are well formed.
+ *
+ * Usage: npx tsx test-jantri.ts
+ */
+import 'dotenv/config';
+import assert from 'node:assert/strict';
+import { SatamatkaGameMode } from './shared/schema';
+import { buildJantriGrid, jantriCsv, jantriPdf, type Jantri, type JantriBet } from './server/jantri';
+
+function bet(gameMode: SatamatkaGameMode, prediction: string, betAmount: number, potentialPayout: number): JantriBet {
+  return { gameMode, prediction, betAmount, potentialPayout };
+}
+
+function run() {
+  const bets = [
+    bet(SatamatkaGameMode.JODI, '37', 1000, 90000),
+    // A player with better odds on the same jodi
+    bet(SatamatkaGameMode.JODI, '37', 1000, 95000),
+    // Crosses into 12, 13, 21, 23, 31 and 32
+    bet(SatamatkaGameMode.CROSSING, '1,2,3', 500, 47500),
+    bet(SatamatkaGameMode.HARF, 'A5', 200, 1800),
+    bet(SatamatkaGameMode.HARF, '5', 100, 900),
+    bet(SatamatkaGameMode.ODD_EVEN, 'odd', 400, 760),
+  ];
+  const grid = buildJantriGrid(bets);
+
+  assert.equal(grid.betCount, bets.length);
+  assert.equal(grid.totalStake, 3200);
+  assert.deepEqual(grid.jodi[37], { stake: 2000, payout: 185000, bets: 2 });
+
+  // The crossing's 500 paisa split six ways, the 2 left over on the first cells
+  const crossed = [12, 13, 21, 23, 31, 32].map(index => grid.jodi[index]);
+  assert.deepEqual(crossed.map(cell => cell.stake), [84, 84, 83, 83, 83, 83]);
+  assert.ok(crossed.every(cell => cell.payout === 47500 && cell.bets === 1));
+  assert.deepEqual(grid.jodi[11], { stake: 0, payout: 0, bets: 0 });
+
+  // Every stake lands somewhere exactly once
+  const placed = [...grid.jodi, ...grid.andar, ...grid.bahar, grid.odd, grid.even]
+    .reduce((sum, cell) => sum + cell.stake, 0);
+  assert.equal(placed, grid.totalStake);
+  console.log('✓ jodi and crossing bets spread over the numbers they cover');
+
+  // A left harf bet is andar only; a bare digit is split between both sides
+  assert.deepEqual(grid.andar[5], { stake: 250, payout: 2700, bets: 2 });
+  assert.deepEqual(grid.bahar[5], { stake: 50, payout: 900, bets: 1 });
+  assert.deepEqual(grid.andar[4], { stake: 0, payout: 0, bets: 0 });
+  assert.deepEqual(grid.odd, { stake: 400, payout: 760, bets: 1 });
+  assert.deepEqual(grid.even, { stake: 0, payout: 0, bets: 0 });
+  console.log('✓ harf bets land on their andar and bahar digits');
+
+  // The house net matches what settlement would pay
+  assert.equal(grid.net[37], 3200 - 90000 - 95000 - 760);
+  assert.equal(grid.net[55], 3200 - 1800 - 900 - 760);
+  assert.equal(grid.net[0], 3200);
+  console.log('✓ house net per jodi matches settlement');
+
+  const jantri: Jantri = {
+    marketId: 1,
+    marketName: 'Gali, "Night"',
+    date: '2026-10-19',
+    subadminId: null,
+    subadminName: null,
+    ...grid,
+  };
+
+  const csv = jantriCsv(jantri).split('\n');
+  assert.equal(csv[0], 'Market,"Gali, ""Night"""');
+  assert.ok(csv.includes('Jodi,37,20.00,1850.00,2,-1825.60'));
+  assert.ok(csv.includes('Andar,5,2.50,27.00,2,'));
+  console.log('✓ CSV quotes fields and writes rupees');
+
+  const pdf = jantriPdf(jantri).toString('latin1');
+  assert.ok(pdf.startsWith('%PDF-1.4\n'));
+  assert.ok(pdf.endsWith('%%EOF\n'));
+  // Every xref entry points at the object it names
+  const xrefStart = parseInt(pdf.match(/startxref\n(\d+)/)![1], 10);
+  assert.ok(pdf.startsWith('xref\n', xrefStart));
+  const offsets = Array.from(pdf.matchAll(/^(\d{10}) 00000 n $/gm), match => parseInt(match[1], 10));
+  offsets.forEach((offset, index) => {
+    assert.ok(pdf.startsWith(`${index + 1} 0 obj\n`, offset), `object ${index + 1} should start at its offset`);
+  });
+  assert.ok(pdf.includes('(Jantri: Gali, "Night", 2026-10-19) \''));
+  console.log('✓ PDF has a valid cross-reference table');
+}
+
+try {
+  run();
+} catch (error) {
+  console.error('✗ Check failed:', error);
+  process.exit(1);
+}
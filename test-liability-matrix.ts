@@ -0,0 +1,71 @@
+/**
+ * Checks for the Satamatka liability matrix.
+ * Builds the matrix for a handful of bets and compares every cell with what
+ * settlement would pay for that result.
+ *
+ * Usage: npx tsx test-liability-matrix.ts
+ */
+import 'dotenv/config';
+import assert from 'node:assert/strict';
+import { MarketStatus, SatamatkaGameMode, type SatamatkaMarket } from './shared/schema';
+import { buildMarketLiability, JODI_OUTCOMES, type PricedBet } from './server/liability-matrix';
+
+const market = { id: 1, name: 'Test Market', type: 'dishawar', status: MarketStatus.OPEN } as SatamatkaMarket;
+
+function bet(gameMode: SatamatkaGameMode, prediction: string, betAmount: number, odds: number): PricedBet {
+  return { game: { gameMode, prediction, betAmount }, odds };
+}
+
+function run() {
+  const bets = [
+    bet(SatamatkaGameMode.JODI, '37', 1000, 900000),
+    // A player with better subadmin odds on the same jodi
+    bet(SatamatkaGameMode.JODI, '37', 1000, 950000),
+    bet(SatamatkaGameMode.CROSSING, '1,2,3', 500, 950000),
+    bet(SatamatkaGameMode.HARF, 'A5', 200, 90000),
+    bet(SatamatkaGameMode.HARF, '5', 100, 90000),
+    bet(SatamatkaGameMode.ODD_EVEN, 'odd', 400, 19000),
+  ];
+  const totalStake = 3200;
+
+  const liability = buildMarketLiability(market, bets);
+  assert.equal(liability.outcomes.length, 100);
+  assert.equal(liability.totalStake, totalStake);
+  assert.equal(liability.betCount, bets.length);
+
+  const net = (result: string) => liability.outcomes[JODI_OUTCOMES.indexOf(result)];
+
+  // 37: both jodi bets at their own odds, plus the odd bet
+  assert.equal(net('37'), totalStake - 90000 - 95000 - 760);
+  // 00: nothing wins
+  assert.equal(net('00'), totalStake);
+  // Crossing 1,2,3 expands into 12, 13, 21, 23, 31 and 32, never a doubled digit
+  for (const result of ['12', '13', '21', '23', '31', '32']) {
+    const oddPayout = parseInt(result, 10) % 2 === 1 ? 760 : 0;
+    assert.equal(net(result), totalStake - 47500 - oddPayout, `crossing should cover ${result}`);
+  }
+  assert.equal(net('11'), totalStake - 760);
+  assert.equal(net('22'), totalStake);
+  // 55: the left harf bet and the bare-digit harf bet both win
+  assert.equal(net('55'), totalStake - 1800 - 900 - 760);
+  // 45: only the bare-digit harf bet wins
+  assert.equal(net('45'), totalStake - 900 - 760);
+
+  assert.equal(liability.worstOutcome.result, '37');
+  assert.equal(liability.bestOutcome.net, totalStake);
+
+  // Harf rows: stakes minus the harf payouts certain once a position shows the digit
+  assert.equal(liability.harf.totalStake, 300);
+  assert.equal(liability.harf.left[5], 300 - 1800 - 900);
+  assert.equal(liability.harf.right[5], 300 - 900);
+  assert.equal(liability.harf.left[0], 300);
+
+  console.log('✓ liability matrix matches settlement for jodi, crossing, harf and odd/even bets');
+}
+
+try {
+  run();
+} catch (error) {
+  console.error('✗ Check failed:', error);
+  process.exit(1);
+}
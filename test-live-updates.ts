@@ -0,0 +1,121 @@
+/**
+ * Checks for the live updates channel.
+ * Publishes events from committed and rolled back transactions while
+ * listening on the channel, and verifies that only committed events arrive,
+ * carry the player's subadmin and reach the right subscribers.
+ *
+ * Usage: TEST_DATABASE_URL=<url> npx tsx test-live-updates.ts
+ * Requires TEST_DATABASE_URL pointing at a disposable database.
+ */
+import './test-database';
+import assert from 'node:assert/strict';
+import { TransactionRollbackError, inArray } from 'drizzle-orm';
+import { db, pool } from './server/db';
+import { users, UserRole } from './shared/schema';
+import { LiveEventType, type DeliveredLiveEvent } from './shared/live-events';
+import { isInAudience, publishLiveEvent } from './server/live-updates';
+
+// Long enough for a committed notification to arrive
+const DELIVERY_WAIT_MS = 500;
+
+async function createTestUser(username: string, role: string, assignedTo: number | null = null) {
+  const [user] = await db.insert(users).values({
+    username,
+    password: 'not-a-real-password',
+    role,
+    balance: 0,
+    assignedTo,
+  }).returning();
+  return user;
+}
+
+async function testDelivery(createdUserIds: number[]) {
+  console.log('\n1. Events arrive when their transaction commits');
+  const suffix = Date.now();
+  const subadmin = await createTestUser(`live_subadmin_${suffix}`, UserRole.SUBADMIN);
+  const player = await createTestUser(`live_player_${suffix}`, UserRole.PLAYER, subadmin.id);
+  createdUserIds.push(subadmin.id, player.id);
+
+  const received: DeliveredLiveEvent[] = [];
+  const listener = await pool.connect();
+  try {
+    listener.on('notification', (message) => {
+      const event = JSON.parse(message.payload ?? '{}') as DeliveredLiveEvent;
+      if (event.userId === player.id) received.push(event);
+    });
+    await listener.query('LISTEN live_updates');
+
+    await db.transaction(async (tx) => {
+      await publishLiveEvent(tx, { type: LiveEventType.BALANCE_CHANGED, userId: player.id, balance: 100 });
+    });
+    await db.transaction(async (tx) => {
+      await publishLiveEvent(tx, { type: LiveEventType.BALANCE_CHANGED, userId: player.id, balance: 200 });
+      tx.rollback();
+    }).catch(error => {
+      if (!(error instanceof TransactionRollbackError)) throw error;
+    });
+
+    await new Promise(resolve => setTimeout(resolve, DELIVERY_WAIT_MS));
+  } finally {
+    await listener.query('UNLISTEN live_updates');
+    listener.release();
+  }
+
+  assert.equal(received.length, 1, 'the rolled back event should not arrive');
+  assert.deepEqual(received[0], {
+    type: LiveEventType.BALANCE_CHANGED,
+    userId: player.id,
+    balance: 100,
+    subadminId: subadmin.id,
+  });
+  console.log('   ✓ only the committed event arrived, with the player\'s subadmin');
+}
+
+function testAudience() {
+  console.log('\n2. Events reach the player, their subadmin and admins');
+  const balance: DeliveredLiveEvent = { type: LiveEventType.BALANCE_CHANGED, userId: 10, balance: 0, subadminId: 5 };
+  const exposure: DeliveredLiveEvent = {
+    type: LiveEventType.EXPOSURE_CHANGED,
+    userId: 10,
+    gameId: 1,
+    gameType: 'satamatka',
+    marketId: 1,
+    matchId: null,
+    delta: 9000,
+    subadminId: 5,
+  };
+
+  assert.ok(isInAudience({ userId: 10, role: UserRole.PLAYER }, balance));
+  assert.ok(!isInAudience({ userId: 11, role: UserRole.PLAYER }, balance));
+  assert.ok(!isInAudience({ userId: 10, role: UserRole.PLAYER }, exposure), 'players do not see exposure');
+  assert.ok(isInAudience({ userId: 5, role: UserRole.SUBADMIN }, exposure));
+  assert.ok(!isInAudience({ userId: 6, role: UserRole.SUBADMIN }, exposure));
+  assert.ok(isInAudience({ userId: 1, role: UserRole.ADMIN }, exposure));
+  console.log('   ✓ audiences scoped by role and assignment');
+}
+
+async function cleanup(userIds: number[]) {
+  if (!userIds.length) return;
+  await db.delete(users).where(inArray(users.id, userIds));
+}
+
+async function run() {
+  const createdUserIds: number[] = [];
+  let failed = false;
+
+  try {
+    console.log('===== LIVE UPDATES =====');
+    await testDelivery(createdUserIds);
+    testAudience();
+    console.log('\n===== ALL CHECKS PASSED =====');
+  } catch (error) {
+    failed = true;
+    console.error('\n✗ Check failed:', error);
+  } finally {
+    await cleanup(createdUserIds).catch(error => console.error('Cleanup failed:', error));
+    await pool.end();
+    process.exit(failed ? 1 : 0);
+  }
+}
+
+run();
@@ -0,0 +1,90 @@
+/**
+ * Lifecycle checks for the Satamatka market scheduler.
+ * Drives the pure transition rules with fixed clocks, so no database is needed.
+ *
+ * Usage: npx tsx test-market-scheduler.ts
+ */
+import assert from 'node:assert/strict';
+import { MarketStatus, RecurrencePattern } from './shared/schema';
+import { isValidRecurrencePattern, nextMarketCycle, planMarketTransition } from './server/market-schedule';
+import { nextCronOccurrence, parseCron } from './server/cron';
+
+// Local-time dates, matching how the scheduler evaluates patterns
+function at(year: number, month: number, day: number, hour: number, minute = 0) {
+  return new Date(year, month - 1, day, hour, minute);
+}
+
+function market(overrides: Record<string, unknown> = {}) {
+  return {
+    status: MarketStatus.WAITING,
+    openTime: at(2024, 1, 5, 10),
+    closeTime: at(2024, 1, 5, 14),
+    resultTime: at(2024, 1, 5, 15),
+    isRecurring: true,
+    recurrencePattern: RecurrencePattern.DAILY as string | null,
+    nextOpenTime: null as Date | null,
+    nextCloseTime: null as Date | null,
+    ...overrides,
+  };
+}
+
+function testOpenAndClose() {
+  assert.equal(planMarketTransition(market(), at(2024, 1, 5, 9)), null);
+  assert.deepEqual(planMarketTransition(market(), at(2024, 1, 5, 10)), { status: MarketStatus.OPEN });
+  assert.deepEqual(planMarketTransition(market({ status: MarketStatus.OPEN }), at(2024, 1, 5, 14)), { status: MarketStatus.CLOSED });
+  // A market that was never opened because the server was down closes directly
+  assert.deepEqual(planMarketTransition(market(), at(2024, 1, 5, 16)), { status: MarketStatus.CLOSED });
+  // Closed markets wait for results
+  assert.equal(planMarketTransition(market({ status: MarketStatus.CLOSED }), at(2024, 1, 9, 12)), null);
+}
+
+function testRollover() {
+  const resulted = market({ status: MarketStatus.RESULTED });
+
+  // Before the next cycle opens only the preview is set, and setting it again is a no-op
+  const preview = planMarketTransition(resulted, at(2024, 1, 5, 16));
+  assert.deepEqual(preview, { nextOpenTime: at(2024, 1, 6, 10), nextCloseTime: at(2024, 1, 6, 14) });
+  assert.equal(planMarketTransition({ ...resulted, ...preview }, at(2024, 1, 5, 16)), null);
+
+  const rolled = planMarketTransition(resulted, at(2024, 1, 6, 10, 1));
+  assert.deepEqual(rolled, {
+    status: MarketStatus.OPEN,
+    openTime: at(2024, 1, 6, 10),
+    closeTime: at(2024, 1, 6, 14),
+    resultTime: at(2024, 1, 6, 15),
+    openResult: null,
+    closeResult: null,
+    nextOpenTime: at(2024, 1, 7, 10),
+    nextCloseTime: at(2024, 1, 7, 14),
+  });
+
+  // Cycles that closed while the server was down are skipped
+  const caughtUp = planMarketTransition(resulted, at(2024, 1, 8, 12));
+  assert.equal(caughtUp?.openTime?.getTime(), at(2024, 1, 8, 10).getTime());
+
+  assert.equal(planMarketTransition({ ...resulted, isRecurring: false }, at(2024, 1, 8, 12)), null);
+}
+
+function testPatterns() {
+  // 2024-01-05 is a Friday
+  const friday = { openTime: at(2024, 1, 5, 10), closeTime: at(2024, 1, 5, 14), resultTime: null };
+  assert.equal(nextMarketCycle(RecurrencePattern.WEEKDAYS, friday).openTime.getTime(), at(2024, 1, 8, 10).getTime());
+  assert.equal(nextMarketCycle(RecurrencePattern.WEEKLY, friday).openTime.getTime(), at(2024, 1, 12, 10).getTime());
+
+  const cron = nextMarketCycle('30 9 * * 1,3', friday);
+  assert.equal(cron.openTime.getTime(), at(2024, 1, 8, 9, 30).getTime());
+  assert.equal(cron.closeTime.getTime(), at(2024, 1, 8, 13, 30).getTime());
+
+  assert.equal(nextCronOccurrence(parseCron('*/15 * * * *'), at(2024, 1, 5, 10, 7)).getTime(), at(2024, 1, 5, 10, 15).getTime());
+  assert.equal(nextCronOccurrence(parseCron('0 0 1 * *'), at(2024, 1, 5, 10)).getTime(), at(2024, 2, 1, 0).getTime());
+
+  assert.ok(isValidRecurrencePattern('daily'));
+  assert.ok(isValidRecurrencePattern('0 18 * * 1-5'));
+  assert.ok(!isValidRecurrencePattern('0 25 * * *'));
+  assert.ok(!isValidRecurrencePattern('every day'));
+}
+
+testOpenAndClose();
+testRollover();
+testPatterns();
+console.log('Market scheduler checks passed');
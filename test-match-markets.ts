@@ -0,0 +1,65 @@
+/**
+ * Checks for match markets.
+ * Checks how open bets add up on each selection of a market, and what the
+ * market form accepts.
+ *
+ * Usage: npx tsx test-match-markets.ts
+ */
+import 'dotenv/config';
+import assert from 'node:assert/strict';
+import { MatchMarketType, type MarketSelection } from './shared/schema';
+import { matchMarketBodySchema } from './shared/api-contracts';
+import { buildSelectionBook } from './server/match-markets';
+
+function selection(id: number, name: string, odds: number): MarketSelection {
+  return { id, marketId: 1, name, odds, sortOrder: id };
+}
+
+function run() {
+  const selections = [selection(1, 'Over 160.5', 185), selection(2, 'Under 160.5', 195)];
+  const book = buildSelectionBook(selections, [
+    { selectionId: 1, betAmount: 10000, payout: 18500 },
+    { selectionId: 1, betAmount: 2000, payout: 3800 },
+    // A bet on another market's selection is left out
+    { selectionId: 7, betAmount: 5000, payout: 10000 },
+  ]);
+  assert.deepEqual(book.map(({ id, bets, stake, payout }) => ({ id, bets, stake, payout })), [
+    { id: 1, bets: 2, stake: 12000, payout: 22300 },
+    { id: 2, bets: 0, stake: 0, payout: 0 },
+  ]);
+  assert.equal(book[0].name, 'Over 160.5');
+  console.log('✓ the book adds up open bets on each selection');
+
+  const overUnder = {
+    marketType: MatchMarketType.OVER_UNDER,
+    name: 'First innings runs',
+    line: 1605,
+    selections: [{ name: 'Over 160.5', odds: 185 }, { name: 'Under 160.5', odds: 195 }],
+  };
+  assert.equal(matchMarketBodySchema.safeParse(overUnder).success, true);
+  assert.equal(matchMarketBodySchema.safeParse({ ...overUnder, line: null }).success, false);
+  assert.equal(matchMarketBodySchema.safeParse({
+    ...overUnder,
+    marketType: MatchMarketType.MATCH_WINNER,
+    line: null,
+  }).success, true);
+  console.log('✓ only over/under markets need a line');
+
+  assert.equal(matchMarketBodySchema.safeParse({ ...overUnder, selections: overUnder.selections.slice(0, 1) }).success, false);
+  assert.equal(matchMarketBodySchema.safeParse({
+    ...overUnder,
+    selections: [{ name: 'Kohli', odds: 400 }, { name: 'kohli', odds: 450 }],
+  }).success, false);
+  assert.equal(matchMarketBodySchema.safeParse({
+    ...overUnder,
+    selections: [{ name: 'Over', odds: 185 }, { name: 'Under', odds: 90 }],
+  }).success, false);
+  console.log('✓ a market needs two or more distinct selections priced at 1.00 or more');
+}
+
+try {
+  run();
+} catch (error) {
+  console.error('✗ Check failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,34 @@
+/**
+ * Checks for the match scheduler.
+ * Checks when each kind of team match stops taking bets.
+ *
+ * Usage: npx tsx test-match-scheduler.ts
+ */
+import 'dotenv/config';
+import assert from 'node:assert/strict';
+import { DEFAULT_TOSS_CLOSE_MINUTES, bettingCutoff } from './server/match-scheduler';
+
+function run() {
+  const matchTime = new Date('2026-03-14T14:00:00.000Z');
+
+  assert.equal(
+    bettingCutoff({ category: 'cricket_toss', matchTime }, 45).toISOString(),
+    '2026-03-14T13:15:00.000Z'
+  );
+  assert.equal(
+    bettingCutoff({ category: 'cricket_toss', matchTime }, DEFAULT_TOSS_CLOSE_MINUTES).toISOString(),
+    '2026-03-14T13:30:00.000Z'
+  );
+  console.log('✓ toss matches close the configured minutes before the match time');
+
+  assert.equal(bettingCutoff({ category: 'cricket_toss', matchTime }, 0).getTime(), matchTime.getTime());
+  assert.equal(bettingCutoff({ category: 'football', matchTime }, 45).getTime(), matchTime.getTime());
+  console.log('✓ other matches close at the match time');
+}
+
+try {
+  run();
+} catch (error) {
+  console.error('✗ Check failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,45 @@
+/**
+ * Checks for provably fair coin flips.
+ * Recomputes flips with the browser verifier and compares them with the
+ * server's outcomes, and checks that heads and tails come up about equally.
+ *
+ * Usage: npx tsx test-provably-fair.ts
+ */
+import 'dotenv/config';
+import assert from 'node:assert/strict';
+import { GameOutcome } from './shared/schema';
+import { computeCoinFlip, generateServerSeed, hashServerSeed } from './server/provably-fair';
+import { verifyCoinFlip } from './client/src/lib/provably-fair';
+
+const FLIPS = 10000;
+
+async function run() {
+  const serverSeed = generateServerSeed();
+  const serverSeedHash = hashServerSeed(serverSeed);
+  const clientSeed = 'test-client-seed';
+
+  let heads = 0;
+  for (let nonce = 0; nonce < FLIPS; nonce++) {
+    const outcome = computeCoinFlip(serverSeed, clientSeed, nonce);
+    if (outcome === GameOutcome.HEADS) heads++;
+
+    if (nonce < 100) {
+      const verification = await verifyCoinFlip({ serverSeed, serverSeedHash, clientSeed, nonce });
+      assert.ok(verification.hashMatches, 'the revealed seed should match its commitment');
+      assert.equal(verification.outcome, outcome, `flip ${nonce} should verify in the browser`);
+    }
+  }
+
+  const tampered = await verifyCoinFlip({ serverSeed: generateServerSeed(), serverSeedHash, clientSeed, nonce: 0 });
+  assert.ok(!tampered.hashMatches, 'a swapped server seed should not match the commitment');
+
+  const headsShare = heads / FLIPS;
+  assert.ok(headsShare > 0.47 && headsShare < 0.53, `heads came up ${(headsShare * 100).toFixed(1)}% of the time`);
+
+  console.log(`✓ browser verification matches the server; heads ${(headsShare * 100).toFixed(1)}% over ${FLIPS} flips`);
+}
+
+run().catch(error => {
+  console.error('✗ Check failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,326 @@
+/**
+ * Regression checks for the SQL-aggregated risk queries.
+ * Seeds players, markets, a cricket match and bets, then compares the admin
+ * and subadmin risk responses with what the in-memory calculation they
+ * replaced produces for the same data. The responses now only list active
+ * bets in gameData, so the old output is filtered the same way.
+ *
+ * Usage: TEST_DATABASE_URL=<url> npx tsx test-risk-aggregation.ts
+ * Requires TEST_DATABASE_URL pointing at a disposable database.
+ */
+import './test-database';
+import assert from 'node:assert/strict';
+import { db, pool } from './server/db';
+import { storage } from './server/storage';
+import {
+  users,
+  games,
+  gameOdds,
+  satamatkaMarkets,
+  teamMatches,
+  GameType,
+  MarketStatus,
+  SatamatkaGameMode,
+  type Game,
+} from './shared/schema';
+import {
+  buildAdminRiskResponse,
+  buildSubadminRiskResponse,
+  type RiskManagementResponse,
+} from './server/risk-management';
+import { inArray } from 'drizzle-orm';
+import { rupeesToPaisa } from './shared/money';
+
+type ExpectedRisk = {
+  summaries: Array<Record<string, number>>;
+  userExposure: Record<number, number>;
+  marketExposure: Record<number, number>;
+  activeGameIds: number[];
+  userIds: number[];
+  marketIds: number[];
+};
+
+const isActive = (game: Game) => !game.result || game.result === 'pending';
+
+// The in-memory calculation the risk module used before aggregating in SQL
+function legacyRiskData(allGames: Game[], oddValue: number) {
+  const userExposure: Record<number, number> = {};
+  const marketExposure: Record<number, number> = {};
+  let totalBetAmount = 0;
+  let potentialLiability = 0;
+  let highRiskBets = 0;
+
+  for (const game of allGames.filter(isActive)) {
+    let multiplier: number;
+    switch (game.gameMode) {
+      case 'jodi': multiplier = 90; break;
+      case 'harf': multiplier = 9; break;
+      case 'crossing': multiplier = 95; break;
+      case 'odd_even': multiplier = 1.9; break;
+      default: multiplier = oddValue / 100;
+    }
+    const potentialPayout = game.betAmount * multiplier;
+
+    totalBetAmount += game.betAmount;
+    potentialLiability += potentialPayout;
+    if (game.betAmount > rupeesToPaisa(1000)) highRiskBets++;
+    userExposure[game.userId] = (userExposure[game.userId] ?? 0) + potentialPayout;
+    if (game.marketId) {
+      marketExposure[game.marketId] = (marketExposure[game.marketId] ?? 0) + potentialPayout;
+    }
+  }
+
+  return {
+    summary: {
+      totalBetAmount,
+      potentialLiability,
+      potentialProfit: totalBetAmount - potentialLiability,
+      exposureAmount: Math.max(...Object.values(userExposure), 0),
+      activeBets: allGames.filter(isActive).length,
+      totalBets: allGames.length,
+      highRiskBets,
+    },
+    userExposure,
+    marketExposure,
+    games: allGames,
+  };
+}
+
+async function legacyCricketRisk(playerIds: number[] | null) {
+  const oddValue = (await storage.getGameOddByType(GameType.CRICKET_TOSS))?.oddValue || 90;
+  const cricketGames = (await storage.getGamesByType(GameType.CRICKET_TOSS))
+    .filter(game => !playerIds || playerIds.includes(game.userId));
+  return legacyRiskData(cricketGames, oddValue);
+}
+
+async function legacyAdminRisk(subadminId: number | null): Promise<ExpectedRisk> {
+  const activeMarketIds = (await storage.getActiveSatamatkaMarkets()).map(market => market.id);
+  const playerIds = subadminId
+    ? (await storage.getUsersByAssignedTo(subadminId)).map(user => user.id)
+    : null;
+
+  const oddValue = (await storage.getGameOddByType(GameType.SATAMATKA))?.oddValue || 90;
+  const marketGames = (await storage.getGamesByType(GameType.SATAMATKA)).filter(game =>
+    game.marketId && activeMarketIds.includes(game.marketId) && (!playerIds || playerIds.includes(game.userId))
+  );
+  const market = legacyRiskData(marketGames, oddValue);
+  const cricket = await legacyCricketRisk(playerIds);
+
+  return {
+    summaries: [market.summary, cricket.summary],
+    userExposure: { ...market.userExposure, ...cricket.userExposure },
+    marketExposure: market.marketExposure,
+    activeGameIds: [...market.games, ...cricket.games].filter(isActive).map(game => game.id),
+    userIds: Object.keys({ ...market.userExposure, ...cricket.userExposure }).map(Number),
+    marketIds: Object.keys(market.marketExposure).map(Number),
+  };
+}
+
+async function legacySubadminRisk(subadminId: number): Promise<ExpectedRisk> {
+  const assignedIds = (await storage.getUsersByAssignedTo(subadminId)).map(user => user.id);
+  const marketOdd = await storage.getGameOddBySubadminAndType(subadminId, GameType.SATAMATKA)
+    ?? await storage.getGameOddByType(GameType.SATAMATKA);
+
+  const marketGames = (await storage.getGamesByUserIds(assignedIds))
+    .filter(game => game.gameType === GameType.SATAMATKA);
+  const market = legacyRiskData(marketGames, marketOdd?.oddValue || 90);
+  const cricket = await legacyCricketRisk(assignedIds);
+
+  return {
+    summaries: [market.summary, cricket.summary],
+    userExposure: { ...market.userExposure, ...cricket.userExposure },
+    marketExposure: market.marketExposure,
+    activeGameIds: [...market.games, ...cricket.games].filter(isActive).map(game => game.id),
+    userIds: assignedIds,
+    marketIds: Array.from(new Set(marketGames.filter(game => game.marketId).map(game => game.marketId as number))),
+  };
+}
+
+function assertClose(actual: number, expected: number, label: string) {
+  assert.ok(
+    Math.abs(actual - expected) <= 1e-6 * Math.max(1, Math.abs(expected)),
+    `${label}: expected ${expected}, got ${actual}`
+  );
+}
+
+function assertExposureEqual(actual: Record<number, number>, expected: Record<number, number>, label: string) {
+  assert.deepEqual(Object.keys(actual).sort(), Object.keys(expected).sort(), `${label} keys`);
+  for (const [id, value] of Object.entries(expected)) {
+    assertClose(actual[Number(id)], value, `${label} ${id}`);
+  }
+}
+
+const sortedIds = (ids: Array<number | string>) => ids.map(Number).sort((a, b) => a - b);
+
+function assertMatchesLegacy(actual: RiskManagementResponse, expected: ExpectedRisk) {
+  expected.summaries.forEach((summary, index) => {
+    for (const [key, value] of Object.entries(summary)) {
+      assertClose((actual.summaries[index] as unknown as Record<string, number>)[key], value, `summary ${index} ${key}`);
+    }
+  });
+  assertExposureEqual(actual.detailedData.userExposure, expected.userExposure, 'userExposure');
+  assertExposureEqual(actual.detailedData.marketExposure, expected.marketExposure, 'marketExposure');
+  assert.deepEqual(sortedIds(actual.detailedData.gameData.map(game => game.id)), sortedIds(expected.activeGameIds));
+  assert.deepEqual(sortedIds(Object.keys(actual.userInfo)), sortedIds(expected.userIds));
+  assert.deepEqual(sortedIds(Object.keys(actual.marketInfo)), sortedIds(expected.marketIds));
+}
+
+async function createTestUser(username: string, role: string, assignedTo: number | null = null) {
+  const [user] = await db.insert(users).values({
+    username,
+    password: 'not-a-real-password',
+    role,
+    balance: 0,
+    assignedTo,
+  }).returning();
+  return user;
+}
+
+async function createMarket(label: string, status: string) {
+  const now = Date.now();
+  const [market] = await db.insert(satamatkaMarkets).values({
+    name: `Risk test ${label} ${now}`,
+    type: 'test',
+    openTime: new Date(now - 60 * 60 * 1000),
+    closeTime: new Date(now + 60 * 60 * 1000),
+    status,
+  }).returning();
+  return market;
+}
+
+async function seed(createdUserIds: number[], createdMarketIds: number[], createdMatchIds: number[]) {
+  const now = Date.now();
+  const subadmin = await createTestUser(`risk_subadmin_${now}`, 'subadmin');
+  const emptySubadmin = await createTestUser(`risk_empty_subadmin_${now}`, 'subadmin');
+  const playerA = await createTestUser(`risk_player_a_${now}`, 'player', subadmin.id);
+  const playerB = await createTestUser(`risk_player_b_${now}`, 'player', subadmin.id);
+  const outsider = await createTestUser(`risk_outsider_${now}`, 'player');
+  createdUserIds.push(subadmin.id, emptySubadmin.id, playerA.id, playerB.id, outsider.id);
+
+  await db.insert(gameOdds).values({
+    gameType: GameType.SATAMATKA,
+    oddValue: 9500,
+    setByAdmin: false,
+    subadminId: subadmin.id,
+  });
+
+  const openMarket = await createMarket('open', MarketStatus.OPEN);
+  const closedMarket = await createMarket('closed', MarketStatus.CLOSED);
+  createdMarketIds.push(openMarket.id, closedMarket.id);
+
+  const [match] = await db.insert(teamMatches).values({
+    teamA: 'Risk A',
+    teamB: 'Risk B',
+    category: 'cricket_toss',
+    matchTime: new Date(now + 60 * 60 * 1000),
+    status: 'open',
+  }).returning();
+  createdMatchIds.push(match.id);
+
+  const marketBet = (userId: number, marketId: number, gameMode: string | null, betAmount: number, result: string | null) => ({
+    userId,
+    gameType: GameType.SATAMATKA,
+    betAmount,
+    prediction: '47',
+    result,
+    marketId,
+    gameMode,
+  });
+  const tossBet = (userId: number, prediction: string, betAmount: number, result: string | null, acceptedOdds?: number) => ({
+    userId,
+    gameType: GameType.CRICKET_TOSS,
+    betAmount,
+    prediction,
+    result,
+    matchId: match.id,
+    acceptedOdds,
+  });
+
+  await db.insert(games).values([
+    marketBet(playerA.id, openMarket.id, SatamatkaGameMode.JODI, 5000, 'pending'),
+    marketBet(playerA.id, openMarket.id, SatamatkaGameMode.HARF, 800, null),
+    marketBet(playerA.id, openMarket.id, SatamatkaGameMode.ODD_EVEN, 1234, 'pending'),
+    marketBet(playerB.id, openMarket.id, SatamatkaGameMode.CROSSING, 1500, 'pending'),
+    marketBet(playerB.id, openMarket.id, null, 700, 'pending'),
+    marketBet(playerB.id, openMarket.id, SatamatkaGameMode.JODI, 9000, 'win'),
+    // Closed market: outside the admin view, inside the subadmin's
+    marketBet(playerA.id, closedMarket.id, SatamatkaGameMode.JODI, 2500, 'pending'),
+    marketBet(playerB.id, closedMarket.id, SatamatkaGameMode.HARF, 300, 'loss'),
+    marketBet(outsider.id, openMarket.id, SatamatkaGameMode.JODI, 4000, 'pending'),
+    marketBet(outsider.id, openMarket.id, SatamatkaGameMode.ODD_EVEN, 1111, 'pending'),
+    marketBet(outsider.id, openMarket.id, SatamatkaGameMode.HARF, rupeesToPaisa(1500), 'pending'),
+    tossBet(playerA.id, 'team_a', 2000, null, 185),
+    tossBet(playerB.id, 'team_b', 600, 'pending'),
+    tossBet(playerB.id, 'team_a', 3000, 'team_a'),
+    tossBet(outsider.id, 'team_a', 1500, 'pending'),
+  ]);
+
+  return { subadmin, emptySubadmin, match };
+}
+
+async function cleanup(userIds: number[], marketIds: number[], matchIds: number[]) {
+  if (userIds.length) {
+    await db.delete(games).where(inArray(games.userId, userIds));
+  }
+  if (marketIds.length) {
+    await db.delete(satamatkaMarkets).where(inArray(satamatkaMarkets.id, marketIds));
+  }
+  if (matchIds.length) {
+    await db.delete(teamMatches).where(inArray(teamMatches.id, matchIds));
+  }
+  if (userIds.length) {
+    await db.delete(users).where(inArray(users.id, userIds));
+  }
+}
+
+async function run() {
+  const createdUserIds: number[] = [];
+  const createdMarketIds: number[] = [];
+  const createdMatchIds: number[] = [];
+  let failed = false;
+
+  try {
+    console.log('===== RISK AGGREGATION =====');
+    const { subadmin, emptySubadmin, match } = await seed(createdUserIds, createdMarketIds, createdMatchIds);
+
+    console.log('\n1. Platform-wide admin view');
+    const platform = await buildAdminRiskResponse(null);
+    assertMatchesLegacy(platform, await legacyAdminRisk(null));
+    const analysis = platform.detailedData.cricketMatchAnalysis?.find(entry => entry.matchId === match.id);
+    assert.equal(platform.summaries[0].highRiskBets, 1, 'only the ₹1500 bet is over ₹1000');
+    assert.equal(analysis?.summary.totalBets, 3, 'match analysis should count the active toss bets');
+    assert.equal(analysis?.summary.totalAmount, 2000 + 600 + 1500);
+    // Each toss bet is priced at the odds it was accepted at, else the match's
+    assert.equal(analysis?.teamAStats.potentialPayout, 2000 * 1.85 + 1500 * 2);
+    assert.equal(analysis?.teamBStats.potentialPayout, 600 * 2);
+    console.log('   ✓ summaries, exposures, active bets and lookups match the in-memory calculation');
+
+    console.log('\n2. Admin view filtered by subadmin');
+    assertMatchesLegacy(await buildAdminRiskResponse(subadmin.id), await legacyAdminRisk(subadmin.id));
+    console.log('   ✓ only the subadmin\'s players are counted');
+
+    console.log('\n3. Subadmin view');
+    const subadminView = await buildSubadminRiskResponse(subadmin.id);
+    assertMatchesLegacy(subadminView, await legacySubadminRisk(subadmin.id));
+    const subadminAnalysis = subadminView.detailedData.cricketMatchAnalysis?.find(entry => entry.matchId === match.id);
+    assert.equal(subadminAnalysis?.teamAStats.potentialPayout, 2000 * 1.85, 'match analysis should only count the subadmin\'s players');
+    console.log('   ✓ every market bet of the assigned players counted at the subadmin\'s odds');
+
+    console.log('\n4. Subadmin without players');
+    const empty = await buildSubadminRiskResponse(emptySubadmin.id);
+    assert.equal(empty.message, 'No assigned players found');
+    assert.deepEqual(empty.summaries.map(summary => summary.totalBets), [0, 0]);
+    console.log('   ✓ empty response');
+
+    console.log('\n===== ALL CHECKS PASSED =====');
+  } catch (error) {
+    failed = true;
+    console.error('\n✗ Check failed:', error);
+  } finally {
+    await cleanup(createdUserIds, createdMarketIds, createdMatchIds).catch(error => console.error('Cleanup failed:', error));
+    await pool.end();
+    process.exit(failed ? 1 : 0);
+  }
+}
+
+run();
@@ -0,0 +1,41 @@
+/**
+ * Checks for the measures the risk alert rules fire on: the loss of a
+ * Satamatka market on each jodi and one player's share of a book.
+ *
+ * Usage: npx tsx test-risk-alerts.ts
+ */
+import 'dotenv/config';
+import assert from 'node:assert/strict';
+import { SatamatkaGameMode } from './shared/schema';
+import { JODI_OUTCOMES } from './server/liability-matrix';
+import { exposureShare, jodiLosses } from './server/risk-alerts';
+
+function run() {
+  const bets = [
+    { userId: 1, gameMode: SatamatkaGameMode.JODI, prediction: '37', betAmount: 1000, payout: 90000 },
+    { userId: 2, gameMode: SatamatkaGameMode.CROSSING, prediction: '3,7', betAmount: 500, payout: 47500 },
+    { userId: 2, gameMode: SatamatkaGameMode.ODD_EVEN, prediction: 'even', betAmount: 500, payout: 950 },
+  ];
+  const losses = jodiLosses(bets);
+  const loss = (result: string) => losses[JODI_OUTCOMES.indexOf(result)];
+
+  // 37 pays the jodi and the crossing bet; 73 only the crossing
+  assert.equal(loss('37'), 90000 + 47500 - 2000);
+  assert.equal(loss('73'), 47500 - 2000);
+  // A result nobody backed is a house profit, a negative loss
+  assert.equal(loss('00'), 950 - 2000);
+  assert.equal(loss('11'), -2000);
+  console.log('✓ jodi losses follow the settlement rules');
+
+  assert.equal(exposureShare(bets, 1), Math.floor(90000 * 100 / 138450));
+  assert.equal(exposureShare(bets, 3), 0);
+  assert.equal(exposureShare([], 1), null);
+  console.log('✓ a player\'s share of the book is a whole percentage');
+}
+
+try {
+  run();
+} catch (error) {
+  console.error('✗ Check failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,124 @@
+/**
+ * Checks for the daily risk snapshots.
+ * Places settled, unsettled and voided bets for a subadmin's player, takes
+ * the day's figures and exposure samples, and verifies handle, payouts, GGR
+ * and that the peak exposure only goes up during the day.
+ *
+ * Usage: TEST_DATABASE_URL=<url> npx tsx test-risk-snapshots.ts
+ * Requires TEST_DATABASE_URL pointing at a disposable database.
+ */
+import './test-database';
+import assert from 'node:assert/strict';
+import { db, pool } from './server/db';
+import {
+  users,
+  games,
+  riskSnapshots,
+  GameType,
+  RiskSnapshotScope,
+  VOIDED_BET_RESULT,
+} from './shared/schema';
+import { localDate, recordExposurePeaks, snapshotDayTotals } from './server/risk-snapshots';
+import { and, eq, inArray } from 'drizzle-orm';
+
+const STAKE = 100 * 100;
+
+async function createTestUser(username: string, role: string, assignedTo: number | null = null) {
+  const [user] = await db.insert(users).values({
+    username,
+    password: 'not-a-real-password',
+    role,
+    balance: 0,
+    assignedTo,
+  }).returning();
+  return user;
+}
+
+async function placeBet(userId: number, result: string | null, payout: number) {
+  const [game] = await db.insert(games).values({
+    userId,
+    gameType: GameType.CRICKET_TOSS,
+    betAmount: STAKE,
+    prediction: 'team_a',
+    result,
+    payout,
+  }).returning();
+  return game;
+}
+
+async function snapshotOf(day: string, scope: RiskSnapshotScope, scopeKey: string) {
+  const [row] = await db.select().from(riskSnapshots).where(and(
+    eq(riskSnapshots.snapshotDate, day),
+    eq(riskSnapshots.scope, scope),
+    eq(riskSnapshots.scopeKey, scopeKey),
+  ));
+  return row;
+}
+
+async function testSnapshots(createdUserIds: number[]) {
+  console.log('\n1. Taking a day\'s figures and exposure');
+  const suffix = Date.now();
+  const subadmin = await createTestUser(`snapshot_subadmin_${suffix}`, 'subadmin');
+  const player = await createTestUser(`snapshot_player_${suffix}`, 'player', subadmin.id);
+  createdUserIds.push(subadmin.id, player.id);
+  const today = localDate(new Date());
+
+  // A win paying 2x, a loss, an open bet and a voided one
+  await placeBet(player.id, 'team_a', 2 * STAKE);
+  await placeBet(player.id, 'team_b', 0);
+  const open = await placeBet(player.id, null, 2 * STAKE);
+  await placeBet(player.id, VOIDED_BET_RESULT, 0);
+
+  await snapshotDayTotals(today);
+  await recordExposurePeaks(today);
+
+  const playerRow = await snapshotOf(today, RiskSnapshotScope.PLAYER, String(player.id));
+  assert.equal(playerRow.label, player.username);
+  assert.equal(playerRow.betCount, 3, 'the voided bet is not counted');
+  assert.equal(playerRow.handle, 3 * STAKE);
+  assert.equal(playerRow.payouts, 2 * STAKE, 'the open bet\'s potential payout is not a payout');
+  assert.equal(playerRow.ggr, 0, 'GGR only counts the two settled bets');
+  assert.equal(playerRow.peakExposure, 2 * STAKE);
+
+  const subadminRow = await snapshotOf(today, RiskSnapshotScope.SUBADMIN, String(subadmin.id));
+  assert.equal(subadminRow.label, subadmin.username);
+  assert.equal(subadminRow.handle, 3 * STAKE);
+  console.log('   ✓ handle, payouts, GGR and exposure per player and subadmin');
+
+  // The open bet loses: exposure drops but the day's peak stays
+  await db.update(games).set({ result: 'team_b', payout: 0 }).where(eq(games.id, open.id));
+  await recordExposurePeaks(today);
+  await snapshotDayTotals(today);
+
+  const settledRow = await snapshotOf(today, RiskSnapshotScope.PLAYER, String(player.id));
+  assert.equal(settledRow.peakExposure, 2 * STAKE, 'the peak should not come down');
+  assert.equal(settledRow.ggr, STAKE);
+  console.log('   ✓ taking the figures again updates GGR and keeps the peak');
+}
+
+async function cleanup(userIds: number[]) {
+  if (!userIds.length) return;
+  await db.delete(riskSnapshots).where(inArray(riskSnapshots.scopeKey, userIds.map(String)));
+  await db.delete(games).where(inArray(games.userId, userIds));
+  await db.delete(users).where(inArray(users.id, userIds));
+}
+
+async function run() {
+  const createdUserIds: number[] = [];
+  let failed = false;
+
+  try {
+    console.log('===== RISK SNAPSHOTS =====');
+    await testSnapshots(createdUserIds);
+    console.log('\n===== ALL CHECKS PASSED =====');
+  } catch (error) {
+    failed = true;
+    console.error('\n✗ Check failed:', error);
+  } finally {
+    await cleanup(createdUserIds).catch(error => console.error('Cleanup failed:', error));
+    await pool.end();
+    process.exit(failed ? 1 : 0);
+  }
+}
+
+run();
@@ -0,0 +1,232 @@
+/**
+ * Checks for the Satamatka settlement engine.
+ * Settles a market twice, corrects its close result and voids a market, and
+ * verifies that payouts are posted once, reversed when the result changes and
+ * that every stake comes back when a market is voided.
+ *
+ * Usage: TEST_DATABASE_URL=<url> npx tsx test-satamatka-settlement.ts
+ * Requires TEST_DATABASE_URL pointing at a disposable database.
+ */
+import './test-database';
+import assert from 'node:assert/strict';
+import { db, pool } from './server/db';
+import {
+  users,
+  games,
+  satamatkaMarkets,
+  transactions,
+  GameType,
+  MarketStatus,
+  SatamatkaGameMode,
+} from './shared/schema';
+import {
+  SettlementError,
+  declareMarketResults,
+  evaluatePrediction,
+  settleMarketById,
+  voidMarket,
+} from './server/satamatka-settlement';
+import { eq, inArray } from 'drizzle-orm';
+
+const STAKE = 100 * 100;
+
+async function createTestUser(username: string, balance: number) {
+  const [user] = await db.insert(users).values({
+    username,
+    password: 'not-a-real-password',
+    role: 'player',
+    balance,
+  }).returning();
+  return user;
+}
+
+async function createMarket() {
+  const now = Date.now();
+  const [market] = await db.insert(satamatkaMarkets).values({
+    name: `Settlement test ${now}`,
+    type: 'test',
+    openTime: new Date(now - 2 * 60 * 60 * 1000),
+    closeTime: new Date(now - 60 * 60 * 1000),
+    status: MarketStatus.CLOSED,
+  }).returning();
+  return market;
+}
+
+async function placeBet(userId: number, marketId: number, gameMode: SatamatkaGameMode, prediction: string, odds: number) {
+  const [game] = await db.insert(games).values({
+    userId,
+    gameType: GameType.SATAMATKA,
+    betAmount: STAKE,
+    prediction,
+    result: 'pending',
+    payout: 0,
+    marketId,
+    gameMode,
+    gameData: { odds },
+  }).returning();
+  return game;
+}
+
+async function getBalance(userId: number) {
+  const [user] = await db.select({ balance: users.balance }).from(users).where(eq(users.id, userId));
+  return user.balance;
+}
+
+function testEvaluation() {
+  console.log('\n1. Evaluating every mode against a close result');
+  assert.ok(evaluatePrediction(SatamatkaGameMode.JODI, '47', '47').won);
+  assert.ok(!evaluatePrediction(SatamatkaGameMode.JODI, '74', '47').won);
+  assert.ok(evaluatePrediction(SatamatkaGameMode.HARF, 'A4', '47').won);
+  assert.ok(!evaluatePrediction(SatamatkaGameMode.HARF, 'B4', '47').won);
+  assert.ok(evaluatePrediction(SatamatkaGameMode.HARF, '7', '47').won);
+  assert.ok(evaluatePrediction(SatamatkaGameMode.CROSSING, '7,4', '47').won);
+  assert.ok(evaluatePrediction(SatamatkaGameMode.CROSSING, '1,4,7', '47').won);
+  assert.ok(!evaluatePrediction(SatamatkaGameMode.CROSSING, '1,4,7', '44').won);
+  assert.ok(evaluatePrediction(SatamatkaGameMode.CROSSING, '4,4', '44').won);
+  assert.ok(evaluatePrediction(SatamatkaGameMode.ODD_EVEN, 'odd', '47').won);
+  assert.ok(!evaluatePrediction(SatamatkaGameMode.ODD_EVEN, 'odd', '46').won);
+  console.log('   ✓ jodi, harf, crossing and odd/even judged as expected');
+}
+
+async function testSettleOnce(createdUserIds: number[], createdMarketIds: number[]) {
+  console.log('\n2. Declaring a result and settling again');
+  const player = await createTestUser(`settlement_once_${Date.now()}`, 0);
+  createdUserIds.push(player.id);
+  const market = await createMarket();
+  createdMarketIds.push(market.id);
+
+  await placeBet(player.id, market.id, SatamatkaGameMode.JODI, '47', 900000);
+  await placeBet(player.id, market.id, SatamatkaGameMode.ODD_EVEN, 'even', 19000);
+
+  const { settlement } = await declareMarketResults(market.id, { closeResult: '47' });
+  assert.equal(settlement.settled, 2);
+  assert.equal(settlement.winners, 1);
+  assert.equal(await getBalance(player.id), 90 * STAKE, 'the jodi win should be paid');
+
+  const again = await settleMarketById(market.id);
+  assert.equal(again.settled, 0);
+  assert.equal(again.unchanged, 2);
+  assert.equal(await getBalance(player.id), 90 * STAKE, 'settling again should not pay twice');
+
+  const [settled] = await db.select().from(games).where(eq(games.marketId, market.id)).orderBy(games.id);
+  const evaluation = (settled.gameData as { settlement?: { closeResult: string; won: boolean } }).settlement;
+  assert.equal(evaluation?.closeResult, '47');
+  assert.equal(evaluation?.won, true);
+  console.log('   ✓ one payout, evaluation recorded, second run is a no-op');
+}
+
+async function testCorrection(adminId: number, createdUserIds: number[], createdMarketIds: number[]) {
+  console.log('\n3. Correcting a declared close result');
+  const player = await createTestUser(`settlement_correct_${Date.now()}`, 0);
+  createdUserIds.push(player.id);
+  const market = await createMarket();
+  createdMarketIds.push(market.id);
+
+  await placeBet(player.id, market.id, SatamatkaGameMode.JODI, '47', 900000);
+  await placeBet(player.id, market.id, SatamatkaGameMode.JODI, '12', 900000);
+  await declareMarketResults(market.id, { closeResult: '47' });
+
+  await assert.rejects(
+    declareMarketResults(market.id, { closeResult: '12' }),
+    (error: unknown) => error instanceof SettlementError && error.status === 409
+  );
+  assert.equal(await getBalance(player.id), 90 * STAKE, 'a refused correction should not move money');
+
+  const correction = { performedBy: adminId, reason: 'Wrong result entered' };
+  const { settlement } = await declareMarketResults(market.id, { closeResult: '12' }, correction);
+  assert.equal(settlement.resettled, 2);
+  assert.equal(settlement.reversed, 90 * STAKE);
+  assert.equal(settlement.paidOut, 90 * STAKE);
+  assert.equal(await getBalance(player.id), 90 * STAKE, 'the payout should move to the other bet');
+
+  const rows = await db.select().from(games).where(eq(games.marketId, market.id)).orderBy(games.id);
+  assert.deepEqual(rows.map(row => row.result), ['loss', 'win']);
+
+  const history = await db.select().from(transactions).where(eq(transactions.userId, player.id));
+  assert.deepEqual(history.map(row => row.amount).sort((a, b) => a - b), [-90 * STAKE, 90 * STAKE]);
+  assert.ok(history.every(row => row.description?.includes(correction.reason)), 'history lines should carry the reason');
+  console.log('   ✓ correction refused without a reason, old payout reversed, new one paid');
+
+  // Rolled on to its next cycle: open again with no result yet
+  await db.update(satamatkaMarkets)
+    .set({ status: MarketStatus.OPEN, openResult: null, closeResult: null })
+    .where(eq(satamatkaMarkets.id, market.id));
+  await assert.rejects(
+    declareMarketResults(market.id, { closeResult: '47' }, correction),
+    (error: unknown) => error instanceof SettlementError && error.status === 409
+  );
+  await assert.rejects(
+    declareMarketResults(market.id, { closeResult: '47' }),
+    (error: unknown) => error instanceof SettlementError && error.status === 409
+  );
+  assert.equal(await getBalance(player.id), 90 * STAKE, 'a refused declaration should not move money');
+  console.log('   ✓ an open cycle can be neither corrected nor given a close result');
+}
+
+async function testVoid(adminId: number, createdUserIds: number[], createdMarketIds: number[]) {
+  console.log('\n4. Voiding a resulted market');
+  const player = await createTestUser(`settlement_void_${Date.now()}`, 0);
+  createdUserIds.push(player.id);
+  const market = await createMarket();
+  createdMarketIds.push(market.id);
+
+  await placeBet(player.id, market.id, SatamatkaGameMode.JODI, '47', 900000);
+  await placeBet(player.id, market.id, SatamatkaGameMode.JODI, '12', 900000);
+  await declareMarketResults(market.id, { closeResult: '47' });
+
+  const { market: voided, settlement } = await voidMarket(market.id, { performedBy: adminId, reason: 'Market suspended' });
+  assert.equal(voided.status, MarketStatus.CANCELLED);
+  assert.equal(settlement.voided, 2);
+  assert.equal(settlement.reversed, 90 * STAKE);
+  assert.equal(await getBalance(player.id), 2 * STAKE, 'both stakes should be refunded and the payout reversed');
+
+  await assert.rejects(
+    voidMarket(market.id, { performedBy: adminId, reason: 'Again' }),
+    (error: unknown) => error instanceof SettlementError && error.status === 409
+  );
+  assert.equal(await getBalance(player.id), 2 * STAKE, 'voiding twice should not refund twice');
+  console.log('   ✓ payout reversed, stakes refunded, second void refused');
+}
+
+async function cleanup(userIds: number[], marketIds: number[]) {
+  if (marketIds.length) {
+    await db.delete(games).where(inArray(games.marketId, marketIds));
+    await db.delete(satamatkaMarkets).where(inArray(satamatkaMarkets.id, marketIds));
+  }
+  if (!userIds.length) return;
+  await db.delete(transactions).where(inArray(transactions.userId, userIds));
+  await pool.query(
+    `DELETE FROM journal_lines WHERE account_id IN (SELECT id FROM ledger_accounts WHERE owner_id = ANY($1))`,
+    [userIds]
+  );
+  await pool.query(`DELETE FROM ledger_accounts WHERE owner_id = ANY($1)`, [userIds]);
+  await db.delete(users).where(inArray(users.id, userIds));
+}
+
+async function run() {
+  const createdUserIds: number[] = [];
+  const createdMarketIds: number[] = [];
+  let failed = false;
+
+  try {
+    console.log('===== SATAMATKA SETTLEMENT =====');
+    const admin = await createTestUser(`settlement_admin_${Date.now()}`, 0);
+    createdUserIds.push(admin.id);
+
+    testEvaluation();
+    await testSettleOnce(createdUserIds, createdMarketIds);
+    await testCorrection(admin.id, createdUserIds, createdMarketIds);
+    await testVoid(admin.id, createdUserIds, createdMarketIds);
+
+    console.log('\n===== ALL CHECKS PASSED =====');
+  } catch (error) {
+    failed = true;
+    console.error('\n✗ Check failed:', error);
+  } finally {
+    await cleanup(createdUserIds, createdMarketIds).catch(error => console.error('Cleanup failed:', error));
+    await pool.end();
+    process.exit(failed ? 1 : 0);
+  }
+}
+
+run();
@@ -0,0 +1,157 @@
+/**
+ * Checks for the settlement preview.
+ * Previews a Satamatka close result, verifies that nothing was committed and
+ * that the real declaration then pays exactly what the preview showed.
+ *
+ * Usage: TEST_DATABASE_URL=<url> npx tsx test-settlement-preview.ts
+ * Requires TEST_DATABASE_URL pointing at a disposable database.
+ */
+import './test-database';
+import assert from 'node:assert/strict';
+import { db, pool } from './server/db';
+import {
+  users,
+  games,
+  satamatkaMarkets,
+  transactions,
+  GameType,
+  MarketStatus,
+  SatamatkaGameMode,
+} from './shared/schema';
+import { SettlementError, applyMarketResults, declareMarketResults } from './server/satamatka-settlement';
+import { previewSettlement } from './server/settlement-preview';
+import { eq, inArray } from 'drizzle-orm';
+
+const STAKE = 100 * 100;
+
+async function createTestUser(username: string, role: string, assignedTo: number | null = null) {
+  const [user] = await db.insert(users).values({
+    username,
+    password: 'not-a-real-password',
+    role,
+    balance: 0,
+    assignedTo,
+  }).returning();
+  return user;
+}
+
+async function createMarket() {
+  const now = Date.now();
+  const [market] = await db.insert(satamatkaMarkets).values({
+    name: `Preview test ${now}`,
+    type: 'test',
+    openTime: new Date(now - 2 * 60 * 60 * 1000),
+    closeTime: new Date(now - 60 * 60 * 1000),
+    status: MarketStatus.CLOSED,
+  }).returning();
+  return market;
+}
+
+async function placeBet(userId: number, marketId: number, gameMode: SatamatkaGameMode, prediction: string, odds: number) {
+  await db.insert(games).values({
+    userId,
+    gameType: GameType.SATAMATKA,
+    betAmount: STAKE,
+    prediction,
+    result: 'pending',
+    payout: 0,
+    marketId,
+    gameMode,
+    gameData: { odds },
+  });
+}
+
+async function getBalance(userId: number) {
+  const [user] = await db.select({ balance: users.balance }).from(users).where(eq(users.id, userId));
+  return user.balance;
+}
+
+function previewClose(marketId: number, closeResult: string) {
+  return previewSettlement({ marketId }, async (tx) => {
+    const { settlement } = await applyMarketResults(tx, marketId, { closeResult });
+    return settlement;
+  });
+}
+
+async function testPreview(createdUserIds: number[], createdMarketIds: number[]) {
+  console.log('\n1. Previewing a close result, then declaring it');
+  const suffix = Date.now();
+  const subadmin = await createTestUser(`preview_subadmin_${suffix}`, 'subadmin');
+  const assigned = await createTestUser(`preview_assigned_${suffix}`, 'player', subadmin.id);
+  const direct = await createTestUser(`preview_direct_${suffix}`, 'player');
+  createdUserIds.push(subadmin.id, assigned.id, direct.id);
+  const market = await createMarket();
+  createdMarketIds.push(market.id);
+
+  await placeBet(assigned.id, market.id, SatamatkaGameMode.JODI, '47', 900000);
+  await placeBet(assigned.id, market.id, SatamatkaGameMode.ODD_EVEN, 'even', 19000);
+  await placeBet(direct.id, market.id, SatamatkaGameMode.CROSSING, '4,7', 950000);
+
+  const preview = await previewClose(market.id, '47');
+  assert.equal(preview.betsSettled, 3);
+  assert.equal(preview.winners, 2);
+  assert.equal(preview.totalStake, 3 * STAKE);
+  assert.equal(preview.totalPayout, 90 * STAKE + 95 * STAKE);
+  assert.equal(preview.housePnl, 3 * STAKE - 185 * STAKE);
+  assert.deepEqual(preview.commissionAccounts, []);
+
+  const bySubadmin = new Map(preview.subadmins.map(group => [group.subadminId, group]));
+  assert.equal(bySubadmin.get(subadmin.id)?.payout, 90 * STAKE);
+  assert.equal(bySubadmin.get(subadmin.id)?.stake, 2 * STAKE);
+  assert.equal(bySubadmin.get(null)?.payout, 95 * STAKE);
+
+  const [unchanged] = await db.select().from(satamatkaMarkets).where(eq(satamatkaMarkets.id, market.id));
+  assert.equal(unchanged.closeResult, null, 'the preview should not declare the result');
+  const pending = await db.select().from(games).where(eq(games.marketId, market.id));
+  assert.ok(pending.every(bet => bet.result === 'pending'), 'the preview should not settle bets');
+  assert.equal(await getBalance(assigned.id), 0, 'the preview should not pay anyone');
+  console.log('   ✓ preview totals per player and subadmin, nothing committed');
+
+  await declareMarketResults(market.id, { closeResult: '47' });
+  for (const player of preview.players) {
+    assert.equal(await getBalance(player.userId), player.payout, `${player.username} should be paid what the preview showed`);
+  }
+  console.log('   ✓ the declaration pays what the preview showed');
+
+  await assert.rejects(
+    previewClose(market.id, '12'),
+    (error: unknown) => error instanceof SettlementError && error.status === 409
+  );
+  console.log('   ✓ a preview the declaration would refuse is refused the same way');
+}
+
+async function cleanup(userIds: number[], marketIds: number[]) {
+  if (marketIds.length) {
+    await db.delete(games).where(inArray(games.marketId, marketIds));
+    await db.delete(satamatkaMarkets).where(inArray(satamatkaMarkets.id, marketIds));
+  }
+  if (!userIds.length) return;
+  await db.delete(transactions).where(inArray(transactions.userId, userIds));
+  await pool.query(
+    `DELETE FROM journal_lines WHERE account_id IN (SELECT id FROM ledger_accounts WHERE owner_id = ANY($1))`,
+    [userIds]
+  );
+  await pool.query(`DELETE FROM ledger_accounts WHERE owner_id = ANY($1)`, [userIds]);
+  await db.delete(users).where(inArray(users.id, userIds));
+}
+
+async function run() {
+  const createdUserIds: number[] = [];
+  const createdMarketIds: number[] = [];
+  let failed = false;
+
+  try {
+    console.log('===== SETTLEMENT PREVIEW =====');
+    await testPreview(createdUserIds, createdMarketIds);
+    console.log('\n===== ALL CHECKS PASSED =====');
+  } catch (error) {
+    failed = true;
+    console.error('\n✗ Check failed:', error);
+  } finally {
+    await cleanup(createdUserIds, createdMarketIds).catch(error => console.error('Cleanup failed:', error));
+    await pool.end();
+    process.exit(failed ? 1 : 0);
+  }
+}
+
+run();
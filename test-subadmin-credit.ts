@@ -0,0 +1,176 @@
+/**
+ * Checks for subadmin credit limits.
+ * A subadmin approves deposits and withdrawals for their players and the
+ * float has to move with them, refuse deposits past the credit limit or
+ * while frozen, and only let parallel approvals through while they fit.
+ *
+ * Usage: TEST_DATABASE_URL=<url> npx tsx test-subadmin-credit.ts
+ * Requires TEST_DATABASE_URL pointing at a disposable database.
+ */
+import './test-database';
+import assert from 'node:assert/strict';
+import { db, pool } from './server/db';
+import {
+  users,
+  walletRequests,
+  transactions,
+  subadminCredit,
+  subadminFloatMovements,
+  RequestStatus,
+  RequestType,
+  PaymentMode,
+  SubadminFloatMovementType,
+} from './shared/schema';
+import { reviewWalletRequest, WalletReviewError } from './server/wallet-system';
+import { getSubadminCredit, setCreditLimit, setFloatFrozen, settleFloat, topUpFloat } from './server/subadmin-credit';
+import { eq, inArray } from 'drizzle-orm';
+
+const RUPEE = 100;
+
+async function createTestUser(username: string, role: string, balance = 0, assignedTo: number | null = null) {
+  const [user] = await db.insert(users).values({
+    username,
+    password: 'not-a-real-password',
+    role,
+    balance,
+    assignedTo,
+  }).returning();
+  return user;
+}
+
+async function createRequest(userId: number, requestType: string, amount: number) {
+  const [request] = await db.insert(walletRequests).values({
+    userId,
+    amount,
+    requestType,
+    paymentMode: PaymentMode.UPI,
+    paymentDetails: { upiId: 'test@upi' },
+    status: RequestStatus.PENDING,
+  }).returning();
+  return request;
+}
+
+async function floatOf(subadminId: number) {
+  const { credit } = await getSubadminCredit(subadminId);
+  return credit;
+}
+
+function refusedWith(status: number) {
+  return (error: unknown) => error instanceof WalletReviewError && error.status === status;
+}
+
+async function testDrawDownAndReplenish(adminId: number, createdUserIds: number[]) {
+  console.log('\n1. Deposits draw the float down to the credit limit');
+  const suffix = Date.now();
+  const subadmin = await createTestUser(`credit_subadmin_${suffix}`, 'subadmin');
+  const player = await createTestUser(`credit_player_${suffix}`, 'player', 0, subadmin.id);
+  createdUserIds.push(subadmin.id, player.id);
+
+  // Never given a limit: nothing can be approved
+  const first = await createRequest(player.id, RequestType.DEPOSIT, 600 * RUPEE);
+  await assert.rejects(reviewWalletRequest(first.id, subadmin.id, RequestStatus.APPROVED), refusedWith(400));
+
+  await setCreditLimit(subadmin.id, 1000 * RUPEE, adminId);
+  await reviewWalletRequest(first.id, subadmin.id, RequestStatus.APPROVED);
+  assert.equal((await floatOf(subadmin.id)).floatBalance, -600 * RUPEE);
+
+  const second = await createRequest(player.id, RequestType.DEPOSIT, 600 * RUPEE);
+  await assert.rejects(reviewWalletRequest(second.id, subadmin.id, RequestStatus.APPROVED), refusedWith(400));
+  const [pending] = await db.select().from(walletRequests).where(eq(walletRequests.id, second.id));
+  assert.equal(pending.status, RequestStatus.PENDING, 'a refused deposit stays pending');
+  console.log('   ✓ deposit past the credit limit refused and left pending');
+
+  const withdrawal = await createRequest(player.id, RequestType.WITHDRAWAL, 200 * RUPEE);
+  await reviewWalletRequest(withdrawal.id, subadmin.id, RequestStatus.APPROVED);
+  await reviewWalletRequest(second.id, subadmin.id, RequestStatus.APPROVED);
+  const credit = await floatOf(subadmin.id);
+  assert.equal(credit.floatBalance, -1000 * RUPEE);
+  assert.equal(credit.available, 0);
+  console.log('   ✓ a withdrawal pays the float back and frees credit');
+
+  // An admin approving for the subadmin's player funds it themselves
+  const byAdmin = await createRequest(player.id, RequestType.DEPOSIT, 100 * RUPEE);
+  await reviewWalletRequest(byAdmin.id, adminId, RequestStatus.APPROVED);
+  assert.equal((await floatOf(subadmin.id)).floatBalance, -1000 * RUPEE);
+  console.log('   ✓ admin approvals leave the float alone');
+
+  await topUpFloat(subadmin.id, 300 * RUPEE, adminId, 'cash received');
+  assert.equal((await floatOf(subadmin.id)).available, 300 * RUPEE);
+  const settled = await settleFloat(subadmin.id, adminId);
+  assert.equal(settled.floatBalance, 0);
+  await assert.rejects(settleFloat(subadmin.id, adminId));
+
+  const { movements } = await getSubadminCredit(subadmin.id);
+  assert.deepEqual(movements.map(movement => movement.movementType).reverse(), [
+    SubadminFloatMovementType.DEPOSIT_APPROVED,
+    SubadminFloatMovementType.WITHDRAWAL_APPROVED,
+    SubadminFloatMovementType.DEPOSIT_APPROVED,
+    SubadminFloatMovementType.TOP_UP,
+    SubadminFloatMovementType.SETTLEMENT,
+  ]);
+  console.log('   ✓ top-ups and settlement recorded with every approval');
+
+  await setFloatFrozen(subadmin.id, true, adminId);
+  const frozen = await createRequest(player.id, RequestType.DEPOSIT, 10 * RUPEE);
+  await assert.rejects(reviewWalletRequest(frozen.id, subadmin.id, RequestStatus.APPROVED), refusedWith(409));
+  console.log('   ✓ a frozen float refuses deposits');
+}
+
+async function testParallelDeposits(adminId: number, createdUserIds: number[]) {
+  console.log('\n2. Parallel deposits that only fit the credit one at a time');
+  const suffix = Date.now();
+  const subadmin = await createTestUser(`credit_parallel_subadmin_${suffix}`, 'subadmin');
+  const player = await createTestUser(`credit_parallel_player_${suffix}`, 'player', 0, subadmin.id);
+  createdUserIds.push(subadmin.id, player.id);
+  await setCreditLimit(subadmin.id, 100 * RUPEE, adminId);
+
+  const requests = await Promise.all([
+    createRequest(player.id, RequestType.DEPOSIT, 70 * RUPEE),
+    createRequest(player.id, RequestType.DEPOSIT, 70 * RUPEE),
+  ]);
+  const results = await Promise.allSettled(
+    requests.map(request => reviewWalletRequest(request.id, subadmin.id, RequestStatus.APPROVED))
+  );
+  assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+  assert.equal((await floatOf(subadmin.id)).floatBalance, -70 * RUPEE);
+  console.log('   ✓ one deposit approved, the float stayed within the limit');
+}
+
+async function cleanup(userIds: number[]) {
+  if (!userIds.length) return;
+  await db.delete(subadminFloatMovements).where(inArray(subadminFloatMovements.subadminId, userIds));
+  await db.delete(subadminCredit).where(inArray(subadminCredit.subadminId, userIds));
+  await db.delete(transactions).where(inArray(transactions.userId, userIds));
+  await db.delete(walletRequests).where(inArray(walletRequests.userId, userIds));
+  await pool.query(
+    `DELETE FROM journal_lines WHERE account_id IN (SELECT id FROM ledger_accounts WHERE owner_id = ANY($1))`,
+    [userIds]
+  );
+  await pool.query(`DELETE FROM ledger_accounts WHERE owner_id = ANY($1)`, [userIds]);
+  await db.delete(users).where(inArray(users.id, userIds));
+}
+
+async function run() {
+  const createdUserIds: number[] = [];
+  let failed = false;
+
+  try {
+    console.log('===== SUBADMIN CREDIT =====');
+    const admin = await createTestUser(`credit_admin_${Date.now()}`, 'admin');
+    createdUserIds.push(admin.id);
+
+    await testDrawDownAndReplenish(admin.id, createdUserIds);
+    await testParallelDeposits(admin.id, createdUserIds);
+
+    console.log('\n===== ALL CHECKS PASSED =====');
+  } catch (error) {
+    failed = true;
+    console.error('\n✗ Check failed:', error);
+  } finally {
+    await cleanup(createdUserIds).catch(error => console.error('Cleanup failed:', error));
+    await pool.end();
+    process.exit(failed ? 1 : 0);
+  }
+}
+
+run();
@@ -0,0 +1,63 @@
+/**
+ * Checks for team match markets.
+ * Checks which results each sport can be bet on, the odds quoted for them,
+ * and how open bets add up in a match's book.
+ *
+ * Usage: npx tsx test-team-matches.ts
+ */
+import 'dotenv/config';
+import assert from 'node:assert/strict';
+import { MatchSport, TeamMatchResult } from './shared/schema';
+import { teamMatchBodySchema } from './shared/api-contracts';
+import { buildMatchBook, matchOutcomes, outcomeOdds } from './server/team-matches';
+
+function run() {
+  const football = { category: MatchSport.FOOTBALL, oddTeamA: 210, oddTeamB: 340, oddDraw: 310 };
+  const tennis = { category: MatchSport.TENNIS, oddTeamA: 150, oddTeamB: 250, oddDraw: null };
+
+  assert.deepEqual(matchOutcomes(football), [TeamMatchResult.TEAM_A, TeamMatchResult.DRAW, TeamMatchResult.TEAM_B]);
+  assert.deepEqual(matchOutcomes(tennis), [TeamMatchResult.TEAM_A, TeamMatchResult.TEAM_B]);
+  // Cricket toss matches share the table but are not sports matches
+  assert.deepEqual(matchOutcomes({ category: 'cricket_toss' }), []);
+  console.log('✓ each sport offers its own results');
+
+  assert.equal(outcomeOdds(football, TeamMatchResult.DRAW), 310);
+  assert.equal(outcomeOdds(football, TeamMatchResult.TEAM_B), 340);
+  assert.equal(outcomeOdds(tennis, TeamMatchResult.DRAW), null);
+  assert.equal(outcomeOdds(tennis, 'team_c'), null);
+  console.log('✓ odds are only quoted on results the sport offers');
+
+  const book = buildMatchBook(football, [
+    { prediction: TeamMatchResult.TEAM_A, betAmount: 10000, payout: 21000 },
+    { prediction: TeamMatchResult.TEAM_A, betAmount: 5000, payout: 10000 },
+    { prediction: TeamMatchResult.DRAW, betAmount: 2000, payout: 6200 },
+  ]);
+  assert.deepEqual(book, [
+    { outcome: TeamMatchResult.TEAM_A, bets: 2, stake: 15000, payout: 31000 },
+    { outcome: TeamMatchResult.DRAW, bets: 1, stake: 2000, payout: 6200 },
+    { outcome: TeamMatchResult.TEAM_B, bets: 0, stake: 0, payout: 0 },
+  ]);
+  console.log('✓ the book adds up open bets on each result');
+
+  const body = {
+    sport: MatchSport.FOOTBALL,
+    teamA: 'Mumbai City',
+    teamB: 'Bengaluru FC',
+    matchTime: '2026-10-20T19:30:00.000Z',
+    oddTeamA: 210,
+    oddTeamB: 340,
+    oddDraw: null,
+  };
+  assert.equal(teamMatchBodySchema.safeParse(body).success, false);
+  assert.equal(teamMatchBodySchema.safeParse({ ...body, oddDraw: 310 }).success, true);
+  assert.equal(teamMatchBodySchema.safeParse({ ...body, sport: MatchSport.BASKETBALL }).success, true);
+  assert.equal(teamMatchBodySchema.safeParse({ ...body, oddDraw: 310, oddTeamA: 99 }).success, false);
+  console.log('✓ draw odds are required only where a draw is possible');
+}
+
+try {
+  run();
+} catch (error) {
+  console.error('✗ Check failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,175 @@
+/**
+ * Concurrency checks for wallet request review.
+ * Fires parallel approvals at the same request (and at competing withdrawals)
+ * and verifies that the balance only ever moves once and never goes negative.
+ *
+ * Usage: TEST_DATABASE_URL=<url> npx tsx test-wallet-review-concurrency.ts
+ * Requires TEST_DATABASE_URL pointing at a disposable database.
+ */
+import './test-database';
+import assert from 'node:assert/strict';
+import { db, pool } from './server/db';
+import { users, walletRequests, transactions, RequestStatus, RequestType, PaymentMode } from './shared/schema';
+import { reviewWalletRequest, WalletReviewError } from './server/wallet-system';
+import { eq, inArray } from 'drizzle-orm';
+
+const PARALLEL_REVIEWS = 10;
+
+async function createTestUser(username: string, balance: number) {
+  const [user] = await db.insert(users).values({
+    username,
+    password: 'not-a-real-password',
+    role: 'player',
+    balance,
+  }).returning();
+  return user;
+}
+
+async function createRequest(userId: number, requestType: string, amount: number) {
+  const [request] = await db.insert(walletRequests).values({
+    userId,
+    amount,
+    requestType,
+    paymentMode: PaymentMode.UPI,
+    paymentDetails: { upiId: 'test@upi' },
+    status: RequestStatus.PENDING,
+  }).returning();
+  return request;
+}
+
+async function getBalance(userId: number) {
+  const [user] = await db.select({ balance: users.balance }).from(users).where(eq(users.id, userId));
+  return user.balance;
+}
+
+async function reviewInParallel(requestIds: number[], reviewerId: number) {
+  const attempts = [];
+  for (let i = 0; i < PARALLEL_REVIEWS; i++) {
+    for (const requestId of requestIds) {
+      attempts.push(reviewWalletRequest(requestId, reviewerId, RequestStatus.APPROVED));
+    }
+  }
+  return Promise.allSettled(attempts);
+}
+
+function expectOnlyReviewErrors(results: PromiseSettledResult<unknown>[]) {
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      assert.ok(result.reason instanceof WalletReviewError, `Unexpected error: ${result.reason}`);
+    }
+  }
+}
+
+async function testConcurrentDepositApprovals(reviewerId: number, createdUserIds: number[]) {
+  console.log(`\n1. ${PARALLEL_REVIEWS} parallel approvals of one deposit request`);
+  const player = await createTestUser(`concurrency_deposit_${Date.now()}`, 0);
+  createdUserIds.push(player.id);
+  const request = await createRequest(player.id, RequestType.DEPOSIT, 500 * 100);
+
+  const results = await reviewInParallel([request.id], reviewerId);
+  expectOnlyReviewErrors(results);
+
+  const approvals = results.filter(result => result.status === 'fulfilled');
+  assert.equal(approvals.length, 1, 'exactly one approval should succeed');
+  assert.equal(await getBalance(player.id), 500 * 100, 'deposit should be credited exactly once');
+
+  const rows = await db.select().from(transactions).where(eq(transactions.requestId, request.id));
+  assert.equal(rows.length, 1, 'exactly one transaction row should be written');
+  console.log('   ✓ one approval, one credit, one transaction row');
+}
+
+async function testReapprovalRefused(reviewerId: number, createdUserIds: number[]) {
+  console.log('\n2. Re-approving an approved request');
+  const player = await createTestUser(`concurrency_reapprove_${Date.now()}`, 0);
+  createdUserIds.push(player.id);
+  const request = await createRequest(player.id, RequestType.DEPOSIT, 100 * 100);
+
+  await reviewWalletRequest(request.id, reviewerId, RequestStatus.APPROVED);
+  await assert.rejects(
+    reviewWalletRequest(request.id, reviewerId, RequestStatus.APPROVED),
+    (error: unknown) => error instanceof WalletReviewError && error.status === 409
+  );
+  assert.equal(await getBalance(player.id), 100 * 100, 'balance should not change on re-approval');
+  console.log('   ✓ second approval refused with 409');
+}
+
+async function testOverdrawnWithdrawalRefused(reviewerId: number, createdUserIds: number[]) {
+  console.log('\n3. Withdrawal larger than the balance');
+  const player = await createTestUser(`concurrency_overdraw_${Date.now()}`, 100 * 100);
+  createdUserIds.push(player.id);
+  const request = await createRequest(player.id, RequestType.WITHDRAWAL, 150 * 100);
+
+  await assert.rejects(
+    reviewWalletRequest(request.id, reviewerId, RequestStatus.APPROVED),
+    (error: unknown) => error instanceof WalletReviewError && error.status === 400
+  );
+  const [unchanged] = await db.select().from(walletRequests).where(eq(walletRequests.id, request.id));
+  assert.equal(unchanged.status, RequestStatus.PENDING, 'refused withdrawal should stay pending');
+  assert.equal(await getBalance(player.id), 100 * 100);
+  console.log('   ✓ withdrawal refused, request left pending');
+}
+
+async function testCompetingWithdrawals(reviewerId: number, createdUserIds: number[]) {
+  console.log('\n4. Two withdrawals that only fit the balance one at a time');
+  const player = await createTestUser(`concurrency_withdraw_${Date.now()}`, 100 * 100);
+  createdUserIds.push(player.id);
+  const first = await createRequest(player.id, RequestType.WITHDRAWAL, 70 * 100);
+  const second = await createRequest(player.id, RequestType.WITHDRAWAL, 70 * 100);
+
+  const results = await reviewInParallel([first.id, second.id], reviewerId);
+  expectOnlyReviewErrors(results);
+
+  const approved = await db.select()
+    .from(walletRequests)
+    .where(inArray(walletRequests.id, [first.id, second.id]));
+  assert.equal(approved.filter(request => request.status === RequestStatus.APPROVED).length, 1,
+    'only one of the competing withdrawals should be approved');
+  assert.equal(await getBalance(player.id), 30 * 100, 'balance should never go negative');
+  console.log('   ✓ one withdrawal approved, balance stayed positive');
+}
+
+async function cleanup(userIds: number[]) {
+  if (!userIds.length) return;
+  const requests = await db.select({ id: walletRequests.id })
+    .from(walletRequests)
+    .where(inArray(walletRequests.userId, userIds));
+  const requestIds = requests.map(request => request.id);
+
+  await db.delete(transactions).where(inArray(transactions.userId, userIds));
+  if (requestIds.length) {
+    await db.delete(walletRequests).where(inArray(walletRequests.id, requestIds));
+  }
+  await pool.query(
+    `DELETE FROM journal_lines WHERE account_id IN (SELECT id FROM ledger_accounts WHERE owner_id = ANY($1))`,
+    [userIds]
+  );
+  await pool.query(`DELETE FROM ledger_accounts WHERE owner_id = ANY($1)`, [userIds]);
+  await db.delete(users).where(inArray(users.id, userIds));
+}
+
+async function run() {
+  const createdUserIds: number[] = [];
+  let failed = false;
+
+  try {
+    console.log('===== WALLET REVIEW CONCURRENCY =====');
+    const reviewer = await createTestUser(`concurrency_admin_${Date.now()}`, 0);
+    createdUserIds.push(reviewer.id);
+
+    await testConcurrentDepositApprovals(reviewer.id, createdUserIds);
+    await testReapprovalRefused(reviewer.id, createdUserIds);
+    await testOverdrawnWithdrawalRefused(reviewer.id, createdUserIds);
+    await testCompetingWithdrawals(reviewer.id, createdUserIds);
+
+    console.log('\n===== ALL CHECKS PASSED =====');
+  } catch (error) {
+    failed = true;
+    console.error('\n✗ Check failed:', error);
+  } finally {
+    await cleanup(createdUserIds).catch(error => console.error('Cleanup failed:', error));
+    await pool.end();
+    process.exit(failed ? 1 : 0);
+  }
+}
+
+run();